@@ -0,0 +1,3 @@
+// Runtime configuration - overwritten by the frontend container on start.
+// See scripts/frontend-entrypoint.sh.
+window.__APP_CONFIG__ = {};
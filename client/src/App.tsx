@@ -6,10 +6,16 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import Login from "@/pages/login";
+import ResetPassword from "@/pages/reset-password";
 import Dashboard from "@/pages/dashboard";
 import Analytics from "@/pages/analytics";
+import RefuelLog from "@/pages/refuel-log";
+import Alerts from "@/pages/alerts";
 import Users from "@/pages/users";
+import Sites from "@/pages/sites";
+import SiteDetail from "@/pages/site-detail";
 import SystemConfig from "@/pages/system-config";
+import AuditLog from "@/pages/audit-log";
 import NotFound from "@/pages/not-found";
 import { Card, CardContent } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
@@ -36,10 +42,16 @@ function AppContent() {
     <Switch>
       <Route path="/" component={Login} />
       <Route path="/login" component={Login} />
+      <Route path="/reset-password" component={ResetPassword} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/analytics" component={Analytics} />
+      <Route path="/refuels" component={RefuelLog} />
+      <Route path="/alerts" component={Alerts} />
       <Route path="/users" component={Users} />
+      <Route path="/sites" component={Sites} />
+      <Route path="/sites/:id" component={SiteDetail} />
       <Route path="/system-config" component={SystemConfig} />
+      <Route path="/audit-log" component={AuditLog} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import {
+  ALERT_SEVERITIES,
+  ALERT_THRESHOLD_UNITS,
+  ALERT_TYPES,
+  ALERT_TYPE_LABELS,
+  type AlertRule,
+  type AlertSeverity,
+  type AlertType,
+  type Site,
+} from "@shared/schema";
+
+const RULES_QUERY_KEY = "/api/alert-rules";
+
+function invalidateRules() {
+  queryClient.invalidateQueries({ queryKey: [RULES_QUERY_KEY] });
+  // Rule changes are applied straight away on the server
+  queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+}
+
+function parseThreshold(type: AlertType, value: string): number | null {
+  return ALERT_THRESHOLD_UNITS[type] === null || value.trim() === "" ? null : parseFloat(value);
+}
+
+function ThresholdInput({ type, value, onChange }: { type: AlertType; value: string; onChange: (value: string) => void }) {
+  const unit = ALERT_THRESHOLD_UNITS[type];
+  if (unit === null) {
+    return (
+      <span className="text-sm text-gray-500">
+        {type === "low_fuel" ? "Site's low fuel threshold" : "No threshold"}
+      </span>
+    );
+  }
+  return (
+    <div className="flex items-center space-x-2">
+      <Input type="number" value={value} onChange={(e) => onChange(e.target.value)} className="w-24" />
+      <span className="text-sm text-gray-500">{unit}</span>
+    </div>
+  );
+}
+
+function RuleRow({ rule, siteName }: { rule: AlertRule; siteName: string | null }) {
+  const { toast } = useToast();
+  const type = rule.type as AlertType;
+  const [threshold, setThreshold] = useState(rule.threshold === null ? "" : String(parseFloat(rule.threshold)));
+  const [severity, setSeverity] = useState(rule.severity as AlertSeverity);
+  const [isEnabled, setIsEnabled] = useState(rule.isEnabled);
+
+  const dirty = threshold !== (rule.threshold === null ? "" : String(parseFloat(rule.threshold))) ||
+    severity !== rule.severity ||
+    isEnabled !== rule.isEnabled;
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/alert-rules/${rule.id}`, {
+        threshold: parseThreshold(type, threshold),
+        severity,
+        isEnabled,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({ title: "Success", description: "Alert rule updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update alert rule", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/alert-rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({ title: "Success", description: "Site rule removed; the global rule applies again" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete alert rule", variant: "destructive" });
+    },
+  });
+
+  return (
+    <tr className="hover:bg-gray-50">
+      <td className="px-4 py-3">
+        {siteName === null ? (
+          <Badge className="bg-blue-100 text-blue-800">All sites</Badge>
+        ) : (
+          <span className="font-medium text-gray-900">{siteName}</span>
+        )}
+      </td>
+      <td className="px-4 py-3 text-gray-900">{ALERT_TYPE_LABELS[type]}</td>
+      <td className="px-4 py-3">
+        <ThresholdInput type={type} value={threshold} onChange={setThreshold} />
+      </td>
+      <td className="px-4 py-3">
+        <Select value={severity} onValueChange={(value) => setSeverity(value as AlertSeverity)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_SEVERITIES.map((option) => (
+              <SelectItem key={option} value={option} className="capitalize">
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+      <td className="px-4 py-3 text-center">
+        <Switch checked={isEnabled} onCheckedChange={setIsEnabled} />
+      </td>
+      <td className="px-4 py-3">
+        <div className="flex justify-end space-x-2">
+          <Button size="sm" disabled={!dirty || updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+            {updateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          </Button>
+          {siteName !== null && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="border-red-200 text-red-600 hover:bg-red-50"
+              title="Remove site rule"
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate()}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+// Global alert rules and per-site overrides, for admins.
+export default function AlertRulesCard({ sites }: { sites: Site[] }) {
+  const { toast } = useToast();
+  const [newRule, setNewRule] = useState({
+    siteId: "",
+    type: "low_fuel" as AlertType,
+    threshold: "",
+    severity: "warning" as AlertSeverity,
+  });
+
+  const { data: rules, isLoading } = useQuery<AlertRule[]>({
+    queryKey: [RULES_QUERY_KEY],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", RULES_QUERY_KEY, {
+        siteId: parseInt(newRule.siteId, 10),
+        type: newRule.type,
+        threshold: parseThreshold(newRule.type, newRule.threshold),
+        severity: newRule.severity,
+        isEnabled: true,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateRules();
+      setNewRule((prev) => ({ ...prev, threshold: "" }));
+      toast({ title: "Success", description: "Site rule added" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add alert rule", variant: "destructive" });
+    },
+  });
+
+  const siteNames = new Map(sites.map((site) => [site.id, site.name]));
+  const globalRules = rules?.filter((rule) => rule.siteId === null) ?? [];
+  const siteRules = rules?.filter((rule) => rule.siteId !== null) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-blue-600" />
+          Alert Rules
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Global rules apply to every site; a site rule replaces the global rule of the same type for that site.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Applies To</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Alert</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Threshold</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Severity</th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-700">Enabled</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {[...globalRules, ...siteRules].map((rule) => (
+                  <RuleRow
+                    key={rule.id}
+                    rule={rule}
+                    siteName={rule.siteId === null ? null : siteNames.get(rule.siteId) ?? `Site ${rule.siteId}`}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="p-4 border rounded-lg border-blue-200 space-y-4">
+          <Label className="text-base font-medium">Add Site Rule</Label>
+          <div className="flex items-end gap-4 flex-wrap">
+            <div className="space-y-2">
+              <Label>Site</Label>
+              <Select value={newRule.siteId} onValueChange={(siteId) => setNewRule((prev) => ({ ...prev, siteId }))}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select a site" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sites.map((site) => (
+                    <SelectItem key={site.id} value={String(site.id)}>
+                      {site.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Alert</Label>
+              <Select
+                value={newRule.type}
+                onValueChange={(type) => setNewRule((prev) => ({ ...prev, type: type as AlertType, threshold: "" }))}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {ALERT_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Threshold</Label>
+              <div className="h-10 flex items-center">
+                <ThresholdInput
+                  type={newRule.type}
+                  value={newRule.threshold}
+                  onChange={(threshold) => setNewRule((prev) => ({ ...prev, threshold }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select
+                value={newRule.severity}
+                onValueChange={(severity) => setNewRule((prev) => ({ ...prev, severity: severity as AlertSeverity }))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_SEVERITIES.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              disabled={!newRule.siteId || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import EscalationPolicyDialog, {
+  type EscalationPolicyRequestBody,
+} from "@/components/alerts/escalation-policy-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronRight, Edit, Loader2, Plus, Siren, Trash2 } from "lucide-react";
+import {
+  ESCALATION_TARGET_LABELS,
+  type EscalationPolicyWithSteps,
+  type EscalationTarget,
+  type OnCallRotation,
+  type Site,
+} from "@shared/schema";
+
+const POLICIES_QUERY_KEY = "/api/escalation-policies";
+
+function formatDelay(minutes: number) {
+  if (minutes === 0) return "immediately";
+  if (minutes % 60 === 0) return `after ${minutes / 60}h`;
+  return minutes > 60 ? `after ${Math.floor(minutes / 60)}h ${minutes % 60}m` : `after ${minutes} min`;
+}
+
+// Who an unacknowledged alert is escalated to and when, globally and per
+// site, for admins.
+export default function EscalationPoliciesCard({ sites }: { sites: Site[] }) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<EscalationPolicyWithSteps | null>(null);
+  const [deleting, setDeleting] = useState<EscalationPolicyWithSteps | null>(null);
+
+  const { data: policies, isLoading } = useQuery<EscalationPolicyWithSteps[]>({
+    queryKey: [POLICIES_QUERY_KEY],
+  });
+
+  const { data: rotations } = useQuery<OnCallRotation[]>({
+    queryKey: ["/api/on-call-rotations"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: EscalationPolicyRequestBody) => {
+      const response = editing
+        ? await apiRequest("PUT", `${POLICIES_QUERY_KEY}/${editing.id}`, data)
+        : await apiRequest("POST", POLICIES_QUERY_KEY, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [POLICIES_QUERY_KEY] });
+      toast({ title: "Success", description: editing ? "Escalation policy updated" : "Escalation policy created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save escalation policy", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${POLICIES_QUERY_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [POLICIES_QUERY_KEY] });
+      toast({ title: "Success", description: "Site policy removed; the global policy applies again" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete escalation policy", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (policy: EscalationPolicyWithSteps | null) => {
+    setEditing(policy);
+    setDialogOpen(true);
+  };
+
+  const siteName = (siteId: number) => sites.find((site) => site.id === siteId)?.name ?? `Site ${siteId}`;
+  const availableSites = sites.filter((site) => !policies?.some((policy) => policy.siteId === site.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Siren className="h-5 w-5 text-blue-600" />
+            Escalation Policies
+          </span>
+          <Button size="sm" disabled={availableSites.length === 0} onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Site Policy
+          </Button>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Steps are counted from when an alert opened and stop once it is acknowledged. Managers and
+          supervisors are the users assigned to the site in that role.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 border rounded-lg">
+            {policies?.map((policy) => (
+              <div key={policy.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="space-y-2 min-w-0">
+                  <div className="flex items-center gap-2">
+                    {policy.siteId === null ? (
+                      <Badge className="bg-blue-100 text-blue-800">All sites</Badge>
+                    ) : (
+                      <span className="font-medium text-gray-900">{siteName(policy.siteId)}</span>
+                    )}
+                    <span className="text-sm text-gray-500">{policy.name}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 text-sm">
+                    {policy.steps.map((step, index) => (
+                      <span key={step.id} className="flex items-center gap-1">
+                        {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+                        <Badge variant="outline">
+                          {ESCALATION_TARGET_LABELS[step.target as EscalationTarget] ?? step.target}
+                          <span className="ml-1 font-normal text-gray-500">{formatDelay(step.delayMinutes)}</span>
+                        </Badge>
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    After hours: {policy.rotationId === null
+                      ? "no on-call rotation"
+                      : rotations?.find((rotation) => rotation.id === policy.rotationId)?.name ?? "on-call rotation"}
+                  </div>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" title="Edit policy" onClick={() => openDialog(policy)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  {policy.siteId !== null && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-red-200 text-red-600 hover:bg-red-50"
+                      title="Remove site policy"
+                      onClick={() => setDeleting(policy)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <EscalationPolicyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        policy={editing}
+        availableSites={availableSites}
+        rotations={rotations ?? []}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+        isLoading={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Site Policy</AlertDialogTitle>
+            <AlertDialogDescription>
+              Alerts at {deleting?.siteId ? siteName(deleting.siteId) : "this site"} will be escalated
+              by the global policy instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Remove Policy
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2, Plus, Siren, Trash2 } from "lucide-react";
+import {
+  ESCALATION_TARGETS,
+  ESCALATION_TARGET_LABELS,
+  MAX_ESCALATION_STEPS,
+  type EscalationPolicyWithSteps,
+  type EscalationTarget,
+  type OnCallRotation,
+  type Site,
+} from "@shared/schema";
+
+const NO_ROTATION = "none";
+
+const policyFormSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  siteId: z.string(),
+  rotationId: z.string(),
+  steps: z.array(z.object({
+    target: z.enum(ESCALATION_TARGETS),
+    delayMinutes: z.coerce.number().int("Whole minutes only").min(0, "Delay cannot be negative"),
+  })).min(1, "Add at least one step").max(MAX_ESCALATION_STEPS),
+});
+
+type PolicyFormValues = z.infer<typeof policyFormSchema>;
+
+export type EscalationPolicyRequestBody = {
+  name: string;
+  siteId?: number;
+  rotationId: number | null;
+  steps: Array<{ target: EscalationTarget; delayMinutes: number }>;
+};
+
+interface EscalationPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy?: EscalationPolicyWithSteps | null;
+  // Sites that do not have a policy yet
+  availableSites: Site[];
+  rotations: OnCallRotation[];
+  onSubmit: (data: EscalationPolicyRequestBody) => Promise<void>;
+  isLoading: boolean;
+}
+
+export default function EscalationPolicyDialog({
+  open,
+  onOpenChange,
+  policy,
+  availableSites,
+  rotations,
+  onSubmit,
+  isLoading,
+}: EscalationPolicyDialogProps) {
+  const isEdit = !!policy;
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues: { name: "", siteId: "", rotationId: NO_ROTATION, steps: [] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "steps" });
+
+  // Reset form when dialog opens or the policy changes
+  useEffect(() => {
+    if (open && policy) {
+      form.reset({
+        name: policy.name,
+        siteId: policy.siteId === null ? "" : String(policy.siteId),
+        rotationId: policy.rotationId === null ? NO_ROTATION : String(policy.rotationId),
+        steps: policy.steps.map((step) => ({ target: step.target as EscalationTarget, delayMinutes: step.delayMinutes })),
+      });
+    } else if (open) {
+      form.reset({
+        name: "",
+        siteId: "",
+        rotationId: NO_ROTATION,
+        steps: [
+          { target: "manager", delayMinutes: 0 },
+          { target: "supervisor", delayMinutes: 30 },
+          { target: "admin", delayMinutes: 60 },
+        ],
+      });
+    }
+  }, [open, policy, form]);
+
+  const handleSubmit = async (data: PolicyFormValues) => {
+    if (!isEdit && !data.siteId) {
+      form.setError("siteId", { message: "Please select a site" });
+      return;
+    }
+
+    try {
+      await onSubmit({
+        name: data.name,
+        ...(isEdit ? {} : { siteId: parseInt(data.siteId, 10) }),
+        rotationId: data.rotationId === NO_ROTATION ? null : parseInt(data.rotationId, 10),
+        steps: data.steps,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Escalation policy form submission error:", error);
+    }
+  };
+
+  const lastDelay = fields.length > 0 ? form.watch(`steps.${fields.length - 1}.delayMinutes`) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Siren className="h-5 w-5 text-primary" />
+            {isEdit ? "Edit Escalation Policy" : "Add Site Policy"}
+          </DialogTitle>
+          <DialogDescription>
+            Each step is notified once an alert has been open that long without being acknowledged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Borrowdale" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!isEdit && (
+              <FormField
+                control={form.control}
+                name="siteId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Site</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a site" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {availableSites.map((site) => (
+                          <SelectItem key={site.id} value={String(site.id)}>
+                            {site.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Replaces the global policy for this site</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="space-y-3">
+              <FormLabel>Steps</FormLabel>
+              {fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-3">
+                  <span className="w-6 pt-2 text-sm text-gray-500">{index + 1}.</span>
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.target`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ESCALATION_TARGETS.map((target) => (
+                              <SelectItem key={target} value={target}>
+                                {ESCALATION_TARGET_LABELS[target]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.delayMinutes`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center space-x-2">
+                          <FormControl>
+                            <Input type="number" min={0} className="w-24" {...field} />
+                          </FormControl>
+                          <span className="text-sm text-gray-500">min</span>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="border-red-200 text-red-600 hover:bg-red-50 mt-0.5"
+                    title="Remove step"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={fields.length >= MAX_ESCALATION_STEPS}
+                onClick={() => append({ target: "admin", delayMinutes: Number(lastDelay) + 30 })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Step
+              </Button>
+              <FormMessage>{form.formState.errors.steps?.root?.message ?? form.formState.errors.steps?.message}</FormMessage>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="rotationId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>After-hours On-call Rotation</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_ROTATION}>None</SelectItem>
+                      {rotations.map((rotation) => (
+                        <SelectItem key={rotation.id} value={String(rotation.id)}>
+                          {rotation.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Outside business hours whoever is on call is notified along with the first step
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEdit ? "Update Policy" : "Create Policy"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
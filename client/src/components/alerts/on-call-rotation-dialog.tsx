@@ -0,0 +1,198 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarClock, Loader2 } from "lucide-react";
+import type { OnCallRotation, User } from "@shared/schema";
+
+const rotationFormSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  memberIds: z.array(z.number()).min(1, "Add at least one member"),
+  startsAt: z.string().min(1, "Please enter when the rotation starts"),
+});
+
+type RotationFormValues = z.infer<typeof rotationFormSchema>;
+
+export type OnCallRotationRequestBody = {
+  name: string;
+  memberIds: number[];
+  startsAt: string;
+};
+
+interface OnCallRotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rotation?: OnCallRotation | null;
+  users: Omit<User, "password">[];
+  onSubmit: (data: OnCallRotationRequestBody) => Promise<void>;
+  isLoading: boolean;
+}
+
+// datetime-local wants local time without a zone
+function toLocalInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Next Monday 18:00, when the working week hands over to after-hours cover
+function nextMondayEvening(): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+  date.setHours(18, 0, 0, 0);
+  return date;
+}
+
+export default function OnCallRotationDialog({
+  open,
+  onOpenChange,
+  rotation,
+  users,
+  onSubmit,
+  isLoading,
+}: OnCallRotationDialogProps) {
+  const isEdit = !!rotation;
+
+  const form = useForm<RotationFormValues>({
+    resolver: zodResolver(rotationFormSchema),
+    defaultValues: { name: "", memberIds: [], startsAt: "" },
+  });
+
+  // Reset form when dialog opens or the rotation changes
+  useEffect(() => {
+    if (open && rotation) {
+      form.reset({
+        name: rotation.name,
+        memberIds: rotation.memberIds,
+        startsAt: toLocalInput(new Date(rotation.startsAt)),
+      });
+    } else if (open) {
+      form.reset({ name: "", memberIds: [], startsAt: toLocalInput(nextMondayEvening()) });
+    }
+  }, [open, rotation, form]);
+
+  const handleSubmit = async (data: RotationFormValues) => {
+    try {
+      await onSubmit({ ...data, startsAt: new Date(data.startsAt).toISOString() });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("On-call rotation form submission error:", error);
+    }
+  };
+
+  const activeUsers = users.filter((user) => user.isActive);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            {isEdit ? "Edit On-call Rotation" : "Add On-call Rotation"}
+          </DialogTitle>
+          <DialogDescription>
+            Members take a week each, in the order they were ticked, starting at the given time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. After hours" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="memberIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Members</FormLabel>
+                  <div className="space-y-2 border rounded-lg p-3 max-h-56 overflow-y-auto">
+                    {activeUsers.map((user) => {
+                      const position = field.value.indexOf(user.id);
+                      return (
+                        <div key={user.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`member-${user.id}`}
+                            checked={position !== -1}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, user.id] : field.value.filter((id) => id !== user.id),
+                            )}
+                          />
+                          <label htmlFor={`member-${user.id}`} className="text-sm cursor-pointer flex-1">
+                            {user.fullName} <span className="text-gray-500 capitalize">({user.role})</span>
+                          </label>
+                          {position !== -1 && <span className="text-xs text-gray-500">Week {position + 1}</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startsAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>First Handover</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormDescription>Later handovers fall a week apart at the same time</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEdit ? "Update Rotation" : "Create Rotation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
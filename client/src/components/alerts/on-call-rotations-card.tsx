@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import OnCallRotationDialog, {
+  type OnCallRotationRequestBody,
+} from "@/components/alerts/on-call-rotation-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import type { OnCallRotationEntry, User } from "@shared/schema";
+
+const ROTATIONS_QUERY_KEY = "/api/on-call-rotations";
+
+// Weekly after-hours rotations and who is on call right now, for admins.
+export default function OnCallRotationsCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<OnCallRotationEntry | null>(null);
+  const [deleting, setDeleting] = useState<OnCallRotationEntry | null>(null);
+
+  const { data: rotations, isLoading } = useQuery<OnCallRotationEntry[]>({
+    queryKey: [ROTATIONS_QUERY_KEY],
+  });
+
+  const { data: users } = useQuery<Omit<User, "password">[]>({
+    queryKey: ["/api/users"],
+    staleTime: 30000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: OnCallRotationRequestBody) => {
+      const response = editing
+        ? await apiRequest("PUT", `${ROTATIONS_QUERY_KEY}/${editing.id}`, data)
+        : await apiRequest("POST", ROTATIONS_QUERY_KEY, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ROTATIONS_QUERY_KEY] });
+      toast({ title: "Success", description: editing ? "On-call rotation updated" : "On-call rotation created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save on-call rotation", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${ROTATIONS_QUERY_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ROTATIONS_QUERY_KEY] });
+      toast({ title: "Success", description: "On-call rotation deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete on-call rotation", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (rotation: OnCallRotationEntry | null) => {
+    setEditing(rotation);
+    setDialogOpen(true);
+  };
+
+  const userName = (id: number) => users?.find((user) => user.id === id)?.fullName ?? `User ${id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-blue-600" />
+            On-call Rotations
+          </span>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rotation
+          </Button>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Outside business hours the member on call is notified with the first step of every policy
+          that uses the rotation.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : rotations && rotations.length > 0 ? (
+          <div className="divide-y divide-gray-200 border rounded-lg">
+            {rotations.map((rotation) => (
+              <div key={rotation.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="space-y-2 min-w-0">
+                  <div className="font-medium text-gray-900">{rotation.name}</div>
+                  <div className="flex flex-wrap gap-1">
+                    {rotation.memberIds.map((id) => id === rotation.onCallUserId ? (
+                      <Badge key={id} className="bg-green-100 text-green-800 border-green-200">
+                        {userName(id)} (on call)
+                      </Badge>
+                    ) : (
+                      <Badge key={id} variant="outline">{userName(id)}</Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {rotation.onCallUserId === null ? "Starts" : "Next handover"}{" "}
+                    {new Date(rotation.nextHandoffAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex space-x-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" title="Edit rotation" onClick={() => openDialog(rotation)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-red-200 text-red-600 hover:bg-red-50"
+                    title="Delete rotation"
+                    onClick={() => setDeleting(rotation)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">
+            No on-call rotations yet. Add one to cover alerts that open outside business hours.
+          </p>
+        )}
+      </CardContent>
+
+      <OnCallRotationDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rotation={editing}
+        users={users ?? []}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+        isLoading={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete On-call Rotation</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} is deleted. Rotations still used by an escalation policy cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Delete Rotation
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import TwoFactorEnrollment, { CodeInput, RecoveryCodes } from "./two-factor-enrollment";
+import type { TwoFactorEnableResponse, TwoFactorStatusResponse } from "@shared/schema";
+
+const STATUS_QUERY_KEY = "/api/auth/2fa";
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The signed-in user's own two-factor settings. Changes other than turning
+// it on need a current code from the app.
+export default function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatusResponse>({
+    queryKey: [STATUS_QUERY_KEY],
+    enabled: open,
+  });
+
+  // Start clean each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCode("");
+      setNewCodes(null);
+    }
+  }, [open]);
+
+  const onError = (error: any) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update two-factor authentication",
+      variant: "destructive",
+    });
+  };
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json() as Promise<TwoFactorEnableResponse>;
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      setCode("");
+      setNewCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: [STATUS_QUERY_KEY] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/disable", { code });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [STATUS_QUERY_KEY] });
+      toast({ title: "Success", description: "Two-factor authentication turned off" });
+      onOpenChange(false);
+    },
+    onError,
+  });
+
+  const isPending = recoveryCodesMutation.isPending || disableMutation.isPending;
+
+  const renderContent = () => {
+    if (isLoading || !status) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <TwoFactorEnrollment
+          onComplete={() => {
+            queryClient.invalidateQueries({ queryKey: [STATUS_QUERY_KEY] });
+            toast({ title: "Success", description: "Two-factor authentication turned on" });
+            onOpenChange(false);
+          }}
+        />
+      );
+    }
+
+    if (newCodes) {
+      return (
+        <div className="space-y-4">
+          <RecoveryCodes codes={newCodes} />
+          <Button className="w-full" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <Badge className="bg-green-100 text-green-800">On</Badge>
+          <span className={status.recoveryCodesRemaining <= 2 ? "text-orange-600" : "text-gray-600"}>
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+          </span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Enter a code from your authenticator app to replace your recovery codes
+          {status.required ? "." : " or turn two-factor authentication off."}
+        </p>
+        <CodeInput value={code} onChange={setCode} disabled={isPending} />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={code.length !== 6 || isPending}
+            onClick={() => recoveryCodesMutation.mutate()}
+          >
+            {recoveryCodesMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="destructive"
+              className="flex-1"
+              disabled={code.length !== 6 || isPending}
+              onClick={() => disableMutation.mutate()}
+            >
+              {disableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Turn Off
+            </Button>
+          )}
+        </div>
+        {status.required && (
+          <p className="text-xs text-gray-500">Your role requires two-factor authentication, so it cannot be turned off.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Sign-ins also ask for a code from an authenticator app on your phone.
+          </DialogDescription>
+        </DialogHeader>
+        {open && renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
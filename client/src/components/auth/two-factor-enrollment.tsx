@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Loader2 } from "lucide-react";
+import type { TwoFactorEnableResponse, TwoFactorSetupResponse } from "@shared/schema";
+
+// apiRequest errors read "<status>: <message>"
+export function errorMessage(error: Error) {
+  return error.message.replace(/^\d{3}: /, "");
+}
+
+interface CodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six digits from the authenticator app
+export function CodeInput({ value, onChange, onComplete, disabled }: CodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^\d*$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      autoFocus
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Success", description: "Recovery codes copied" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the codes. Write them down instead.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Keep these codes somewhere safe. Each one signs you in once if you lose your phone. They are not shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-4 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="w-4 h-4 mr-2" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
+
+interface TwoFactorEnrollmentProps {
+  // While signing in; without it the current session is used
+  challengeToken?: string;
+  onComplete: (response: TwoFactorEnableResponse) => void;
+}
+
+// Shows a new secret as a QR code, confirms a code from the app and then the
+// recovery codes. Nothing changes until the code is confirmed.
+export default function TwoFactorEnrollment({ challengeToken, onComplete }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = useState("");
+  const [enabled, setEnabled] = useState<TwoFactorEnableResponse | null>(null);
+
+  // A query rather than a mutation so the secret is created once per mount
+  const { data: setup, error: setupError, isLoading } = useQuery<TwoFactorSetupResponse, Error>({
+    queryKey: ["/api/auth/2fa/setup", challengeToken],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup", { challengeToken });
+      return response.json();
+    },
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { challengeToken, code: value });
+      return response.json() as Promise<TwoFactorEnableResponse>;
+    },
+    onSuccess: setEnabled,
+    onError: () => setCode(""),
+  });
+
+  if (enabled) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={enabled.recoveryCodes} />
+        <Button className="w-full" onClick={() => onComplete(enabled)}>
+          I Have Saved My Codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (setupError || !setup) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{setupError ? errorMessage(setupError) : "Two-factor setup is not available"}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        enableMutation.mutate(code);
+      }}
+      className="space-y-4"
+    >
+      <p className="text-sm text-gray-600">
+        Scan this code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+        then enter the 6-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48" />
+      <p className="text-center text-xs text-gray-500">
+        Cannot scan? Enter this key instead:
+        <span className="mt-1 block break-all font-mono text-sm text-gray-900">{setup.secret}</span>
+      </p>
+      {enableMutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{errorMessage(enableMutation.error)}</AlertDescription>
+        </Alert>
+      )}
+      <CodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={(value) => enableMutation.mutate(value)}
+        disabled={enableMutation.isPending}
+      />
+      <Button type="submit" className="w-full" disabled={code.length !== 6 || enableMutation.isPending}>
+        {enableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Turn On Two-Factor
+      </Button>
+    </form>
+  );
+}
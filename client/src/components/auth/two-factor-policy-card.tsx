@@ -0,0 +1,100 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, ShieldCheck } from "lucide-react";
+import type { TwoFactorPolicyResponse, User } from "@shared/schema";
+
+const POLICY_QUERY_KEY = "/api/security/two-factor-policy";
+
+type PolicyRole = TwoFactorPolicyResponse["requiredRoles"][number];
+
+const ROLES: Array<{ role: PolicyRole; label: string }> = [
+  { role: "admin", label: "Administrators" },
+  { role: "supervisor", label: "Supervisors" },
+  { role: "manager", label: "Managers" },
+];
+
+// Which roles must sign in with an authenticator app, with how many of
+// their active users have one set up.
+export default function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+
+  const { data: policy, isLoading } = useQuery<TwoFactorPolicyResponse>({
+    queryKey: [POLICY_QUERY_KEY],
+  });
+
+  const { data: users } = useQuery<Omit<User, "password">[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (requiredRoles: PolicyRole[]) => {
+      const response = await apiRequest("PUT", POLICY_QUERY_KEY, { requiredRoles });
+      return response.json() as Promise<TwoFactorPolicyResponse>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData([POLICY_QUERY_KEY], updated);
+      toast({ title: "Success", description: "Two-factor policy saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save two-factor policy", variant: "destructive" });
+    },
+  });
+
+  const setRequired = (role: PolicyRole, required: boolean) => {
+    const others = (policy?.requiredRoles ?? []).filter((existing) => existing !== role);
+    policyMutation.mutate(required ? [...others, role] : others);
+  };
+
+  const enrolment = (role: PolicyRole) => {
+    const active = (users ?? []).filter((user) => user.role === role && user.isActive);
+    const enrolled = active.filter((user) => user.twoFactorEnabledAt).length;
+    return `${enrolled} of ${active.length} set up`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-blue-600" />
+          Two-Factor Authentication
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Users of a required role confirm every sign-in with a code from an authenticator app. Those who have not
+          set one up yet are asked to at their next sign-in. Anyone can turn it on for themselves from their user
+          menu.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {ROLES.map(({ role, label }) => (
+              <div key={role} className="flex items-center justify-between py-3">
+                <div>
+                  <Label htmlFor={`two-factor-${role}`} className="font-medium text-gray-900">
+                    Require for {label.toLowerCase()}
+                  </Label>
+                  {users && <p className="text-sm text-gray-500">{enrolment(role)}</p>}
+                </div>
+                <Switch
+                  id={`two-factor-${role}`}
+                  checked={policy?.requiredRoles.includes(role) ?? false}
+                  disabled={!policy || policyMutation.isPending}
+                  onCheckedChange={(required) => setRequired(role, required)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,6 +24,8 @@ export default function ActivityTable({ activities }: ActivityTableProps) {
         return <Badge className="bg-red-100 text-red-800">Low Fuel</Badge>;
       case 'generator off':
         return <Badge className="bg-yellow-100 text-yellow-800">Generator Off</Badge>;
+      case 'suspected theft':
+        return <Badge className="bg-purple-100 text-purple-800">Suspected Theft</Badge>;
       case 'normal':
         return <Badge className="bg-green-100 text-green-800">Normal</Badge>;
       default:
@@ -1,7 +1,12 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Fuel, Thermometer, Zap, Power, Wifi } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import TankProfileDialog from "@/components/sites/tank-profile-dialog";
+import { Fuel, Thermometer, Zap, Power, Wifi, ShieldAlert, Ruler } from "lucide-react";
 import { type SiteWithReadings } from "@shared/schema";
 
 interface SiteCardProps {
@@ -9,17 +14,25 @@ interface SiteCardProps {
 }
 
 export default function SiteCard({ site }: SiteCardProps) {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [tankDialogOpen, setTankDialogOpen] = useState(false);
+
+  // Red below the site's low fuel threshold, amber up to twice that
+  const lowFuelThreshold = parseFloat(site.lowFuelThreshold);
+  const warningThreshold = Math.min(100, lowFuelThreshold * 2);
+
   const getFuelLevelColor = (percentage: number) => {
     if (percentage === 0) return "bg-red-600"; // Empty tank - critical
-    if (percentage < 25) return "bg-red-500";
-    if (percentage < 50) return "bg-yellow-500";
+    if (percentage < lowFuelThreshold) return "bg-red-500";
+    if (percentage < warningThreshold) return "bg-yellow-500";
     return "bg-green-500";
   };
 
   const getFuelLevelTextColor = (percentage: number) => {
     if (percentage === 0) return "text-red-700"; // Empty tank - critical
-    if (percentage < 25) return "text-red-600";
-    if (percentage < 50) return "text-yellow-600";
+    if (percentage < lowFuelThreshold) return "text-red-600";
+    if (percentage < warningThreshold) return "text-yellow-600";
     return "text-green-600";
   };
 
@@ -31,16 +44,20 @@ export default function SiteCard({ site }: SiteCardProps) {
     return <div className={`${baseClasses} bg-gray-400 shadow-sm`} title={`${type} Offline`} />;
   };
 
-  const getAlertBadge = (alertStatus: string, fuelLevel: number) => {
+  const getAlertBadge = (alertStatus: SiteWithReadings['alertStatus']) => {
     switch (alertStatus) {
+      case 'tank_empty':
+        return <Badge variant="destructive" className="bg-red-100 text-red-800 border-red-200">Empty Tank</Badge>;
       case 'low_fuel':
-        return (
-          <Badge variant="destructive" className="bg-red-100 text-red-800 border-red-200">
-            {fuelLevel === 0 ? 'Empty Tank' : 'Low Fuel'}
-          </Badge>
-        );
+        return <Badge variant="destructive" className="bg-red-100 text-red-800 border-red-200">Low Fuel</Badge>;
       case 'generator_off':
         return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">Generator Off</Badge>;
+      case 'temperature_high':
+        return <Badge className="bg-orange-100 text-orange-800 border-orange-200">High Temperature</Badge>;
+      case 'device_offline':
+        return <Badge className="bg-gray-100 text-gray-800 border-gray-200">Device Offline</Badge>;
+      case 'suspected_theft':
+        return <Badge className="bg-purple-100 text-purple-800 border-purple-200">Suspected Theft</Badge>;
       default:
         return <Badge className="bg-green-100 text-green-800 border-green-200">Normal</Badge>;
     }
@@ -112,7 +129,13 @@ export default function SiteCard({ site }: SiteCardProps) {
   // Handle zero and undefined values properly - INCLUDE zeros as valid
   const fuelLevel = Math.max(0, Math.min(100, site.fuelLevelPercentage ?? 0));
   const fuelVolume = site.latestReading?.fuelVolume ? parseFloat(site.latestReading.fuelVolume) : 0;
+  // Shown when the calibrated volume and the device's own reading disagree
+  const sensorVolume = site.latestReading?.sensorFuelVolume ? parseFloat(site.latestReading.sensorFuelVolume) : null;
+  const showSensorVolume = sensorVolume !== null && Math.abs(sensorVolume - fuelVolume) >= 1;
   const temperature = site.latestReading?.temperature ? parseFloat(site.latestReading.temperature) : 0;
+  const tankEmpty = site.activeAlerts.some((alert) => alert.type === 'tank_empty');
+  // Alerts beyond the one the badge shows
+  const otherAlerts = site.activeAlerts.filter((alert) => alert.type !== site.alertStatus);
 
   // Clean up the site name
   const cleanSiteName = site.name
@@ -128,7 +151,8 @@ export default function SiteCard({ site }: SiteCardProps) {
 
   return (
     <Card className="bg-white hover:shadow-md transition-shadow duration-200 border border-gray-200">
-      <CardContent className="p-6">
+      {/* The dialog sits outside the clickable area so clicks inside it do not open the site */}
+      <CardContent className="p-6 cursor-pointer" onClick={() => setLocation(`/sites/${site.id}`)}>
         {/* Header Section */}
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center">
@@ -155,6 +179,20 @@ export default function SiteCard({ site }: SiteCardProps) {
             <div className="flex items-center">
               {getWifiStatusIndicator()}
             </div>
+            {user?.role === 'admin' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Tank calibration"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setTankDialogOpen(true);
+                }}
+              >
+                <Ruler className="w-3 h-3 text-gray-500" />
+              </Button>
+            )}
           </div>
         </div>
         
@@ -166,7 +204,7 @@ export default function SiteCard({ site }: SiteCardProps) {
               <span className={`font-bold text-2xl ${getFuelLevelTextColor(fuelLevel)}`}>
                 {fuelLevel.toFixed(1)}%
               </span>
-              {fuelLevel === 0 && (
+              {tankEmpty && (
                 <span className="text-xs bg-red-100 text-red-700 px-2 py-1 rounded-full font-medium">
                   EMPTY
                 </span>
@@ -191,6 +229,11 @@ export default function SiteCard({ site }: SiteCardProps) {
                 <div className={`font-medium ${fuelVolume === 0 ? 'text-red-600' : 'text-gray-900'}`}>
                   {fuelVolume.toFixed(0)}L
                 </div>
+                {showSensorVolume && (
+                  <div className="text-xs text-gray-500" title="Volume reported by the sensor">
+                    Sensor: {sensorVolume.toFixed(0)}L
+                  </div>
+                )}
               </div>
             </div>
             
@@ -205,9 +248,18 @@ export default function SiteCard({ site }: SiteCardProps) {
             </div>
           </div>
           
-          {/* Alert Badge - Enhanced for empty tanks */}
-          <div className="pt-3">
-            {getAlertBadge(site.alertStatus, fuelLevel)}
+          {/* Alert Badge - the most pressing unresolved alert */}
+          <div className="pt-3 flex items-center gap-2">
+            {getAlertBadge(site.alertStatus)}
+            {otherAlerts.length > 0 && (
+              <Badge
+                variant="outline"
+                className="text-gray-600"
+                title={otherAlerts.map((alert) => alert.message).join('\n')}
+              >
+                +{otherAlerts.length} more
+              </Badge>
+            )}
           </div>
           
           {/* Fuel Level Last Updated */}
@@ -221,8 +273,24 @@ export default function SiteCard({ site }: SiteCardProps) {
             )}
           </div>
 
-          {/* Special indicator for zero fuel level */}
-          {fuelLevel === 0 && (
+          {/* Unexplained drop while the generator was off */}
+          {site.activeIncident && (
+            <div className="pt-2 border-t border-purple-200">
+              <div className="flex items-start text-xs text-purple-800 bg-purple-50 px-2 py-1 rounded">
+                <ShieldAlert className="w-3 h-3 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  <span className="font-medium">
+                    {parseFloat(site.activeIncident.litersLost).toFixed(0)}L lost with generator off
+                  </span>
+                  {' '}({parseFloat(site.activeIncident.volumeBefore).toFixed(0)}L → {parseFloat(site.activeIncident.volumeAfter).toFixed(0)}L),
+                  {' '}{formatLastUpdated(site.activeIncident.startedAt)} – {formatLastUpdated(site.activeIncident.endedAt)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Special indicator for an empty tank */}
+          {tankEmpty && (
             <div className="pt-2 border-t border-red-200">
               <div className="flex items-center text-xs text-red-700 bg-red-50 px-2 py-1 rounded">
                 <div className="w-2 h-2 bg-red-500 rounded-full mr-2 animate-pulse"></div>
@@ -232,6 +300,10 @@ export default function SiteCard({ site }: SiteCardProps) {
           )}
         </div>
       </CardContent>
+
+      {user?.role === 'admin' && (
+        <TankProfileDialog open={tankDialogOpen} onOpenChange={setTankDialogOpen} site={site} />
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -40,7 +40,7 @@ export default function StatusOverview({ systemStatus }: StatusOverviewProps) {
               <AlertTriangle className="text-red-500 text-xl mr-3" />
               <div>
                 <p className="font-medium text-gray-900">Low Fuel Alerts</p>
-                <p className="text-sm text-gray-600">Sites below 25% threshold</p>
+                <p className="text-sm text-gray-600">Sites below their low fuel threshold</p>
               </div>
             </div>
             <span className="text-2xl font-bold text-red-500">
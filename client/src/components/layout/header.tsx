@@ -1,18 +1,58 @@
 // client/src/components/layout/header.tsx - Updated without admin toggle
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { 
   DropdownMenu, 
+  DropdownMenuCheckboxItem,
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
-import { Fuel, ChevronDown, LogOut, User } from "lucide-react";
+import TwoFactorDialog from "@/components/auth/two-factor-dialog";
+import { Fuel, ChevronDown, LogOut, ShieldCheck, User } from "lucide-react";
+import type { NotificationPreferences } from "@shared/schema";
+
+const PREFERENCES_QUERY_KEY = "/api/notifications/preferences";
 
 export default function Header() {
   const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: [PREFERENCES_QUERY_KEY],
+    enabled: !!user,
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (updates: NotificationPreferences) => {
+      const response = await apiRequest("PUT", PREFERENCES_QUERY_KEY, updates);
+      return response.json();
+    },
+    onSuccess: (updated: NotificationPreferences) => {
+      queryClient.setQueryData([PREFERENCES_QUERY_KEY], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/email"] });
+      toast({
+        title: "Success",
+        description: updated.emailAlerts ? "You will get alert emails" : "Alert emails turned off",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update notification preferences",
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleLogout = async () => {
     try {
@@ -79,12 +119,25 @@ export default function Header() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuCheckboxItem
+                  checked={preferences?.emailAlerts ?? false}
+                  disabled={!preferences || preferencesMutation.isPending}
+                  onCheckedChange={(emailAlerts) => preferencesMutation.mutate({ emailAlerts })}
+                >
+                  Email alerts
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuItem onClick={() => setIsTwoFactorOpen(true)}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Two-factor sign-in
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="w-4 h-4 mr-2" />
                   Sign Out
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
           </div>
         </div>
       </div>
@@ -5,17 +5,24 @@ import {
   LayoutDashboard, 
   MapPin, 
   TrendingUp, 
+  Droplets,
+  Bell,
   Users, 
+  ScrollText,
   Settings 
 } from "lucide-react";
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, current: false },
   { name: 'Analytics', href: '/analytics', icon: TrendingUp, current: false },
+  { name: 'Refuel Log', href: '/refuels', icon: Droplets, current: false },
+  { name: 'Alerts', href: '/alerts', icon: Bell, current: false },
 ];
 
 const adminNavigation = [
   { name: 'User Management', href: '/users', icon: Users, current: false },
+  { name: 'Sites', href: '/sites', icon: MapPin, current: false },
+  { name: 'Audit Log', href: '/audit-log', icon: ScrollText, current: false },
 ];
 
 export default function Sidebar() {
@@ -0,0 +1,229 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, Mail, Send, Users } from "lucide-react";
+import type { EmailLogEntry, EmailSettingsResponse } from "@shared/schema";
+
+const SETTINGS_QUERY_KEY = "/api/notifications/email";
+const LOG_QUERY_KEY = "/api/notifications/email/log";
+
+const EVENT_LABELS: Record<string, string> = {
+  alert_opened: "Alert opened",
+  alert_resolved: "Alert resolved",
+  alert_escalated: "Alert escalated",
+  password_reset: "Password reset",
+  test: "Test",
+};
+
+function getStatusBadge(entry: EmailLogEntry) {
+  switch (entry.status) {
+    case "sent":
+      return <Badge className="bg-green-100 text-green-800 border-green-200">Sent</Badge>;
+    case "failed":
+      return <Badge className="bg-red-100 text-red-800 border-red-200">Failed</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">Pending</Badge>;
+  }
+}
+
+// Email channel status, who gets alert emails and what was sent, for admins.
+export default function EmailNotificationsCard() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<EmailSettingsResponse>({
+    queryKey: [SETTINGS_QUERY_KEY],
+  });
+
+  const { data: log } = useQuery<EmailLogEntry[]>({
+    queryKey: [LOG_QUERY_KEY],
+    refetchInterval: 30000,
+  });
+
+  const subscriberMutation = useMutation({
+    mutationFn: async ({ userId, emailAlerts }: { userId: number; emailAlerts: boolean }) => {
+      const response = await apiRequest("PUT", `/api/notifications/subscribers/${userId}`, { emailAlerts });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SETTINGS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/preferences"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update subscription", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/email/test");
+      return response.json() as Promise<EmailLogEntry>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: [LOG_QUERY_KEY] });
+      if (entry.status === "sent") {
+        toast({ title: "Success", description: `Test email sent to ${entry.recipient}` });
+      } else {
+        toast({
+          title: "Error",
+          description: `Test email could not be sent: ${entry.lastError ?? "unknown error"}. It will be retried.`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to send test email", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !settings) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-blue-600" />
+              Email Alerts
+            </span>
+            {settings.enabled ? (
+              <Badge className="bg-green-100 text-green-800 border-green-200">Enabled</Badge>
+            ) : (
+              <Badge className="bg-gray-100 text-gray-800 border-gray-200">Not configured</Badge>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Opted-in users get an email when an alert opens or resolves at a site they are assigned to.
+            The mail server is set through the SMTP_* environment variables.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>SMTP Server</Label>
+              <Input
+                value={settings.host ? `${settings.host}:${settings.port}${settings.secure ? " (TLS)" : ""}` : "Not set"}
+                disabled
+                className="bg-gray-50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>From Address</Label>
+              <Input value={settings.from} disabled className="bg-gray-50" />
+            </div>
+            <div className="space-y-2">
+              <Label>Send Attempts</Label>
+              <Input value={settings.maxAttempts} disabled className="bg-gray-50" />
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            disabled={!settings.enabled || testMutation.isPending}
+            onClick={() => testMutation.mutate()}
+          >
+            {testMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Send Test Email
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-blue-600" />
+            Recipients
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">User</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Email</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Role</th>
+                  <th className="px-4 py-3 text-center font-medium text-gray-700">Alert Emails</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {settings.subscribers.map((subscriber) => (
+                  <tr key={subscriber.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">{subscriber.fullName}</td>
+                    <td className="px-4 py-3 text-gray-700">{subscriber.email}</td>
+                    <td className="px-4 py-3 text-gray-700 capitalize">{subscriber.role}</td>
+                    <td className="px-4 py-3 text-center">
+                      <Switch
+                        checked={subscriber.emailAlerts}
+                        disabled={subscriberMutation.isPending}
+                        onCheckedChange={(emailAlerts) => subscriberMutation.mutate({ userId: subscriber.id, emailAlerts })}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-600" />
+            Send Log
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {log && log.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Queued</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Recipient</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Subject</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {log.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-gray-700">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="px-4 py-3 text-gray-700">{entry.recipient}</td>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{entry.subject}</div>
+                        <div className="text-xs text-gray-500">{EVENT_LABELS[entry.event] ?? entry.event}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {getStatusBadge(entry)}
+                        <div className="text-xs text-gray-500 mt-1">
+                          {entry.attempts} attempt{entry.attempts === 1 ? "" : "s"}
+                          {entry.lastError && entry.status !== "sent" ? ` - ${entry.lastError}` : ""}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-600">No emails have been sent yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
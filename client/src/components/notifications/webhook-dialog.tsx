@@ -0,0 +1,228 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, KeyRound, Link, Webhook as WebhookIcon } from "lucide-react";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, type Webhook, type WebhookEvent } from "@shared/schema";
+
+const webhookFormSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  url: z.string().trim().url("Please enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  secret: z.string().trim().refine((value) => value === "" || value.length >= 16, "Secret must be at least 16 characters"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+  isActive: z.boolean(),
+});
+
+export type WebhookFormValues = z.infer<typeof webhookFormSchema>;
+
+interface WebhookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhook?: Webhook | null;
+  onSubmit: (data: WebhookFormValues) => Promise<void>;
+  isLoading: boolean;
+}
+
+const emptyValues: WebhookFormValues = {
+  name: "",
+  url: "",
+  secret: "",
+  events: ["alert.opened", "alert.resolved"],
+  isActive: true,
+};
+
+export default function WebhookDialog({
+  open,
+  onOpenChange,
+  webhook,
+  onSubmit,
+  isLoading,
+}: WebhookDialogProps) {
+  const isEdit = !!webhook;
+
+  const form = useForm<WebhookFormValues>({
+    resolver: zodResolver(webhookFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  // Reset form when dialog opens or the webhook changes
+  useEffect(() => {
+    if (open && webhook) {
+      form.reset({
+        name: webhook.name,
+        url: webhook.url,
+        secret: "",
+        events: webhook.events as WebhookEvent[],
+        isActive: webhook.isActive,
+      });
+    } else if (open) {
+      form.reset(emptyValues);
+    }
+  }, [open, webhook, form]);
+
+  const handleSubmit = async (data: WebhookFormValues) => {
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Webhook form submission error:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <WebhookIcon className="h-5 w-5 text-primary" />
+            {isEdit ? "Edit Webhook" : "Add Webhook"}
+          </DialogTitle>
+          <DialogDescription>
+            Events are POSTed to the URL as JSON, signed with the webhook's secret.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Ops ticketing" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <Link className="h-4 w-4" />
+                    URL
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://tickets.example.com/hooks/fuel" className="font-mono" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="secret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4" />
+                    Secret
+                  </FormLabel>
+                  <FormControl>
+                    <Input type="password" className="font-mono" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {isEdit ? "Leave blank to keep the current secret" : "Leave blank to have one generated"}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Events</FormLabel>
+                  <div className="grid grid-cols-2 gap-2 border rounded-lg p-3">
+                    {WEBHOOK_EVENTS.map((event) => (
+                      <div key={event} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`event-${event}`}
+                          checked={field.value.includes(event)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, event] : field.value.filter((selected) => selected !== event),
+                          )}
+                        />
+                        <label htmlFor={`event-${event}`} className="text-sm cursor-pointer">
+                          <div className="font-medium">{WEBHOOK_EVENT_LABELS[event]}</div>
+                          <div className="text-xs text-gray-500 font-mono">{event}</div>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Active</FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Inactive webhooks keep their history but receive no events
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEdit ? "Update Webhook" : "Create Webhook"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
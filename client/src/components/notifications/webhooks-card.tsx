@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import WebhookDialog, { type WebhookFormValues } from "@/components/notifications/webhook-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Eye, EyeOff, History, Loader2, Plus, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import {
+  WEBHOOK_EVENT_LABELS,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "@shared/schema";
+
+const WEBHOOKS_QUERY_KEY = "/api/webhooks";
+
+function getDeliveryBadge(delivery: WebhookDelivery) {
+  switch (delivery.status) {
+    case "delivered":
+      return <Badge className="bg-green-100 text-green-800 border-green-200">Delivered</Badge>;
+    case "failed":
+      return <Badge className="bg-red-100 text-red-800 border-red-200">Failed</Badge>;
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">Retrying</Badge>;
+  }
+}
+
+function DeliveryHistory({ webhook }: { webhook: Webhook }) {
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [WEBHOOKS_QUERY_KEY, webhook.id, "deliveries"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${WEBHOOKS_QUERY_KEY}/${webhook.id}/deliveries`);
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-gray-600 py-2">Nothing has been sent to this webhook yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-600">
+          <th className="px-3 py-2 text-left font-medium">Queued</th>
+          <th className="px-3 py-2 text-left font-medium">Event</th>
+          <th className="px-3 py-2 text-left font-medium">Status</th>
+          <th className="px-3 py-2 text-left font-medium">Response</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {deliveries.map((delivery) => (
+          <tr key={delivery.id}>
+            <td className="px-3 py-2 text-gray-700">{new Date(delivery.createdAt).toLocaleString()}</td>
+            <td className="px-3 py-2 font-mono text-gray-900">{delivery.event}</td>
+            <td className="px-3 py-2">
+              {getDeliveryBadge(delivery)}
+              <div className="text-xs text-gray-500 mt-1">
+                {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                {delivery.status === "pending" && delivery.attempts > 0 &&
+                  `, next at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+              </div>
+            </td>
+            <td className="px-3 py-2 text-gray-700">
+              {delivery.responseStatus !== null && <span className="font-mono">{delivery.responseStatus}</span>}
+              {delivery.lastError && delivery.status !== "delivered" && (
+                <div className="text-xs text-red-600 break-all">{delivery.lastError}</div>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Outbound webhook subscriptions and their delivery history, for admins.
+export default function WebhooksCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [deleting, setDeleting] = useState<Webhook | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [revealedId, setRevealedId] = useState<number | null>(null);
+
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({
+    queryKey: [WEBHOOKS_QUERY_KEY],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WebhookFormValues) => {
+      const response = editing
+        ? await apiRequest("PUT", `${WEBHOOKS_QUERY_KEY}/${editing.id}`, data)
+        : await apiRequest("POST", WEBHOOKS_QUERY_KEY, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY] });
+      toast({ title: "Success", description: editing ? "Webhook updated" : "Webhook created" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save webhook", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${WEBHOOKS_QUERY_KEY}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY] });
+      toast({ title: "Success", description: "Webhook deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete webhook", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      const response = await apiRequest("POST", `${WEBHOOKS_QUERY_KEY}/${webhook.id}/test`);
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery, webhook) => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY, webhook.id, "deliveries"] });
+      setHistoryId(webhook.id);
+      if (delivery.status === "delivered") {
+        toast({ title: "Success", description: `Test event delivered to ${webhook.name}` });
+      } else {
+        toast({
+          title: "Error",
+          description: `Test event failed: ${delivery.lastError ?? "unknown error"}. It will be retried.`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to send test event", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (webhook: Webhook | null) => {
+    setEditing(webhook);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <WebhookIcon className="h-5 w-5 text-blue-600" />
+            Webhooks
+          </span>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Webhook
+          </Button>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Each event is POSTed as JSON with an X-Webhook-Signature header: sha256= followed by the
+          HMAC-SHA256 of "&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;" keyed with the secret. Failed
+          deliveries are retried with a growing delay.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : webhooks && webhooks.length > 0 ? (
+          <div className="divide-y divide-gray-200 border rounded-lg">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{webhook.name}</span>
+                      {webhook.isActive ? (
+                        <Badge className="bg-green-100 text-green-800 border-green-200">Active</Badge>
+                      ) : (
+                        <Badge className="bg-gray-100 text-gray-800 border-gray-200">Inactive</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm font-mono text-gray-600 break-all">{webhook.url}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline">
+                          {WEBHOOK_EVENT_LABELS[event as WebhookEvent] ?? event}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-gray-500 flex items-center gap-2">
+                      Secret:
+                      <span className="font-mono">
+                        {revealedId === webhook.id ? webhook.secret : "•".repeat(16)}
+                      </span>
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-gray-800"
+                        title={revealedId === webhook.id ? "Hide secret" : "Show secret"}
+                        onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                      >
+                        {revealedId === webhook.id ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2 flex-shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={testMutation.isPending}
+                      onClick={() => testMutation.mutate(webhook)}
+                    >
+                      {testMutation.isPending && testMutation.variables?.id === webhook.id
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        : <Send className="w-4 h-4 mr-2" />}
+                      Send Test Event
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Delivery history"
+                      onClick={() => setHistoryId(historyId === webhook.id ? null : webhook.id)}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" title="Edit webhook" onClick={() => openDialog(webhook)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-red-200 text-red-600 hover:bg-red-50"
+                      title="Delete webhook"
+                      onClick={() => setDeleting(webhook)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {historyId === webhook.id && (
+                  <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+                    <DeliveryHistory webhook={webhook} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600">
+            No webhooks yet. Add one to push alert, device and refuel events to another system.
+          </p>
+        )}
+      </CardContent>
+
+      <WebhookDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        webhook={editing}
+        onSubmit={async (data) => {
+          await saveMutation.mutateAsync(data);
+        }}
+        isLoading={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} stops receiving events and its delivery history is deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Delete Webhook
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
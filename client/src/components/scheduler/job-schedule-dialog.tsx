@@ -0,0 +1,126 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { updateJobSchema, type JobSummary } from "@shared/schema";
+
+const jobScheduleFormSchema = z.object({
+  schedule: updateJobSchema.shape.schedule.unwrap(),
+});
+
+type JobScheduleFormValues = z.infer<typeof jobScheduleFormSchema>;
+
+interface JobScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  job: JobSummary | null;
+  timezone: string;
+  onSubmit: (schedule: string) => Promise<void>;
+  isLoading: boolean;
+}
+
+export default function JobScheduleDialog({
+  open,
+  onOpenChange,
+  job,
+  timezone,
+  onSubmit,
+  isLoading,
+}: JobScheduleDialogProps) {
+  const form = useForm<JobScheduleFormValues>({
+    resolver: zodResolver(jobScheduleFormSchema),
+    defaultValues: { schedule: "" },
+  });
+
+  useEffect(() => {
+    if (open && job) {
+      form.reset({ schedule: job.schedule });
+    }
+  }, [open, job, form]);
+
+  const handleSubmit = async (data: JobScheduleFormValues) => {
+    try {
+      await onSubmit(data.schedule);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Job schedule submission error:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            Edit Schedule
+          </DialogTitle>
+          <DialogDescription>
+            When {job?.label.toLowerCase()} runs, as a cron expression in {timezone}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule</FormLabel>
+                  <FormControl>
+                    <Input placeholder="55 23 * * *" className="font-mono" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Minute, hour, day of month, month and day of week, e.g. "0 */6 * * *" for every six
+                    hours. The default is <span className="font-mono">{job?.defaultSchedule}</span>.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                className="mr-auto"
+                disabled={!job || form.watch("schedule") === job.defaultSchedule}
+                onClick={() => job && form.setValue("schedule", job.defaultSchedule, { shouldDirty: true })}
+              >
+                Use Default
+              </Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Schedule
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import JobScheduleDialog from "@/components/scheduler/job-schedule-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit, History, ListChecks, Loader2, Play } from "lucide-react";
+import type { JobName, JobRun, JobSummary, RunJobRequest, UpdateJobRequest } from "@shared/schema";
+
+const JOBS_QUERY_KEY = "/api/admin/jobs";
+// How often the jobs are checked while one of them is running
+const RUNNING_REFETCH_MS = 3000;
+
+const TRIGGER_LABELS: Record<string, string> = {
+  schedule: "Scheduled",
+  manual: "Manual",
+  startup: "On startup",
+};
+
+function getRunBadge(run: JobRun) {
+  switch (run.status) {
+    case "succeeded":
+      return <Badge className="bg-green-100 text-green-800 border-green-200">Succeeded</Badge>;
+    case "failed":
+      return <Badge className="bg-red-100 text-red-800 border-red-200">Failed</Badge>;
+    default:
+      return <Badge className="bg-blue-100 text-blue-800 border-blue-200">Running</Badge>;
+  }
+}
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return "";
+  const seconds = (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.round(seconds / 60)}m`;
+}
+
+function RunHistory({ job }: { job: JobSummary }) {
+  const { data: runs, isLoading } = useQuery<JobRun[]>({
+    queryKey: [JOBS_QUERY_KEY, job.name, "runs"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${JOBS_QUERY_KEY}/${job.name}/runs`);
+      return response.json();
+    },
+    refetchInterval: job.running ? RUNNING_REFETCH_MS : 30000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+  if (!runs || runs.length === 0) {
+    return <p className="text-sm text-gray-600 py-2">This job has not run yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-600">
+          <th className="px-3 py-2 text-left font-medium">Started</th>
+          <th className="px-3 py-2 text-left font-medium">Trigger</th>
+          <th className="px-3 py-2 text-left font-medium">Date</th>
+          <th className="px-3 py-2 text-left font-medium">Status</th>
+          <th className="px-3 py-2 text-right font-medium">Rows</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {runs.map((run) => (
+          <tr key={run.id}>
+            <td className="px-3 py-2 text-gray-700">
+              {new Date(run.startedAt).toLocaleString()}
+              {run.finishedAt && <div className="text-xs text-gray-500">took {formatDuration(run)}</div>}
+            </td>
+            <td className="px-3 py-2 text-gray-700">
+              {TRIGGER_LABELS[run.trigger] ?? run.trigger}
+              {run.startedBy && <div className="text-xs text-gray-500">by {run.startedBy}</div>}
+            </td>
+            <td className="px-3 py-2 font-mono text-gray-700">{run.runDate ?? "—"}</td>
+            <td className="px-3 py-2">
+              {getRunBadge(run)}
+              {run.error && <div className="text-xs text-red-600 break-all mt-1">{run.error}</div>}
+            </td>
+            <td className="px-3 py-2 text-right text-gray-900">{run.rowsWritten ?? "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface ScheduledJobsCardProps {
+  // The timezone the schedules run in
+  timezone: string;
+}
+
+// The scheduled jobs with their last and next runs. Admins can change a
+// job's schedule, pause it or start a run, optionally for a chosen day.
+export default function ScheduledJobsCard({ timezone }: ScheduledJobsCardProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<JobSummary | null>(null);
+  const [starting, setStarting] = useState<JobSummary | null>(null);
+  const [runDate, setRunDate] = useState("");
+  const [historyName, setHistoryName] = useState<JobName | null>(null);
+
+  const { data: jobs, isLoading } = useQuery<JobSummary[]>({
+    queryKey: [JOBS_QUERY_KEY],
+    refetchInterval: (query) => (query.state.data?.some((job) => job.running) ? RUNNING_REFETCH_MS : 60000),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ name, ...update }: UpdateJobRequest & { name: JobName }) => {
+      const response = await apiRequest("PUT", `${JOBS_QUERY_KEY}/${name}`, update);
+      return response.json() as Promise<JobSummary>;
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: [JOBS_QUERY_KEY] });
+      // The schedule dialog is open while its change is saved; the switch has no dialog
+      const description = editing ? `${job.label} schedule saved` : `${job.label} ${job.paused ? "paused" : "resumed"}`;
+      toast({ title: "Success", description });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update the job", variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async ({ name, ...request }: RunJobRequest & { name: JobName }) => {
+      const response = await apiRequest("POST", `${JOBS_QUERY_KEY}/${name}/run`, request);
+      return response.json() as Promise<JobRun>;
+    },
+    onSuccess: (run, request) => {
+      queryClient.invalidateQueries({ queryKey: [JOBS_QUERY_KEY] });
+      setHistoryName(request.name);
+      setStarting(null);
+      toast({
+        title: "Success",
+        description: run.runDate ? `Run started for ${run.runDate}` : "Run started",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to start the job", variant: "destructive" });
+    },
+  });
+
+  const openRunDialog = (job: JobSummary) => {
+    setRunDate("");
+    setStarting(job);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5 text-blue-600" />
+          Scheduled Jobs
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Schedules are cron expressions in {timezone}. Every run is recorded with its outcome; runs cut
+          short by a restart show as failed.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 border rounded-lg">
+            {jobs?.map((job) => (
+              <div key={job.name} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{job.label}</span>
+                      {job.running ? (
+                        <Badge className="bg-blue-100 text-blue-800 border-blue-200">
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          Running
+                        </Badge>
+                      ) : job.paused ? (
+                        <Badge className="bg-gray-100 text-gray-800 border-gray-200">Paused</Badge>
+                      ) : null}
+                    </div>
+                    <div className="text-sm text-gray-600">{job.description}</div>
+                    <div className="text-sm text-gray-700 flex flex-wrap items-center gap-x-4 gap-y-1">
+                      <span>
+                        Schedule: <span className="font-mono">{job.schedule}</span>
+                        {job.schedule === job.defaultSchedule && <span className="text-gray-500"> (default)</span>}
+                      </span>
+                      <span>
+                        Next run: {job.nextRun ? new Date(job.nextRun).toLocaleString() : "—"}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-700 flex flex-wrap items-center gap-2">
+                      Last run:
+                      {job.lastRun ? (
+                        <>
+                          <span>{new Date(job.lastRun.startedAt).toLocaleString()}</span>
+                          {getRunBadge(job.lastRun)}
+                          {job.lastRun.rowsWritten !== null && (
+                            <span className="text-gray-500">{job.lastRun.rowsWritten} rows</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-500">never</span>
+                      )}
+                    </div>
+                    {job.lastRun?.error && (
+                      <div className="text-xs text-red-600 break-all">{job.lastRun.error}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <div className="flex items-center gap-2 mr-2">
+                      <Switch
+                        id={`job-active-${job.name}`}
+                        checked={!job.paused}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(active) => updateMutation.mutate({
+                          name: job.name,
+                          schedule: job.schedule,
+                          paused: !active,
+                        })}
+                      />
+                      <Label htmlFor={`job-active-${job.name}`} className="text-sm">Active</Label>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={job.running}
+                      onClick={() => openRunDialog(job)}
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Run Now
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Run history"
+                      onClick={() => setHistoryName(historyName === job.name ? null : job.name)}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" title="Edit schedule" onClick={() => setEditing(job)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {historyName === job.name && (
+                  <div className="bg-gray-50 rounded-lg p-3 overflow-x-auto">
+                    <RunHistory job={job} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <JobScheduleDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        job={editing}
+        timezone={timezone}
+        onSubmit={async (schedule) => {
+          await updateMutation.mutateAsync({ name: editing!.name, schedule, paused: editing!.paused });
+        }}
+        isLoading={updateMutation.isPending}
+      />
+
+      <Dialog open={!!starting} onOpenChange={(open) => !open && setStarting(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Play className="h-5 w-5 text-primary" />
+              Run {starting?.label}
+            </DialogTitle>
+            <DialogDescription>
+              The run starts straight away{starting?.paused ? ", even though the job is paused" : ""}. Its
+              outcome shows in the run history.
+            </DialogDescription>
+          </DialogHeader>
+          {starting?.takesDate && (
+            <div className="space-y-2">
+              <Label htmlFor="job-run-date">Date</Label>
+              <Input
+                id="job-run-date"
+                type="date"
+                className="w-44"
+                value={runDate}
+                onChange={(event) => setRunDate(event.target.value)}
+              />
+              <p className="text-sm text-gray-500">Leave empty to run it the way the schedule does.</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStarting(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={runMutation.isPending}
+              onClick={() => starting && runMutation.mutate({ name: starting.name, date: runDate || undefined })}
+            >
+              {runMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Start Run
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
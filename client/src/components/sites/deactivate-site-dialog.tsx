@@ -0,0 +1,84 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import type { Site } from "@shared/schema";
+
+interface DeactivateSiteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  site: Site | null;
+  assignedCount: number;
+  onConfirm: () => Promise<void>;
+  isLoading: boolean;
+}
+
+export default function DeactivateSiteDialog({
+  open,
+  onOpenChange,
+  site,
+  assignedCount,
+  onConfirm,
+  isLoading,
+}: DeactivateSiteDialogProps) {
+  if (!site) return null;
+
+  const handleConfirm = async () => {
+    try {
+      await onConfirm();
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in parent component
+      console.error("Deactivate confirmation error:", error);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 text-red-600">
+            <AlertTriangle className="h-5 w-5" />
+            Deactivate Site
+          </AlertDialogTitle>
+          <AlertDialogDescription className="space-y-4">
+            <div className="text-base">
+              Are you sure you want to deactivate this site?
+            </div>
+
+            <div className="p-4 bg-gray-50 rounded-lg space-y-1 text-sm text-gray-600">
+              <div className="font-medium text-gray-900">{site.name}</div>
+              <div>Location: {site.location}</div>
+              <div>Device ID: <span className="font-mono">{site.deviceId}</span></div>
+              <div>Assigned users: {assignedCount}</div>
+            </div>
+
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              The site disappears from the dashboard and daily captures, and new readings from its
+              device are no longer stored. Its history is kept and the site can be reactivated later.
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={isLoading}
+            className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Deactivate Site
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { AlertCircle, ChevronDown, ChevronRight, RefreshCw, ShieldAlert } from "lucide-react";
+import { SENSOR_NAMES, type FuelIncidentEntry } from "@shared/schema";
+
+interface FuelIncidentsCardProps {
+  siteId: string;
+  startDate: string;
+  endDate: string;
+}
+
+const evidenceChartConfig = {
+  fuelVolume: { label: "Volume (L)", color: "hsl(217, 91%, 60%)" },
+  generator: { label: "Generator", color: "hsl(25, 95%, 53%)" },
+} satisfies ChartConfig;
+
+type EvidencePoint = { time: number; fuelVolume?: number; generator?: number };
+
+// One point per reading, keyed by series so the tooltip and legend pick up the
+// chart config. Generator state is drawn on its own 0/1 axis.
+function toEvidencePoints(evidence: NonNullable<FuelIncidentEntry["evidence"]>): EvidencePoint[] {
+  return evidence.readings
+    .filter((reading) => reading.sensorName !== SENSOR_NAMES.fuelLevel)
+    .map((reading) => {
+      const time = new Date(reading.time).getTime();
+      const value = parseFloat(reading.value);
+      return reading.sensorName === SENSOR_NAMES.generatorState
+        ? { time, generator: value ? 1 : 0 }
+        : { time, fuelVolume: value };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+function formatTime(value: number | string | Date) {
+  return new Date(value).toLocaleString();
+}
+
+function IncidentEvidence({ incident }: { incident: FuelIncidentEntry }) {
+  if (!incident.evidence) {
+    return (
+      <div className="text-sm text-gray-500">
+        The sensor readings around this drop are available to administrators.
+      </div>
+    );
+  }
+
+  const points = toEvidencePoints(incident.evidence);
+  if (points.length === 0) {
+    return <div className="text-sm text-gray-500">No fuel or generator readings around this drop</div>;
+  }
+
+  const domain: [number, number] = [
+    new Date(incident.evidence.from).getTime(),
+    new Date(incident.evidence.to).getTime(),
+  ];
+
+  return (
+    <ChartContainer config={evidenceChartConfig} className="aspect-auto h-56 w-full">
+      <LineChart data={points} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={domain}
+          tickFormatter={(value: number) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          minTickGap={32}
+        />
+        <YAxis yAxisId="volume" unit="L" width={56} domain={['auto', 'auto']} />
+        <YAxis
+          yAxisId="generator"
+          orientation="right"
+          domain={[0, 1]}
+          ticks={[0, 1]}
+          tickFormatter={(value: number) => (value ? 'On' : 'Off')}
+          width={32}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => (payload[0]?.payload ? formatTime(payload[0].payload.time) : '')}
+              formatter={(value, name) => (name === 'generator' ? (value ? 'On' : 'Off') : `${value} L`)}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <ReferenceArea
+          yAxisId="volume"
+          x1={new Date(incident.startedAt).getTime()}
+          x2={new Date(incident.endedAt).getTime()}
+          fill="hsl(271, 81%, 56%)"
+          fillOpacity={0.1}
+        />
+        <Line
+          yAxisId="volume"
+          dataKey="fuelVolume"
+          stroke="var(--color-fuelVolume)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="generator"
+          type="stepAfter"
+          dataKey="generator"
+          stroke="var(--color-generator)"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+// Lists the site's unexplained drops in the selected range. Opening one shows
+// the readings either side of it, which is what a reviewer decides on.
+export default function FuelIncidentsCard({ siteId, startDate, endDate }: FuelIncidentsCardProps) {
+  const { user } = useAuth();
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  const { data: incidents, isLoading, error } = useQuery<FuelIncidentEntry[]>({
+    queryKey: ["/api/fuel-incidents", siteId, startDate, endDate],
+    queryFn: async () => {
+      const query = new URLSearchParams({ siteId, startDate, endDate });
+      const response = await apiRequest("GET", `/api/fuel-incidents?${query}`);
+      return response.json();
+    },
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" /> Unexplained Drops
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto text-gray-400" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 text-red-600 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {error instanceof Error ? error.message : "Could not load incidents"}
+          </div>
+        ) : incidents && incidents.length > 0 ? (
+          <div className="divide-y">
+            {incidents.map((incident) => {
+              const open = openId === incident.id;
+              return (
+                <div key={incident.id} className="py-2">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-3 text-left text-sm"
+                    onClick={() => setOpenId(open ? null : incident.id)}
+                  >
+                    {open ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <span className="flex-1 text-gray-700">
+                      {formatTime(incident.startedAt)} – {formatTime(incident.endedAt)}
+                    </span>
+                    <span className="text-gray-500">
+                      {parseFloat(incident.volumeBefore).toFixed(0)}L → {parseFloat(incident.volumeAfter).toFixed(0)}L
+                    </span>
+                    <Badge className="bg-purple-100 text-purple-800">
+                      -{parseFloat(incident.litersLost).toFixed(1)}L
+                    </Badge>
+                  </button>
+                  {open && (
+                    <div className="mt-3">
+                      <IncidentEvidence incident={incident} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No unexplained drops in this period</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
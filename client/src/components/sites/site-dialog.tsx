@@ -0,0 +1,272 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, MapPin, Cpu, Fuel, AlertTriangle } from "lucide-react";
+import type { Site, SiteAssignee } from "@shared/schema";
+
+const numericString = (message: string, check: (value: number) => boolean) =>
+  z.string().trim().refine((value) => value !== "" && !isNaN(Number(value)) && check(Number(value)), message);
+
+const siteFormSchema = z.object({
+  name: z.string().trim().min(2, "Site name must be at least 2 characters"),
+  location: z.string().trim().min(2, "Location must be at least 2 characters"),
+  deviceId: z.string().trim().min(1, "Device ID is required"),
+  fuelCapacity: numericString("Fuel capacity must be greater than zero", (value) => value > 0),
+  lowFuelThreshold: numericString("Low fuel threshold must be between 0 and 100", (value) => value >= 0 && value <= 100),
+  isActive: z.boolean(),
+});
+
+export type SiteFormValues = z.infer<typeof siteFormSchema>;
+
+interface SiteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  site?: Site | null;
+  assignees: SiteAssignee[];
+  onSubmit: (data: SiteFormValues) => Promise<void>;
+  isLoading: boolean;
+}
+
+const emptyValues: SiteFormValues = {
+  name: "",
+  location: "",
+  deviceId: "",
+  fuelCapacity: "",
+  lowFuelThreshold: "25",
+  isActive: true,
+};
+
+export default function SiteDialog({
+  open,
+  onOpenChange,
+  site,
+  assignees,
+  onSubmit,
+  isLoading,
+}: SiteDialogProps) {
+  const isEdit = !!site;
+
+  const form = useForm<SiteFormValues>({
+    resolver: zodResolver(siteFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  // Reset form when dialog opens or the site changes
+  useEffect(() => {
+    if (open && site) {
+      form.reset({
+        name: site.name,
+        location: site.location,
+        deviceId: site.deviceId,
+        fuelCapacity: String(parseFloat(site.fuelCapacity)),
+        lowFuelThreshold: String(parseFloat(site.lowFuelThreshold)),
+        isActive: site.isActive,
+      });
+    } else if (open) {
+      form.reset(emptyValues);
+    }
+  }, [open, site, form]);
+
+  const deviceChanged = isEdit && form.watch("deviceId").trim() !== site!.deviceId;
+
+  const handleSubmit = async (data: SiteFormValues) => {
+    try {
+      await onSubmit(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Site form submission error:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            {isEdit ? "Edit Site" : "Add New Site"}
+          </DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? "Update the site details, sensor device and low fuel threshold."
+              : "Register a site and the sensor device that reports for it."
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Site Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Borrowdale" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Borrowdale, Harare" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="deviceId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <Cpu className="h-4 w-4" />
+                    Device ID
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="Device ID as reported in sensor data" className="font-mono" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {deviceChanged && (
+              <div className="text-sm text-orange-600 bg-orange-50 p-2 rounded flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>Readings already stored under the old device ID will no longer show for this site.</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fuelCapacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Fuel className="h-4 w-4" />
+                      Fuel Capacity (L)
+                    </FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lowFuelThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Low Fuel Threshold (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="100" step="any" {...field} />
+                    </FormControl>
+                    <FormDescription>Sites below this level are flagged as low fuel</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Assigned users are managed from the User Management page */}
+            {isEdit && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Assigned Users</div>
+                {assignees.length > 0 ? (
+                  <div className="border rounded-lg divide-y">
+                    {assignees.map((assignee) => (
+                      <div key={assignee.userId} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <div>
+                          <span className="font-medium">{assignee.fullName}</span>
+                          <span className="text-gray-500 ml-2">@{assignee.username}</span>
+                        </div>
+                        <span className="text-gray-600 capitalize">{assignee.role}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500 p-3 border rounded-lg bg-gray-50">
+                    No managers or supervisors are assigned. Admins see every site.
+                  </div>
+                )}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Active Site</FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Shown on the dashboard and included in daily captures
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEdit ? "Update Site" : "Create Site"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2, Ruler, Upload } from "lucide-react";
+import type { Site, TankProfileResponse, TankShape } from "@shared/schema";
+
+interface TankProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  site: Pick<Site, "id" | "name" | "fuelCapacity">;
+}
+
+const SHAPE_OPTIONS: { value: TankShape; label: string; description: string }[] = [
+  {
+    value: "sensor",
+    label: "Use sensor volume",
+    description: "Volume is taken as reported by the device.",
+  },
+  {
+    value: "linear",
+    label: "Upright / rectangular tank",
+    description: "Volume is level × capacity.",
+  },
+  {
+    value: "horizontal_cylinder",
+    label: "Horizontal cylinder",
+    description: "Corrects for the round cross-section. Without dimensions the site capacity is used as the full volume.",
+  },
+  {
+    value: "table",
+    label: "Strapping table",
+    description: "Volume is interpolated from a calibration table of level % and liters.",
+  },
+];
+
+type ParsedTable = {
+  points: { levelPercent: number; volumeLiters: number }[];
+  errors: string[];
+};
+
+// One "level, volume" pair per line; commas, semicolons, tabs or spaces all
+// work, and header or comment lines are skipped.
+function parseStrappingTable(text: string): ParsedTable {
+  const points: ParsedTable["points"] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#") || /^[a-z]/i.test(trimmed)) return;
+
+    const [level, volume, ...rest] = trimmed.split(/[,;\t ]+/).map(Number);
+    if (rest.length > 0 || isNaN(level) || isNaN(volume)) {
+      errors.push(`Line ${index + 1}: expected "level, volume"`);
+      return;
+    }
+    points.push({ levelPercent: level, volumeLiters: volume });
+  });
+
+  return { points, errors };
+}
+
+function toTableText(profile: TankProfileResponse): string {
+  return profile.points
+    .map((point) => `${parseFloat(point.levelPercent)}, ${parseFloat(point.volumeLiters)}`)
+    .join("\n");
+}
+
+export default function TankProfileDialog({ open, onOpenChange, site }: TankProfileDialogProps) {
+  const { toast } = useToast();
+  const [shape, setShape] = useState<TankShape>("sensor");
+  const [diameter, setDiameter] = useState("");
+  const [length, setLength] = useState("");
+  const [tableText, setTableText] = useState("");
+
+  const { data: profile, isLoading } = useQuery<TankProfileResponse>({
+    queryKey: [`/api/sites/${site.id}/tank`],
+    enabled: open,
+  });
+
+  // Load the saved profile each time the dialog opens
+  useEffect(() => {
+    if (open && profile) {
+      setShape(profile.tankShape as TankShape);
+      setDiameter(profile.tankDiameterMm ? String(parseFloat(profile.tankDiameterMm)) : "");
+      setLength(profile.tankLengthMm ? String(parseFloat(profile.tankLengthMm)) : "");
+      setTableText(toTableText(profile));
+    }
+  }, [open, profile]);
+
+  const parsedTable = parseStrappingTable(tableText);
+  const diameterMm = parseFloat(diameter);
+  const lengthMm = parseFloat(length);
+  const geometricCapacity = diameterMm > 0 && lengthMm > 0
+    ? (Math.PI * (diameterMm / 2) ** 2 * lengthMm) / 1_000_000
+    : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/sites/${site.id}/tank`, {
+        tankShape: shape,
+        tankDiameterMm: shape === "horizontal_cylinder" && diameter ? diameterMm : null,
+        tankLengthMm: shape === "horizontal_cylinder" && length ? lengthMm : null,
+        points: shape === "table" ? parsedTable.points : [],
+      });
+      return response.json();
+    },
+    onSuccess: (saved: TankProfileResponse) => {
+      queryClient.setQueryData([`/api/sites/${site.id}/tank`], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+      toast({
+        title: "Tank profile saved",
+        description: "New readings for this site will use the updated geometry.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tank profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setTableText(await file.text());
+    }
+    event.target.value = "";
+  };
+
+  const canSave = shape !== "table" || (parsedTable.errors.length === 0 && parsedTable.points.length >= 2);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ruler className="h-5 w-5 text-primary" />
+            Tank Calibration
+          </DialogTitle>
+          <DialogDescription>
+            How fuel level is converted into liters for {site.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Tank shape</Label>
+              <Select value={shape} onValueChange={(value) => setShape(value as TankShape)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHAPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-600">
+                {SHAPE_OPTIONS.find((option) => option.value === shape)?.description}
+              </p>
+            </div>
+
+            {shape === "horizontal_cylinder" && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="tank-diameter">Inside diameter (mm)</Label>
+                    <Input
+                      id="tank-diameter"
+                      type="number"
+                      min="0"
+                      value={diameter}
+                      onChange={(e) => setDiameter(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="tank-length">Inside length (mm)</Label>
+                    <Input
+                      id="tank-length"
+                      type="number"
+                      min="0"
+                      value={length}
+                      onChange={(e) => setLength(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-600">
+                  Full volume: {geometricCapacity !== null
+                    ? `${geometricCapacity.toFixed(0)}L from dimensions`
+                    : `${parseFloat(site.fuelCapacity).toFixed(0)}L site capacity`}
+                </p>
+              </div>
+            )}
+
+            {shape === "table" && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="strapping-table">Strapping table (level %, liters)</Label>
+                  <Button type="button" variant="outline" size="sm" asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload CSV
+                      <input type="file" accept=".csv,.txt" className="hidden" onChange={handleFile} />
+                    </label>
+                  </Button>
+                </div>
+                <Textarea
+                  id="strapping-table"
+                  rows={10}
+                  className="font-mono text-sm"
+                  placeholder={"0, 0\n10, 52\n20, 143\n..."}
+                  value={tableText}
+                  onChange={(e) => setTableText(e.target.value)}
+                />
+                {parsedTable.errors.length > 0 ? (
+                  <div className="text-sm text-red-600 bg-red-50 p-2 rounded">
+                    {parsedTable.errors.slice(0, 3).join("; ")}
+                    {parsedTable.errors.length > 3 && ` and ${parsedTable.errors.length - 3} more`}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-600">
+                    {parsedTable.points.length} point{parsedTable.points.length === 1 ? "" : "s"}
+                    {parsedTable.points.length < 2 && " (at least two are needed)"}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saveMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={isLoading || !canSave || saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
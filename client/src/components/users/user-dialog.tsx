@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -15,6 +15,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -32,20 +33,39 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2, User, Mail, Lock, UserCheck, MapPin } from "lucide-react";
-import type { User as UserType } from "@shared/schema";
+import {
+  describePasswordPolicy,
+  passwordPolicyError,
+  type PasswordPolicy,
+  type PasswordPolicyResponse,
+  type User as UserType,
+} from "@shared/schema";
 
 const userFormSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email"),
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
   role: z.enum(["admin", "supervisor", "manager"]),
-  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  password: z.string().optional(), // see withPasswordRules
   isActive: z.boolean().default(true),
   siteIds: z.array(z.number()).optional(),
 });
 
 type UserFormValues = z.infer<typeof userFormSchema>;
 
+// New users need a password; when editing, blank keeps the current one. The
+// server also rejects reused passwords, which cannot be checked here.
+function withPasswordRules(policy: PasswordPolicy | undefined, isEdit: boolean) {
+  return userFormSchema.superRefine(({ password }, ctx) => {
+    const error = password
+      ? policy && passwordPolicyError(password, policy)
+      : !isEdit && "Password is required";
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["password"] });
+    }
+  });
+}
+
 interface Site {
   id: number;
   name: string;
@@ -70,9 +90,20 @@ export default function UserDialog({
 }: UserDialogProps) {
   const isEdit = !!user;
   const [selectedSites, setSelectedSites] = useState<number[]>([]);
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicyResponse>({
+    queryKey: ["/api/auth/password-policy"],
+    enabled: open,
+    staleTime: Infinity,
+  });
+
+  const formSchema = useMemo(
+    () => withPasswordRules(passwordPolicy?.policy, isEdit),
+    [passwordPolicy, isEdit],
+  );
   
   const form = useForm<UserFormValues>({
-    resolver: zodResolver(userFormSchema),
+    resolver: zodResolver(formSchema),
     defaultValues: {
       username: "",
       email: "",
@@ -319,6 +350,9 @@ export default function UserDialog({
                       {...field} 
                     />
                   </FormControl>
+                  {passwordPolicy && (
+                    <FormDescription>{describePasswordPolicy(passwordPolicy.policy)}</FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -357,7 +391,7 @@ export default function UserDialog({
                   </div>
                 ) : (
                   <div className="text-sm text-gray-500 p-3 border rounded-lg bg-gray-50">
-                    No sites available for assignment. Sites are automatically created from sensor data.
+                    No sites available for assignment. Add sites on the Sites page.
                   </div>
                 )}
 
@@ -1,13 +1,23 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useLocation } from "wouter";
-import { apiRequest } from "@/lib/api";
+import {
+  apiRequest,
+  clearAuthTokens,
+  getAuthToken,
+  getRefreshToken,
+  onAuthTokenChange,
+  refreshAuthToken,
+  storeAuthTokens,
+} from "@/lib/api";
 import { AuthLoading } from "@/components/ui/loading";
-import { type User, type AuthResponse } from "@shared/schema";
+import { type User, type AuthResponse, type LoginResponse, type TwoFactorChallengeResponse } from "@shared/schema";
 
 interface AuthContextType {
   user: Omit<User, 'password'> | null;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  // Resolves with the challenge when the account needs a second step
+  login: (username: string, password: string) => Promise<TwoFactorChallengeResponse | null>;
+  completeLogin: (data: AuthResponse) => void;
   logout: () => void;
   isLoading: boolean;
   checkingAuth: boolean;
@@ -15,6 +25,11 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Renew the access token this long before it expires, plus up to the jitter
+// so tabs sharing the token do not all try at the same moment
+const TOKEN_RENEWAL_MARGIN_MS = 60 * 1000;
+const TOKEN_RENEWAL_JITTER_MS = 20 * 1000;
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -23,8 +38,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<Omit<User, 'password'> | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [checkingAuth, setCheckingAuth] = useState(true);
+  const [authToken, setAuthToken] = useState<string | null>(() => getAuthToken());
   const [location, setLocation] = useLocation();
 
+  // Track token changes from apiRequest's silent refresh and from other tabs
+  useEffect(() => onAuthTokenChange(setAuthToken), []);
+
   // Centralized auth validation function
   const validateToken = async (token: string): Promise<boolean> => {
     try {
@@ -82,7 +101,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.log('🔐 Initializing authentication...');
       setCheckingAuth(true);
       
-      const token = localStorage.getItem('auth_token');
+      let token = getAuthToken();
       
       if (token) {
         console.log('🔑 Found existing token, checking validity...');
@@ -90,11 +109,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
         // First check if token is expired locally
         const tokenPayload = parseTokenPayload(token);
         if (!tokenPayload) {
-          console.log('🗑️ Token expired or invalid, removing...');
-          localStorage.removeItem('auth_token');
-          setUser(null);
-          setCheckingAuth(false);
-          return;
+          // An expired access token is fine as long as the session can be renewed
+          token = getRefreshToken() ? await refreshAuthToken().catch(() => getAuthToken()) : null;
+          if (!token) {
+            console.log('🗑️ Token expired or invalid, removing...');
+            clearAuthTokens();
+            setUser(null);
+            setCheckingAuth(false);
+            return;
+          }
         }
         
         // Token looks valid locally, now validate with external API
@@ -102,7 +125,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         
         if (!isValid) {
           console.log('🗑️ External API rejected token, removing...');
-          localStorage.removeItem('auth_token');
+          clearAuthTokens();
           setUser(null);
         } else {
           // Token is valid and user is already set by validateToken
@@ -118,10 +141,39 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initAuth();
   }, []);
 
+  // Renew the access token shortly before it expires so active users are not
+  // signed out mid-session. Rescheduled whenever the token changes.
+  useEffect(() => {
+    if (!user || !authToken) return;
+
+    let expiresAt: number;
+    try {
+      expiresAt = JSON.parse(atob(authToken.split('.')[1])).exp * 1000;
+    } catch {
+      return;
+    }
+
+    const margin = TOKEN_RENEWAL_MARGIN_MS + Math.random() * TOKEN_RENEWAL_JITTER_MS;
+    const delay = Math.max(0, expiresAt - Date.now() - margin);
+    const timer = setTimeout(async () => {
+      try {
+        await refreshAuthToken();
+      } catch (error) {
+        // A failed refresh keeps tokens another tab has renewed meanwhile
+        if (!getAuthToken()) {
+          console.warn('⚠️ Session could not be renewed, signing out:', error);
+          setUser(null);
+        }
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user, authToken]);
+
   // Global route protection - redirect to login if not authenticated
   useEffect(() => {
     if (!checkingAuth) {
-      const publicRoutes = ['/', '/login'];
+      const publicRoutes = ['/', '/login', '/reset-password'];
       const isPublicRoute = publicRoutes.includes(location);
       
       if (!user && !isPublicRoute) {
@@ -149,18 +201,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
         throw new Error(errorData.message || 'Login failed');
       }
       
-      const data: AuthResponse = await response.json();
-      
-      // Store token
-      localStorage.setItem('auth_token', data.token);
-      
-      // Set user
-      setUser(data.user);
-      
-      console.log('✅ Login successful for user:', data.user.username);
-      
-      // Redirect to dashboard after successful login
-      setLocation('/dashboard');
+      const data: LoginResponse = await response.json();
+
+      if ('twoFactor' in data) {
+        console.log('🔑 Second sign-in step required:', data.twoFactor);
+        return data;
+      }
+
+      completeLogin(data);
+      return null;
     } catch (error) {
       console.error('❌ Login error:', error);
       throw error;
@@ -169,6 +218,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Also the end of a sign-in that needed a verification code
+  const completeLogin = (data: AuthResponse) => {
+    // Store tokens
+    storeAuthTokens(data.token, data.refreshToken);
+    
+    // Set user
+    setUser(data.user);
+    
+    console.log('✅ Login successful for user:', data.user.username);
+    
+    // Redirect to dashboard after successful login
+    setLocation('/dashboard');
+  };
+
   const logout = async () => {
     try {
       console.log('🚪 Logging out...');
@@ -176,7 +239,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Call logout endpoint if user is authenticated
       if (user) {
         try {
-          await apiRequest("POST", "/api/auth/logout");
+          await apiRequest("POST", "/api/auth/logout", { refreshToken: getRefreshToken() ?? undefined });
         } catch (error) {
           console.warn('⚠️ Logout API call failed:', error);
           // Continue with local logout even if API call fails
@@ -184,13 +247,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
       
       // Clear local state
-      localStorage.removeItem('auth_token');
+      clearAuthTokens();
       setUser(null);
       setLocation('/login');
     } catch (error) {
       console.error('❌ Logout error:', error);
       // Force local logout even if API fails
-      localStorage.removeItem('auth_token');
+      clearAuthTokens();
       setUser(null);
       setLocation('/login');
     }
@@ -205,6 +268,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user,
     isAuthenticated: !!user,
     login,
+    completeLogin,
     logout,
     isLoading,
     checkingAuth,
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { appConfig } from "@/lib/config";
+import { getAuthToken } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { isLowOnFuel, type DashboardData, type LiveMessage, type LiveSiteUpdate } from "@shared/schema";
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+// Sent by the server when the access token the socket was opened with expires
+const TOKEN_EXPIRED_CLOSE_CODE = 4001;
+
+function liveUrl(token: string): string {
+  const base = appConfig.apiBaseUrl || window.location.origin;
+  const url = new URL(`${base}/api/live`);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+// Merges pushed site figures into the cached realtime dashboard and recounts
+// the status cards from the result.
+function applyUpdates(updates: LiveSiteUpdate[]) {
+  const byId = new Map(updates.map((update) => [update.id, update]));
+
+  queryClient.setQueryData<DashboardData & { viewMode: string }>(["/api/dashboard", "realtime"], (data) => {
+    if (!data) return data;
+
+    const sites = data.sites.map((site) => {
+      const update = byId.get(site.id);
+      return update ? { ...site, ...update } : site;
+    });
+    const sitesOnline = sites.filter((site) => site.icingaOnline).length;
+
+    return {
+      ...data,
+      sites,
+      systemStatus: {
+        ...data.systemStatus,
+        sitesOnline,
+        lowFuelAlerts: sites.filter(isLowOnFuel).length,
+        generatorsRunning: sites.filter((site) => site.generatorOnline).length,
+        zesaRunning: sites.filter((site) => site.zesaOnline).length,
+        offlineSites: sites.length - sitesOnline,
+      },
+    };
+  });
+}
+
+// Keeps the realtime dashboard current over the /api/live WebSocket. Returns
+// whether the socket is connected; while it is not, the caller should keep
+// polling. The mock API has no socket, so it always polls.
+export function useLiveDashboard(enabled: boolean): boolean {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || appConfig.mockApi) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const scheduleReconnect = (delay: number) => {
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    function connect() {
+      const token = getAuthToken();
+      if (!token) {
+        scheduleReconnect(MAX_RETRY_DELAY_MS);
+        return;
+      }
+
+      socket = new WebSocket(liveUrl(token));
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        // Catch up on anything that changed before the socket was up
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard", "realtime"] });
+      };
+      socket.onmessage = (event) => {
+        const message: LiveMessage = JSON.parse(event.data);
+        if (message.type === "site-updates") {
+          applyUpdates(message.updates);
+        }
+      };
+      socket.onclose = (event) => {
+        setConnected(false);
+        if (stopped) return;
+        // The token is renewed ahead of expiry, so a fresh one is usually
+        // already stored; otherwise back off while polling takes over.
+        const delay = event.code === TOKEN_EXPIRED_CLOSE_CODE
+          ? 0
+          : Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts++);
+        scheduleReconnect(delay);
+      };
+    }
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return connected;
+}
@@ -0,0 +1,86 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ViewModeResponse } from "@shared/schema";
+
+export type ViewMode = ViewModeResponse["viewMode"];
+
+const VIEW_MODE_QUERY_KEY = "/api/admin/view-mode";
+// Written on every switch so other tabs follow without waiting for a refetch
+const VIEW_MODE_SYNC_KEY = "view_mode";
+// Picks up a switch made on another device
+const VIEW_MODE_REFETCH_MS = 60 * 1000;
+
+function parseSyncValue(value: string | null): ViewMode | null {
+  return value === "closing" || value === "realtime" ? value : null;
+}
+
+// The admin's saved dashboard view. Switching saves it on the server and
+// tells the other open tabs; everyone else is always on "closing".
+export function useViewMode(isAdmin: boolean) {
+  const { toast } = useToast();
+
+  const { data, isFetched } = useQuery<ViewModeResponse>({
+    queryKey: [VIEW_MODE_QUERY_KEY],
+    enabled: isAdmin,
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+    refetchInterval: VIEW_MODE_REFETCH_MS,
+  });
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      const viewMode = event.key === VIEW_MODE_SYNC_KEY ? parseSyncValue(event.newValue) : null;
+      if (viewMode) {
+        queryClient.setQueryData<ViewModeResponse>([VIEW_MODE_QUERY_KEY], (current) => ({
+          viewMode,
+          updatedAt: current?.updatedAt ?? null,
+        }));
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [isAdmin]);
+
+  const viewModeMutation = useMutation({
+    mutationFn: async (viewMode: ViewMode) => {
+      const response = await apiRequest("PUT", VIEW_MODE_QUERY_KEY, { viewMode });
+      return response.json() as Promise<ViewModeResponse>;
+    },
+    // Switch right away; the server's answer confirms or reverts it
+    onMutate: async (viewMode) => {
+      await queryClient.cancelQueries({ queryKey: [VIEW_MODE_QUERY_KEY] });
+      const previous = queryClient.getQueryData<ViewModeResponse>([VIEW_MODE_QUERY_KEY]);
+      queryClient.setQueryData<ViewModeResponse>([VIEW_MODE_QUERY_KEY], {
+        viewMode,
+        updatedAt: previous?.updatedAt ?? null,
+      });
+      return { previous };
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([VIEW_MODE_QUERY_KEY], saved);
+      localStorage.setItem(VIEW_MODE_SYNC_KEY, saved.viewMode);
+    },
+    onError: (error: any, _viewMode, context) => {
+      queryClient.setQueryData([VIEW_MODE_QUERY_KEY], context?.previous);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the view mode",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    viewMode: isAdmin ? data?.viewMode ?? "closing" : "closing",
+    // Admins wait for the saved mode so the dashboard does not load twice
+    isReady: !isAdmin || isFetched,
+    setViewMode: (viewMode: ViewMode) => {
+      if (isAdmin) viewModeMutation.mutate(viewMode);
+    },
+  };
+}
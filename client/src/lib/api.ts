@@ -1,19 +1,192 @@
 import { queryClient } from "./queryClient";
+import { appConfig } from "./config";
+import { mockFetch } from "./mock-api";
+import { type AuthResponse } from "@shared/schema";
 
-// Use the external API base URL (HTTPS for production)
-const API_BASE_URL = 'https://simbisa-portal-api.ipos.co.zw';
+// Base URL comes from runtime config / VITE_API_BASE_URL; empty means same origin
+const API_BASE_URL = appConfig.apiBaseUrl;
 
-console.log('🌐 Using external API:', API_BASE_URL);
+if (appConfig.mockApi) {
+  console.log('🧪 Using mock API - no network requests will be made');
+} else {
+  console.log('🌐 Using API:', API_BASE_URL || window.location.origin);
+}
+
+const AUTH_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+type TokenListener = (token: string | null) => void;
+const tokenListeners = new Set<TokenListener>();
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function storeAuthTokens(token: string, refreshToken: string) {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  tokenListeners.forEach(listener => listener(token));
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  tokenListeners.forEach(listener => listener(null));
+}
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+// Notifies on every token change, including renewals done by other tabs
+export function onAuthTokenChange(listener: TokenListener): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === AUTH_TOKEN_KEY) listener(event.newValue);
+  };
+  tokenListeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    tokenListeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
 
+function sendRequest(method: string, url: string, body: string | undefined, headers: Record<string, string>) {
+  const fullUrl = url.startsWith('http') ? url : `${API_BASE_URL}${url}`;
+  return appConfig.mockApi
+    ? mockFetch(method, url, body, headers)
+    : fetch(fullUrl, {
+        method,
+        headers,
+        body,
+        // Token auth only - no cookies needed
+      });
+}
+
+// Only one refresh runs at a time; anything that needs a fresh token while it
+// is in flight waits here and is released with the new token (or the error).
 let isRefreshing = false;
+let refreshQueue: Array<{ resolve: (token: string) => void; reject: (error: unknown) => void }> = [];
+
+// Tabs share one refresh token, and the server accepts each only once. Tabs
+// take turns renewing it under this lock where the browser has Web Locks.
+const REFRESH_LOCK_NAME = 'auth-token-refresh';
+// Without the lock, how long a tab whose renewal was refused waits for the
+// tab that won to store the rotated tokens
+const ROTATION_WAIT_MS = 3000;
+
+function waitForRefresh(): Promise<string> {
+  return new Promise((resolve, reject) => refreshQueue.push({ resolve, reject }));
+}
+
+function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  return 'locks' in navigator ? navigator.locks.request(REFRESH_LOCK_NAME, task) : task();
+}
+
+// Resolves once another tab stores a different refresh token, or after timeoutMs
+function waitForRotation(refreshToken: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('storage', handleStorage);
+      resolve();
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === REFRESH_TOKEN_KEY && event.newValue !== refreshToken) done();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    window.addEventListener('storage', handleStorage);
+  });
+}
+
+// The access token stored by another tab that renewed the session after this
+// tab read refreshToken, if there is one
+function tokenRenewedElsewhere(refreshToken: string): string | null {
+  const current = getRefreshToken();
+  return current && current !== refreshToken ? getAuthToken() : null;
+}
+
+async function requestNewTokens(refreshToken: string): Promise<string> {
+  const res = await sendRequest('POST', '/api/auth/refresh', JSON.stringify({ refreshToken }), {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+  });
+
+  if (!res.ok) {
+    // Another tab may have rotated the shared refresh token in the meantime
+    if (getRefreshToken() === refreshToken) {
+      await waitForRotation(refreshToken, ROTATION_WAIT_MS);
+    }
+    const renewed = tokenRenewedElsewhere(refreshToken);
+    if (renewed) {
+      return renewed;
+    }
+    throw new Error(`Authentication failed: token refresh returned ${res.status}`);
+  }
+
+  const data: AuthResponse = await res.json();
+  storeAuthTokens(data.token, data.refreshToken);
+  return data.token;
+}
+
+// A failed refresh clears the stored tokens, unless another tab has replaced
+// them since; callers can tell by checking getAuthToken().
+export async function refreshAuthToken(): Promise<string> {
+  if (isRefreshing) {
+    return waitForRefresh();
+  }
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    throw new Error('Authentication failed: no refresh token');
+  }
+
+  isRefreshing = true;
+  console.log('🔄 Refreshing access token...');
+
+  const releaseQueue = () => {
+    const queued = refreshQueue;
+    refreshQueue = [];
+    isRefreshing = false;
+    return queued;
+  };
+
+  try {
+    // A tab that waited for the lock finds the tokens the holder stored
+    const token = await withRefreshLock(
+      () => Promise.resolve(tokenRenewedElsewhere(refreshToken) ?? requestNewTokens(refreshToken)),
+    );
+    console.log('✅ Access token refreshed');
+    releaseQueue().forEach(({ resolve }) => resolve(token));
+    return token;
+  } catch (error) {
+    console.error('❌ Token refresh failed:', error);
+    if (getRefreshToken() === refreshToken) {
+      clearAuthTokens();
+    }
+    releaseQueue().forEach(({ reject }) => reject(error));
+    throw error;
+  }
+}
+
+function signOutLocally() {
+  clearAuthTokens();
+  window.location.href = '/login';
+}
 
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
-  retryCount: number = 0
+  retryCount: number = 0,
+  hasRefreshed: boolean = false
 ): Promise<Response> {
-  const token = localStorage.getItem('auth_token');
+  // Hold new requests while a refresh is in flight so they go out with the new token
+  if (isRefreshing) {
+    await waitForRefresh().catch(() => undefined);
+  }
+
+  const token = getAuthToken();
   
   const headers: Record<string, string> = {
     'Accept': 'application/json',
@@ -24,18 +197,12 @@ export async function apiRequest(
     headers['Authorization'] = `Bearer ${token}`;
   }
 
-  // Construct full URL
-  const fullUrl = url.startsWith('http') ? url : `${API_BASE_URL}${url}`;
-  
-  console.log(`🌐 API Request: ${method} ${fullUrl} (attempt ${retryCount + 1})`);
+  const canRefresh = !url.includes('/auth/login') && !url.includes('/auth/refresh') && !url.includes('/auth/logout');
+
+  console.log(`🌐 API Request: ${method} ${url} (attempt ${retryCount + 1})`);
 
   try {
-    const res = await fetch(fullUrl, {
-      method,
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-      // External API - no credentials needed
-    });
+    const res = await sendRequest(method, url, data ? JSON.stringify(data) : undefined, headers);
 
     // Check if response is HTML (error page) instead of JSON
     const contentType = res.headers.get('content-type');
@@ -47,8 +214,7 @@ export async function apiRequest(
       
       // For auth endpoints, don't clear token immediately
       if (!url.includes('/auth/')) {
-        localStorage.removeItem('auth_token');
-        window.location.href = '/login';
+        signOutLocally();
       }
       throw new Error('Server returned HTML instead of JSON');
     }
@@ -57,14 +223,33 @@ export async function apiRequest(
     console.log(`📊 API Response: ${res.status} ${res.statusText}`);
 
     if (!res.ok) {
+      // Expired access token: renew it once and replay the request
+      if (res.status === 401 && canRefresh && !hasRefreshed && getRefreshToken()) {
+        try {
+          // Skip the refresh if another request already renewed the token
+          if (getAuthToken() === token) {
+            await refreshAuthToken();
+          }
+        } catch (refreshError) {
+          // The tokens are still there when another tab renewed the session meanwhile
+          if (!getAuthToken()) {
+            if (!url.includes('/auth/')) {
+              signOutLocally();
+            }
+            throw new Error('Authentication failed: 401');
+          }
+        }
+        console.log(`🔁 Replaying ${method} ${url} with renewed token`);
+        return apiRequest(method, url, data, retryCount, true);
+      }
+
       // Handle different error cases
       if (res.status === 401 || res.status === 403) {
         console.log('🔒 Authentication failed, status:', res.status);
         
         // Only clear token and redirect for non-auth endpoints
         if (!url.includes('/auth/')) {
-          localStorage.removeItem('auth_token');
-          window.location.href = '/login';
+          signOutLocally();
         }
         throw new Error(`Authentication failed: ${res.status}`);
       }
@@ -109,8 +294,7 @@ export async function apiRequest(
       // If it looks like HTML, it's likely an auth redirect
       if (responseText.includes('<!DOCTYPE') || responseText.includes('<html')) {
         if (!url.includes('/auth/')) {
-          localStorage.removeItem('auth_token');
-          window.location.href = '/login';
+          signOutLocally();
         }
         throw new Error('Received HTML instead of JSON');
       }
@@ -126,10 +310,12 @@ export async function apiRequest(
         !error.message.includes('authentication') && 
         !error.message.includes('HTML') &&
         !error.message.includes('401') &&
-        !error.message.includes('403')) {
+        !error.message.includes('403') &&
+        // Locked or throttled sign-ins would only be turned away again
+        !/^42[39]:/.test((error as Error).message)) {
       console.log(`🔄 Retrying request (${retryCount + 1}/1)...`);
       await new Promise(resolve => setTimeout(resolve, 2000 * (retryCount + 1)));
-      return apiRequest(method, url, data, retryCount + 1);
+      return apiRequest(method, url, data, retryCount + 1, hasRefreshed);
     }
     
     throw error;
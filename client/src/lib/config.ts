@@ -0,0 +1,33 @@
+// Client runtime configuration.
+//
+// Values are resolved in this order:
+//   1. window.__APP_CONFIG__, written to /config.js when the frontend
+//      container starts (lets one image point at different APIs)
+//   2. VITE_* variables baked in at build time
+//   3. defaults: same-origin API, mock mode off
+
+export interface AppConfig {
+  apiBaseUrl: string;
+  mockApi: boolean;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string" || value === "") return undefined;
+  return ["true", "1", "yes", "on"].includes(value.toLowerCase());
+}
+
+function resolveConfig(): AppConfig {
+  const runtime = (typeof window !== "undefined" && window.__APP_CONFIG__) || {};
+
+  const apiBaseUrl = runtime.apiBaseUrl ?? import.meta.env.VITE_API_BASE_URL ?? "";
+  const mockApi = parseBoolean(runtime.mockApi) ?? parseBoolean(import.meta.env.VITE_API_MOCK) ?? false;
+
+  return {
+    // Strip the trailing slash so `${apiBaseUrl}/api/...` never doubles up
+    apiBaseUrl: apiBaseUrl.replace(/\/+$/, ""),
+    mockApi,
+  };
+}
+
+export const appConfig: AppConfig = resolveConfig();
@@ -0,0 +1,2006 @@
+// In-browser stand-in for the API server, enabled with VITE_API_MOCK=true (or
+// `mockApi: true` in the runtime config). apiRequest hands every /api/* call
+// here instead of calling fetch, so the rest of the client runs unchanged with
+// no network. State lives in memory and resets on reload.
+import {
+  ALERT_TYPES,
+  ALERT_TYPE_LABELS,
+  AUDIT_ACTIONS,
+  JOB_DESCRIPTIONS,
+  JOB_LABELS,
+  JOB_NAMES,
+  alertForRole,
+  alertThresholdError,
+  confirmPasswordResetSchema,
+  createAlertRuleSchema,
+  createEscalationPolicySchema,
+  createSiteSchema,
+  createUserSchema,
+  loginSchema,
+  notificationPreferencesSchema,
+  onCallRotationSchema,
+  passwordPolicyError,
+  passwordPolicyOf,
+  refreshTokenSchema,
+  requestPasswordResetSchema,
+  runJobSchema,
+  twoFactorCodeSchema,
+  twoFactorPolicySchema,
+  verifyTwoFactorSchema,
+  updateSiteSchema,
+  updateTankProfileSchema,
+  updateUserSchema,
+  updateAlertRuleSchema,
+  updateEscalationPolicySchema,
+  updateJobSchema,
+  updateSettingsSchema,
+  updateViewModeSchema,
+  webhookSchema,
+  isLowOnFuel,
+  type Alert,
+  type AlertEntry,
+  type AlertRule,
+  type AlertType,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEvent,
+  type AuditLogResponse,
+  type AuthResponse,
+  type CumulativeResponse,
+  type CumulativeSiteSummary,
+  type DashboardData,
+  type DailyClosingReading,
+  type EmailLogEntry,
+  type EmailSettingsResponse,
+  type EscalationPolicyWithSteps,
+  type FuelIncidentEntry,
+  type JobName,
+  type JobRun,
+  type JobSummary,
+  type LoginResponse,
+  type NotificationPreferences,
+  type OnCallRotation,
+  type OnCallRotationEntry,
+  type PasswordPolicyResponse,
+  type RefuelLogEntry,
+  type SettingsResponse,
+  type Site,
+  type SiteAssignee,
+  type SiteHistoryResponse,
+  type SiteWithReadings,
+  type SystemSettings,
+  type TankProfileResponse,
+  type TankStrappingPoint,
+  type TwoFactorEnableResponse,
+  type TwoFactorPolicyResponse,
+  type TwoFactorSetupResponse,
+  type TwoFactorStatusResponse,
+  type User,
+  type ViewModeResponse,
+  type Webhook,
+  type WebhookDelivery,
+} from "@shared/schema";
+import {
+  buildMockCumulativeReading,
+  buildMockIncidentEvidence,
+  buildMockSiteHistory,
+  mockAlertEscalations,
+  mockAlertRules,
+  mockAlerts,
+  mockAssignments,
+  mockAuditEvents,
+  mockClosingReadings,
+  mockCumulativeReadings,
+  mockEmailLog,
+  mockEscalationPolicies,
+  mockFuelIncidents,
+  mockJobRuns,
+  mockOnCallRotations,
+  mockOnlineDeviceIds,
+  mockRealtimeReadings,
+  mockRefuelEvents,
+  mockSites,
+  mockUsers,
+  mockWebhookDeliveries,
+  mockWebhooks,
+} from "./mock-data";
+
+const MOCK_LATENCY_MS = 250;
+
+const users: User[] = mockUsers.map((user) => ({ ...user }));
+const assignments: Record<number, number[]> = { ...mockAssignments };
+const cumulativeReadings = [...mockCumulativeReadings];
+// refresh token -> user id; each token is single use
+const refreshTokens = new Map<string, number>();
+// reset token -> user id; there is no email, so links are logged to the console
+const passwordResets = new Map<string, { userId: number; expiresAt: number }>();
+// site id -> strapping table
+const strappingPoints = new Map<number, TankStrappingPoint[]>();
+// Alerts are fixed fixtures here; only acknowledging changes them
+const alerts: Alert[] = mockAlerts.map((alert) => ({ ...alert }));
+const alertRules: AlertRule[] = mockAlertRules.map((rule) => ({ ...rule }));
+// Test emails are "sent" to a pretend local catcher and logged here
+const emailLog: EmailLogEntry[] = mockEmailLog.map((entry) => ({ ...entry }));
+const webhooks: Webhook[] = mockWebhooks.map((webhook) => ({ ...webhook }));
+const webhookDeliveries: WebhookDelivery[] = mockWebhookDeliveries.map((delivery) => ({ ...delivery }));
+// Nothing escalates in the mock; policies and rotations can only be edited
+const escalationPolicies: EscalationPolicyWithSteps[] = mockEscalationPolicies.map((policy) => ({
+  ...policy,
+  steps: policy.steps.map((step) => ({ ...step })),
+}));
+const onCallRotations: OnCallRotation[] = mockOnCallRotations.map((rotation) => ({ ...rotation }));
+const auditEvents: AuditEvent[] = mockAuditEvents.map((event) => ({ ...event }));
+// Mock sessions all come from the same pretend address
+const MOCK_CLIENT_IP = "127.0.0.1";
+// The server's defaults with the local timezone. The token expiry is short
+// enough that the silent renewal path gets exercised during a demo.
+let settings: SystemSettings = {
+  general: { timezone: "Africa/Harare" },
+  scheduler: { captureTime: "23:55", backfillDays: 7 },
+  security: {
+    jwtExpiryMinutes: 15,
+    sessionTimeoutMinutes: 7 * 24 * 60,
+    maxLoginAttempts: 5,
+    passwordMinLength: 8,
+    passwordRequireUppercase: true,
+    passwordRequireLowercase: true,
+    passwordRequireNumber: true,
+    passwordRequireSymbol: false,
+    passwordHistory: 5,
+  },
+  notifications: { portalUrl: "", emailMaxAttempts: 5, webhookMaxAttempts: 8 },
+};
+const settingsUpdatedAt: SettingsResponse["updatedAt"] = { general: null, scheduler: null, security: null, notifications: null };
+// There is no real authenticator behind the mock: this code always works
+const MOCK_TOTP_CODE = "123456";
+const MOCK_TOTP_SECRET = "JBSWY3DPEHPK3PXP";
+
+// challenge token -> userId, for the second sign-in step
+const twoFactorChallenges = new Map<string, number>();
+// userId -> unused recovery codes
+const recoveryCodes = new Map<number, string[]>();
+const twoFactorRequiredRoles = new Set<string>();
+// admin id -> saved dashboard view mode
+const viewModes = new Map<number, ViewModeResponse>();
+// Nothing runs on schedule in the mock; only manual runs add to the history
+const jobRuns: JobRun[] = mockJobRuns.map((run) => ({ ...run }));
+const jobConfig = new Map<JobName, { schedule: string | null; paused: boolean }>();
+// How long a manual run takes
+const MOCK_JOB_RUN_MS = 3000;
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type MockRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  params: string[];
+  body: any;
+  user: User | null;
+};
+
+type MockHandler = (req: MockRequest) => unknown;
+
+type MockRoute = {
+  method: string;
+  pattern: RegExp;
+  auth: boolean;
+  handler: MockHandler;
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function withoutPassword(user: User): Omit<User, "password"> {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+function base64Url(value: object): string {
+  return btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+// Unsigned but structurally valid JWT so AuthProvider can read `exp`.
+function issueToken(user: User): string {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64Url({ alg: "none", typ: "JWT" });
+  const payload = base64Url({
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    iat: issuedAt,
+    exp: issuedAt + settings.security.jwtExpiryMinutes * 60,
+  });
+  return `${header}.${payload}.mock`;
+}
+
+function issueRefreshToken(user: User): string {
+  const token = `mock-refresh-${user.id}-${Math.random().toString(36).slice(2)}`;
+  refreshTokens.set(token, user.id);
+  return token;
+}
+
+function userFromToken(authorization: string | null): User | null {
+  if (!authorization?.startsWith("Bearer ")) return null;
+  try {
+    const payload = JSON.parse(atob(authorization.slice(7).split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    if (payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return users.find((user) => user.id === payload.userId && user.isActive) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function requireAdmin(req: MockRequest) {
+  if (req.user?.role !== "admin") {
+    throw new MockHttpError(403, "Insufficient permissions");
+  }
+}
+
+function sitesForUser(user: User): Site[] {
+  if (user.role === "admin") {
+    return mockSites.filter((site) => site.isActive);
+  }
+  const siteIds = assignments[user.id] ?? [];
+  return mockSites.filter((site) => site.isActive && siteIds.includes(site.id));
+}
+
+// Only the current password counts as history here
+function checkNewPassword(password: string, user?: User) {
+  const policy = passwordPolicyOf(settings.security);
+  const error = passwordPolicyError(password, policy)
+    ?? (policy.historyCount > 0 && user?.password === password ? "Password must differ from the current one" : null);
+  if (error) {
+    throw new MockHttpError(400, error);
+  }
+}
+
+function issueChallenge(user: User): string {
+  const token = `mock-2fa-${user.id}-${Math.random().toString(36).slice(2)}`;
+  twoFactorChallenges.set(token, user.id);
+  console.info(`Mock authenticator code for ${user.username}: ${MOCK_TOTP_CODE}`);
+  return token;
+}
+
+// The signed-in user, or the one signing in with a challenge token
+function twoFactorUser(req: MockRequest): { user: User; signingIn: boolean } {
+  const userId = typeof req.body?.challengeToken === "string" ? twoFactorChallenges.get(req.body.challengeToken) : undefined;
+  const challenged = users.find((candidate) => candidate.id === userId && candidate.isActive);
+  if (challenged) {
+    return { user: challenged, signingIn: true };
+  }
+  if (req.body?.challengeToken || !req.user) {
+    throw new MockHttpError(401, "Sign-in expired. Sign in again.");
+  }
+  return { user: req.user, signingIn: false };
+}
+
+function generateRecoveryCodes(user: User): string[] {
+  const codes = Array.from({ length: 10 }, () => {
+    const code = Math.random().toString(36).slice(2, 12).padEnd(10, "0");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  recoveryCodes.set(user.id, codes);
+  return codes;
+}
+
+function completeSignIn(user: User): AuthResponse {
+  Object.assign(user, { lastLogin: new Date(), failedLoginAttempts: 0, lastFailedLogin: null, lockedUntil: null });
+  recordAudit(user, "auth.login");
+  return { user: withoutPassword(user), token: issueToken(user), refreshToken: issueRefreshToken(user) };
+}
+
+function findUser(id: string): User {
+  const user = users.find((candidate) => candidate.id === parseInt(id, 10));
+  if (!user) {
+    throw new MockHttpError(404, "User not found");
+  }
+  return user;
+}
+
+function findSite(id: string): Site {
+  const site = mockSites.find((candidate) => candidate.id === parseInt(id, 10));
+  if (!site) {
+    throw new MockHttpError(404, "Site not found");
+  }
+  return site;
+}
+
+function tankProfile(site: Site): TankProfileResponse {
+  return {
+    tankShape: site.tankShape,
+    tankDiameterMm: site.tankDiameterMm,
+    tankLengthMm: site.tankLengthMm,
+    fuelCapacity: site.fuelCapacity,
+    points: strappingPoints.get(site.id) ?? [],
+  };
+}
+
+function buildSite(site: Site, reading: DailyClosingReading | undefined, role: string): SiteWithReadings {
+  const fuelLevelPercentage = reading?.fuelLevel ? parseFloat(reading.fuelLevel) : 0;
+  const generatorOnline = reading?.generatorState === "on";
+  const zesaOnline = reading?.zesaState === "on";
+
+  const incident = mockFuelIncidents.find((candidate) => candidate.siteId === site.id);
+  const activeAlerts = alerts
+    .filter((alert) => alert.siteId === site.id && alert.status !== "resolved")
+    .map((alert) => alertForRole(alert, role));
+
+  let alertStatus: SiteWithReadings["alertStatus"] = "normal";
+  if (incident) {
+    alertStatus = "suspected_theft";
+  } else {
+    alertStatus = ALERT_TYPES.find((type) => activeAlerts.some((alert) => alert.type === type)) ?? "normal";
+  }
+
+  return {
+    ...site,
+    latestReading: reading,
+    generatorOnline,
+    zesaOnline,
+    fuelLevelPercentage,
+    alertStatus,
+    icingaOnline: mockOnlineDeviceIds.has(site.deviceId),
+    activeIncident: incident,
+    activeAlerts,
+  };
+}
+
+function savedViewMode(user: User): ViewModeResponse {
+  return (user.role === "admin" && viewModes.get(user.id)) || { viewMode: "closing", updatedAt: null };
+}
+
+function buildDashboard(user: User, requestedMode: string | null): DashboardData & { viewMode: string } {
+  if (requestedMode === "realtime" && user.role !== "admin") {
+    throw new MockHttpError(403, "Real-time data is only available to administrators");
+  }
+  const mode = requestedMode === "realtime" || requestedMode === "closing" ? requestedMode : savedViewMode(user).viewMode;
+  const readings = mode === "realtime" ? mockRealtimeReadings : mockClosingReadings;
+
+  const sites = sitesForUser(user).map((site) =>
+    buildSite(site, readings.find((reading) => reading.siteId === site.id), user.role),
+  );
+  const sitesOnline = sites.filter((site) => site.icingaOnline).length;
+
+  return {
+    sites,
+    systemStatus: {
+      sitesOnline,
+      totalSites: sites.length,
+      lowFuelAlerts: sites.filter(isLowOnFuel).length,
+      generatorsRunning: sites.filter((site) => site.generatorOnline).length,
+      zesaRunning: sites.filter((site) => site.zesaOnline).length,
+      offlineSites: sites.length - sitesOnline,
+    },
+    recentActivity: sites
+      .filter((site) => site.latestReading)
+      .map((site) => ({
+        id: site.id,
+        siteId: site.id,
+        siteName: site.name,
+        event: mode === "realtime" ? "Live reading" : "Daily closing reading",
+        value: `${site.fuelLevelPercentage.toFixed(1)}%`,
+        timestamp: site.latestReading!.capturedAt,
+        status: site.alertStatus === "normal"
+          ? "Normal"
+          : site.alertStatus === "suspected_theft"
+            ? "Suspected Theft"
+            : ALERT_TYPE_LABELS[site.alertStatus],
+      })),
+    viewMode: mode,
+  };
+}
+
+// The values one cron field allows: *, numbers, ranges and steps, comma separated
+function cronFieldValues(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+    const from = match[1] === undefined ? min : parseInt(match[1], 10);
+    const to = match[2] !== undefined ? parseInt(match[2], 10) : match[1] === undefined || match[3] ? max : from;
+    const step = match[3] ? parseInt(match[3], 10) : 1;
+    if (from < min || to > max || from > to || step < 1) return null;
+    for (let value = from; value <= to; value += step) {
+      values.add(value === 7 && max === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// The next minute after from that the schedule fires in timezone, looking a
+// year ahead. Null for an expression the mock cannot read.
+function nextCronRun(schedule: string, timezone: string, from: Date): Date | null {
+  const fields = schedule.trim().split(/\s+/);
+  if (fields.length === 6 && cronFieldValues(fields[0], 0, 59)) fields.shift();
+  if (fields.length !== 5) return null;
+  const [minutes, hours, days, months, weekdays] = [
+    cronFieldValues(fields[0], 0, 59),
+    cronFieldValues(fields[1], 0, 23),
+    cronFieldValues(fields[2], 1, 31),
+    cronFieldValues(fields[3], 1, 12),
+    cronFieldValues(fields[4], 0, 7),
+  ];
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+  });
+  // Either day field matches when both are restricted, as in cron
+  const dayMatches = (day: number, weekday: number) => {
+    if (fields[2] === "*") return weekdays.has(weekday);
+    if (fields[4] === "*") return days.has(day);
+    return days.has(day) || weekdays.has(weekday);
+  };
+
+  let time = Math.floor(from.getTime() / 60000) * 60000 + 60000;
+  const end = time + 366 * 24 * 60 * 60 * 1000;
+  while (time < end) {
+    const parts = Object.fromEntries(format.formatToParts(new Date(time)).map((part) => [part.type, part.value]));
+    const hour = parseInt(parts.hour, 10);
+    const minute = parseInt(parts.minute, 10);
+    if (!months.has(parseInt(parts.month, 10)) || !dayMatches(parseInt(parts.day, 10), WEEKDAYS.indexOf(parts.weekday))) {
+      time += ((23 - hour) * 60 + (60 - minute)) * 60000;
+    } else if (!hours.has(hour)) {
+      time += (60 - minute) * 60000;
+    } else if (!minutes.has(minute)) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+  return null;
+}
+
+// As on the server; the closing capture follows the capture time setting
+function defaultJobSchedule(name: JobName): string {
+  if (name === "closing-capture") {
+    const [hour, minute] = settings.scheduler.captureTime.split(":").map((part) => parseInt(part, 10));
+    return `${minute} ${hour} * * *`;
+  }
+  return name === "cumulative-processing" ? "15 0 * * *" : "30 3 * * *";
+}
+
+function findJob(name: string): JobName {
+  const job = JOB_NAMES.find((candidate) => candidate === name);
+  if (!job) {
+    throw new MockHttpError(404, "Job not found");
+  }
+  return job;
+}
+
+function jobSummary(name: JobName): JobSummary {
+  const config = jobConfig.get(name);
+  const schedule = config?.schedule ?? defaultJobSchedule(name);
+  const lastRun = jobRuns.filter((run) => run.job === name).pop() ?? null;
+  return {
+    name,
+    label: JOB_LABELS[name],
+    description: JOB_DESCRIPTIONS[name],
+    schedule,
+    defaultSchedule: defaultJobSchedule(name),
+    paused: config?.paused ?? false,
+    takesDate: name !== "data-retention",
+    running: lastRun?.status === "running",
+    lastRun,
+    nextRun: config?.paused ? null : nextCronRun(schedule, settings.general.timezone, new Date()),
+  };
+}
+
+function toAlertEntry(alert: Alert, role: string): AlertEntry {
+  return {
+    ...alertForRole(alert, role),
+    siteName: mockSites.find((site) => site.id === alert.siteId)?.name ?? "",
+    acknowledgedByName: users.find((user) => user.id === alert.acknowledgedBy)?.fullName ?? null,
+    escalatedTo: Array.from(new Set(mockAlertEscalations
+      .filter((escalation) => escalation.alertId === alert.id)
+      .map((escalation) => users.find((user) => user.id === escalation.userId)?.fullName ?? ""))),
+  };
+}
+
+function findAlertRule(id: string): AlertRule {
+  const rule = alertRules.find((candidate) => candidate.id === parseInt(id, 10));
+  if (!rule) {
+    throw new MockHttpError(404, "Alert rule not found");
+  }
+  return rule;
+}
+
+function findWebhook(id: string): Webhook {
+  const webhook = webhooks.find((candidate) => candidate.id === parseInt(id, 10));
+  if (!webhook) {
+    throw new MockHttpError(404, "Webhook not found");
+  }
+  return webhook;
+}
+
+// Same rules as the server's audit service: bookkeeping fields are skipped
+// and passwords masked.
+function auditChanges(before: object | null, after: object | null): AuditChanges | null {
+  const previous: Record<string, unknown> = { ...before };
+  const next: Record<string, unknown> = { ...after };
+  const changes: AuditChanges = {};
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (["id", "createdAt", "updatedAt", "lastLogin", "failedLoginAttempts", "lastFailedLogin"].includes(field)) continue;
+    const [from, to] = [previous[field] ?? null, next[field] ?? null];
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[field] = field === "password"
+      ? { before: from === null ? null : "********", after: to === null ? null : "********" }
+      : { before: from, after: to };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function recordAudit(
+  actor: Pick<User, "id" | "username"> | { id: null; username: string },
+  action: AuditAction,
+  target?: { type: string; id?: number; label: string },
+  changes: AuditChanges | null = null,
+) {
+  auditEvents.push({
+    id: Math.max(0, ...auditEvents.map((event) => event.id)) + 1,
+    actorId: actor.id,
+    actorName: actor.username,
+    action,
+    targetType: target?.type ?? null,
+    targetId: target?.id ?? null,
+    targetLabel: target?.label ?? null,
+    changes,
+    ipAddress: MOCK_CLIENT_IP,
+    createdAt: new Date(),
+  });
+}
+
+function findEscalationPolicy(id: string): EscalationPolicyWithSteps {
+  const policy = escalationPolicies.find((candidate) => candidate.id === parseInt(id, 10));
+  if (!policy) {
+    throw new MockHttpError(404, "Escalation policy not found");
+  }
+  return policy;
+}
+
+function findOnCallRotation(id: number): OnCallRotation {
+  const rotation = onCallRotations.find((candidate) => candidate.id === id);
+  if (!rotation) {
+    throw new MockHttpError(404, "On-call rotation not found");
+  }
+  return rotation;
+}
+
+function buildSteps(policyId: number, steps: Array<{ target: string; delayMinutes: number }>) {
+  const firstId = Math.max(0, ...escalationPolicies.flatMap((policy) => policy.steps.map((step) => step.id))) + 1;
+  return steps.map((step, index) => ({ ...step, id: firstId + index, policyId, position: index + 1 }));
+}
+
+// Same weekly hand-over as the server's escalation service
+function toRotationEntry(rotation: OnCallRotation): OnCallRotationEntry {
+  const weekMs = 7 * 24 * 60 * 60 * 1000;
+  const elapsed = Date.now() - rotation.startsAt.getTime();
+  const week = Math.floor(elapsed / weekMs);
+  return {
+    ...rotation,
+    onCallUserId: elapsed < 0 ? null : rotation.memberIds[week % rotation.memberIds.length] ?? null,
+    nextHandoffAt: elapsed < 0 ? rotation.startsAt : new Date(rotation.startsAt.getTime() + (week + 1) * weekMs),
+  };
+}
+
+function parseRotation(body: unknown) {
+  const parsed = onCallRotationSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid rotation");
+  }
+  if (parsed.data.memberIds.some((id) => !users.some((user) => user.id === id && user.isActive))) {
+    throw new MockHttpError(400, "Rotation members must be active users");
+  }
+  return parsed.data;
+}
+
+function parseWebhook(body: unknown) {
+  const parsed = webhookSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid webhook");
+  }
+  return parsed.data;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildCumulative(user: User, startDate: string, endDate: string): CumulativeResponse {
+  const summaries: CumulativeSiteSummary[] = [];
+
+  for (const site of sitesForUser(user)) {
+    const rows = cumulativeReadings
+      .filter((row) => row.siteId === site.id && row.date >= startDate && row.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (rows.length === 0) continue;
+
+    summaries.push({
+      siteId: site.id,
+      siteName: site.name,
+      deviceId: site.deviceId,
+      totalFuelConsumed: round2(rows.reduce((sum, row) => sum + parseFloat(row.totalFuelConsumed ?? "0"), 0)),
+      totalGeneratorHours: round2(rows.reduce((sum, row) => sum + parseFloat(row.totalGeneratorRuntime ?? "0"), 0)),
+      totalZesaHours: round2(rows.reduce((sum, row) => sum + parseFloat(row.totalZesaRuntime ?? "0"), 0)),
+      readingDays: rows.length,
+      dateRange: { first: rows[0].date, last: rows[rows.length - 1].date },
+    });
+  }
+
+  const totalFuelConsumed = round2(summaries.reduce((sum, site) => sum + site.totalFuelConsumed, 0));
+  const daysIncluded = Math.round(
+    (new Date(endDate).getTime() - new Date(startDate).getTime()) / (24 * 60 * 60 * 1000),
+  ) + 1;
+
+  return {
+    sites: summaries,
+    summary: {
+      dateRange: { start: startDate, end: endDate, isRange: startDate !== endDate },
+      totalSites: summaries.length,
+      totalFuelConsumed,
+      totalGeneratorHours: round2(summaries.reduce((sum, site) => sum + site.totalGeneratorHours, 0)),
+      totalZesaHours: round2(summaries.reduce((sum, site) => sum + site.totalZesaHours, 0)),
+      averageFuelPerSite: summaries.length > 0 ? round2(totalFuelConsumed / summaries.length) : 0,
+      daysIncluded: Math.max(1, daysIncluded),
+    },
+  };
+}
+
+const routes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: /^\/api\/health$/,
+    auth: false,
+    handler: () => ({ status: "ok", database: "mock", timestamp: new Date().toISOString() }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/login$/,
+    auth: false,
+    handler: ({ body }): LoginResponse => {
+      const parsed = loginSchema.safeParse(body);
+      const user = parsed.success ? users.find((candidate) => candidate.username === parsed.data.username) : undefined;
+      if (user?.lockedUntil && user.lockedUntil > new Date()) {
+        throw new MockHttpError(423, `Account locked until ${user.lockedUntil.toISOString()}`);
+      }
+      if (parsed.success && (!user || user.password !== parsed.data.password || !user.isActive)) {
+        recordAudit(
+          { id: null, username: parsed.data.username },
+          "auth.login_failed",
+          user ? { type: "user", id: user.id, label: user.username } : undefined,
+        );
+      }
+      if (user && parsed.success && user.password !== parsed.data.password) {
+        // No progressive delays here, only the lock after maxLoginAttempts
+        user.failedLoginAttempts += 1;
+        user.lastFailedLogin = new Date();
+        if (user.failedLoginAttempts >= settings.security.maxLoginAttempts) {
+          user.lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+          recordAudit({ id: null, username: user.username }, "auth.locked", { type: "user", id: user.id, label: user.username });
+          throw new MockHttpError(423, `Account locked until ${user.lockedUntil.toISOString()}`);
+        }
+      }
+      if (!parsed.success || !user || user.password !== parsed.data.password) {
+        throw new MockHttpError(401, "Invalid username or password");
+      }
+      if (!user.isActive) {
+        throw new MockHttpError(403, "Account is disabled. Contact an administrator.");
+      }
+      if (user.twoFactorEnabledAt || twoFactorRequiredRoles.has(user.role)) {
+        return { twoFactor: user.twoFactorEnabledAt ? "verify" : "enroll", challengeToken: issueChallenge(user) };
+      }
+      return completeSignIn(user);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/2fa\/verify$/,
+    auth: false,
+    handler: ({ body }): AuthResponse => {
+      const parsed = verifyTwoFactorSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid request");
+      }
+      const userId = twoFactorChallenges.get(parsed.data.challengeToken);
+      const user = users.find((candidate) => candidate.id === userId && candidate.isActive && candidate.twoFactorEnabledAt);
+      if (!user) {
+        throw new MockHttpError(401, "Sign-in expired. Sign in again.");
+      }
+      const unused = recoveryCodes.get(user.id) ?? [];
+      const code = parsed.data.code.toLowerCase();
+      if (parsed.data.code !== MOCK_TOTP_CODE && !unused.includes(code)) {
+        recordAudit({ id: null, username: user.username }, "auth.two_factor_failed", { type: "user", id: user.id, label: user.username });
+        throw new MockHttpError(401, "Invalid verification code");
+      }
+      if (parsed.data.code !== MOCK_TOTP_CODE) {
+        recoveryCodes.set(user.id, unused.filter((candidate) => candidate !== code));
+        recordAudit(user, "auth.recovery_code_used");
+      }
+      twoFactorChallenges.delete(parsed.data.challengeToken);
+      return completeSignIn(user);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/auth\/2fa$/,
+    auth: true,
+    handler: ({ user }): TwoFactorStatusResponse => ({
+      enabled: !!user!.twoFactorEnabledAt,
+      required: twoFactorRequiredRoles.has(user!.role),
+      recoveryCodesRemaining: recoveryCodes.get(user!.id)?.length ?? 0,
+    }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/2fa\/setup$/,
+    auth: false,
+    handler: async (req): Promise<TwoFactorSetupResponse> => {
+      const { user } = twoFactorUser(req);
+      if (user.twoFactorEnabledAt) {
+        throw new MockHttpError(409, "Two-factor authentication is already enabled");
+      }
+      const otpauthUrl = `otpauth://totp/${encodeURIComponent(`Fuel Monitor:${user.username}`)}?secret=${MOCK_TOTP_SECRET}&issuer=Fuel%20Monitor`;
+      // Loaded on demand so the QR encoder stays out of the main bundle
+      const QRCode = await import("qrcode");
+      return { secret: MOCK_TOTP_SECRET, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/2fa\/enable$/,
+    auth: false,
+    handler: (req): TwoFactorEnableResponse => {
+      const { user, signingIn } = twoFactorUser(req);
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid request");
+      }
+      if (user.twoFactorEnabledAt) {
+        throw new MockHttpError(409, "Two-factor authentication is already enabled");
+      }
+      if (parsed.data.code !== MOCK_TOTP_CODE) {
+        throw new MockHttpError(400, `That code does not match. The mock authenticator code is ${MOCK_TOTP_CODE}.`);
+      }
+      user.twoFactorEnabledAt = new Date();
+      recordAudit(user, "auth.two_factor_enable");
+      const response: TwoFactorEnableResponse = { recoveryCodes: generateRecoveryCodes(user) };
+      if (signingIn) {
+        twoFactorChallenges.delete(req.body.challengeToken);
+        response.auth = completeSignIn(user);
+      }
+      return response;
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/2fa\/(disable|recovery-codes)$/,
+    auth: true,
+    handler: (req): TwoFactorEnableResponse | { message: string } => {
+      const user = req.user!;
+      const parsed = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid request");
+      }
+      if (!user.twoFactorEnabledAt) {
+        throw new MockHttpError(400, "Two-factor authentication is not enabled");
+      }
+      if (req.params[0] === "disable" && twoFactorRequiredRoles.has(user.role)) {
+        throw new MockHttpError(400, "Two-factor authentication is required for your role");
+      }
+      if (parsed.data.code !== MOCK_TOTP_CODE) {
+        throw new MockHttpError(400, "Invalid verification code");
+      }
+      if (req.params[0] === "recovery-codes") {
+        recordAudit(user, "auth.recovery_codes");
+        return { recoveryCodes: generateRecoveryCodes(user) };
+      }
+      user.twoFactorEnabledAt = null;
+      recoveryCodes.delete(user.id);
+      recordAudit(user, "auth.two_factor_disable");
+      return { message: "Two-factor authentication disabled" };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/refresh$/,
+    auth: false,
+    handler: ({ body }): AuthResponse => {
+      const parsed = refreshTokenSchema.safeParse(body);
+      const userId = parsed.success ? refreshTokens.get(parsed.data.refreshToken) : undefined;
+      const user = users.find((candidate) => candidate.id === userId && candidate.isActive);
+      if (!parsed.success || !user) {
+        throw new MockHttpError(401, "Invalid or expired refresh token");
+      }
+      refreshTokens.delete(parsed.data.refreshToken);
+      return { user: withoutPassword(user), token: issueToken(user), refreshToken: issueRefreshToken(user) };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/auth\/validate$/,
+    auth: true,
+    handler: ({ user }) => ({ valid: true, user: withoutPassword(user!) }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/logout$/,
+    auth: false,
+    handler: ({ body }) => {
+      if (typeof body?.refreshToken === "string") {
+        refreshTokens.delete(body.refreshToken);
+      }
+      return { message: "Logged out successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/auth\/password-policy$/,
+    auth: false,
+    handler: (): PasswordPolicyResponse => ({ policy: passwordPolicyOf(settings.security), resetAvailable: true }),
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/password-reset\/request$/,
+    auth: false,
+    handler: (req) => {
+      const parsed = requestPasswordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid request");
+      }
+      const identifier = parsed.data.identifier.toLowerCase();
+      const user = users.find((candidate) =>
+        candidate.isActive && (candidate.username === parsed.data.identifier || candidate.email.toLowerCase() === identifier));
+      if (user) {
+        const token = `mock-reset-${user.id}-${Math.random().toString(36).slice(2)}`;
+        passwordResets.set(token, { userId: user.id, expiresAt: Date.now() + 60 * 60 * 1000 });
+        console.info(`Mock password reset link for ${user.username}: /reset-password?token=${token}`);
+        recordAudit(
+          { id: null, username: parsed.data.identifier },
+          "auth.password_reset_request",
+          { type: "user", id: user.id, label: user.username },
+        );
+      }
+      return { message: "If an active account matches, a reset link has been emailed to it" };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/auth\/password-reset\/confirm$/,
+    auth: false,
+    handler: (req) => {
+      const parsed = confirmPasswordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid request");
+      }
+      const reset = passwordResets.get(parsed.data.token);
+      const user = reset && reset.expiresAt > Date.now()
+        ? users.find((candidate) => candidate.id === reset.userId && candidate.isActive)
+        : undefined;
+      if (!user) {
+        throw new MockHttpError(400, "This reset link is invalid or has expired. Request a new one.");
+      }
+      checkNewPassword(parsed.data.password, user);
+      passwordResets.delete(parsed.data.token);
+      Object.assign(user, { password: parsed.data.password, failedLoginAttempts: 0, lastFailedLogin: null, lockedUntil: null });
+      refreshTokens.forEach((userId, token) => {
+        if (userId === user.id) refreshTokens.delete(token);
+      });
+      recordAudit(user, "auth.password_reset", { type: "user", id: user.id, label: user.username });
+      return { message: "Password changed. You can now sign in with it." };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/dashboard$/,
+    auth: true,
+    handler: ({ user, query }) => buildDashboard(user!, query.get("mode")),
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/admin\/view-mode$/,
+    auth: true,
+    handler: ({ user }) => savedViewMode(user!),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/admin\/view-mode$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const parsed = updateViewModeSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid view mode");
+      }
+      if (user!.role !== "admin") {
+        if (parsed.data.viewMode === "realtime") {
+          throw new MockHttpError(403, "Real-time data is only available to administrators");
+        }
+        return savedViewMode(user!);
+      }
+      const before = savedViewMode(user!).viewMode;
+      const saved: ViewModeResponse = { viewMode: parsed.data.viewMode, updatedAt: new Date() };
+      viewModes.set(user!.id, saved);
+      if (before !== saved.viewMode) {
+        recordAudit(user!, "view_mode.switch", undefined, { viewMode: { before, after: saved.viewMode } });
+      }
+      return saved;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/users$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return users.map(withoutPassword);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/users$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid user");
+      }
+      if (users.some((user) => user.username === parsed.data.username)) {
+        throw new MockHttpError(409, "Username already exists");
+      }
+      checkNewPassword(parsed.data.password);
+      const user: User = {
+        ...parsed.data,
+        id: Math.max(...users.map((existing) => existing.id)) + 1,
+        emailAlerts: false,
+        lastLogin: null,
+        failedLoginAttempts: 0,
+        lastFailedLogin: null,
+        lockedUntil: null,
+        twoFactorEnabledAt: null,
+        createdAt: new Date(),
+      };
+      users.push(user);
+      recordAudit(req.user!, "user.create", { type: "user", id: user.id, label: user.username }, auditChanges(null, user));
+      return withoutPassword(user);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/users\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      const body = { ...req.body };
+      if (body.password === "") delete body.password;
+      const parsed = updateUserSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid user");
+      }
+      const { password, ...updates } = parsed.data;
+      if (password) {
+        checkNewPassword(password, user);
+      }
+      const before = { ...user };
+      Object.assign(user, updates, password ? { password } : {});
+      recordAudit(req.user!, "user.update", { type: "user", id: user.id, label: user.username }, auditChanges(before, user));
+      return withoutPassword(user);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/users\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      if (user.id === req.user!.id) {
+        throw new MockHttpError(400, "You cannot delete your own account");
+      }
+      users.splice(users.indexOf(user), 1);
+      delete assignments[user.id];
+      recordAudit(req.user!, "user.delete", { type: "user", id: user.id, label: user.username }, auditChanges(user, null));
+      for (const rotation of onCallRotations) {
+        rotation.memberIds = rotation.memberIds.filter((id) => id !== user.id);
+      }
+      return { message: "User deleted successfully" };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/users\/(\d+)\/unlock$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      const before = { lockedUntil: user.lockedUntil };
+      Object.assign(user, { failedLoginAttempts: 0, lastFailedLogin: null, lockedUntil: null });
+      recordAudit(
+        req.user!,
+        "user.unlock",
+        { type: "user", id: user.id, label: user.username },
+        auditChanges(before, { lockedUntil: null }),
+      );
+      return withoutPassword(user);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/users\/(\d+)\/2fa\/reset$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      if (user.id === req.user!.id) {
+        throw new MockHttpError(400, "Use your own two-factor settings to turn it off");
+      }
+      const before = { twoFactorEnabledAt: user.twoFactorEnabledAt };
+      user.twoFactorEnabledAt = null;
+      recoveryCodes.delete(user.id);
+      recordAudit(
+        req.user!,
+        "user.two_factor_reset",
+        { type: "user", id: user.id, label: user.username },
+        auditChanges(before, { twoFactorEnabledAt: null }),
+      );
+      return withoutPassword(user);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/security\/two-factor-policy$/,
+    auth: true,
+    handler: (req): TwoFactorPolicyResponse => {
+      requireAdmin(req);
+      return { requiredRoles: Array.from(twoFactorRequiredRoles).sort() as TwoFactorPolicyResponse["requiredRoles"] };
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/security\/two-factor-policy$/,
+    auth: true,
+    handler: (req): TwoFactorPolicyResponse => {
+      requireAdmin(req);
+      const parsed = twoFactorPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid policy");
+      }
+      const before = Array.from(twoFactorRequiredRoles).sort();
+      twoFactorRequiredRoles.clear();
+      parsed.data.requiredRoles.forEach((role) => twoFactorRequiredRoles.add(role));
+      const requiredRoles = Array.from(twoFactorRequiredRoles).sort() as TwoFactorPolicyResponse["requiredRoles"];
+      const changes = auditChanges({ requiredRoles: before }, { requiredRoles });
+      if (changes) {
+        recordAudit(req.user!, "security.two_factor_policy", undefined, changes);
+      }
+      return { requiredRoles };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/admin\/settings$/,
+    auth: true,
+    handler: (req): SettingsResponse => {
+      requireAdmin(req);
+      return { settings, updatedAt: settingsUpdatedAt };
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/admin\/settings$/,
+    auth: true,
+    handler: (req): SettingsResponse => {
+      requireAdmin(req);
+      const parsed = updateSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid settings");
+      }
+      const flatten = (values: Partial<SystemSettings>) => Object.fromEntries(
+        Object.entries(values).flatMap(([section, fields]) =>
+          Object.entries(fields).map(([field, value]) => [`${section}.${field}`, value])),
+      );
+      const sections = Object.keys(parsed.data) as Array<keyof SystemSettings>;
+      const before = Object.fromEntries(sections.map((section) => [section, settings[section]]));
+      const changes = auditChanges(flatten(before), flatten(parsed.data));
+
+      settings = { ...settings, ...parsed.data };
+      sections.forEach((section) => {
+        settingsUpdatedAt[section] = new Date();
+      });
+      if (changes) {
+        recordAudit(req.user!, "settings.update", undefined, changes);
+      }
+      return { settings, updatedAt: settingsUpdatedAt };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/admin\/jobs$/,
+    auth: true,
+    handler: (req): JobSummary[] => {
+      requireAdmin(req);
+      return JOB_NAMES.map(jobSummary);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/admin\/jobs\/([\w-]+)\/runs$/,
+    auth: true,
+    handler: (req): JobRun[] => {
+      requireAdmin(req);
+      const name = findJob(req.params[0]);
+      return jobRuns.filter((run) => run.job === name).reverse().slice(0, 50);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/admin\/jobs\/([\w-]+)$/,
+    auth: true,
+    handler: (req): JobSummary => {
+      requireAdmin(req);
+      const name = findJob(req.params[0]);
+      const parsed = updateJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid job settings");
+      }
+      const { schedule, paused } = parsed.data;
+      if (schedule && !nextCronRun(schedule, settings.general.timezone, new Date())) {
+        throw new MockHttpError(400, `"${schedule}" is not a valid cron schedule`);
+      }
+
+      const before = jobSummary(name);
+      jobConfig.set(name, { schedule: schedule === before.defaultSchedule ? null : schedule, paused });
+      const after = jobSummary(name);
+      const changes = auditChanges(
+        { schedule: before.schedule, paused: before.paused },
+        { schedule: after.schedule, paused: after.paused },
+      );
+      if (changes) {
+        recordAudit(req.user!, "job.update", { type: "job", label: JOB_LABELS[name] }, changes);
+      }
+      return after;
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/admin\/jobs\/([\w-]+)\/run$/,
+    auth: true,
+    handler: (req): JobRun => {
+      requireAdmin(req);
+      const name = findJob(req.params[0]);
+      const parsed = runJobSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid date");
+      }
+      if (jobSummary(name).running) {
+        throw new MockHttpError(409, `${JOB_LABELS[name]} is already running`);
+      }
+      const today = new Date().toISOString().split("T")[0];
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+      if (parsed.data.date && parsed.data.date > today) {
+        throw new MockHttpError(400, `${JOB_LABELS[name]} cannot run for ${parsed.data.date} yet`);
+      }
+
+      const runDate = name === "data-retention"
+        ? null
+        : parsed.data.date ?? (name === "cumulative-processing" ? yesterday : null);
+      const run: JobRun = {
+        id: Math.max(0, ...jobRuns.map((existing) => existing.id)) + 1,
+        job: name,
+        trigger: "manual",
+        runDate,
+        status: "running",
+        rowsWritten: null,
+        error: null,
+        startedBy: req.user!.username,
+        startedAt: new Date(),
+        finishedAt: null,
+      };
+      jobRuns.push(run);
+      setTimeout(() => {
+        Object.assign(run, {
+          status: "succeeded",
+          rowsWritten: name === "data-retention" ? 0 : mockSites.filter((site) => site.isActive).length,
+          finishedAt: new Date(),
+        });
+      }, MOCK_JOB_RUN_MS);
+
+      recordAudit(req.user!, "job.run", {
+        type: "job",
+        label: runDate ? `${JOB_LABELS[name]} for ${runDate}` : JOB_LABELS[name],
+      });
+      return { ...run };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/users\/(\d+)\/sites$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      return mockSites
+        .filter((site) => (assignments[user.id] ?? []).includes(site.id))
+        .map((site) => ({ siteId: site.id, siteName: site.name, siteLocation: site.location }));
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/users\/(\d+)\/sites$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      const siteIds: number[] = Array.isArray(req.body?.siteIds) ? req.body.siteIds : [];
+      const siteNames = (ids: number[]) => mockSites.filter((site) => ids.includes(site.id)).map((site) => site.name).sort();
+      const changes = auditChanges(
+        { sites: siteNames(assignments[user.id] ?? []) },
+        { sites: siteNames(user.role === "admin" ? [] : siteIds) },
+      );
+      assignments[user.id] = user.role === "admin" ? [] : siteIds;
+      if (changes) {
+        recordAudit(req.user!, "user.sites", { type: "user", id: user.id, label: user.username }, changes);
+      }
+      return mockSites
+        .filter((site) => assignments[user.id].includes(site.id))
+        .map((site) => ({ siteId: site.id, siteName: site.name, siteLocation: site.location }));
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/sites$/,
+    auth: true,
+    handler: ({ user, query }) => {
+      if (user!.role === "admin" && query.get("includeInactive") === "true") {
+        return mockSites;
+      }
+      return sitesForUser(user!);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/sites$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const parsed = createSiteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid site");
+      }
+      if (mockSites.some((site) => site.deviceId === parsed.data.deviceId)) {
+        throw new MockHttpError(409, "Another site already uses this device ID");
+      }
+      const site: Site = {
+        ...parsed.data,
+        id: Math.max(...mockSites.map((existing) => existing.id)) + 1,
+        lowFuelThreshold: parsed.data.lowFuelThreshold ?? "25.00",
+        theftToleranceLiters: "20.00",
+        theftTolerancePercent: "2.00",
+        tankShape: "sensor",
+        tankDiameterMm: null,
+        tankLengthMm: null,
+        createdAt: new Date(),
+      };
+      mockSites.push(site);
+      recordAudit(req.user!, "site.create", { type: "site", id: site.id, label: site.name }, auditChanges(null, site));
+      return site;
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/sites\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const site = findSite(req.params[0]);
+      const parsed = updateSiteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid site");
+      }
+      if (parsed.data.deviceId && mockSites.some((other) => other.id !== site.id && other.deviceId === parsed.data.deviceId)) {
+        throw new MockHttpError(409, "Another site already uses this device ID");
+      }
+      const before = { ...site };
+      Object.assign(site, parsed.data);
+      recordAudit(req.user!, "site.update", { type: "site", id: site.id, label: site.name }, auditChanges(before, site));
+      return site;
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/sites\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const site = findSite(req.params[0]);
+      const before = { ...site };
+      site.isActive = false;
+      recordAudit(req.user!, "site.deactivate", { type: "site", id: site.id, label: site.name }, auditChanges(before, site));
+      return { message: "Site deactivated successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/site-assignments$/,
+    auth: true,
+    handler: (req): SiteAssignee[] => {
+      requireAdmin(req);
+      return users.flatMap((user) =>
+        (assignments[user.id] ?? []).map((siteId) => ({
+          siteId,
+          userId: user.id,
+          username: user.username,
+          fullName: user.fullName,
+          role: user.role,
+        })),
+      );
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/sites\/(\d+)\/tank$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return tankProfile(findSite(req.params[0]));
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/sites\/(\d+)\/tank$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const site = findSite(req.params[0]);
+      const parsed = updateTankProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid tank profile");
+      }
+      const { tankShape, tankDiameterMm, tankLengthMm, points } = parsed.data;
+      const auditFields = () => ({
+        tankShape: site.tankShape,
+        tankDiameterMm: site.tankDiameterMm,
+        tankLengthMm: site.tankLengthMm,
+        strappingPoints: strappingPoints.get(site.id)?.length ?? 0,
+      });
+      const before = auditFields();
+      Object.assign(site, {
+        tankShape,
+        tankDiameterMm: tankDiameterMm?.toFixed(2) ?? null,
+        tankLengthMm: tankLengthMm?.toFixed(2) ?? null,
+      });
+      strappingPoints.set(
+        site.id,
+        tankShape === "table"
+          ? points
+              .sort((a, b) => a.levelPercent - b.levelPercent)
+              .map((point, index) => ({
+                id: index + 1,
+                siteId: site.id,
+                levelPercent: point.levelPercent.toFixed(2),
+                volumeLiters: point.volumeLiters.toFixed(2),
+              }))
+          : [],
+      );
+      recordAudit(req.user!, "site.tank", { type: "site", id: site.id, label: site.name }, auditChanges(before, auditFields()));
+      return tankProfile(site);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/sites\/(\d+)\/history$/,
+    auth: true,
+    handler: ({ user, params, query }): SiteHistoryResponse => {
+      const site = sitesForUser(user!).find((candidate) => candidate.id === parseInt(params[0], 10));
+      if (!site) {
+        throw new MockHttpError(404, "Site not found");
+      }
+
+      const endDate = query.get("endDate") || new Date().toISOString().split("T")[0];
+      const startDate = query.get("startDate") || endDate;
+      const from = new Date(`${startDate}T00:00:00.000Z`);
+      const to = new Date(new Date(`${endDate}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000);
+      const source = user!.role === "admin" ? "raw" : "closing";
+      const inRange = (time: Date) => time >= from && time < to;
+
+      return {
+        site,
+        source,
+        from,
+        to,
+        ...buildMockSiteHistory(site, from, to, source),
+        refuels: mockRefuelEvents.filter((event) => event.siteId === site.id && inRange(event.endedAt)),
+        incidents: mockFuelIncidents.filter((incident) => incident.siteId === site.id && inRange(incident.endedAt)),
+        dailyTotals: cumulativeReadings.filter(
+          (reading) => reading.siteId === site.id && reading.date >= startDate && reading.date <= endDate,
+        ),
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/cumulative-readings$/,
+    auth: true,
+    handler: ({ user, query }) => {
+      const today = new Date().toISOString().split("T")[0];
+      const startDate = query.get("startDate") || today;
+      const endDate = query.get("endDate") || startDate;
+      return buildCumulative(user!, startDate, endDate);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/cumulative-readings$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const date: string = body?.date || new Date().toISOString().split("T")[0];
+      recordAudit(user!, "cumulative.process", { type: "cumulative", label: date });
+      const readings = mockSites.map((site) => {
+        const existing = cumulativeReadings.findIndex((row) => row.siteId === site.id && row.date === date);
+        const reading = buildMockCumulativeReading(site, date, cumulativeReadings.length + 1);
+        if (existing >= 0) {
+          cumulativeReadings[existing] = reading;
+        } else {
+          cumulativeReadings.push(reading);
+        }
+        return reading;
+      });
+      return { date, readings, summary: { processedSites: readings.length, skippedSites: 0 } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/refuel-events$/,
+    auth: true,
+    handler: ({ user, query }): RefuelLogEntry[] => {
+      const endDate = query.get("endDate") || new Date().toISOString().split("T")[0];
+      const startDate = query.get("startDate") || endDate;
+      const siteId = query.get("siteId");
+      const sites = sitesForUser(user!).filter((site) => !siteId || site.id === parseInt(siteId, 10));
+      if (siteId && sites.length === 0) {
+        throw new MockHttpError(404, "Site not found");
+      }
+      return mockRefuelEvents
+        .filter((event) => {
+          const date = event.endedAt.toISOString().split("T")[0];
+          return sites.some((site) => site.id === event.siteId) && date >= startDate && date <= endDate;
+        })
+        .sort((a, b) => b.endedAt.getTime() - a.endedAt.getTime())
+        .map((event) => ({ ...event, siteName: sites.find((site) => site.id === event.siteId)!.name }));
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/fuel-incidents$/,
+    auth: true,
+    handler: ({ user, query }): FuelIncidentEntry[] => {
+      const endDate = query.get("endDate") || new Date().toISOString().split("T")[0];
+      const startDate = query.get("startDate") || endDate;
+      const siteId = query.get("siteId");
+      const sites = sitesForUser(user!).filter((site) => !siteId || site.id === parseInt(siteId, 10));
+      if (siteId && sites.length === 0) {
+        throw new MockHttpError(404, "Site not found");
+      }
+      return mockFuelIncidents
+        .filter((incident) => {
+          const date = incident.endedAt.toISOString().split("T")[0];
+          return sites.some((site) => site.id === incident.siteId) && date >= startDate && date <= endDate;
+        })
+        .map((incident) => {
+          const siteName = sites.find((site) => site.id === incident.siteId)!.name;
+          if (user!.role !== "admin") {
+            return { ...incident, siteName, evidence: null };
+          }
+          const readings = buildMockIncidentEvidence(incident);
+          return {
+            ...incident,
+            siteName,
+            evidence: { from: readings[0].time, to: readings[readings.length - 1].time, readings },
+          };
+        });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/alerts$/,
+    auth: true,
+    handler: ({ user, query }): AlertEntry[] => {
+      const status = query.get("status") || "active";
+      const endDate = query.get("endDate") || new Date().toISOString().split("T")[0];
+      const startDate = query.get("startDate") ||
+        new Date(new Date(endDate).getTime() - 29 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+      const siteId = query.get("siteId");
+      const sites = sitesForUser(user!).filter((site) => !siteId || site.id === parseInt(siteId, 10));
+      if (siteId && sites.length === 0) {
+        throw new MockHttpError(404, "Site not found");
+      }
+      return alerts
+        .filter((alert) => {
+          if (!sites.some((site) => site.id === alert.siteId)) return false;
+          if (status === "active") return alert.status !== "resolved";
+          const date = alert.openedAt.toISOString().split("T")[0];
+          return (status === "all" || alert.status === "resolved") && date >= startDate && date <= endDate;
+        })
+        .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime())
+        .map((alert) => toAlertEntry(alert, user!.role));
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/alerts\/(\d+)\/acknowledge$/,
+    auth: true,
+    handler: ({ user, params }): AlertEntry => {
+      const alert = alerts.find((candidate) => candidate.id === parseInt(params[0], 10));
+      if (!alert || !sitesForUser(user!).some((site) => site.id === alert.siteId)) {
+        throw new MockHttpError(404, "Alert not found");
+      }
+      if (alert.status !== "open") {
+        throw new MockHttpError(409, `Alert is already ${alert.status}`);
+      }
+      Object.assign(alert, { status: "acknowledged", acknowledgedAt: new Date(), acknowledgedBy: user!.id });
+      return toAlertEntry(alert, user!.role);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/alert-rules$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return alertRules;
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/alert-rules$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const parsed = createAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid alert rule");
+      }
+      findSite(String(parsed.data.siteId));
+      if (alertRules.some((rule) => rule.siteId === parsed.data.siteId && rule.type === parsed.data.type)) {
+        throw new MockHttpError(409, "This site already has a rule of this type");
+      }
+      const rule: AlertRule = {
+        ...parsed.data,
+        id: Math.max(...alertRules.map((existing) => existing.id)) + 1,
+        threshold: parsed.data.threshold?.toFixed(2) ?? null,
+        updatedAt: new Date(),
+        createdAt: new Date(),
+      };
+      alertRules.push(rule);
+      return rule;
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/alert-rules\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const rule = findAlertRule(req.params[0]);
+      const parsed = updateAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid alert rule");
+      }
+      const thresholdError = alertThresholdError(rule.type as AlertType, parsed.data.threshold);
+      if (thresholdError) {
+        throw new MockHttpError(400, thresholdError);
+      }
+      Object.assign(rule, {
+        ...parsed.data,
+        threshold: parsed.data.threshold?.toFixed(2) ?? null,
+        updatedAt: new Date(),
+      });
+      return rule;
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/alert-rules\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const rule = findAlertRule(req.params[0]);
+      if (rule.siteId === null) {
+        throw new MockHttpError(400, "Global rules cannot be deleted; disable them instead");
+      }
+      alertRules.splice(alertRules.indexOf(rule), 1);
+      return { message: "Alert rule deleted successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/audit-events$/,
+    auth: true,
+    handler: (req): AuditLogResponse => {
+      requireAdmin(req);
+      const { query } = req;
+      const action = query.get("action");
+      if (action && !(AUDIT_ACTIONS as readonly string[]).includes(action)) {
+        throw new MockHttpError(400, "Invalid audit action");
+      }
+      const startDate = query.get("startDate");
+      const endDate = query.get("endDate");
+      const search = query.get("search")?.trim().toLowerCase();
+      const limit = Math.min(parseInt(query.get("limit") ?? "", 10) || 50, 5000);
+      const offset = parseInt(query.get("offset") ?? "", 10) || 0;
+
+      const matches = auditEvents
+        .filter((event) => {
+          const date = event.createdAt.toISOString().split("T")[0];
+          if (action && event.action !== action) return false;
+          if ((startDate && date < startDate) || (endDate && date > endDate)) return false;
+          return !search || [event.actorName, event.targetLabel, event.ipAddress]
+            .some((value) => value?.toLowerCase().includes(search));
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+      return { events: matches.slice(offset, offset + limit), total: matches.length };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/escalation-policies$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return escalationPolicies;
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/escalation-policies$/,
+    auth: true,
+    handler: (req): EscalationPolicyWithSteps => {
+      requireAdmin(req);
+      const parsed = createEscalationPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid escalation policy");
+      }
+      const { steps, ...data } = parsed.data;
+      findSite(String(data.siteId));
+      if (data.rotationId !== null) findOnCallRotation(data.rotationId);
+      if (escalationPolicies.some((policy) => policy.siteId === data.siteId)) {
+        throw new MockHttpError(409, "This site already has an escalation policy");
+      }
+      const id = Math.max(...escalationPolicies.map((existing) => existing.id)) + 1;
+      const policy: EscalationPolicyWithSteps = {
+        ...data,
+        id,
+        steps: buildSteps(id, steps),
+        updatedAt: new Date(),
+        createdAt: new Date(),
+      };
+      escalationPolicies.push(policy);
+      return policy;
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/escalation-policies\/(\d+)$/,
+    auth: true,
+    handler: (req): EscalationPolicyWithSteps => {
+      requireAdmin(req);
+      const policy = findEscalationPolicy(req.params[0]);
+      const parsed = updateEscalationPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid escalation policy");
+      }
+      const { steps, ...updates } = parsed.data;
+      if (updates.rotationId !== null) findOnCallRotation(updates.rotationId);
+      Object.assign(policy, updates, { steps: buildSteps(policy.id, steps), updatedAt: new Date() });
+      return policy;
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/escalation-policies\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const policy = findEscalationPolicy(req.params[0]);
+      if (policy.siteId === null) {
+        throw new MockHttpError(400, "The global escalation policy cannot be deleted");
+      }
+      escalationPolicies.splice(escalationPolicies.indexOf(policy), 1);
+      return { message: "Escalation policy deleted successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/on-call-rotations$/,
+    auth: true,
+    handler: (req): OnCallRotationEntry[] => {
+      requireAdmin(req);
+      return onCallRotations.map(toRotationEntry);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/on-call-rotations$/,
+    auth: true,
+    handler: (req): OnCallRotationEntry => {
+      requireAdmin(req);
+      const rotation: OnCallRotation = {
+        ...parseRotation(req.body),
+        id: Math.max(0, ...onCallRotations.map((existing) => existing.id)) + 1,
+        updatedAt: new Date(),
+        createdAt: new Date(),
+      };
+      onCallRotations.push(rotation);
+      return toRotationEntry(rotation);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/on-call-rotations\/(\d+)$/,
+    auth: true,
+    handler: (req): OnCallRotationEntry => {
+      requireAdmin(req);
+      const rotation = findOnCallRotation(parseInt(req.params[0], 10));
+      Object.assign(rotation, parseRotation(req.body), { updatedAt: new Date() });
+      return toRotationEntry(rotation);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/on-call-rotations\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const rotation = findOnCallRotation(parseInt(req.params[0], 10));
+      const usedBy = escalationPolicies.find((policy) => policy.rotationId === rotation.id);
+      if (usedBy) {
+        throw new MockHttpError(409, `The rotation is used by the ${usedBy.name} escalation policy`);
+      }
+      onCallRotations.splice(onCallRotations.indexOf(rotation), 1);
+      return { message: "On-call rotation deleted successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/notifications\/preferences$/,
+    auth: true,
+    handler: ({ user }): NotificationPreferences => ({ emailAlerts: user!.emailAlerts }),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/notifications\/preferences$/,
+    auth: true,
+    handler: ({ user, body }): NotificationPreferences => {
+      const parsed = notificationPreferencesSchema.safeParse(body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid preferences");
+      }
+      user!.emailAlerts = parsed.data.emailAlerts;
+      return { emailAlerts: user!.emailAlerts };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/notifications\/email$/,
+    auth: true,
+    handler: (req): EmailSettingsResponse => {
+      requireAdmin(req);
+      return {
+        enabled: true,
+        host: "localhost",
+        port: 1025,
+        secure: false,
+        from: "Fuel Monitor <alerts@localhost>",
+        maxAttempts: settings.notifications.emailMaxAttempts,
+        subscribers: users
+          .filter((user) => user.isActive)
+          .map(({ id, fullName, email, role, emailAlerts }) => ({ id, fullName, email, role, emailAlerts })),
+      };
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/notifications\/subscribers\/(\d+)$/,
+    auth: true,
+    handler: (req): NotificationPreferences => {
+      requireAdmin(req);
+      const user = findUser(req.params[0]);
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        throw new MockHttpError(400, parsed.error.errors[0]?.message ?? "Invalid preferences");
+      }
+      user.emailAlerts = parsed.data.emailAlerts;
+      return { emailAlerts: user.emailAlerts };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/notifications\/email\/log$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return [...emailLog].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/notifications\/email\/test$/,
+    auth: true,
+    handler: (req): EmailLogEntry => {
+      requireAdmin(req);
+      const user = req.user!;
+      const entry: EmailLogEntry = {
+        id: Math.max(0, ...emailLog.map((existing) => existing.id)) + 1,
+        alertId: null,
+        userId: user.id,
+        recipient: user.email,
+        event: "test",
+        subject: "Fuel Monitor test email",
+        body: `This is a test email sent by ${user.fullName} from the System Configuration page.`,
+        status: "sent",
+        attempts: 1,
+        lastError: null,
+        nextAttemptAt: new Date(),
+        sentAt: new Date(),
+        createdAt: new Date(),
+      };
+      emailLog.push(entry);
+      return entry;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/webhooks$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      return [...webhooks].sort((a, b) => a.name.localeCompare(b.name));
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/webhooks$/,
+    auth: true,
+    handler: (req): Webhook => {
+      requireAdmin(req);
+      const { secret, ...data } = parseWebhook(req.body);
+      const webhook: Webhook = {
+        ...data,
+        id: Math.max(0, ...webhooks.map((existing) => existing.id)) + 1,
+        secret: secret ?? crypto.randomUUID().replace(/-/g, ""),
+        updatedAt: new Date(),
+        createdAt: new Date(),
+      };
+      webhooks.push(webhook);
+      return webhook;
+    },
+  },
+  {
+    method: "PUT",
+    pattern: /^\/api\/webhooks\/(\d+)$/,
+    auth: true,
+    handler: (req): Webhook => {
+      requireAdmin(req);
+      const webhook = findWebhook(req.params[0]);
+      const { secret, ...updates } = parseWebhook(req.body);
+      Object.assign(webhook, updates, secret ? { secret } : {}, { updatedAt: new Date() });
+      return webhook;
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/webhooks\/(\d+)$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const webhook = findWebhook(req.params[0]);
+      webhooks.splice(webhooks.indexOf(webhook), 1);
+      return { message: "Webhook deleted successfully" };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/webhooks\/(\d+)\/deliveries$/,
+    auth: true,
+    handler: (req) => {
+      requireAdmin(req);
+      const webhook = findWebhook(req.params[0]);
+      return webhookDeliveries
+        .filter((delivery) => delivery.webhookId === webhook.id)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/webhooks\/(\d+)\/test$/,
+    auth: true,
+    handler: (req): WebhookDelivery => {
+      requireAdmin(req);
+      const webhook = findWebhook(req.params[0]);
+      const eventId = crypto.randomUUID();
+      const delivery: WebhookDelivery = {
+        id: Math.max(0, ...webhookDeliveries.map((existing) => existing.id)) + 1,
+        webhookId: webhook.id,
+        eventId,
+        event: "webhook.test",
+        payload: JSON.stringify({ id: eventId, event: "webhook.test", data: { message: `Test event sent by ${req.user!.fullName}` } }),
+        status: "delivered",
+        attempts: 1,
+        responseStatus: 200,
+        lastError: null,
+        nextAttemptAt: new Date(),
+        deliveredAt: new Date(),
+        createdAt: new Date(),
+      };
+      webhookDeliveries.push(delivery);
+      return delivery;
+    },
+  },
+];
+
+export async function mockFetch(
+  method: string,
+  url: string,
+  body: string | undefined,
+  headers: Record<string, string>,
+): Promise<Response> {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+
+  const { pathname, searchParams } = new URL(url, "http://mock.local");
+  const upperMethod = method.toUpperCase();
+
+  for (const route of routes) {
+    const match = route.method === upperMethod ? route.pattern.exec(pathname) : null;
+    if (!match) continue;
+
+    const user = userFromToken(headers["Authorization"] ?? null);
+    if (route.auth && !user) {
+      return jsonResponse(401, { message: "Invalid or expired token" });
+    }
+
+    try {
+      const result = await route.handler({
+        method: upperMethod,
+        path: pathname,
+        query: searchParams,
+        params: match.slice(1),
+        body: body ? JSON.parse(body) : undefined,
+        user,
+      });
+      const created = upperMethod === "POST" &&
+        [
+          "/api/users",
+          "/api/sites",
+          "/api/alert-rules",
+          "/api/escalation-policies",
+          "/api/on-call-rotations",
+          "/api/webhooks",
+        ].includes(pathname);
+      return jsonResponse(created ? 201 : 200, result);
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return jsonResponse(error.status, { message: error.message });
+      }
+      throw error;
+    }
+  }
+
+  return jsonResponse(404, { message: `Mock API has no handler for ${upperMethod} ${pathname}` });
+}
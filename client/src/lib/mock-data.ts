@@ -0,0 +1,764 @@
+// Fixtures for the mock API (see mock-api.ts). Kept deterministic so demos and
+// UI tests see the same sites and numbers on every load.
+import type {
+  Alert,
+  AlertEscalation,
+  AlertRule,
+  AuditEvent,
+  CumulativeReading,
+  DailyClosingReading,
+  EmailLogEntry,
+  EscalationPolicyWithSteps,
+  FuelIncident,
+  JobRun,
+  OnCallRotation,
+  RefuelEvent,
+  SensorReading,
+  Site,
+  SiteHistoryResponse,
+  User,
+  Webhook,
+  WebhookDelivery,
+} from "@shared/schema";
+
+const now = new Date();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function minutesAgo(minutes: number): Date {
+  return new Date(now.getTime() - minutes * 60 * 1000);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Last night's 23:55 capture
+function lastClosingTime(): Date {
+  const closing = new Date(now);
+  closing.setHours(23, 55, 0, 0);
+  if (closing > now) {
+    closing.setDate(closing.getDate() - 1);
+  }
+  return closing;
+}
+
+// Every mock account signs in with this password
+export const MOCK_PASSWORD = "password";
+
+export const mockUsers: User[] = [
+  {
+    id: 1,
+    username: "admin",
+    email: "admin@example.com",
+    password: MOCK_PASSWORD,
+    role: "admin",
+    fullName: "Alice Admin",
+    isActive: true,
+    emailAlerts: true,
+    lastLogin: minutesAgo(90),
+    failedLoginAttempts: 0,
+    lastFailedLogin: null,
+    lockedUntil: null,
+    twoFactorEnabledAt: null,
+    createdAt: new Date("2025-01-06T08:00:00Z"),
+  },
+  {
+    id: 2,
+    username: "supervisor",
+    email: "supervisor@example.com",
+    password: MOCK_PASSWORD,
+    role: "supervisor",
+    fullName: "Sam Supervisor",
+    isActive: true,
+    emailAlerts: true,
+    lastLogin: minutesAgo(60 * 26),
+    failedLoginAttempts: 0,
+    lastFailedLogin: null,
+    lockedUntil: null,
+    twoFactorEnabledAt: null,
+    createdAt: new Date("2025-02-10T08:00:00Z"),
+  },
+  {
+    id: 3,
+    username: "manager",
+    email: "manager@example.com",
+    password: MOCK_PASSWORD,
+    role: "manager",
+    fullName: "Morgan Manager",
+    isActive: true,
+    emailAlerts: false,
+    lastLogin: null,
+    failedLoginAttempts: 0,
+    lastFailedLogin: null,
+    lockedUntil: null,
+    twoFactorEnabledAt: null,
+    createdAt: new Date("2025-03-03T08:00:00Z"),
+  },
+];
+
+export const mockSites: Site[] = [
+  {
+    id: 1,
+    name: "simbisa-borrowdale",
+    location: "Borrowdale, Harare",
+    deviceId: "simbisa-borrowdale",
+    fuelCapacity: "2000.00",
+    lowFuelThreshold: "25.00",
+    theftToleranceLiters: "20.00",
+    theftTolerancePercent: "2.00",
+    tankShape: "sensor",
+    tankDiameterMm: null,
+    tankLengthMm: null,
+    isActive: true,
+    createdAt: new Date("2025-01-06T08:00:00Z"),
+  },
+  {
+    id: 2,
+    name: "simbisa-avondale",
+    location: "Avondale, Harare",
+    deviceId: "simbisa-avondale",
+    fuelCapacity: "1500.00",
+    lowFuelThreshold: "25.00",
+    theftToleranceLiters: "20.00",
+    theftTolerancePercent: "2.00",
+    tankShape: "sensor",
+    tankDiameterMm: null,
+    tankLengthMm: null,
+    isActive: true,
+    createdAt: new Date("2025-01-06T08:00:00Z"),
+  },
+  {
+    id: 3,
+    name: "simbisa-bulawayo-main",
+    location: "Main Street, Bulawayo",
+    deviceId: "simbisa-bulawayo-main",
+    fuelCapacity: "1000.00",
+    lowFuelThreshold: "30.00",
+    theftToleranceLiters: "20.00",
+    theftTolerancePercent: "2.00",
+    tankShape: "horizontal_cylinder",
+    tankDiameterMm: "1100.00",
+    tankLengthMm: "1050.00",
+    isActive: true,
+    createdAt: new Date("2025-01-20T08:00:00Z"),
+  },
+  {
+    id: 4,
+    name: "simbisa-mutare",
+    location: "Auto-generated location",
+    deviceId: "simbisa-mutare",
+    fuelCapacity: "1000.00",
+    lowFuelThreshold: "25.00",
+    theftToleranceLiters: "20.00",
+    theftTolerancePercent: "2.00",
+    tankShape: "sensor",
+    tankDiameterMm: null,
+    tankLengthMm: null,
+    isActive: true,
+    createdAt: new Date("2025-02-14T08:00:00Z"),
+  },
+];
+
+// userId -> assigned site ids (admins see every site)
+export const mockAssignments: Record<number, number[]> = {
+  2: [1, 2, 3],
+  3: [1],
+};
+
+type ReadingValues = Pick<
+  DailyClosingReading,
+  "fuelLevel" | "fuelVolume" | "sensorFuelVolume" | "temperature" | "generatorState" | "zesaState"
+>;
+
+// Site 3 has a horizontal cylinder, so its volume is worked out from the
+// level and differs from what the sensor reports.
+const closingValues: Record<number, ReadingValues> = {
+  1: { fuelLevel: "68.40", fuelVolume: "1368.00", sensorFuelVolume: "1368.00", temperature: "24.10", generatorState: "off", zesaState: "on" },
+  2: { fuelLevel: "18.20", fuelVolume: "273.00", sensorFuelVolume: "273.00", temperature: "25.30", generatorState: "on", zesaState: "off" },
+  3: { fuelLevel: "47.00", fuelVolume: "460.83", sensorFuelVolume: "470.00", temperature: "22.80", generatorState: "off", zesaState: "off" },
+  4: { fuelLevel: "0.00", fuelVolume: "0.00", sensorFuelVolume: "0.00", temperature: "23.50", generatorState: "off", zesaState: "on" },
+};
+
+const realtimeValues: Record<number, ReadingValues & { minutesAgo: number }> = {
+  1: { fuelLevel: "64.90", fuelVolume: "1298.00", sensorFuelVolume: "1298.00", temperature: "27.60", generatorState: "on", zesaState: "off", minutesAgo: 2 },
+  2: { fuelLevel: "16.50", fuelVolume: "247.50", sensorFuelVolume: "247.50", temperature: "28.10", generatorState: "on", zesaState: "off", minutesAgo: 4 },
+  3: { fuelLevel: "46.80", fuelVolume: "458.30", sensorFuelVolume: "468.00", temperature: "26.90", generatorState: "off", zesaState: "on", minutesAgo: 7 },
+  4: { fuelLevel: "0.00", fuelVolume: "0.00", sensorFuelVolume: "0.00", temperature: "25.00", generatorState: "off", zesaState: "on", minutesAgo: 300 },
+};
+
+export const mockClosingReadings: DailyClosingReading[] = mockSites.map((site, index) => {
+  const capturedAt = lastClosingTime();
+  return {
+    id: index + 1,
+    siteId: site.id,
+    deviceId: site.deviceId,
+    ...closingValues[site.id],
+    capturedAt,
+    date: toDateString(capturedAt),
+    createdAt: capturedAt,
+  };
+});
+
+export const mockRealtimeReadings: DailyClosingReading[] = mockSites.map((site) => {
+  const { minutesAgo: age, ...values } = realtimeValues[site.id];
+  const capturedAt = minutesAgo(age);
+  return {
+    id: 0,
+    siteId: site.id,
+    deviceId: site.deviceId,
+    ...values,
+    capturedAt,
+    date: null,
+    createdAt: capturedAt,
+  };
+});
+
+// Sites whose device has reported within the last hour
+export const mockOnlineDeviceIds = new Set(
+  mockRealtimeReadings
+    .filter((reading) => now.getTime() - reading.capturedAt.getTime() < 60 * 60 * 1000)
+    .map((reading) => reading.deviceId),
+);
+
+// Cheap deterministic "noise" so each site/day pair gets stable numbers
+function pseudoRandom(seed: number): number {
+  const x = Math.sin(seed) * 10000;
+  return x - Math.floor(x);
+}
+
+export function buildMockCumulativeReading(site: Site, date: string, id: number): CumulativeReading {
+  const seed = site.id * 1000 + parseInt(date.replace(/-/g, ""), 10);
+  const capacity = parseFloat(site.fuelCapacity);
+  const consumed = 40 + pseudoRandom(seed) * 160;
+  const toppedUp = pseudoRandom(seed + 1) > 0.8 ? capacity * 0.5 : 0;
+  const generatorHours = 1 + pseudoRandom(seed + 2) * 9;
+  const zesaHours = Math.max(0, 24 - generatorHours - pseudoRandom(seed + 3) * 4);
+  const calculatedAt = new Date(`${date}T23:59:00`);
+
+  return {
+    id,
+    siteId: site.id,
+    deviceId: site.deviceId,
+    date,
+    totalFuelConsumed: consumed.toFixed(2),
+    totalFuelToppedup: toppedUp.toFixed(2),
+    fuelConsumedPercent: ((consumed / capacity) * 100).toFixed(2),
+    fuelToppedupPercent: ((toppedUp / capacity) * 100).toFixed(2),
+    totalGeneratorRuntime: generatorHours.toFixed(2),
+    totalZesaRuntime: zesaHours.toFixed(2),
+    totalOfflineTime: "0.00",
+    calculatedAt,
+    createdAt: calculatedAt,
+  };
+}
+
+// Thirty days of history up to yesterday; "today" is produced on demand when
+// the Analytics page asks for it to be processed.
+export const mockCumulativeReadings: CumulativeReading[] = (() => {
+  const rows: CumulativeReading[] = [];
+  for (let daysBack = 30; daysBack >= 1; daysBack--) {
+    const date = toDateString(new Date(now.getTime() - daysBack * DAY_MS));
+    for (const site of mockSites) {
+      rows.push(buildMockCumulativeReading(site, date, rows.length + 1));
+    }
+  }
+  return rows;
+})();
+
+// One refuel event for every day whose mock top-up is non-zero
+export const mockRefuelEvents: RefuelEvent[] = mockCumulativeReadings
+  .filter((reading) => parseFloat(reading.totalFuelToppedup ?? "0") > 0)
+  .map((reading, index) => {
+    const site = mockSites.find((candidate) => candidate.id === reading.siteId)!;
+    const added = parseFloat(reading.totalFuelToppedup ?? "0");
+    const levelAfter = 90 - pseudoRandom(reading.id) * 10;
+    const levelBefore = levelAfter - (added / parseFloat(site.fuelCapacity)) * 100;
+    const startedAt = new Date(`${reading.date}T09:40:00Z`);
+    const endedAt = new Date(startedAt.getTime() + (15 + Math.round(pseudoRandom(reading.id + 1) * 20)) * 60 * 1000);
+
+    return {
+      id: index + 1,
+      siteId: site.id,
+      deviceId: site.deviceId,
+      startedAt,
+      endedAt,
+      litersAdded: added.toFixed(2),
+      levelBefore: levelBefore.toFixed(2),
+      levelAfter: levelAfter.toFixed(2),
+      createdAt: endedAt,
+    };
+  });
+
+// Bulawayo lost fuel overnight with the generator off
+export const mockFuelIncidents: FuelIncident[] = [
+  {
+    id: 1,
+    siteId: 3,
+    deviceId: "simbisa-bulawayo-main",
+    type: "suspected_theft",
+    startedAt: minutesAgo(5 * 60 + 40),
+    endedAt: minutesAgo(5 * 60 + 5),
+    litersLost: "62.00",
+    volumeBefore: "530.00",
+    volumeAfter: "468.00",
+    createdAt: minutesAgo(5 * 60),
+  },
+];
+
+// The default global rules plus one site override
+export const mockAlertRules: AlertRule[] = [
+  { type: "tank_empty", threshold: "2.00", severity: "critical" },
+  { type: "low_fuel", threshold: null, severity: "warning" },
+  { type: "generator_off", threshold: null, severity: "critical" },
+  { type: "temperature_high", threshold: "50.00", severity: "warning" },
+  { type: "device_offline", threshold: "60.00", severity: "warning" },
+].map((rule, index): AlertRule => ({
+  ...rule,
+  id: index + 1,
+  siteId: null,
+  isEnabled: true,
+  updatedAt: new Date("2025-01-06T08:00:00Z"),
+  createdAt: new Date("2025-01-06T08:00:00Z"),
+})).concat({
+  id: 6,
+  siteId: 3,
+  type: "temperature_high",
+  threshold: "45.00",
+  severity: "critical",
+  isEnabled: true,
+  updatedAt: new Date("2025-03-10T08:00:00Z"),
+  createdAt: new Date("2025-03-10T08:00:00Z"),
+});
+
+// Matches the realtime readings: Avondale is low and Mutare is empty and has
+// stopped reporting.
+export const mockAlerts: Alert[] = [
+  {
+    id: 1,
+    siteId: 2,
+    type: "low_fuel",
+    severity: "warning",
+    status: "open",
+    message: "Fuel level at 16.5%, below the 25% threshold",
+    value: "16.50",
+    threshold: "25.00",
+    openedAt: minutesAgo(3 * 60),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    escalationLevel: 3,
+  },
+  {
+    id: 2,
+    siteId: 4,
+    type: "tank_empty",
+    severity: "critical",
+    status: "acknowledged",
+    message: "Tank is empty: fuel level at 0.0%",
+    value: "0.00",
+    threshold: "2.00",
+    openedAt: minutesAgo(9 * 60),
+    acknowledgedAt: minutesAgo(8 * 60),
+    acknowledgedBy: 1,
+    resolvedAt: null,
+    escalationLevel: 1,
+  },
+  {
+    id: 3,
+    siteId: 4,
+    type: "low_fuel",
+    severity: "warning",
+    status: "open",
+    message: "Fuel level at 0.0%, below the 25% threshold",
+    value: "0.00",
+    threshold: "25.00",
+    openedAt: minutesAgo(14 * 60),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    escalationLevel: 1,
+  },
+  {
+    id: 4,
+    siteId: 4,
+    type: "device_offline",
+    severity: "warning",
+    status: "open",
+    message: "No readings from device simbisa-mutare for 4h 0m",
+    value: "240.00",
+    threshold: "60.00",
+    openedAt: minutesAgo(4 * 60),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    escalationLevel: 1,
+  },
+  {
+    id: 5,
+    siteId: 1,
+    type: "generator_off",
+    severity: "critical",
+    status: "resolved",
+    message: "Generator is off during a ZESA outage",
+    value: null,
+    threshold: null,
+    openedAt: minutesAgo(26 * 60),
+    acknowledgedAt: minutesAgo(25 * 60 + 50),
+    acknowledgedBy: 3,
+    resolvedAt: minutesAgo(25 * 60 + 20),
+    escalationLevel: 1,
+  },
+];
+
+// A morning's worth of admin activity
+export const mockAuditEvents: AuditEvent[] = [
+  {
+    id: 1,
+    actorId: null,
+    actorName: "admin",
+    action: "auth.login_failed",
+    targetType: "user",
+    targetId: 1,
+    targetLabel: "admin",
+    changes: null,
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(5 * 60 + 2),
+  },
+  {
+    id: 2,
+    actorId: 1,
+    actorName: "admin",
+    action: "auth.login",
+    targetType: null,
+    targetId: null,
+    targetLabel: null,
+    changes: null,
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(5 * 60),
+  },
+  {
+    id: 3,
+    actorId: 1,
+    actorName: "admin",
+    action: "view_mode.switch",
+    targetType: null,
+    targetId: null,
+    targetLabel: null,
+    changes: { viewMode: { before: "closing", after: "realtime" } },
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(4 * 60 + 55),
+  },
+  {
+    id: 4,
+    actorId: 1,
+    actorName: "admin",
+    action: "user.sites",
+    targetType: "user",
+    targetId: 2,
+    targetLabel: "supervisor",
+    changes: {
+      sites: {
+        before: ["simbisa-avondale", "simbisa-borrowdale"],
+        after: ["simbisa-avondale", "simbisa-borrowdale", "simbisa-bulawayo-main"],
+      },
+    },
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(4 * 60 + 40),
+  },
+  {
+    id: 5,
+    actorId: 1,
+    actorName: "admin",
+    action: "site.update",
+    targetType: "site",
+    targetId: 2,
+    targetLabel: "simbisa-avondale",
+    changes: { lowFuelThreshold: { before: "20.00", after: "25.00" } },
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(4 * 60 + 30),
+  },
+  {
+    id: 6,
+    actorId: 1,
+    actorName: "admin",
+    action: "cumulative.process",
+    targetType: "cumulative",
+    targetId: null,
+    targetLabel: toDateString(minutesAgo(24 * 60)),
+    changes: null,
+    ipAddress: "197.221.250.14",
+    createdAt: minutesAgo(4 * 60 + 10),
+  },
+];
+
+// The seeded global policy plus one for Mutare, which has nobody assigned and
+// so goes straight to the admins.
+export const mockEscalationPolicies: EscalationPolicyWithSteps[] = [
+  {
+    id: 1,
+    name: "Default",
+    siteId: null,
+    rotationId: 1,
+    updatedAt: new Date("2025-01-06T08:00:00Z"),
+    createdAt: new Date("2025-01-06T08:00:00Z"),
+    steps: [
+      { id: 1, policyId: 1, position: 1, target: "manager", delayMinutes: 0 },
+      { id: 2, policyId: 1, position: 2, target: "supervisor", delayMinutes: 30 },
+      { id: 3, policyId: 1, position: 3, target: "admin", delayMinutes: 60 },
+    ],
+  },
+  {
+    id: 2,
+    name: "Mutare",
+    siteId: 4,
+    rotationId: null,
+    updatedAt: new Date("2025-03-10T08:00:00Z"),
+    createdAt: new Date("2025-03-10T08:00:00Z"),
+    steps: [
+      { id: 4, policyId: 2, position: 1, target: "admin", delayMinutes: 0 },
+    ],
+  },
+];
+
+export const mockOnCallRotations: OnCallRotation[] = [
+  {
+    id: 1,
+    name: "After hours",
+    memberIds: [2, 1],
+    startsAt: new Date("2025-01-06T18:00:00Z"),
+    updatedAt: new Date("2025-01-06T08:00:00Z"),
+    createdAt: new Date("2025-01-06T08:00:00Z"),
+  },
+];
+
+// Who the escalation steps above reached for each alert
+export const mockAlertEscalations: AlertEscalation[] = [
+  { id: 1, alertId: 1, level: 2, target: "supervisor", userId: 2, notifiedAt: minutesAgo(3 * 60 - 30) },
+  { id: 2, alertId: 1, level: 3, target: "admin", userId: 1, notifiedAt: minutesAgo(3 * 60 - 60) },
+  { id: 3, alertId: 2, level: 1, target: "admin", userId: 1, notifiedAt: minutesAgo(9 * 60) },
+  { id: 4, alertId: 3, level: 1, target: "admin", userId: 1, notifiedAt: minutesAgo(14 * 60) },
+  { id: 5, alertId: 4, level: 1, target: "admin", userId: 1, notifiedAt: minutesAgo(4 * 60) },
+  { id: 6, alertId: 5, level: 1, target: "manager", userId: 3, notifiedAt: minutesAgo(26 * 60) },
+];
+
+// What the notifier sent for the alerts above. The mock email channel runs
+// against a pretend local catcher.
+export const mockEmailLog: EmailLogEntry[] = [
+  {
+    id: 1,
+    alertId: 5,
+    userId: 1,
+    recipient: "admin@example.com",
+    event: "alert_opened",
+    subject: "[Critical] Generator Off at simbisa-borrowdale",
+    body: "An alert was raised at simbisa-borrowdale (Borrowdale, Harare).\n\nGenerator is off during a ZESA outage",
+    status: "sent",
+    attempts: 1,
+    lastError: null,
+    nextAttemptAt: minutesAgo(26 * 60),
+    sentAt: minutesAgo(26 * 60),
+    createdAt: minutesAgo(26 * 60),
+  },
+  {
+    id: 2,
+    alertId: 5,
+    userId: 1,
+    recipient: "admin@example.com",
+    event: "alert_resolved",
+    subject: "Resolved: Generator Off at simbisa-borrowdale",
+    body: "The Generator Off alert at simbisa-borrowdale (Borrowdale, Harare) has cleared.",
+    status: "sent",
+    attempts: 1,
+    lastError: null,
+    nextAttemptAt: minutesAgo(25 * 60 + 20),
+    sentAt: minutesAgo(25 * 60 + 20),
+    createdAt: minutesAgo(25 * 60 + 20),
+  },
+  {
+    id: 3,
+    alertId: 1,
+    userId: 2,
+    recipient: "supervisor@example.com",
+    event: "alert_opened",
+    subject: "[Warning] Low Fuel at simbisa-avondale",
+    body: "An alert was raised at simbisa-avondale (Avondale, Harare).\n\nFuel level at 16.5%, below the 25% threshold",
+    status: "failed",
+    attempts: 5,
+    lastError: "connect ECONNREFUSED 127.0.0.1:1025",
+    nextAttemptAt: minutesAgo(30),
+    sentAt: null,
+    createdAt: minutesAgo(3 * 60),
+  },
+];
+
+export const mockWebhooks: Webhook[] = [
+  {
+    id: 1,
+    name: "Ops ticketing",
+    url: "https://tickets.example.com/hooks/fuel",
+    secret: "3f9c2a7d41b8e6055c1d9a2b7e4f8a60",
+    events: ["alert.opened", "alert.resolved", "device.offline", "device.online"],
+    isActive: true,
+    updatedAt: new Date("2025-03-12T08:00:00Z"),
+    createdAt: new Date("2025-03-12T08:00:00Z"),
+  },
+];
+
+export const mockWebhookDeliveries: WebhookDelivery[] = [
+  {
+    id: 1,
+    webhookId: 1,
+    eventId: "6f1c1b9e-2f4a-4d0e-9a51-0d3f6c2b8e11",
+    event: "device.offline",
+    payload: JSON.stringify({ event: "device.offline", data: { alert: { id: 4 } } }),
+    status: "delivered",
+    attempts: 1,
+    responseStatus: 200,
+    lastError: null,
+    nextAttemptAt: minutesAgo(4 * 60),
+    deliveredAt: minutesAgo(4 * 60),
+    createdAt: minutesAgo(4 * 60),
+  },
+  {
+    id: 2,
+    webhookId: 1,
+    eventId: "a4d7e2c0-5b8f-4c3a-8e19-7f2d4b6a9c03",
+    event: "alert.opened",
+    payload: JSON.stringify({ event: "alert.opened", data: { alert: { id: 1 } } }),
+    status: "pending",
+    attempts: 2,
+    responseStatus: 503,
+    lastError: "HTTP 503 Service Unavailable",
+    nextAttemptAt: new Date(now.getTime() + 60 * 1000),
+    deliveredAt: null,
+    createdAt: minutesAgo(3 * 60),
+  },
+];
+
+// A week of scheduled runs, the closing capture at 23:55, the cumulative
+// processing at 00:15 and retention at 03:30. Three nights ago the cumulative
+// processing failed and was rerun by hand that morning.
+export const mockJobRuns: JobRun[] = (() => {
+  const runs: JobRun[] = [];
+  const activeSites = mockSites.filter((site) => site.isActive).length;
+  const add = (job: string, startedAt: Date, seconds: number, fields: Partial<JobRun>) => {
+    if (startedAt > now) return;
+    runs.push({
+      id: 0,
+      job,
+      trigger: "schedule",
+      runDate: null,
+      status: "succeeded",
+      rowsWritten: activeSites,
+      error: null,
+      startedBy: null,
+      startedAt,
+      finishedAt: new Date(startedAt.getTime() + seconds * 1000),
+      ...fields,
+    });
+  };
+
+  for (let day = 7; day >= 0; day--) {
+    const closing = new Date(lastClosingTime().getTime() - day * DAY_MS);
+    const runDate = toDateString(closing);
+    add("closing-capture", closing, 3, {});
+
+    const processing = new Date(closing);
+    processing.setDate(processing.getDate() + 1);
+    processing.setHours(0, 15, 0, 0);
+    if (day === 3) {
+      add("cumulative-processing", processing, 31, {
+        runDate,
+        status: "failed",
+        rowsWritten: null,
+        error: "Connection terminated due to connection timeout",
+      });
+      add("cumulative-processing", new Date(processing.getTime() + 8 * 60 * 60 * 1000), 12, {
+        runDate,
+        trigger: "manual",
+        startedBy: "admin",
+      });
+    } else {
+      add("cumulative-processing", processing, 11, { runDate });
+    }
+
+    const retention = new Date(processing);
+    retention.setHours(3, 30, 0, 0);
+    add("data-retention", retention, 1, { rowsWritten: 20 + ((day * 37) % 50) });
+  }
+  return runs
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+    .map((run, index) => ({ ...run, id: index + 1 }));
+})();
+
+// Five-minute samples across each incident, padded by half an hour either side
+export function buildMockIncidentEvidence(incident: FuelIncident): SensorReading[] {
+  const readings: SensorReading[] = [];
+  const from = incident.startedAt.getTime() - 30 * 60 * 1000;
+  const to = incident.endedAt.getTime() + 30 * 60 * 1000;
+  const before = parseFloat(incident.volumeBefore);
+  const after = parseFloat(incident.volumeAfter);
+
+  for (let time = from; time < to; time += 5 * 60 * 1000) {
+    const progress = Math.min(1, Math.max(0, (time - incident.startedAt.getTime()) /
+      (incident.endedAt.getTime() - incident.startedAt.getTime())));
+    readings.push(
+      {
+        time: new Date(time),
+        deviceId: incident.deviceId,
+        sensorName: "fuel_sensor_volume",
+        value: (before - (before - after) * progress).toFixed(2),
+        unit: "L",
+      },
+      { time: new Date(time), deviceId: incident.deviceId, sensorName: "generator_state", value: "0.00", unit: "" },
+    );
+  }
+  return readings;
+}
+
+type MockHistorySeries = Pick<
+  SiteHistoryResponse,
+  "fuelLevel" | "fuelVolume" | "temperature" | "generatorState" | "zesaState"
+>;
+
+// Samples that run back from the site's latest reading: half-hourly for the
+// raw view, one per day at closing time otherwise. Going back in time the
+// tank refills by whatever the generator burned and drops by each refuel.
+export function buildMockSiteHistory(site: Site, from: Date, to: Date, source: "raw" | "closing"): MockHistorySeries {
+  const latest = (source === "raw" ? mockRealtimeReadings : mockClosingReadings)
+    .find((reading) => reading.siteId === site.id)!;
+  const step = source === "raw" ? 30 * 60 * 1000 : DAY_MS;
+  const capacity = parseFloat(site.fuelCapacity);
+  const refuels = mockRefuelEvents.filter((event) => event.siteId === site.id);
+  const series: MockHistorySeries = { fuelLevel: [], fuelVolume: [], temperature: [], generatorState: [], zesaState: [] };
+
+  let level = parseFloat(latest.fuelLevel ?? "0");
+  for (let time = latest.capturedAt.getTime(); time >= from.getTime(); time -= step) {
+    const seed = site.id * 7919 + Math.floor(time / step);
+    const hour = new Date(time).getUTCHours();
+    const generatorOn = source === "raw"
+      ? (hour >= 17 && hour < 21) || pseudoRandom(seed) > 0.9
+      : pseudoRandom(seed) > 0.6;
+    const zesaOn = !generatorOn && pseudoRandom(seed + 1) > 0.15;
+
+    if (time < to.getTime()) {
+      const at = new Date(time);
+      series.fuelLevel.push({ time: at, value: level });
+      series.fuelVolume.push({ time: at, value: (level / 100) * capacity });
+      series.temperature.push({ time: at, value: 23 + 4 * Math.sin(((hour - 9) / 24) * 2 * Math.PI) + pseudoRandom(seed + 2) });
+      series.generatorState.push({ time: at, value: generatorOn ? 1 : 0 });
+      series.zesaState.push({ time: at, value: zesaOn ? 1 : 0 });
+    }
+
+    const burned = source === "raw" ? (generatorOn ? 0.6 : 0) : 4 + pseudoRandom(seed + 3) * 4;
+    const refilled = refuels
+      .filter((event) => event.endedAt.getTime() > time - step && event.endedAt.getTime() <= time)
+      .reduce((sum, event) => sum + parseFloat(event.levelAfter ?? "0") - parseFloat(event.levelBefore ?? "0"), 0);
+    level = Math.max(0, Math.min(100, level + burned - refilled));
+  }
+
+  for (const points of Object.values(series)) {
+    points.reverse();
+  }
+  return series;
+}
@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ProtectedRoute from "@/components/auth/protected-route";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import AlertRulesCard from "@/components/alerts/alert-rules-card";
+import EscalationPoliciesCard from "@/components/alerts/escalation-policies-card";
+import OnCallRotationsCard from "@/components/alerts/on-call-rotations-card";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Bell, BellOff, CheckCircle, RefreshCw, AlertCircle, Filter } from "lucide-react";
+import { ALERT_TYPE_LABELS, type AlertEntry, type AlertType, type Site } from "@shared/schema";
+
+const ALL_SITES = "all";
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+function AlertsContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tab, setTab] = useState("active");
+
+  // A link such as /alerts?siteId=3 opens the alerts of that site
+  const [siteFilter, setSiteFilter] = useState(() => {
+    return new URLSearchParams(window.location.search).get('siteId') ?? ALL_SITES;
+  });
+  const [dateRange, setDateRange] = useState(() => ({
+    startDate: daysAgo(29),
+    endDate: daysAgo(0),
+  }));
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    enabled: !!user,
+  });
+
+  const status = tab === "history" ? "all" : "active";
+  const { data: alerts, isLoading, error } = useQuery<AlertEntry[]>({
+    queryKey: ["/api/alerts", status, siteFilter, dateRange.startDate, dateRange.endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status });
+      if (status !== "active") {
+        params.set('startDate', dateRange.startDate);
+        params.set('endDate', dateRange.endDate);
+      }
+      if (siteFilter !== ALL_SITES) {
+        params.set('siteId', siteFilter);
+      }
+
+      const response = await apiRequest("GET", `/api/alerts?${params}`);
+      return response.json();
+    },
+    enabled: !!user && tab !== "rules" && tab !== "escalation",
+    refetchInterval: status === "active" ? 60000 : false,
+    refetchOnWindowFocus: false,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/alerts/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Success",
+        description: "Alert acknowledged",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to acknowledge alert",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCount = alerts?.filter((alert) => alert.status === "open").length ?? 0;
+
+  const formatTime = (value: string | Date | null) => value === null ? '—' : new Date(value).toLocaleString();
+
+  const getSeverityBadge = (severity: string) => severity === "critical"
+    ? <Badge className="bg-red-100 text-red-800 border-red-200">Critical</Badge>
+    : <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">Warning</Badge>;
+
+  const getStatusCell = (alert: AlertEntry) => {
+    switch (alert.status) {
+      case "open":
+        return (
+          <div>
+            <Badge className="bg-red-50 text-red-700 border-red-200">Open</Badge>
+            {alert.escalatedTo.length > 0 && (
+              <div className="text-xs text-gray-500 mt-1">Escalated to {alert.escalatedTo.join(", ")}</div>
+            )}
+          </div>
+        );
+      case "acknowledged":
+        return (
+          <div>
+            <Badge className="bg-blue-100 text-blue-800 border-blue-200">Acknowledged</Badge>
+            <div className="text-xs text-gray-500 mt-1">
+              {alert.acknowledgedByName ?? 'Unknown user'}, {formatTime(alert.acknowledgedAt)}
+            </div>
+          </div>
+        );
+      default:
+        return (
+          <div>
+            <Badge className="bg-green-100 text-green-800 border-green-200">Resolved</Badge>
+            <div className="text-xs text-gray-500 mt-1">{formatTime(alert.resolvedAt)}</div>
+          </div>
+        );
+    }
+  };
+
+  const alertTable = alerts && (
+    alerts.length > 0 ? (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Severity</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Site</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Alert</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Opened</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {alerts.map((alert) => (
+              <tr key={alert.id} className="hover:bg-gray-50">
+                <td className="px-4 py-3">{getSeverityBadge(alert.severity)}</td>
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">{alert.siteName}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">{ALERT_TYPE_LABELS[alert.type as AlertType]}</div>
+                  <div className="text-gray-600">{alert.message}</div>
+                </td>
+                <td className="px-4 py-3 text-gray-700">{formatTime(alert.openedAt)}</td>
+                <td className="px-4 py-3">{getStatusCell(alert)}</td>
+                <td className="px-4 py-3 text-right">
+                  {alert.status === "open" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={acknowledgeMutation.isPending}
+                      onClick={() => acknowledgeMutation.mutate(alert.id)}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Acknowledge
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ) : (
+      <div className="text-center py-12">
+        <BellOff className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+        <h3 className="text-lg font-medium text-gray-900 mb-3">
+          {status === "active" ? "No Active Alerts" : "No Alerts Found"}
+        </h3>
+        <p className="text-gray-600 max-w-md mx-auto">
+          {status === "active"
+            ? "Every site is within its alert rules."
+            : "No alerts were raised in this period."}
+        </p>
+      </div>
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-6">
+          {/* Page Header */}
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+              <Bell className="h-8 w-8 text-primary" />
+              Alerts
+            </h2>
+            <p className="text-gray-600 mt-2">
+              Alerts raised by the alert rules, from the moment they open until the condition clears
+            </p>
+          </div>
+
+          <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="active">Active</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+              {user?.role === 'admin' && <TabsTrigger value="rules">Rules</TabsTrigger>}
+              {user?.role === 'admin' && <TabsTrigger value="escalation">Escalation</TabsTrigger>}
+            </TabsList>
+
+            {tab !== "rules" && (
+              <>
+                {/* Filters */}
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="flex items-center space-x-4 flex-wrap">
+                      <Filter className="h-5 w-5 text-gray-500" />
+
+                      <div className="flex items-center space-x-2">
+                        <Label>Site:</Label>
+                        <Select value={siteFilter} onValueChange={setSiteFilter}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_SITES}>All sites</SelectItem>
+                            {sites?.map((site) => (
+                              <SelectItem key={site.id} value={String(site.id)}>
+                                {site.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {tab === "history" && (
+                        <>
+                          <div className="flex items-center space-x-2">
+                            <Label>From:</Label>
+                            <Input
+                              type="date"
+                              value={dateRange.startDate}
+                              onChange={(e) => setDateRange(prev => ({ ...prev, startDate: e.target.value }))}
+                              className="w-40"
+                            />
+                          </div>
+
+                          <div className="flex items-center space-x-2">
+                            <Label>To:</Label>
+                            <Input
+                              type="date"
+                              value={dateRange.endDate}
+                              onChange={(e) => setDateRange(prev => ({ ...prev, endDate: e.target.value }))}
+                              className="w-40"
+                            />
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Loading State */}
+                {isLoading && (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="text-center">
+                      <RefreshCw className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+                      <h3 className="text-lg font-semibold text-gray-700">Loading Alerts...</h3>
+                    </div>
+                  </div>
+                )}
+
+                {/* Error State */}
+                {error && (
+                  <Card>
+                    <CardContent className="p-6 text-center">
+                      <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                      <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to Load Alerts</h3>
+                      <p className="text-gray-600 mb-4">{error.message}</p>
+                      <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/alerts"] })}>
+                        <RefreshCw className="w-4 h-4 mr-2" />
+                        Retry Loading
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+
+            <TabsContent value="active">
+              {!isLoading && alerts && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>Active Alerts</span>
+                      <div className="flex items-center space-x-2">
+                        <Badge className="bg-red-100 text-red-800">{openCount} open</Badge>
+                        <Badge className="bg-blue-100 text-blue-800">
+                          {alerts.length - openCount} acknowledged
+                        </Badge>
+                      </div>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>{alertTable}</CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="history">
+              {!isLoading && alerts && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span>Alert History</span>
+                      <Badge className="bg-blue-100 text-blue-800">
+                        {alerts.length} alert{alerts.length === 1 ? '' : 's'}
+                      </Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>{alertTable}</CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {user?.role === 'admin' && (
+              <TabsContent value="rules">
+                <AlertRulesCard sites={sites ?? []} />
+              </TabsContent>
+            )}
+
+            {user?.role === 'admin' && (
+              <TabsContent value="escalation" className="space-y-6">
+                <EscalationPoliciesCard sites={sites ?? []} />
+                <OnCallRotationsCard />
+              </TabsContent>
+            )}
+          </Tabs>
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function Alerts() {
+  return (
+    <ProtectedRoute>
+      <AlertsContent />
+    </ProtectedRoute>
+  );
+}
@@ -25,37 +25,7 @@ import {
   Clock
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface CumulativeReading {
-  siteId: number;
-  siteName: string;
-  deviceId: string;
-  totalFuelConsumed: number;
-  totalGeneratorHours: number;
-  totalZesaHours: number;
-  readingDays: number;
-  dateRange: {
-    first: string;
-    last: string;
-  };
-}
-
-interface CumulativeResponse {
-  sites: CumulativeReading[];
-  summary: {
-    dateRange: {
-      start: string;
-      end: string;
-      isRange: boolean;
-    };
-    totalSites: number;
-    totalFuelConsumed: number;
-    totalGeneratorHours: number;
-    totalZesaHours: number;
-    averageFuelPerSite: number;
-    daysIncluded: number;
-  };
-}
+import { type CumulativeResponse } from "@shared/schema";
 
 function AnalyticsContent() {
   const { user } = useAuth();
@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ProtectedRoute from "@/components/auth/protected-route";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertCircle,
+  ArrowRight,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Filter,
+  Loader2,
+  RefreshCw,
+  ScrollText,
+} from "lucide-react";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  type AuditAction,
+  type AuditEvent,
+  type AuditLogResponse,
+} from "@shared/schema";
+
+const ALL_ACTIONS = "all";
+const PAGE_SIZE = 50;
+// The most the API returns in one request
+const EXPORT_LIMIT = 5000;
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+function actionLabel(action: string) {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action;
+}
+
+// Recorded before anyone is signed in, so the actor is only a typed username
+function isSignInFailure(action: string) {
+  return action === "auth.login_failed" || action === "auth.locked" || action === "auth.two_factor_failed";
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+}
+
+function describeChanges(event: AuditEvent) {
+  return Object.entries(event.changes ?? {})
+    .map(([field, { before, after }]) => `${field}: ${formatValue(before)} -> ${formatValue(after)}`)
+    .join('; ');
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(events: AuditEvent[]) {
+  const rows = events.map((event) => [
+    new Date(event.createdAt).toISOString(),
+    event.actorName,
+    event.action,
+    event.targetType ?? '',
+    event.targetLabel ?? '',
+    describeChanges(event),
+    event.ipAddress ?? '',
+  ]);
+  return [['time', 'actor', 'action', 'target_type', 'target', 'changes', 'ip_address'], ...rows]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\n');
+}
+
+function AuditLogContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [actionFilter, setActionFilter] = useState(ALL_ACTIONS);
+  const [search, setSearch] = useState("");
+  const [dateRange, setDateRange] = useState(() => ({
+    startDate: daysAgo(6),
+    endDate: daysAgo(0),
+  }));
+  const [page, setPage] = useState(0);
+
+  const filterParams = () => {
+    const params = new URLSearchParams({
+      startDate: dateRange.startDate,
+      endDate: dateRange.endDate,
+    });
+    if (actionFilter !== ALL_ACTIONS) {
+      params.set('action', actionFilter);
+    }
+    if (search.trim()) {
+      params.set('search', search.trim());
+    }
+    return params;
+  };
+
+  const { data, isLoading, error } = useQuery<AuditLogResponse>({
+    queryKey: ["/api/audit-events", actionFilter, search, dateRange.startDate, dateRange.endDate, page],
+    queryFn: async () => {
+      const params = filterParams();
+      params.set('limit', String(PAGE_SIZE));
+      params.set('offset', String(page * PAGE_SIZE));
+
+      const response = await apiRequest("GET", `/api/audit-events?${params}`);
+      return response.json();
+    },
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = filterParams();
+      params.set('limit', String(EXPORT_LIMIT));
+
+      const response = await apiRequest("GET", `/api/audit-events?${params}`);
+      return response.json() as Promise<AuditLogResponse>;
+    },
+    onSuccess: ({ events, total }) => {
+      const url = URL.createObjectURL(new Blob([toCsv(events)], { type: 'text/csv' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${dateRange.startDate}-to-${dateRange.endDate}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (total > events.length) {
+        toast({
+          title: "Success",
+          description: `Exported the newest ${events.length} of ${total} entries. Narrow the filters to export the rest.`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to export the audit log", variant: "destructive" });
+    },
+  });
+
+  // Any filter change starts again from the newest entries
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const total = data?.total ?? 0;
+  const lastPage = Math.max(0, Math.ceil(total / PAGE_SIZE) - 1);
+  const formatTime = (value: string | Date) => new Date(value).toLocaleString();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-6">
+          {/* Page Header */}
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+              <ScrollText className="h-8 w-8 text-primary" />
+              Audit Log
+            </h2>
+            <p className="text-gray-600 mt-2">
+              Sign-ins, user and site changes, view mode switches and manual processing runs
+            </p>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-4 flex-wrap gap-y-2">
+                <Filter className="h-5 w-5 text-gray-500" />
+
+                <div className="flex items-center space-x-2">
+                  <Label>Action:</Label>
+                  <Select value={actionFilter} onValueChange={updateFilter(setActionFilter)}>
+                    <SelectTrigger className="w-60">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                      {AUDIT_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {AUDIT_ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Label>Search:</Label>
+                  <Input
+                    placeholder="User, target or IP"
+                    value={search}
+                    onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                    className="w-52"
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Label>From:</Label>
+                  <Input
+                    type="date"
+                    value={dateRange.startDate}
+                    onChange={(e) => updateFilter(setDateRange)({ ...dateRange, startDate: e.target.value })}
+                    className="w-40"
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Label>To:</Label>
+                  <Input
+                    type="date"
+                    value={dateRange.endDate}
+                    onChange={(e) => updateFilter(setDateRange)({ ...dateRange, endDate: e.target.value })}
+                    className="w-40"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <RefreshCw className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-700">Loading Audit Log...</h3>
+              </div>
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Card className="mb-6">
+              <CardContent className="p-6 text-center">
+                <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to Load Audit Log</h3>
+                <p className="text-gray-600 mb-4">{error.message}</p>
+                <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/audit-events"] })}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Retry Loading
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && data && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Events</span>
+                  <div className="flex items-center space-x-2">
+                    <Badge className="bg-blue-100 text-blue-800">
+                      {total} event{total === 1 ? '' : 's'}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={total === 0 || exportMutation.isPending}
+                      onClick={() => exportMutation.mutate()}
+                    >
+                      {exportMutation.isPending
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        : <Download className="w-4 h-4 mr-2" />}
+                      Export CSV
+                    </Button>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.events.length > 0 ? (
+                  <>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">Time</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">User</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">Action</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">Target</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">Changes</th>
+                            <th className="px-4 py-3 text-left font-medium text-gray-700">IP Address</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {data.events.map((event) => (
+                            <tr key={event.id} className="hover:bg-gray-50 align-top">
+                              <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatTime(event.createdAt)}</td>
+                              <td className="px-4 py-3">
+                                <div className="font-medium text-gray-900">{event.actorName}</div>
+                                {event.actorId === null && !isSignInFailure(event.action) && (
+                                  <div className="text-xs text-gray-500">Deleted user</div>
+                                )}
+                              </td>
+                              <td className="px-4 py-3">
+                                <Badge
+                                  className={isSignInFailure(event.action)
+                                    ? "bg-red-100 text-red-800 border-red-200"
+                                    : "bg-gray-100 text-gray-800 border-gray-200"}
+                                >
+                                  {actionLabel(event.action)}
+                                </Badge>
+                              </td>
+                              <td className="px-4 py-3 text-gray-700">
+                                {event.targetLabel ?? '—'}
+                                {event.targetType && (
+                                  <div className="text-xs text-gray-500 capitalize">{event.targetType}</div>
+                                )}
+                              </td>
+                              <td className="px-4 py-3">
+                                {Object.entries(event.changes ?? {}).map(([field, { before, after }]) => (
+                                  <div key={field} className="flex items-center flex-wrap gap-1 text-xs">
+                                    <span className="font-medium text-gray-900">{field}:</span>
+                                    <span className="text-gray-500 break-all">{formatValue(before)}</span>
+                                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                                    <span className="text-gray-900 break-all">{formatValue(after)}</span>
+                                  </div>
+                                ))}
+                              </td>
+                              <td className="px-4 py-3 font-mono text-gray-700">{event.ipAddress ?? '—'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {lastPage > 0 && (
+                      <div className="flex items-center justify-between pt-4">
+                        <span className="text-sm text-gray-600">
+                          {page * PAGE_SIZE + 1}–{Math.min(total, (page + 1) * PAGE_SIZE)} of {total}
+                        </span>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                            <ChevronLeft className="w-4 h-4 mr-1" />
+                            Newer
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={page >= lastPage}
+                            onClick={() => setPage(page + 1)}
+                          >
+                            Older
+                            <ChevronRight className="w-4 h-4 ml-1" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-center py-12">
+                    <ScrollText className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">No Events Found</h3>
+                    <p className="text-gray-600 max-w-md mx-auto">
+                      Nothing matching these filters was recorded in this period.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  return (
+    <ProtectedRoute allowedRoles={['admin']} fallbackMessage="The audit log requires administrator access.">
+      <AuditLogContent />
+    </ProtectedRoute>
+  );
+}
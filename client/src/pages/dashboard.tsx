@@ -1,7 +1,8 @@
 // client/src/pages/dashboard.tsx - Updated with Loading Component
-import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useLiveDashboard } from "@/hooks/use-live-dashboard";
+import { useViewMode, type ViewMode } from "@/hooks/use-view-mode";
 import { apiRequest } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import ProtectedRoute from "@/components/auth/protected-route";
@@ -12,19 +13,20 @@ import { Loading, PageLoading } from "@/components/ui/loading";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { RefreshCw, AlertCircle, CheckCircle, Zap, Eye, Clock } from "lucide-react";
+import { RefreshCw, AlertCircle, CheckCircle, Zap, Eye, Clock, Radio } from "lucide-react";
 import { type DashboardData } from "@shared/schema";
 
 export default function Dashboard() {
   const { user } = useAuth();
   
-  // View mode state - only admins can toggle, others default to closing
-  const [viewMode, setViewMode] = useState<'closing' | 'realtime'>(
-    user?.role === 'admin' ? 'closing' : 'closing'
-  );
+  // Saved view mode - only admins can toggle, others are always on closing
+  const { viewMode, setViewMode, isReady: viewModeReady } = useViewMode(user?.role === 'admin');
+
+  // Real-time mode is pushed over a WebSocket; polling is the fallback
+  const liveConnected = useLiveDashboard(user?.role === 'admin' && viewMode === 'realtime');
 
   // Dashboard data query with proper mode parameter
-  const { data: dashboardData, isLoading: dashboardLoading, refetch, error } = useQuery<DashboardData & { viewMode: string }>({
+  const { data: dashboardData, isLoading: dashboardQueryLoading, refetch, error } = useQuery<DashboardData & { viewMode: string }>({
     queryKey: ["/api/dashboard", viewMode],
     queryFn: async () => {
       // Always include mode parameter
@@ -45,15 +47,17 @@ export default function Dashboard() {
         viewMode // Add the current view mode to the response
       };
     },
-    enabled: !!user, // Only run when user is available
-    refetchInterval: viewMode === 'realtime' ? 30000 : 60000, // Faster refresh for real-time
+    enabled: !!user && viewModeReady, // Only run once the user and their saved mode are known
+    refetchInterval: viewMode === 'realtime' ? (liveConnected ? false : 30000) : 60000, // Faster refresh for real-time
     staleTime: viewMode === 'realtime' ? 15000 : 30000,
   });
 
+  const dashboardLoading = dashboardQueryLoading || !viewModeReady;
+
   const hasData = dashboardData && dashboardData.sites && Array.isArray(dashboardData.sites) && dashboardData.sites.length > 0;
 
   // Handle view mode toggle (admin only)
-  const handleViewModeToggle = (mode: 'closing' | 'realtime') => {
+  const handleViewModeToggle = (mode: ViewMode) => {
     if (user?.role !== 'admin') return; // Safety check
     setViewMode(mode);
     // Invalidate queries to force refetch with new mode
@@ -137,6 +141,17 @@ export default function Dashboard() {
                           <CheckCircle className="w-3 h-3 mr-1" />
                           Last updated: {new Date().toLocaleTimeString()}
                         </span>
+                        {viewMode === 'realtime' && (
+                          <span
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              liveConnected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                            }`}
+                            title={liveConnected ? 'Readings are pushed as they arrive' : 'Refreshing every 30 seconds'}
+                          >
+                            <Radio className="w-3 h-3 mr-1" />
+                            {liveConnected ? 'Live' : 'Polling'}
+                          </span>
+                        )}
                       </div>
                     </div>
                     
@@ -226,7 +241,7 @@ export default function Dashboard() {
                             <p className="text-xl font-bold text-red-600">
                               {dashboardData.systemStatus.lowFuelAlerts}
                             </p>
-                            <p className="text-xs text-gray-500 mt-1">Below 25% threshold</p>
+                            <p className="text-xs text-gray-500 mt-1">Below site threshold</p>
                           </div>
                           <AlertCircle className="h-6 w-6 text-red-500" />
                         </div>
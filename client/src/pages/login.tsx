@@ -1,22 +1,128 @@
 // client/src/pages/login.tsx - Updated for external API
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { loginSchema, type LoginRequest } from "@shared/schema";
-import { Fuel ,User } from "lucide-react";
+import { apiRequest } from "@/lib/api";
+import TwoFactorEnrollment, { CodeInput } from "@/components/auth/two-factor-enrollment";
+import {
+  loginSchema,
+  type AuthResponse,
+  type LoginRequest,
+  type PasswordPolicyResponse,
+  type TwoFactorChallengeResponse,
+} from "@shared/schema";
+import { Fuel ,User, Lock, Loader2, ShieldCheck } from "lucide-react";
+
+type SignInLock = { scope: "account" | "address"; until: Date };
+
+// The server names the lock's end in its message, e.g. "423: Account locked until <ISO time>"
+function parseSignInLock(message: string): SignInLock | null {
+  const match = message.match(/^(423|429): .*locked until (\S+)$/i);
+  if (!match || isNaN(new Date(match[2]).getTime())) {
+    return null;
+  }
+  return { scope: match[1] === "423" ? "account" : "address", until: new Date(match[2]) };
+}
+
+interface TwoFactorVerifyFormProps {
+  challengeToken: string;
+  onSignedIn: (data: AuthResponse) => void;
+  onError: (error: Error) => void;
+}
+
+// Second sign-in step: a code from the authenticator app, or a recovery code
+function TwoFactorVerifyForm({ challengeToken, onSignedIn, onError }: TwoFactorVerifyFormProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const verifyMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/verify", { challengeToken, code: value });
+      return response.json() as Promise<AuthResponse>;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      setCode("");
+      onError(error);
+    },
+  });
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        verifyMutation.mutate(code);
+      }}
+      className="space-y-6"
+    >
+      <p className="text-gray-600 text-center">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+      </p>
+      {useRecoveryCode ? (
+        <Input
+          id="recoveryCode"
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          className="font-mono text-center"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          disabled={verifyMutation.isPending}
+        />
+      ) : (
+        <CodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => verifyMutation.mutate(value)}
+          disabled={verifyMutation.isPending}
+        />
+      )}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={verifyMutation.isPending || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+      >
+        {verifyMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Verify
+      </Button>
+      <button
+        type="button"
+        className="block w-full text-sm text-primary hover:underline"
+        onClick={() => {
+          setUseRecoveryCode(!useRecoveryCode);
+          setCode("");
+        }}
+      >
+        {useRecoveryCode ? "Use your authenticator app" : "Lost your phone? Use a recovery code"}
+      </button>
+    </form>
+  );
+}
 
 export default function Login() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
-  const { login, isAuthenticated, checkingAuth } = useAuth();
+  const { login, completeLogin, isAuthenticated, checkingAuth } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [signInLock, setSignInLock] = useState<SignInLock | null>(null);
+  const [challenge, setChallenge] = useState<TwoFactorChallengeResponse | null>(null);
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicyResponse>({
+    queryKey: ["/api/auth/password-policy"],
+    enabled: !checkingAuth && !isAuthenticated,
+    staleTime: Infinity,
+  });
 
   const form = useForm<LoginRequest>({
     resolver: zodResolver(loginSchema),
@@ -54,29 +160,49 @@ export default function Login() {
     return null;
   }
 
+  const showSignInError = (error: Error) => {
+    const lock = parseSignInLock(error.message);
+    if (lock) {
+      setSignInLock(lock);
+      setChallenge(null);
+      return;
+    }
+
+    let errorMessage = "Invalid credentials. Please try again.";
+    if (error.message.startsWith('429')) {
+      errorMessage = `${error.message.replace(/^429: /, '')}.`;
+    } else if (challenge && error.message.startsWith('401')) {
+      errorMessage = error.message.replace(/^401: /, '');
+      // An expired challenge means starting over with the password
+      if (!error.message.includes('verification code')) {
+        setChallenge(null);
+      }
+    } else if (error.message.includes('404') || error.message.includes('500')) {
+      errorMessage = "Login service is currently unavailable. Please try again later.";
+    } else if (error.message.includes('network') || error.message.includes('fetch')) {
+      errorMessage = "Network connection error. Please check your internet connection.";
+    }
+    
+    toast({
+      title: "Login Failed",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  };
+
   const onSubmit = async (data: LoginRequest) => {
     try {
       setIsLoading(true);
+      setSignInLock(null);
       console.log('🔐 Attempting login with external API...');
       
-      await login(data.username, data.password);
-      // Login function will handle the redirect to dashboard
+      // Resolves with a challenge when a second step is needed; otherwise
+      // the login function handles the redirect to dashboard
+      setChallenge(await login(data.username, data.password));
       
     } catch (error: any) {
       console.error('❌ Login failed:', error);
-      
-      let errorMessage = "Invalid credentials. Please try again.";
-      if (error.message.includes('404') || error.message.includes('500')) {
-        errorMessage = "Login service is currently unavailable. Please try again later.";
-      } else if (error.message.includes('network') || error.message.includes('fetch')) {
-        errorMessage = "Network connection error. Please check your internet connection.";
-      }
-      
-      toast({
-        title: "Login Failed",
-        description: errorMessage,
-        variant: "destructive",
-      });
+      showSignInError(error);
     } finally {
       setIsLoading(false);
     }
@@ -96,62 +222,116 @@ export default function Login() {
               <p className="text-gray-600 mt-2">Sensor Data Management System</p>
             </div>
 
-            {/* Login Form */}
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <div>
-                <Label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-                  Username
-                </Label>
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="Enter your username"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition duration-200"
-                  {...form.register("username")}
-                  disabled={isLoading}
+            {signInLock && (
+              <Alert variant="destructive" className="mb-6">
+                <Lock className="h-4 w-4" />
+                <AlertTitle>
+                  {signInLock.scope === "account" ? "Account locked" : "Sign-in blocked"} until{" "}
+                  {signInLock.until.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </AlertTitle>
+                <AlertDescription>
+                  {signInLock.scope === "account"
+                    ? "Too many failed sign-in attempts. Try again after that time or ask an administrator to unlock your account."
+                    : "Too many failed sign-in attempts from this network. Try again after that time."}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {challenge?.twoFactor === "verify" ? (
+              <TwoFactorVerifyForm
+                challengeToken={challenge.challengeToken}
+                onSignedIn={completeLogin}
+                onError={showSignInError}
+              />
+            ) : challenge?.twoFactor === "enroll" ? (
+              <div className="space-y-4">
+                <Alert>
+                  <ShieldCheck className="h-4 w-4" />
+                  <AlertTitle>Two-factor authentication required</AlertTitle>
+                  <AlertDescription>
+                    Your role has to confirm sign-ins with an authenticator app. Set one up to continue.
+                  </AlertDescription>
+                </Alert>
+                <TwoFactorEnrollment
+                  challengeToken={challenge.challengeToken}
+                  onComplete={(response) => response.auth && completeLogin(response.auth)}
                 />
-                {form.formState.errors.username && (
-                  <p className="text-red-500 text-sm mt-1">{form.formState.errors.username.message}</p>
-                )}
               </div>
+            ) : (
+              /* Login Form */
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div>
+                  <Label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                    Username
+                  </Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="Enter your username"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition duration-200"
+                    {...form.register("username")}
+                    disabled={isLoading}
+                  />
+                  {form.formState.errors.username && (
+                    <p className="text-red-500 text-sm mt-1">{form.formState.errors.username.message}</p>
+                  )}
+                </div>
 
-              <div>
-                <Label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                  Password
-                </Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition duration-200"
-                  {...form.register("password")}
+                <div>
+                  <Label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition duration-200"
+                    {...form.register("password")}
+                    disabled={isLoading}
+                  />
+                  {form.formState.errors.password && (
+                    <p className="text-red-500 text-sm mt-1">{form.formState.errors.password.message}</p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
                   disabled={isLoading}
-                />
-                {form.formState.errors.password && (
-                  <p className="text-red-500 text-sm mt-1">{form.formState.errors.password.message}</p>
-                )}
-              </div>
+                  className="w-full bg-primary text-white py-3 px-4 rounded-lg hover:bg-primary/90 transition duration-200 font-medium"
+                >
+                  {isLoading ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Signing In...
+                    </>
+                  ) : (
+                    <>
+                      <User className="w-4 h-4 mr-2" />
+                      Sign In
+                    </>
+                  )}
+                </Button>
+              </form>
+            )}
 
-              <Button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-primary text-white py-3 px-4 rounded-lg hover:bg-primary/90 transition duration-200 font-medium"
-              >
-                {isLoading ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Signing In...
-                  </>
-                ) : (
-                  <>
-                    <User className="w-4 h-4 mr-2" />
-                    Sign In
-                  </>
-                )}
-              </Button>
-            </form>
-
-            <div className="mt-6 text-center">
+            <div className="mt-6 text-center space-y-3">
+              {challenge && (
+                <button
+                  type="button"
+                  className="block w-full text-sm text-primary hover:underline"
+                  onClick={() => {
+                    setChallenge(null);
+                    form.reset();
+                  }}
+                >
+                  Back to sign in
+                </button>
+              )}
+              {!challenge && passwordPolicy?.resetAvailable && (
+                <Link href="/reset-password" className="block text-sm text-primary hover:underline">
+                  Forgot your password?
+                </Link>
+              )}
               <p className="text-sm text-gray-600">
                 Authorized personnel only • Contact admin for access
               </p>
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import ProtectedRoute from "@/components/auth/protected-route";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Droplets, RefreshCw, AlertCircle, Filter, ArrowRight } from "lucide-react";
+import { type RefuelLogEntry, type Site } from "@shared/schema";
+
+const ALL_SITES = "all";
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+function RefuelLogContent() {
+  const { user } = useAuth();
+
+  // A link such as /refuels?siteId=3 opens the log for that site
+  const [siteFilter, setSiteFilter] = useState(() => {
+    return new URLSearchParams(window.location.search).get('siteId') ?? ALL_SITES;
+  });
+  const [dateRange, setDateRange] = useState(() => ({
+    startDate: daysAgo(29),
+    endDate: daysAgo(0),
+  }));
+
+  const { data: sites } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    enabled: !!user,
+  });
+
+  const { data: events, isLoading, error } = useQuery<RefuelLogEntry[]>({
+    queryKey: ["/api/refuel-events", siteFilter, dateRange.startDate, dateRange.endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate,
+      });
+      if (siteFilter !== ALL_SITES) {
+        params.set('siteId', siteFilter);
+      }
+
+      const response = await apiRequest("GET", `/api/refuel-events?${params}`);
+      return response.json();
+    },
+    enabled: !!user,
+    refetchOnWindowFocus: false,
+  });
+
+  const totalLiters = events?.reduce((sum, event) => sum + parseFloat(event.litersAdded), 0) ?? 0;
+
+  const formatTime = (value: string | Date) => new Date(value).toLocaleString();
+  const formatLevel = (value: string | null) => value === null ? '—' : `${parseFloat(value).toFixed(1)}%`;
+  const formatDuration = (event: RefuelLogEntry) => {
+    const minutes = Math.round((new Date(event.endedAt).getTime() - new Date(event.startedAt).getTime()) / 60000);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-6">
+          {/* Page Header */}
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+              <Droplets className="h-8 w-8 text-primary" />
+              Refuel Log
+            </h2>
+            <p className="text-gray-600 mt-2">
+              Every detected tank fill, with the level before and after
+            </p>
+          </div>
+
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-4 flex-wrap">
+                <Filter className="h-5 w-5 text-gray-500" />
+
+                <div className="flex items-center space-x-2">
+                  <Label>Site:</Label>
+                  <Select value={siteFilter} onValueChange={setSiteFilter}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SITES}>All sites</SelectItem>
+                      {sites?.map((site) => (
+                        <SelectItem key={site.id} value={String(site.id)}>
+                          {site.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Label>From:</Label>
+                  <Input
+                    type="date"
+                    value={dateRange.startDate}
+                    onChange={(e) => setDateRange(prev => ({ ...prev, startDate: e.target.value }))}
+                    className="w-40"
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Label>To:</Label>
+                  <Input
+                    type="date"
+                    value={dateRange.endDate}
+                    onChange={(e) => setDateRange(prev => ({ ...prev, endDate: e.target.value }))}
+                    className="w-40"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <RefreshCw className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-700">Loading Refuel Events...</h3>
+              </div>
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Card className="mb-6">
+              <CardContent className="p-6 text-center">
+                <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Failed to Load Refuel Events</h3>
+                <p className="text-gray-600 mb-4">{error.message}</p>
+                <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/refuel-events"] })}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Retry Loading
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && events && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Refuel Events</span>
+                  <div className="flex items-center space-x-2">
+                    <Badge className="bg-blue-100 text-blue-800">
+                      {events.length} event{events.length === 1 ? '' : 's'}
+                    </Badge>
+                    <Badge className="bg-green-100 text-green-800">
+                      {totalLiters.toFixed(1)}L added
+                    </Badge>
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {events.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-700">Site</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-700">Started</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-700">Finished</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-700">Duration</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-700">Liters Added</th>
+                          <th className="px-4 py-3 text-center font-medium text-gray-700">Level</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {events.map((event) => (
+                          <tr key={event.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-3">
+                              <div className="font-medium text-gray-900">{event.siteName}</div>
+                            </td>
+                            <td className="px-4 py-3 text-gray-700">{formatTime(event.startedAt)}</td>
+                            <td className="px-4 py-3 text-gray-700">{formatTime(event.endedAt)}</td>
+                            <td className="px-4 py-3 text-right text-gray-700">{formatDuration(event)}</td>
+                            <td className="px-4 py-3 text-right">
+                              <span className="font-mono font-bold text-green-600">
+                                +{parseFloat(event.litersAdded).toFixed(1)}L
+                              </span>
+                            </td>
+                            <td className="px-4 py-3">
+                              <div className="flex items-center justify-center space-x-2 font-mono">
+                                <span>{formatLevel(event.levelBefore)}</span>
+                                <ArrowRight className="w-4 h-4 text-gray-400" />
+                                <span className="font-semibold">{formatLevel(event.levelAfter)}</span>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="text-center py-12">
+                    <Droplets className="h-16 w-16 mx-auto mb-4 text-gray-400" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-3">No Refuels Found</h3>
+                    <p className="text-gray-600 max-w-md mx-auto">
+                      No tank fills were detected in this period. Refuels are detected when a day's
+                      readings are processed on the Analytics page.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function RefuelLog() {
+  return (
+    <ProtectedRoute>
+      <RefuelLogContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { apiRequest } from "@/lib/api";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, CheckCircle2, KeyRound, Loader2, Mail } from "lucide-react";
+import {
+  describePasswordPolicy,
+  passwordPolicyError,
+  requestPasswordResetSchema,
+  type PasswordPolicy,
+  type PasswordPolicyResponse,
+  type RequestPasswordResetRequest,
+} from "@shared/schema";
+
+const newPasswordFormSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  confirmPassword: z.string().min(1, "Please repeat the new password"),
+});
+
+type NewPasswordFormValues = z.infer<typeof newPasswordFormSchema>;
+
+function withPolicy(policy: PasswordPolicy | undefined) {
+  return newPasswordFormSchema.superRefine(({ password, confirmPassword }, ctx) => {
+    const error = policy && passwordPolicyError(password, policy);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["password"] });
+    }
+    if (password !== confirmPassword) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Passwords do not match", path: ["confirmPassword"] });
+    }
+  });
+}
+
+// apiRequest errors read "<status>: <message>"
+function errorMessage(error: Error) {
+  return error.message.replace(/^\d{3}: /, "");
+}
+
+function RequestResetForm({ resetAvailable }: { resetAvailable: boolean }) {
+  const form = useForm<RequestPasswordResetRequest>({
+    resolver: zodResolver(requestPasswordResetSchema),
+    defaultValues: { identifier: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: RequestPasswordResetRequest) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/request", data);
+      return response.json();
+    },
+  });
+
+  if (requestMutation.isSuccess) {
+    return (
+      <div className="text-center space-y-3">
+        <Mail className="w-10 h-10 text-primary mx-auto" />
+        <h2 className="text-lg font-semibold text-gray-900">Check your email</h2>
+        <p className="text-gray-600">
+          If an active account matches what you entered, a reset link is on its way. It can be used once
+          and expires soon, so open it shortly.
+        </p>
+      </div>
+    );
+  }
+
+  if (!resetAvailable) {
+    return (
+      <p className="text-gray-600 text-center">
+        Password reset by email is not set up on this portal. Ask an administrator to set a new password
+        for you.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-6">
+      <p className="text-gray-600">
+        Enter your username or email address and we will email you a link to choose a new password.
+      </p>
+      {requestMutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{errorMessage(requestMutation.error)}</AlertDescription>
+        </Alert>
+      )}
+      <div>
+        <Label htmlFor="identifier" className="block text-sm font-medium text-gray-700 mb-2">
+          Username or email
+        </Label>
+        <Input id="identifier" autoComplete="username" {...form.register("identifier")} disabled={requestMutation.isPending} />
+        {form.formState.errors.identifier && (
+          <p className="text-red-500 text-sm mt-1">{form.formState.errors.identifier.message}</p>
+        )}
+      </div>
+      <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+        {requestMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Email Reset Link
+      </Button>
+    </form>
+  );
+}
+
+function NewPasswordForm({ token, policy }: { token: string; policy?: PasswordPolicy }) {
+  const [, setLocation] = useLocation();
+  const formSchema = useMemo(() => withPolicy(policy), [policy]);
+
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ password }: NewPasswordFormValues) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/confirm", { token, password });
+      return response.json();
+    },
+  });
+
+  if (confirmMutation.isSuccess) {
+    return (
+      <div className="text-center space-y-4">
+        <CheckCircle2 className="w-10 h-10 text-green-600 mx-auto" />
+        <h2 className="text-lg font-semibold text-gray-900">Password changed</h2>
+        <p className="text-gray-600">You were signed out everywhere else. Sign in with your new password.</p>
+        <Button className="w-full" onClick={() => setLocation("/login")}>Sign In</Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => confirmMutation.mutate(data))} className="space-y-6">
+      {confirmMutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{errorMessage(confirmMutation.error)}</AlertDescription>
+        </Alert>
+      )}
+      <div>
+        <Label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+          New password
+        </Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          {...form.register("password")}
+          disabled={confirmMutation.isPending}
+        />
+        {form.formState.errors.password ? (
+          <p className="text-red-500 text-sm mt-1">{form.formState.errors.password.message}</p>
+        ) : policy && (
+          <p className="text-gray-500 text-sm mt-1">{describePasswordPolicy(policy)}</p>
+        )}
+      </div>
+      <div>
+        <Label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+          Repeat new password
+        </Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          {...form.register("confirmPassword")}
+          disabled={confirmMutation.isPending}
+        />
+        {form.formState.errors.confirmPassword && (
+          <p className="text-red-500 text-sm mt-1">{form.formState.errors.confirmPassword.message}</p>
+        )}
+      </div>
+      <Button type="submit" className="w-full" disabled={confirmMutation.isPending}>
+        {confirmMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Set New Password
+      </Button>
+    </form>
+  );
+}
+
+// Public page: asks for a reset link, or sets the new password when opened
+// from the link in the email (?token=...).
+export default function ResetPassword() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+
+  const { data: passwordPolicy, isLoading } = useQuery<PasswordPolicyResponse>({
+    queryKey: ["/api/auth/password-policy"],
+    staleTime: Infinity,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-blue-100">
+      <div className="w-full max-w-md">
+        <Card className="shadow-xl">
+          <CardContent className="p-8">
+            <div className="text-center mb-8">
+              <div className="w-16 h-16 bg-primary rounded-xl mx-auto flex items-center justify-center mb-4">
+                <KeyRound className="text-white text-2xl" />
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">{token ? "Choose a New Password" : "Forgot Password"}</h1>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              </div>
+            ) : token ? (
+              <NewPasswordForm token={token} policy={passwordPolicy?.policy} />
+            ) : (
+              <RequestResetForm resetAvailable={passwordPolicy?.resetAvailable ?? false} />
+            )}
+
+            <div className="mt-6 text-center">
+              <Link href="/login" className="text-sm text-primary hover:underline inline-flex items-center gap-1">
+                <ArrowLeft className="w-4 h-4" />
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import ProtectedRoute from "@/components/auth/protected-route";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import FuelIncidentsCard from "@/components/sites/fuel-incidents-card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Droplets,
+  Fuel,
+  MapPin,
+  Power,
+  RefreshCw,
+  ShieldAlert,
+  Thermometer,
+  TrendingDown,
+} from "lucide-react";
+import { type SiteHistoryPoint, type SiteHistoryResponse } from "@shared/schema";
+
+const RANGE_OPTIONS = [
+  { days: 1, label: "Today" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+];
+
+const fuelChartConfig = {
+  fuelVolume: { label: "Volume (L)", color: "hsl(217, 91%, 60%)" },
+  fuelLevel: { label: "Level (%)", color: "hsl(142, 71%, 45%)" },
+} satisfies ChartConfig;
+
+const dailyChartConfig = {
+  consumed: { label: "Consumed (L)", color: "hsl(25, 95%, 53%)" },
+  toppedUp: { label: "Refilled (L)", color: "hsl(142, 71%, 45%)" },
+} satisfies ChartConfig;
+
+const powerChartConfig = {
+  generator: { label: "Generator", color: "hsl(217, 91%, 60%)" },
+  zesa: { label: "ZESA", color: "hsl(45, 93%, 47%)" },
+} satisfies ChartConfig;
+
+const temperatureChartConfig = {
+  temperature: { label: "Temperature (°C)", color: "hsl(0, 84%, 60%)" },
+} satisfies ChartConfig;
+
+type ChartPoint = { time: number } & Record<string, number>;
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+// Points arrive as JSON, so times are ISO strings until converted here. Each
+// series gets its own key so tooltips and legends pick up the chart config.
+function toChartPoints(points: SiteHistoryPoint[], key: string): ChartPoint[] {
+  return points.map((point) => ({ time: new Date(point.time).getTime(), [key]: point.value }));
+}
+
+// Holds the last known state until the end of the range so the step line
+// does not stop at the final change.
+function extendToEnd(points: ChartPoint[], key: string, end: number): ChartPoint[] {
+  const last = points[points.length - 1];
+  if (!last || last.time >= end) return points;
+  return [...points, { time: end, [key]: last[key] }];
+}
+
+function SiteDetailContent() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const params = useParams<{ id: string }>();
+  const siteId = params.id;
+  const [rangeDays, setRangeDays] = useState(7);
+
+  const startDate = daysAgo(rangeDays - 1);
+  const endDate = daysAgo(0);
+
+  const { data: history, isLoading, error } = useQuery<SiteHistoryResponse>({
+    queryKey: ["/api/sites", siteId, "history", startDate, endDate],
+    queryFn: async () => {
+      const query = new URLSearchParams({ startDate, endDate });
+      const response = await apiRequest("GET", `/api/sites/${siteId}/history?${query}`);
+      return response.json();
+    },
+    enabled: !!user && !!siteId,
+    refetchOnWindowFocus: false,
+  });
+
+  const from = history ? new Date(history.from).getTime() : 0;
+  const to = history ? Math.min(new Date(history.to).getTime(), Date.now()) : 0;
+  const domain: [number, number] = [from, to];
+
+  const formatTick = (value: number) => {
+    const date = new Date(value);
+    return rangeDays === 1
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString([], { day: '2-digit', month: 'short' });
+  };
+  const formatTime = (value: number | string | Date) => new Date(value).toLocaleString();
+  const tooltipLabel = (_: unknown, payload: Array<{ payload?: ChartPoint }>) =>
+    payload[0]?.payload ? formatTime(payload[0].payload.time) : '';
+
+  const fuelLevel = history ? toChartPoints(history.fuelLevel, "fuelLevel") : [];
+  const fuelVolume = history ? toChartPoints(history.fuelVolume, "fuelVolume") : [];
+  const temperature = history ? toChartPoints(history.temperature, "temperature") : [];
+  const generator = history ? extendToEnd(toChartPoints(history.generatorState, "generator"), "generator", to) : [];
+  const zesa = history ? extendToEnd(toChartPoints(history.zesaState, "zesa"), "zesa", to) : [];
+
+  const dailyTotals = history?.dailyTotals.map((day) => ({
+    date: day.date,
+    consumed: parseFloat(day.totalFuelConsumed ?? "0"),
+    toppedUp: parseFloat(day.totalFuelToppedup ?? "0"),
+  })) ?? [];
+
+  const totalConsumed = dailyTotals.reduce((sum, day) => sum + day.consumed, 0);
+  const totalRefilled = history?.refuels.reduce((sum, refuel) => sum + parseFloat(refuel.litersAdded), 0) ?? 0;
+  const totalLost = history?.incidents.reduce((sum, incident) => sum + parseFloat(incident.litersLost), 0) ?? 0;
+  const latestLevel = fuelLevel.length > 0 ? fuelLevel[fuelLevel.length - 1].fuelLevel : null;
+
+  const notFound = error?.message.startsWith('404');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-6">
+          <Button variant="ghost" size="sm" className="mb-4 -ml-2" onClick={() => setLocation('/dashboard')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+
+          {/* Page Header */}
+          <div className="mb-8 flex items-start justify-between flex-wrap gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+                <Fuel className="h-8 w-8 text-primary" />
+                {history?.site.name ?? 'Site'}
+              </h2>
+              {history && (
+                <p className="text-gray-600 mt-2 flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  {history.site.location}
+                  <span className="font-mono text-sm text-gray-500">({history.site.deviceId})</span>
+                  <Badge className={history.source === 'raw' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}>
+                    {history.source === 'raw' ? 'Sensor data' : 'Daily closing readings'}
+                  </Badge>
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {RANGE_OPTIONS.map((option) => (
+                <Button
+                  key={option.days}
+                  size="sm"
+                  variant={rangeDays === option.days ? 'default' : 'outline'}
+                  onClick={() => setRangeDays(option.days)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <RefreshCw className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-700">Loading Site History...</h3>
+              </div>
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Card className="mb-6">
+              <CardContent className="p-6 text-center">
+                <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  {notFound ? 'Site Not Found' : 'Failed to Load Site History'}
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  {notFound
+                    ? 'This site does not exist or is not assigned to you.'
+                    : error.message}
+                </p>
+                {!notFound && (
+                  <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/sites", siteId, "history"] })}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Retry Loading
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {history && (
+            <div className="space-y-6">
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-600">Latest Level</div>
+                    <div className="text-2xl font-bold text-gray-900">
+                      {latestLevel !== null ? `${latestLevel.toFixed(1)}%` : '—'}
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-600 flex items-center gap-1">
+                      <TrendingDown className="h-4 w-4" /> Consumed
+                    </div>
+                    <div className="text-2xl font-bold text-orange-600">{totalConsumed.toFixed(0)}L</div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-600 flex items-center gap-1">
+                      <Droplets className="h-4 w-4" /> Refilled
+                    </div>
+                    <div className="text-2xl font-bold text-green-600">
+                      {totalRefilled.toFixed(0)}L
+                      <span className="text-sm font-normal text-gray-500 ml-2">
+                        {history.refuels.length} refuel{history.refuels.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="text-sm text-gray-600 flex items-center gap-1">
+                      <ShieldAlert className="h-4 w-4" /> Unexplained Drops
+                    </div>
+                    <div className={`text-2xl font-bold ${history.incidents.length > 0 ? 'text-purple-600' : 'text-gray-900'}`}>
+                      {totalLost.toFixed(0)}L
+                      <span className="text-sm font-normal text-gray-500 ml-2">
+                        {history.incidents.length} incident{history.incidents.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Fuel level and volume, with refuels and unexplained drops marked */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Fuel className="h-5 w-5" /> Fuel
+                    </span>
+                    <span className="flex items-center gap-3 text-xs font-normal text-gray-600">
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-0.5 bg-green-500" /> Refuel
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-0.5 bg-purple-500" /> Unexplained drop
+                      </span>
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {fuelVolume.length > 0 || fuelLevel.length > 0 ? (
+                    <ChartContainer config={fuelChartConfig} className="aspect-auto h-72 w-full">
+                      <LineChart margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="time"
+                          type="number"
+                          scale="time"
+                          domain={domain}
+                          allowDataOverflow
+                          tickFormatter={formatTick}
+                          minTickGap={32}
+                        />
+                        <YAxis yAxisId="volume" unit="L" width={56} />
+                        <YAxis yAxisId="level" orientation="right" unit="%" domain={[0, 100]} width={44} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={tooltipLabel} />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line
+                          yAxisId="volume"
+                          data={fuelVolume}
+                          dataKey="fuelVolume"
+                          stroke="var(--color-fuelVolume)"
+                          strokeWidth={2}
+                          dot={history.source === 'closing'}
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          yAxisId="level"
+                          data={fuelLevel}
+                          dataKey="fuelLevel"
+                          stroke="var(--color-fuelLevel)"
+                          strokeWidth={1}
+                          strokeDasharray="4 4"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                        {history.refuels.map((refuel) => (
+                          <ReferenceLine
+                            key={`refuel-${refuel.id}`}
+                            yAxisId="volume"
+                            x={new Date(refuel.endedAt).getTime()}
+                            stroke="hsl(142, 71%, 45%)"
+                            label={{ value: `+${parseFloat(refuel.litersAdded).toFixed(0)}L`, position: 'top', fontSize: 11 }}
+                          />
+                        ))}
+                        {history.incidents.map((incident) => (
+                          <ReferenceLine
+                            key={`incident-${incident.id}`}
+                            yAxisId="volume"
+                            x={new Date(incident.endedAt).getTime()}
+                            stroke="hsl(271, 81%, 56%)"
+                            strokeDasharray="3 3"
+                            label={{ value: `-${parseFloat(incident.litersLost).toFixed(0)}L`, position: 'insideBottom', fontSize: 11 }}
+                          />
+                        ))}
+                      </LineChart>
+                    </ChartContainer>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No fuel readings in this period</div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Unexplained drops with the readings around each */}
+              <FuelIncidentsCard siteId={siteId} startDate={startDate} endDate={endDate} />
+
+              {/* Daily consumption and refills from the processed daily totals */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingDown className="h-5 w-5" /> Daily Consumption
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {dailyTotals.length > 0 ? (
+                    <ChartContainer config={dailyChartConfig} className="aspect-auto h-56 w-full">
+                      <BarChart data={dailyTotals} margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="date"
+                          tickFormatter={(value: string) =>
+                            new Date(`${value}T00:00:00Z`).toLocaleDateString([], { day: '2-digit', month: 'short', timeZone: 'UTC' })
+                          }
+                        />
+                        <YAxis unit="L" width={56} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="consumed" fill="var(--color-consumed)" radius={2} />
+                        <Bar dataKey="toppedUp" fill="var(--color-toppedUp)" radius={2} />
+                      </BarChart>
+                    </ChartContainer>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      No daily totals in this period. Days are totalled when readings are processed on the Analytics page.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Generator and ZESA on/off timeline */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Power className="h-5 w-5" /> Power Sources
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {(['generator', 'zesa'] as const).map((source) => {
+                    const points = source === 'generator' ? generator : zesa;
+                    return (
+                      <div key={source} className="flex items-center gap-4">
+                        <div className="w-24 text-sm font-medium text-gray-700">
+                          {powerChartConfig[source].label}
+                        </div>
+                        {points.length > 0 ? (
+                          <ChartContainer config={powerChartConfig} className="aspect-auto h-16 flex-1">
+                            <LineChart data={points} margin={{ left: 0, right: 12, top: 4, bottom: 0 }}>
+                              <XAxis
+                                dataKey="time"
+                                type="number"
+                                scale="time"
+                                domain={domain}
+                                allowDataOverflow
+                                tickFormatter={formatTick}
+                                minTickGap={32}
+                                hide={source === 'generator'}
+                              />
+                              <YAxis domain={[0, 1]} ticks={[0, 1]} tickFormatter={(value: number) => (value ? 'On' : 'Off')} width={32} />
+                              <ChartTooltip
+                                content={
+                                  <ChartTooltipContent
+                                    labelFormatter={tooltipLabel}
+                                    formatter={(value) => (value ? 'On' : 'Off')}
+                                  />
+                                }
+                              />
+                              <Line
+                                type="stepAfter"
+                                dataKey={source}
+                                stroke={`var(--color-${source})`}
+                                strokeWidth={2}
+                                dot={false}
+                                isAnimationActive={false}
+                              />
+                            </LineChart>
+                          </ChartContainer>
+                        ) : (
+                          <div className="flex-1 text-sm text-gray-500">No state readings in this period</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+
+              {/* Fuel temperature */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Thermometer className="h-5 w-5" /> Temperature
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {temperature.length > 0 ? (
+                    <ChartContainer config={temperatureChartConfig} className="aspect-auto h-48 w-full">
+                      <LineChart data={temperature} margin={{ left: 12, right: 12 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="time"
+                          type="number"
+                          scale="time"
+                          domain={domain}
+                          allowDataOverflow
+                          tickFormatter={formatTick}
+                          minTickGap={32}
+                        />
+                        <YAxis unit="°C" width={56} domain={['auto', 'auto']} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={tooltipLabel} />} />
+                        <Line
+                          dataKey="temperature"
+                          stroke="var(--color-temperature)"
+                          strokeWidth={2}
+                          dot={history.source === 'closing'}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ChartContainer>
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">No temperature readings in this period</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function SiteDetail() {
+  return (
+    <ProtectedRoute>
+      <SiteDetailContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,521 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import ProtectedRoute from "@/components/auth/protected-route";
+import Header from "@/components/layout/header";
+import Sidebar from "@/components/layout/sidebar";
+import SiteDialog, { type SiteFormValues } from "@/components/sites/site-dialog";
+import DeactivateSiteDialog from "@/components/sites/deactivate-site-dialog";
+import TankProfileDialog from "@/components/sites/tank-profile-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Plus, Edit, Power, Search, MapPin, Filter, RefreshCw, Ruler, Users2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { type Site, type SiteAssignee } from "@shared/schema";
+
+const SITES_QUERY_KEY = "/api/sites?includeInactive=true";
+
+function SitesContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [siteDialogOpen, setSiteDialogOpen] = useState(false);
+  const [deactivateDialogOpen, setDeactivateDialogOpen] = useState(false);
+  const [tankDialogOpen, setTankDialogOpen] = useState(false);
+  const [selectedSite, setSelectedSite] = useState<Site | null>(null);
+
+  const { data: sites, isLoading, error } = useQuery<Site[]>({
+    queryKey: [SITES_QUERY_KEY],
+    enabled: !!user && user.role === 'admin',
+  });
+
+  const { data: assignments } = useQuery<SiteAssignee[]>({
+    queryKey: ["/api/site-assignments"],
+    enabled: !!user && user.role === 'admin',
+  });
+
+  const assigneesFor = (siteId: number) => assignments?.filter((assignee) => assignee.siteId === siteId) ?? [];
+
+  // Every site list in the app (dashboard, filters, user dialog) is affected
+  const invalidateSites = () => {
+    queryClient.invalidateQueries({ queryKey: [SITES_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sites"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+  };
+
+  const createSiteMutation = useMutation({
+    mutationFn: async (siteData: SiteFormValues) => {
+      const response = await apiRequest("POST", "/api/sites", siteData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSites();
+      toast({
+        title: "Success",
+        description: "Site created successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create site",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSiteMutation = useMutation({
+    mutationFn: async ({ id, siteData }: { id: number; siteData: Partial<SiteFormValues> }) => {
+      const response = await apiRequest("PUT", `/api/sites/${id}`, siteData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSites();
+      toast({
+        title: "Success",
+        description: "Site updated successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update site",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateSiteMutation = useMutation({
+    mutationFn: async (siteId: number) => {
+      await apiRequest("DELETE", `/api/sites/${siteId}`);
+    },
+    onSuccess: () => {
+      invalidateSites();
+      toast({
+        title: "Success",
+        description: "Site deactivated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate site",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddSite = () => {
+    setSelectedSite(null);
+    setSiteDialogOpen(true);
+  };
+
+  const handleEditSite = (site: Site) => {
+    setSelectedSite(site);
+    setSiteDialogOpen(true);
+  };
+
+  const handleTankProfile = (site: Site) => {
+    setSelectedSite(site);
+    setTankDialogOpen(true);
+  };
+
+  const handleToggleActive = (site: Site) => {
+    setSelectedSite(site);
+    if (site.isActive) {
+      setDeactivateDialogOpen(true);
+    } else {
+      updateSiteMutation.mutate({ id: site.id, siteData: { isActive: true } });
+    }
+  };
+
+  const handleSiteSubmit = async (siteData: SiteFormValues) => {
+    if (selectedSite) {
+      await updateSiteMutation.mutateAsync({ id: selectedSite.id, siteData });
+    } else {
+      await createSiteMutation.mutateAsync(siteData);
+    }
+  };
+
+  const handleDeactivateConfirm = async () => {
+    if (selectedSite) {
+      await deactivateSiteMutation.mutateAsync(selectedSite.id);
+    }
+  };
+
+  const filteredSites = sites?.filter((site) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = site.name.toLowerCase().includes(term) ||
+                         site.location.toLowerCase().includes(term) ||
+                         site.deviceId.toLowerCase().includes(term);
+
+    const matchesStatus = statusFilter === "all" ||
+                         (statusFilter === "active" ? site.isActive : !site.isActive);
+
+    return matchesSearch && matchesStatus;
+  }) || [];
+
+  const activeCount = sites?.filter((site) => site.isActive).length || 0;
+  const unassignedCount = sites?.filter((site) => site.isActive && assigneesFor(site.id).length === 0).length || 0;
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex">
+          <Sidebar />
+          <main className="flex-1 p-6">
+            <Card className="max-w-2xl mx-auto mt-8">
+              <CardContent className="pt-6">
+                <div className="text-center">
+                  <div className="text-red-600 mb-4">
+                    <MapPin className="h-12 w-12 mx-auto" />
+                  </div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">
+                    Failed to Load Sites
+                  </h3>
+                  <p className="text-gray-600">{error.message}</p>
+                  <Button
+                    onClick={() => queryClient.invalidateQueries({ queryKey: [SITES_QUERY_KEY] })}
+                    className="mt-4"
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Try Again
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </main>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex">
+          <Sidebar />
+          <main className="flex-1 p-6">
+            <div className="animate-pulse space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+                <div className="h-10 bg-gray-200 rounded w-32"></div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-24 bg-gray-200 rounded-xl"></div>
+                ))}
+              </div>
+              <div className="h-96 bg-gray-200 rounded-xl"></div>
+            </div>
+          </main>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="flex">
+        <Sidebar />
+        <main className="flex-1 p-6">
+          {/* Page Header */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                  <MapPin className="h-7 w-7 text-primary" />
+                  Site Management
+                </h2>
+                <p className="text-gray-600 mt-1">Manage sites, their sensor devices and fuel thresholds</p>
+              </div>
+              <Button
+                onClick={handleAddSite}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition duration-200"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Site
+              </Button>
+            </div>
+          </div>
+
+          {/* Statistics Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Total Sites</p>
+                    <p className="text-2xl font-bold text-gray-900">{sites?.length || 0}</p>
+                  </div>
+                  <div className="h-8 w-8 bg-blue-100 rounded-lg flex items-center justify-center">
+                    <MapPin className="h-4 w-4 text-blue-600" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Active</p>
+                    <p className="text-2xl font-bold text-green-600">{activeCount}</p>
+                  </div>
+                  <Badge className="bg-green-100 text-green-800">Active</Badge>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Active Without Users</p>
+                    <p className="text-2xl font-bold text-orange-600">{unassignedCount}</p>
+                  </div>
+                  <div className="h-8 w-8 bg-orange-100 rounded-lg flex items-center justify-center">
+                    <Users2 className="h-4 w-4 text-orange-600" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Filters and Search */}
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      placeholder="Search sites by name, location, or device ID..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Filter className="h-4 w-4 text-gray-500" />
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-primary"
+                  >
+                    <option value="all">All Sites</option>
+                    <option value="active">Active</option>
+                    <option value="inactive">Inactive</option>
+                  </select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Sites Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>
+                  Sites
+                  <span className="text-sm font-normal text-gray-500 ml-2">
+                    {searchTerm || statusFilter !== "all"
+                      ? `(${filteredSites.length} of ${sites?.length || 0} sites)`
+                      : `(${sites?.length || 0} sites)`}
+                  </span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    queryClient.invalidateQueries({ queryKey: [SITES_QUERY_KEY] });
+                    queryClient.invalidateQueries({ queryKey: ["/api/site-assignments"] });
+                  }}
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Refresh
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Site
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Device ID
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Capacity
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Low Fuel
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Assigned Users
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {filteredSites.map((site) => {
+                      const assignees = assigneesFor(site.id);
+                      return (
+                        <tr key={site.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4">
+                            <div className="font-medium text-gray-900">{site.name}</div>
+                            <div className="text-sm text-gray-600">{site.location}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                            {site.deviceId}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {parseFloat(site.fuelCapacity).toFixed(0)}L
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                            {parseFloat(site.lowFuelThreshold).toFixed(0)}%
+                          </td>
+                          <td className="px-6 py-4 text-sm">
+                            {assignees.length > 0 ? (
+                              <div className="flex flex-wrap gap-1">
+                                {assignees.map((assignee) => (
+                                  <Badge
+                                    key={assignee.userId}
+                                    variant="outline"
+                                    title={`${assignee.role} @${assignee.username}`}
+                                  >
+                                    {assignee.fullName}
+                                  </Badge>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400">Admins only</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Badge className={site.isActive
+                              ? "bg-green-100 text-green-800"
+                              : "bg-red-100 text-red-800"
+                            }>
+                              {site.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-primary hover:text-primary/80"
+                              onClick={() => handleEditSite(site)}
+                            >
+                              <Edit className="w-4 h-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-gray-600 hover:text-gray-900"
+                              onClick={() => handleTankProfile(site)}
+                            >
+                              <Ruler className="w-4 h-4 mr-1" />
+                              Tank
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className={site.isActive ? "text-red-600 hover:text-red-800" : "text-green-600 hover:text-green-800"}
+                              onClick={() => handleToggleActive(site)}
+                              disabled={updateSiteMutation.isPending}
+                            >
+                              <Power className="w-4 h-4 mr-1" />
+                              {site.isActive ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                {filteredSites.length === 0 && (
+                  <div className="text-center py-8">
+                    <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">
+                      {searchTerm || statusFilter !== "all" ? "No sites found" : "No sites yet"}
+                    </h3>
+                    <p className="text-gray-600 mb-4">
+                      {searchTerm || statusFilter !== "all"
+                        ? "Try adjusting your search or filter criteria."
+                        : "Add a site for each sensor device to start monitoring it."
+                      }
+                    </p>
+                    {(!searchTerm && statusFilter === "all") && (
+                      <Button onClick={handleAddSite} className="bg-primary">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Site
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Site Dialog */}
+          <SiteDialog
+            open={siteDialogOpen}
+            onOpenChange={setSiteDialogOpen}
+            site={selectedSite}
+            assignees={selectedSite ? assigneesFor(selectedSite.id) : []}
+            onSubmit={handleSiteSubmit}
+            isLoading={createSiteMutation.isPending || updateSiteMutation.isPending}
+          />
+
+          {/* Deactivate Dialog */}
+          <DeactivateSiteDialog
+            open={deactivateDialogOpen}
+            onOpenChange={setDeactivateDialogOpen}
+            site={selectedSite}
+            assignedCount={selectedSite ? assigneesFor(selectedSite.id).length : 0}
+            onConfirm={handleDeactivateConfirm}
+            isLoading={deactivateSiteMutation.isPending}
+          />
+
+          {/* Tank Calibration Dialog */}
+          {selectedSite && (
+            <TankProfileDialog
+              open={tankDialogOpen}
+              onOpenChange={setTankDialogOpen}
+              site={selectedSite}
+            />
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+export default function Sites() {
+  return (
+    <ProtectedRoute allowedRoles={['admin']} fallbackMessage="Site management requires administrator access.">
+      <SitesContent />
+    </ProtectedRoute>
+  );
+}
@@ -1,58 +1,501 @@
-import { useState } from "react";
-import { useAuth } from "@/hooks/use-auth";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm, type FieldErrors, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import ProtectedRoute from "@/components/auth/protected-route";
 import Header from "@/components/layout/header";
 import Sidebar from "@/components/layout/sidebar";
+import EmailNotificationsCard from "@/components/notifications/email-notifications-card";
+import WebhooksCard from "@/components/notifications/webhooks-card";
+import TwoFactorPolicyCard from "@/components/auth/two-factor-policy-card";
+import ScheduledJobsCard from "@/components/scheduler/scheduled-jobs-card";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings, Database, Clock, Shield, AlertTriangle, CheckCircle } from "lucide-react";
+import { Settings, Database, Clock, Shield, CheckCircle, KeyRound, Loader2, Send } from "lucide-react";
+import {
+  SETTINGS_SECTIONS,
+  systemSettingsSchema,
+  type SettingsResponse,
+  type SettingsSection,
+  type SystemSettings,
+  type UpdateSettingsRequest,
+} from "@shared/schema";
 
-function SystemConfigContent() {
-  const { user } = useAuth();
+const SETTINGS_QUERY_KEY = "/api/admin/settings";
+
+// Connection details are fixed by the deployment and only shown here
+const databaseConfig = {
+  host: "41.191.232.15",
+  port: "5437",
+  database: "sensorsdb",
+  connectionStatus: "connected",
+  lastBackup: "2025-07-22T10:30:00Z",
+};
+
+const SECTION_LABELS: Record<SettingsSection, string> = {
+  general: "General",
+  scheduler: "Scheduler",
+  security: "Security",
+  notifications: "Notifications",
+};
+
+// Everything the browser knows, plus UTC which some list without
+function timeZoneOptions(current: string | undefined): string[] {
+  const zones = new Set(["UTC", ...Intl.supportedValuesOf("timeZone")]);
+  if (current) zones.add(current);
+  return Array.from(zones).sort();
+}
+
+interface NumberFieldProps {
+  name: FieldPath<SystemSettings>;
+  label: string;
+  unit: string;
+  description: string;
+  min: number;
+}
+
+// Keeps numbers as numbers in the form so an edit back to the saved value
+// no longer counts as a change
+function NumberField({ name, label, unit, description, min }: NumberFieldProps) {
+  return (
+    <FormField
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <div className="flex items-center gap-2">
+            <FormControl>
+              <Input
+                type="number"
+                min={min}
+                step={1}
+                className="w-32 border-blue-200 focus:border-blue-500"
+                {...field}
+                onChange={(event) => field.onChange(event.target.value === "" ? "" : event.target.valueAsNumber)}
+              />
+            </FormControl>
+            <span className="text-sm text-gray-500">{unit}</span>
+          </div>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface SwitchFieldProps {
+  name: FieldPath<SystemSettings>;
+  label: string;
+}
+
+function SwitchField({ name, label }: SwitchFieldProps) {
+  return (
+    <FormField
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center gap-3 space-y-0">
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+          <FormLabel className="font-normal">{label}</FormLabel>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Every section in one form, so unsaved edits survive switching tabs
+function SettingsForm({ data }: { data: SettingsResponse }) {
+  const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("general");
 
-  // Mock system configuration data
-  const systemConfig = {
-    general: {
-      systemName: "Fuel Sensor Monitoring Portal",
-      timezone: "Africa/Harare",
-      maintenanceMode: false,
-      autoBackup: true,
-      backupFrequency: "daily",
+  // A refetch brings in other admins' changes without losing edits in progress
+  const form = useForm<SystemSettings>({
+    resolver: zodResolver(systemSettingsSchema),
+    values: data.settings,
+    resetOptions: { keepDirtyValues: true },
+  });
+
+  const { dirtyFields } = form.formState;
+  const dirtySections = SETTINGS_SECTIONS.filter((section) => Object.keys(dirtyFields[section] ?? {}).length > 0);
+  const isDirty = dirtySections.length > 0;
+
+  // Ask before a reload or closing the tab throws edits away
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [isDirty]);
+
+  const timezone = data.settings.general.timezone;
+  const timeZones = useMemo(() => timeZoneOptions(timezone), [timezone]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: UpdateSettingsRequest) => {
+      const response = await apiRequest("PUT", SETTINGS_QUERY_KEY, updates);
+      return response.json() as Promise<SettingsResponse>;
     },
-    database: {
-      host: "41.191.232.15",
-      port: "5437",
-      database: "sensorsdb",
-      connectionStatus: "connected",
-      lastBackup: "2025-07-22T10:30:00Z",
+    onSuccess: (saved) => {
+      form.reset(saved.settings);
+      queryClient.setQueryData([SETTINGS_QUERY_KEY], saved);
+      // The email card shows the retry limit; password forms show the policy
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/email"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/password-policy"] });
+      toast({ title: "Success", description: "Settings saved" });
     },
-    scheduler: {
-      dailyCaptureTime: "23:55",
-      enabled: true,
-      lastRun: "2025-07-21T23:55:00Z",
-      nextRun: "2025-07-22T23:55:00Z",
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save settings", variant: "destructive" });
+    },
+  });
+
+  // Only the sections that were edited are sent, so a save cannot undo a
+  // change another admin made to a different section meanwhile
+  const handleSave = form.handleSubmit(
+    (values) => {
+      saveMutation.mutate(Object.fromEntries(dirtySections.map((section) => [section, values[section]])));
     },
-    security: {
-      jwtExpiry: "24h",
-      passwordMinLength: 8,
-      maxLoginAttempts: 5,
-      sessionTimeout: "2h",
+    (errors: FieldErrors<SystemSettings>) => {
+      const section = SETTINGS_SECTIONS.find((candidate) => errors[candidate]);
+      if (section) {
+        setActiveTab(section);
+        toast({ title: "Error", description: `Check the ${SECTION_LABELS[section]} settings`, variant: "destructive" });
+      }
     },
-    notifications: {
-      emailEnabled: false,
-      smsEnabled: false,
-      lowFuelAlert: true,
-      systemErrorAlert: true,
-    }
+  );
+
+  const tabLabel = (section: SettingsSection) => (
+    <span className="flex items-center gap-1.5">
+      {SECTION_LABELS[section]}
+      {dirtySections.includes(section) && <span className="h-2 w-2 rounded-full bg-orange-500" aria-label="Unsaved changes" />}
+    </span>
+  );
+
+  const lastSaved = (section: SettingsSection) => {
+    const updatedAt = data.updatedAt[section];
+    return (
+      <p className="text-xs text-gray-500">
+        {updatedAt ? `Last saved ${new Date(updatedAt).toLocaleString()}` : "Using the server's defaults"}
+      </p>
+    );
   };
 
+  return (
+    <Form {...form}>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+        <TabsList className="grid w-full grid-cols-5">
+          <TabsTrigger value="general">{tabLabel("general")}</TabsTrigger>
+          <TabsTrigger value="database">Database</TabsTrigger>
+          <TabsTrigger value="scheduler">{tabLabel("scheduler")}</TabsTrigger>
+          <TabsTrigger value="security">{tabLabel("security")}</TabsTrigger>
+          <TabsTrigger value="notifications">{tabLabel("notifications")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="general" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5 text-blue-600" />
+                General Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="general.timezone"
+                render={({ field }) => (
+                  <FormItem className="max-w-sm">
+                    <FormLabel>Timezone</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="border-blue-200 focus:border-blue-500">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timeZones.map((zone) => (
+                          <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Days start at midnight in this timezone for daily totals and closing readings
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {lastSaved("general")}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="database" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5 text-blue-600" />
+                Database Configuration
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Host</Label>
+                  <Input value={databaseConfig.host} disabled className="bg-gray-50" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Port</Label>
+                  <Input value={databaseConfig.port} disabled className="bg-gray-50" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Database</Label>
+                  <Input value={databaseConfig.database} disabled className="bg-gray-50" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Connection Status</Label>
+                  <div className="flex items-center gap-2">
+                    <Badge className="bg-green-100 text-green-800 flex items-center gap-1">
+                      <CheckCircle className="h-3 w-3" />
+                      Connected
+                    </Badge>
+                  </div>
+                </div>
+              </div>
+
+              <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  <Database className="h-4 w-4 text-blue-600" />
+                  <span className="font-medium text-blue-900">Last Backup</span>
+                </div>
+                <p className="text-sm text-blue-700">
+                  {new Date(databaseConfig.lastBackup).toLocaleString()}
+                </p>
+              </div>
+
+              <div className="flex justify-between pt-4">
+                <Button variant="outline" className="border-red-200 text-red-600 hover:bg-red-50">
+                  Test Connection
+                </Button>
+                <Button className="bg-blue-600 hover:bg-blue-700">
+                  Create Backup
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="scheduler" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5 text-blue-600" />
+                Scheduler Configuration
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="scheduler.captureTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Daily Capture Time</FormLabel>
+                      <FormControl>
+                        <Input type="time" className="w-32 border-blue-200 focus:border-blue-500" {...field} />
+                      </FormControl>
+                      <FormDescription>When each day's closing readings are taken, in {timezone}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <NumberField
+                  name="scheduler.backfillDays"
+                  label="Backfill"
+                  unit="days"
+                  min={0}
+                  description="Each closing capture run also takes missed days this far back"
+                />
+              </div>
+              {lastSaved("scheduler")}
+            </CardContent>
+          </Card>
+          <ScheduledJobsCard timezone={timezone} />
+        </TabsContent>
+
+        <TabsContent value="security" className="space-y-6">
+          <TwoFactorPolicyCard />
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-600" />
+                Security Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <NumberField
+                  name="security.jwtExpiryMinutes"
+                  label="Access Token Expiry"
+                  unit="minutes"
+                  min={1}
+                  description="Signed-in browsers renew their token this often"
+                />
+                <NumberField
+                  name="security.sessionTimeoutMinutes"
+                  label="Session Timeout"
+                  unit="minutes"
+                  min={5}
+                  description="Users are signed out after this long without using the portal"
+                />
+                <NumberField
+                  name="security.maxLoginAttempts"
+                  label="Max Login Attempts"
+                  unit="attempts"
+                  min={3}
+                  description="Failed sign-ins in a row before an account is locked"
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                New lifetimes apply from each user's next sign-in or token renewal.
+              </p>
+              {lastSaved("security")}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5 text-red-600" />
+                Password Policy
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <NumberField
+                  name="security.passwordMinLength"
+                  label="Minimum Length"
+                  unit="characters"
+                  min={6}
+                  description="Shortest password that can be set"
+                />
+                <NumberField
+                  name="security.passwordHistory"
+                  label="Password History"
+                  unit="passwords"
+                  min={0}
+                  description="Recent passwords that cannot be used again; 0 allows reuse"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <SwitchField name="security.passwordRequireUppercase" label="Require an uppercase letter" />
+                <SwitchField name="security.passwordRequireLowercase" label="Require a lowercase letter" />
+                <SwitchField name="security.passwordRequireNumber" label="Require a number" />
+                <SwitchField name="security.passwordRequireSymbol" label="Require a symbol" />
+              </div>
+              <p className="text-sm text-gray-600">
+                Applies to passwords set from now on; existing passwords keep working.
+              </p>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="notifications" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Send className="h-5 w-5 text-blue-600" />
+                Delivery Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="notifications.portalUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Portal URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://fuel.example.com"
+                        className="font-mono border-blue-200 focus:border-blue-500"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Emails link back to the portal at this address. Password reset needs it.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <NumberField
+                  name="notifications.emailMaxAttempts"
+                  label="Email Attempts"
+                  unit="attempts"
+                  min={1}
+                  description="Sends tried before an email is marked failed"
+                />
+                <NumberField
+                  name="notifications.webhookMaxAttempts"
+                  label="Webhook Attempts"
+                  unit="attempts"
+                  min={1}
+                  description="Deliveries tried before a webhook event is marked failed"
+                />
+              </div>
+              {lastSaved("notifications")}
+            </CardContent>
+          </Card>
+          <EmailNotificationsCard />
+          <WebhooksCard />
+        </TabsContent>
+      </Tabs>
+
+      {isDirty && (
+        <div className="sticky bottom-4 mt-6 flex items-center justify-between rounded-lg border border-orange-200 bg-white p-4 shadow-lg">
+          <p className="text-sm text-gray-700">
+            Unsaved changes in {dirtySections.map((section) => SECTION_LABELS[section]).join(", ")}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={saveMutation.isPending} onClick={() => form.reset()}>
+              Discard
+            </Button>
+            <Button className="bg-blue-600 hover:bg-blue-700" disabled={saveMutation.isPending} onClick={handleSave}>
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </div>
+        </div>
+      )}
+    </Form>
+  );
+}
+
+function SystemConfigContent() {
+  const { data, isLoading } = useQuery<SettingsResponse>({
+    queryKey: [SETTINGS_QUERY_KEY],
+  });
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <Header />
@@ -69,179 +512,13 @@ function SystemConfigContent() {
             </p>
           </div>
 
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-5">
-              <TabsTrigger value="general">General</TabsTrigger>
-              <TabsTrigger value="database">Database</TabsTrigger>
-              <TabsTrigger value="scheduler">Scheduler</TabsTrigger>
-              <TabsTrigger value="security">Security</TabsTrigger>
-              <TabsTrigger value="notifications">Notifications</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="general" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Settings className="h-5 w-5 text-blue-600" />
-                    General Settings
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="systemName">System Name</Label>
-                      <Input 
-                        id="systemName" 
-                        value={systemConfig.general.systemName}
-                        className="border-blue-200 focus:border-blue-500"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="timezone">Timezone</Label>
-                      <Select value={systemConfig.general.timezone}>
-                        <SelectTrigger className="border-blue-200 focus:border-blue-500">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Africa/Harare">Africa/Harare</SelectItem>
-                          <SelectItem value="Africa/Johannesburg">Africa/Johannesburg</SelectItem>
-                          <SelectItem value="UTC">UTC</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between p-4 border rounded-lg border-blue-200">
-                      <div>
-                        <Label className="text-base font-medium">Maintenance Mode</Label>
-                        <p className="text-sm text-gray-600">Enable to restrict system access during maintenance</p>
-                      </div>
-                      <Switch 
-                        checked={systemConfig.general.maintenanceMode}
-                        className="data-[state=checked]:bg-red-600"
-                      />
-                    </div>
-                    
-                    <div className="flex items-center justify-between p-4 border rounded-lg border-blue-200">
-                      <div>
-                        <Label className="text-base font-medium">Auto Backup</Label>
-                        <p className="text-sm text-gray-600">Automatically backup database daily</p>
-                      </div>
-                      <Switch 
-                        checked={systemConfig.general.autoBackup}
-                        className="data-[state=checked]:bg-blue-600"
-                      />
-                    </div>
-                  </div>
-
-                  <div className="flex justify-end pt-4">
-                    <Button className="bg-blue-600 hover:bg-blue-700">
-                      Save Changes
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="database" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Database className="h-5 w-5 text-blue-600" />
-                    Database Configuration
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Host</Label>
-                      <Input value={systemConfig.database.host} disabled className="bg-gray-50" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Port</Label>
-                      <Input value={systemConfig.database.port} disabled className="bg-gray-50" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Database</Label>
-                      <Input value={systemConfig.database.database} disabled className="bg-gray-50" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Connection Status</Label>
-                      <div className="flex items-center gap-2">
-                        <Badge className="bg-green-100 text-green-800 flex items-center gap-1">
-                          <CheckCircle className="h-3 w-3" />
-                          Connected
-                        </Badge>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Database className="h-4 w-4 text-blue-600" />
-                      <span className="font-medium text-blue-900">Last Backup</span>
-                    </div>
-                    <p className="text-sm text-blue-700">
-                      {new Date(systemConfig.database.lastBackup).toLocaleString()}
-                    </p>
-                  </div>
-
-                  <div className="flex justify-between pt-4">
-                    <Button variant="outline" className="border-red-200 text-red-600 hover:bg-red-50">
-                      Test Connection
-                    </Button>
-                    <Button className="bg-blue-600 hover:bg-blue-700">
-                      Create Backup
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            {/* Additional tabs content... */}
-            <TabsContent value="scheduler" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Clock className="h-5 w-5 text-blue-600" />
-                    Scheduler Configuration
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <p className="text-gray-600">Scheduler configuration interface...</p>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="security" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Shield className="h-5 w-5 text-red-600" />
-                    Security Settings
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <p className="text-gray-600">Security configuration interface...</p>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="notifications" className="space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <AlertTriangle className="h-5 w-5 text-blue-600" />
-                    Notification Settings
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <p className="text-gray-600">Notification configuration interface...</p>
-                </CardContent>
-              </Card>
-            </TabsContent>
-          </Tabs>
+          {isLoading || !data ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <SettingsForm data={data} />
+          )}
         </main>
       </div>
     </div>
@@ -254,4 +531,4 @@ export default function SystemConfig() {
       <SystemConfigContent />
     </ProtectedRoute>
   );
-}
\ No newline at end of file
+}
@@ -13,7 +13,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
-import { Plus, Edit, Trash2, Search, Users2, Filter, MapPin, RefreshCw } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Edit, Trash2, Search, Users2, Filter, MapPin, RefreshCw, Unlock, ShieldOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { type User } from "@shared/schema";
 
@@ -27,6 +37,7 @@ function UsersContent() {
   const [userDialogOpen, setUserDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<Omit<User, 'password'> | null>(null);
+  const [twoFactorResetUser, setTwoFactorResetUser] = useState<Omit<User, 'password'> | null>(null);
 
   // Fetch users
   const { data: users, isLoading, error } = useQuery<Omit<User, 'password'>[]>({
@@ -127,6 +138,53 @@ function UsersContent() {
     },
   });
 
+  // Unlock user mutation
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: "User unlocked and can sign in again",
+      });
+    },
+    onError: (error: any) => {
+      console.error("Unlock user error:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlock user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset 2FA mutation, for a user who lost their authenticator
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/2fa/reset`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setTwoFactorResetUser(null);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset",
+      });
+    },
+    onError: (error: any) => {
+      console.error("Reset 2FA error:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Event handlers
   const handleAddUser = () => {
     setSelectedUser(null);
@@ -163,6 +221,9 @@ function UsersContent() {
   };
 
   // Utility functions
+  const isLocked = (userItem: Omit<User, 'password'>) =>
+    !!userItem.lockedUntil && new Date(userItem.lockedUntil) > new Date();
+
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'admin':
@@ -471,8 +532,47 @@ function UsersContent() {
                           }>
                             {userItem.isActive ? 'Active' : 'Inactive'}
                           </Badge>
+                          {isLocked(userItem) && (
+                            <Badge
+                              className="ml-2 bg-orange-100 text-orange-800"
+                              title={`Locked until ${new Date(userItem.lockedUntil!).toLocaleString()}`}
+                            >
+                              Locked
+                            </Badge>
+                          )}
+                          {userItem.twoFactorEnabledAt && (
+                            <Badge
+                              className="ml-2 bg-blue-100 text-blue-800"
+                              title={`Two-factor on since ${new Date(userItem.twoFactorEnabledAt).toLocaleDateString()}`}
+                            >
+                              2FA
+                            </Badge>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                          {isLocked(userItem) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-orange-600 hover:text-orange-800"
+                              onClick={() => unlockUserMutation.mutate(userItem.id)}
+                              disabled={unlockUserMutation.isPending}
+                            >
+                              <Unlock className="w-4 h-4 mr-1" />
+                              Unlock
+                            </Button>
+                          )}
+                          {userItem.twoFactorEnabledAt && userItem.id !== user?.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-orange-600 hover:text-orange-800"
+                              onClick={() => setTwoFactorResetUser(userItem)}
+                            >
+                              <ShieldOff className="w-4 h-4 mr-1" />
+                              Reset 2FA
+                            </Button>
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm"
@@ -539,6 +639,30 @@ function UsersContent() {
             onConfirm={handleDeleteConfirm}
             isLoading={deleteUserMutation.isPending}
           />
+
+          {/* Reset 2FA Dialog */}
+          <AlertDialog open={!!twoFactorResetUser} onOpenChange={(open) => !open && setTwoFactorResetUser(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {twoFactorResetUser?.fullName} can sign in with their password alone until they set up an
+                  authenticator again. Their recovery codes stop working. If their role requires two-factor
+                  authentication, they are asked to set it up at their next sign-in.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                  onClick={() => twoFactorResetUser && resetTwoFactorMutation.mutate(twoFactorResetUser.id)}
+                  disabled={resetTwoFactorMutation.isPending}
+                >
+                  Reset 2FA
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </main>
       </div>
     </div>
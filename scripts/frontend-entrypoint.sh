@@ -0,0 +1,17 @@
+#!/bin/sh
+
+# Writes the runtime client configuration before serving the built frontend,
+# so the same image can point at a different API without a rebuild.
+#   API_BASE_URL  - API origin, e.g. https://portal-api.example.com (empty = same origin)
+#   API_MOCK      - "true" to answer every /api call from built-in fixtures
+
+set -e
+
+CONFIG_FILE="${CONFIG_FILE:-/app/dist/config.js}"
+
+if [ -n "$API_BASE_URL" ] || [ -n "$API_MOCK" ]; then
+    echo "window.__APP_CONFIG__ = { apiBaseUrl: \"${API_BASE_URL}\", mockApi: \"${API_MOCK:-false}\" };" > "$CONFIG_FILE"
+    echo "📝 Runtime config written: API_BASE_URL=${API_BASE_URL:-<same origin>} API_MOCK=${API_MOCK:-false}"
+fi
+
+exec "$@"
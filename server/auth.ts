@@ -0,0 +1,268 @@
+import type { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getSettings } from "./services/settings";
+import type { User } from "@shared/schema";
+
+const JWT_SECRET = process.env.JWT_SECRET || "dev-jwt-secret-key";
+// Access tokens are short-lived; clients renew them with a refresh token.
+// Both lifetimes are security settings.
+const BCRYPT_ROUNDS = 10;
+// Two tabs sharing one refresh token may both try to use it at once; a reuse
+// this soon after rotation is treated as that race rather than as theft.
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+// Time allowed between the password and the second sign-in step
+const TWO_FACTOR_CHALLENGE_TTL = "5m";
+
+// Devices posting to /api/ingest authenticate with one of these shared keys.
+const INGEST_API_KEYS = (process.env.INGEST_API_KEYS || "")
+  .split(",")
+  .map((key) => key.trim())
+  .filter(Boolean);
+
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === "production") {
+  console.warn("JWT_SECRET is not set - using the insecure development secret");
+}
+
+export type Role = "admin" | "supervisor" | "manager";
+
+export type SafeUser = Omit<User, "password">;
+
+export interface TokenPayload {
+  userId: number;
+  username: string;
+  role: Role;
+  exp?: number; // added by jwt.sign, seconds since the epoch
+}
+
+interface TwoFactorChallengePayload {
+  userId: number;
+  purpose: "two_factor";
+}
+
+export interface AuthenticatedRequest extends Request {
+  user?: SafeUser;
+  // Set when a sign-in challenge stood in for the access token
+  signingIn?: boolean;
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export function verifyPassword(password: string, hash: string): Promise<boolean> {
+  return bcrypt.compare(password, hash);
+}
+
+export function generateToken(user: SafeUser): string {
+  const payload: TokenPayload = {
+    userId: user.id,
+    username: user.username,
+    role: user.role as Role,
+  };
+  const { jwtExpiryMinutes } = getSettings().security;
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: jwtExpiryMinutes * 60 });
+}
+
+export function verifyToken(token: string): TokenPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as TokenPayload & { purpose?: string };
+    // A sign-in challenge is signed with the same secret but grants nothing
+    return payload.purpose ? null : payload;
+  } catch {
+    return null;
+  }
+}
+
+// Handed out once the password is right for an account that needs a second
+// step; only /api/auth/2fa/* accept it.
+export function generateTwoFactorChallenge(user: Pick<User, "id">): string {
+  const payload: TwoFactorChallengePayload = { userId: user.id, purpose: "two_factor" };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL } as jwt.SignOptions);
+}
+
+export function verifyTwoFactorChallenge(token: string): number | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<TwoFactorChallengePayload>;
+    return payload.purpose === "two_factor" && typeof payload.userId === "number" ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Issues a new opaque refresh token. Only its hash is persisted, so a database
+// leak does not hand out usable tokens. Every rotation issues a fresh one, so
+// a session only times out once it goes unused for the session timeout.
+export async function issueRefreshToken(userId: number, familyId: string = crypto.randomUUID()): Promise<string> {
+  const token = crypto.randomBytes(48).toString("base64url");
+  await storage.createRefreshToken({
+    userId,
+    tokenHash: hashRefreshToken(token),
+    familyId,
+    expiresAt: new Date(Date.now() + getSettings().security.sessionTimeoutMinutes * 60 * 1000),
+  });
+  return token;
+}
+
+// Exchanges a refresh token for a new one from the same family. Presenting a
+// token that was already used means it leaked (or a client replayed it), so
+// the whole family is revoked and the user has to sign in again.
+export async function rotateRefreshToken(
+  token: string,
+): Promise<{ user: SafeUser; refreshToken: string } | null> {
+  const stored = await storage.getRefreshTokenByHash(hashRefreshToken(token));
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.revokedAt) {
+    if (Date.now() - stored.revokedAt.getTime() < REFRESH_REUSE_GRACE_MS) {
+      return null;
+    }
+    console.warn(`Refresh token reuse detected for user ${stored.userId} - revoking token family`);
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+    return null;
+  }
+
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  if (!(await storage.revokeRefreshToken(stored.id))) {
+    return null;
+  }
+
+  const user = await storage.getUser(stored.userId);
+  if (!user || !user.isActive) {
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+    return null;
+  }
+
+  return {
+    user: toSafeUser(user),
+    refreshToken: await issueRefreshToken(user.id, stored.familyId),
+  };
+}
+
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const stored = await storage.getRefreshTokenByHash(hashRefreshToken(token));
+  if (stored) {
+    await storage.revokeRefreshTokenFamily(stored.familyId);
+  }
+}
+
+function extractBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+// Resolves the bearer token to a live, active user and attaches it to the
+// request. The user is re-read on every call so deactivation takes effect
+// immediately rather than when the token expires.
+export async function authenticateToken(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  const token = extractBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ message: "Access token required" });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ message: "Invalid or expired token" });
+  }
+
+  try {
+    const user = await storage.getUser(payload.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: "User not found or inactive" });
+    }
+
+    req.user = toSafeUser(user);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// For the enrolment steps, which run either while signing in (challengeToken
+// in the body) or later from an existing session.
+export async function authenticateTokenOrChallenge(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+) {
+  const challengeToken = req.body?.challengeToken;
+  if (typeof challengeToken !== "string" || !challengeToken) {
+    return authenticateToken(req, res, next);
+  }
+
+  const userId = verifyTwoFactorChallenge(challengeToken);
+  if (!userId) {
+    return res.status(401).json({ message: "Sign-in expired. Sign in again." });
+  }
+
+  try {
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: "User not found or inactive" });
+    }
+
+    req.user = toSafeUser(user);
+    req.signingIn = true;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function keysMatch(expected: string, given: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Device authentication for ingestion: an X-API-Key header (or a bearer
+// token) matching one of INGEST_API_KEYS. Ingestion stays closed until at
+// least one key is configured.
+export function authenticateIngestKey(req: Request, res: Response, next: NextFunction) {
+  if (INGEST_API_KEYS.length === 0) {
+    return res.status(503).json({ message: "Ingestion is not configured on this server" });
+  }
+
+  const key = req.header("x-api-key") ?? extractBearerToken(req);
+  if (!key || !INGEST_API_KEYS.some((expected) => keysMatch(expected, key))) {
+    return res.status(401).json({ message: "Invalid API key" });
+  }
+  next();
+}
+
+export function requireRole(...roles: Role[]) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as Role)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+}
+
+export const requireAdmin = requireRole("admin");
@@ -0,0 +1,48 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// Prefer a full connection string, fall back to the discrete DB_* variables
+// used by the docker-compose files.
+function buildConnectionString(): string {
+  if (process.env.DATABASE_URL) {
+    return process.env.DATABASE_URL;
+  }
+
+  const host = process.env.DB_HOST || "localhost";
+  const port = process.env.DB_PORT || "5432";
+  const name = process.env.DB_NAME;
+  const user = process.env.DB_USER;
+  const password = process.env.DB_PASSWORD || "";
+
+  if (!name || !user) {
+    throw new Error(
+      "DATABASE_URL or DB_NAME/DB_USER must be set. Did you forget to configure the database?",
+    );
+  }
+
+  return `postgres://${encodeURIComponent(user)}:${encodeURIComponent(password)}@${host}:${port}/${name}`;
+}
+
+export const pool = new pg.Pool({
+  connectionString: buildConnectionString(),
+  max: parseInt(process.env.DB_POOL_SIZE || "10", 10),
+});
+
+// Idle clients can be terminated by the server (e.g. on a restart); without a
+// listener the pool re-emits the error and takes the whole process down.
+pool.on("error", (error) => {
+  console.error("Unexpected database pool error:", error.message);
+});
+
+export const db = drizzle(pool, { schema });
+
+export async function checkDatabaseConnection(): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT 1");
+    console.log("Database connected successfully");
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,117 @@
+import express, { type Request, Response, NextFunction } from "express";
+import { registerRoutes } from "./routes";
+import { setupVite, serveStatic, log } from "./vite";
+import { checkDatabaseConnection } from "./db";
+import { ensureDefaultAdmin, ensureDefaultAlertRules, ensureDefaultEscalationPolicy } from "./seed";
+import { startScheduler } from "./services/scheduler";
+import { startMqttBridge } from "./services/mqtt-bridge";
+import { startAlertEngine } from "./services/alerts";
+import { startEmailNotifier } from "./services/email";
+import { startWebhookDispatcher } from "./services/webhooks";
+import { loadSettings, startSettingsSync } from "./services/settings";
+
+const app = express();
+// Lets req.ip see the client behind nginx; the default trusts proxies on
+// loopback and private networks such as the compose network.
+app.set("trust proxy", process.env.TRUST_PROXY || "loopback, uniquelocal");
+// Large enough for a full ingestion batch
+app.use(express.json({ limit: "1mb" }));
+app.use(express.urlencoded({ extended: false }));
+
+// The frontend container is served from its own origin in production.
+const allowedOrigins = (process.env.CORS_ORIGIN || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+app.use((req, res, next) => {
+  const origin = req.headers.origin;
+  if (origin && (allowedOrigins.includes("*") || allowedOrigins.includes(origin))) {
+    res.header("Access-Control-Allow-Origin", origin);
+    res.header("Vary", "Origin");
+    res.header("Access-Control-Allow-Headers", "Authorization, Content-Type, Accept, X-API-Key");
+    res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    if (req.method === "OPTIONS") {
+      return res.sendStatus(204);
+    }
+  }
+  next();
+});
+
+app.use((req, res, next) => {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      }
+
+      if (logLine.length > 80) {
+        logLine = logLine.slice(0, 79) + "…";
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+});
+
+(async () => {
+  await checkDatabaseConnection();
+  await ensureDefaultAdmin();
+  await ensureDefaultAlertRules();
+  await ensureDefaultEscalationPolicy();
+  await loadSettings();
+
+  const server = await registerRoutes(app);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || "Internal Server Error";
+
+    if (status >= 500) {
+      console.error(err);
+    }
+    if (!res.headersSent) {
+      res.status(status).json({ message });
+    }
+  });
+
+  // importantly only setup vite in development and after
+  // setting up all the other routes so the catch-all route
+  // doesn't interfere with the other routes
+  if (app.get("env") === "development") {
+    await setupVite(app, server);
+  } else {
+    serveStatic(app);
+  }
+
+  const port = parseInt(process.env.PORT || "5000", 10);
+  server.listen({
+    port,
+    host: "0.0.0.0",
+    reusePort: true,
+  }, () => {
+    log(`serving on port ${port}`);
+    startSettingsSync();
+    startScheduler().catch((error) => {
+      console.error("Scheduler failed to start:", error);
+    });
+    startMqttBridge();
+    startEmailNotifier();
+    startWebhookDispatcher();
+    startAlertEngine();
+  });
+})();
@@ -0,0 +1,1811 @@
+import type { Express, Response } from "express";
+import { createServer, type Server } from "http";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { pool } from "./db";
+import {
+  authenticateToken,
+  authenticateTokenOrChallenge,
+  requireAdmin,
+  authenticateIngestKey,
+  generateToken,
+  generateTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  hashPassword,
+  verifyPassword,
+  toSafeUser,
+  type AuthenticatedRequest,
+} from "./auth";
+import { getDashboardData, getSavedViewMode, type ViewMode } from "./services/dashboard";
+import {
+  dayBounds,
+  getCumulativeSummary,
+  processCumulativeReadings,
+  shiftDate,
+  todayDateString,
+} from "./services/cumulative";
+import { getRefuelLog } from "./services/refuels";
+import { getFuelIncidents } from "./services/incidents";
+import { ingestReadings } from "./services/ingest";
+import { describeTankProfile } from "./services/tank-volume";
+import { getReadingHistory, getSiteHistory } from "./services/site-history";
+import { attachLiveUpdates, publishSites } from "./services/live-updates";
+import { acknowledgeAlert, getAlertLog, reevaluateAlerts } from "./services/alerts";
+import { getEmailSettings, isPasswordResetAvailable, sendTestEmail } from "./services/email";
+import { getOnCallRotationEntries } from "./services/escalation";
+import { diffChanges, recordAuditEvent } from "./services/audit";
+import { getLoginBlock, recordLoginFailure, type LoginBlock } from "./services/login-throttle";
+import {
+  confirmPasswordReset,
+  getPasswordPolicy,
+  newPasswordError,
+  rememberPassword,
+  requestPasswordReset,
+} from "./services/passwords";
+import {
+  enableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  verifyAuthenticatorCode,
+  verifySecondFactor,
+} from "./services/two-factor";
+import { generateWebhookSecret, sendTestWebhook } from "./services/webhooks";
+import { getSettings, getSettingsResponse, saveSettings } from "./services/settings";
+import { getJobRuns, getJobSummaries, isJobName, isValidSchedule, runJob, updateJob } from "./services/scheduler";
+import {
+  loginSchema,
+  refreshTokenSchema,
+  requestPasswordResetSchema,
+  confirmPasswordResetSchema,
+  verifyTwoFactorSchema,
+  twoFactorCodeSchema,
+  twoFactorPolicySchema,
+  updateSettingsSchema,
+  updateJobSchema,
+  runJobSchema,
+  updateViewModeSchema,
+  createUserSchema,
+  updateUserSchema,
+  assignSitesSchema,
+  processCumulativeSchema,
+  ingestRequestSchema,
+  updateTankProfileSchema,
+  createSiteSchema,
+  updateSiteSchema,
+  createAlertRuleSchema,
+  updateAlertRuleSchema,
+  alertThresholdError,
+  notificationPreferencesSchema,
+  webhookSchema,
+  createEscalationPolicySchema,
+  updateEscalationPolicySchema,
+  onCallRotationSchema,
+  AUDIT_ACTIONS,
+  JOB_LABELS,
+  SENSOR_NAMES,
+  type AlertStatus,
+  type AlertType,
+  type AuthResponse,
+  type PasswordPolicyResponse,
+  type SensorName,
+  type TankProfileResponse,
+  type TwoFactorChallengeResponse,
+  type TwoFactorEnableResponse,
+  type TwoFactorPolicyResponse,
+  type SystemSettings,
+  type User,
+  type ViewModeResponse,
+} from "@shared/schema";
+
+// Without a mode the dashboard uses the one saved for the user
+const dashboardQuerySchema = z.object({
+  mode: z.enum(["closing", "realtime"]).optional(),
+});
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const cumulativeQuerySchema = z.object({
+  startDate: dateParam.optional(),
+  endDate: dateParam.optional(),
+});
+
+const siteHistoryQuerySchema = cumulativeQuerySchema.extend({
+  siteId: z.coerce.number().int().positive().optional(),
+});
+
+// "active" lists every unresolved alert; the others are limited to alerts
+// opened in the date range.
+const alertQuerySchema = siteHistoryQuerySchema.extend({
+  status: z.enum(["active", "resolved", "all"]).default("active"),
+});
+
+const ALERT_LOG_STATUSES: Record<"resolved" | "all", AlertStatus[]> = {
+  resolved: ["resolved"],
+  all: ["open", "acknowledged", "resolved"],
+};
+
+const AUDIT_LOG_MAX_LIMIT = 5000;
+
+const auditQuerySchema = cumulativeQuerySchema.extend({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  search: z.string().trim().optional(),
+  limit: z.coerce.number().int().min(1).max(AUDIT_LOG_MAX_LIMIT).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Runs shown in a job's history
+const JOB_RUN_HISTORY_LIMIT = 50;
+
+const HISTORY_DEFAULT_DAYS = 30;
+// Longest range the site detail page may ask for in one request.
+const SITE_HISTORY_MAX_DAYS = 31;
+// Limits of the downsampled readings history.
+const READING_HISTORY_MAX_DAYS = 366;
+const READING_HISTORY_MAX_POINTS = 5000;
+
+const sensorNameList = Object.values(SENSOR_NAMES) as [SensorName, ...SensorName[]];
+
+// sensors is a comma-separated list of sensor names; all of them by default.
+const readingHistoryQuerySchema = cumulativeQuerySchema.extend({
+  sensors: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((name) => name.trim()).filter(Boolean) : sensorNameList))
+    .pipe(z.array(z.enum(sensorNameList)).min(1)),
+  points: z.coerce.number().int().min(3).max(READING_HISTORY_MAX_POINTS).default(500),
+});
+
+// Resolves an optional startDate/endDate pair, defaulting to the last 30 days.
+function historyRange(query: z.infer<typeof siteHistoryQuerySchema>) {
+  const endDate = query.endDate ?? todayDateString();
+  const startDate = query.startDate ?? shiftDate(endDate, -(HISTORY_DEFAULT_DAYS - 1));
+  return { startDate, endDate, from: dayBounds(startDate).start, to: dayBounds(endDate).end };
+}
+
+// "section.field" -> value, so audit entries name each setting that changed
+function flattenSettings(settings: Partial<SystemSettings>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(settings).flatMap(([section, values]) =>
+      Object.entries(values).map(([field, value]) => [`${section}.${field}`, value])),
+  );
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({ message: fromZodError(error).message });
+}
+
+// 423 for a locked account, 429 while the account or address has to wait
+function sendLoginBlock(res: Response, block: LoginBlock) {
+  if (block.reason === "throttled") {
+    res.set("Retry-After", String(block.retryAfterSeconds));
+    return res.status(429).json({
+      message: `Too many failed sign-ins. Try again in ${block.retryAfterSeconds} second${block.retryAfterSeconds === 1 ? "" : "s"}`,
+      retryAfter: block.retryAfterSeconds,
+    });
+  }
+
+  const lockedUntil = block.lockedUntil.toISOString();
+  res.set("Retry-After", String(Math.ceil((block.lockedUntil.getTime() - Date.now()) / 1000)));
+  return block.scope === "account"
+    ? res.status(423).json({ message: `Account locked until ${lockedUntil}`, lockedUntil })
+    : res.status(429).json({ message: `Too many failed sign-ins from this address. Locked until ${lockedUntil}`, lockedUntil });
+}
+
+// The last step of every sign-in, with or without 2FA: records it and issues
+// the tokens. Failed attempts only reset here, so a correct password alone
+// does not clear the count of wrong verification codes.
+async function completeSignIn(req: AuthenticatedRequest, user: User): Promise<AuthResponse> {
+  await storage.updateLastLogin(user.id);
+  await recordAuditEvent(req, { action: "auth.login", actor: user });
+  const safeUser = toSafeUser({ ...user, lastLogin: new Date() });
+
+  return {
+    user: safeUser,
+    token: generateToken(safeUser),
+    refreshToken: await issueRefreshToken(safeUser.id),
+  };
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// What the audit log keeps of a tank profile; the strapping table by size only
+function tankAuditFields(profile: TankProfileResponse) {
+  const { points, ...fields } = profile;
+  return { ...fields, strappingPoints: points.length };
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  app.get("/api/health", async (_req, res) => {
+    try {
+      await pool.query("SELECT 1");
+      res.json({ status: "ok", database: "connected", timestamp: new Date().toISOString() });
+    } catch (error) {
+      res.status(503).json({ status: "error", database: "disconnected", timestamp: new Date().toISOString() });
+    }
+  });
+
+  // Auth
+  app.post("/api/auth/login", async (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { username, password } = parsed.data;
+      const user = await storage.getUserByUsername(username);
+      const target = user ? { type: "user" as const, id: user.id, label: user.username } : undefined;
+
+      const block = getLoginBlock(user, req.ip);
+      if (block) {
+        return sendLoginBlock(res, block);
+      }
+
+      const passwordMatches = !!user && (await verifyPassword(password, user.password));
+
+      if (!user || !passwordMatches || !user.isActive) {
+        await recordAuditEvent(req, { action: "auth.login_failed", actor: { id: null, username }, target });
+      }
+      if (!user || !passwordMatches) {
+        const lock = await recordLoginFailure(user, req.ip);
+        if (lock) {
+          await recordAuditEvent(req, { action: "auth.locked", actor: { id: null, username }, target });
+          return sendLoginBlock(res, lock);
+        }
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Account is disabled. Contact an administrator." });
+      }
+
+      if (user.twoFactorEnabledAt || (await isTwoFactorRequired(user.role))) {
+        const challenge: TwoFactorChallengeResponse = {
+          twoFactor: user.twoFactorEnabledAt ? "verify" : "enroll",
+          challengeToken: generateTwoFactorChallenge(user),
+        };
+        return res.json(challenge);
+      }
+
+      res.json(await completeSignIn(req, user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Second sign-in step. Wrong codes count as failed sign-ins, so guessing
+  // codes runs into the same delays and lockout as guessing passwords.
+  app.post("/api/auth/2fa/verify", async (req, res, next) => {
+    const parsed = verifyTwoFactorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const userId = verifyTwoFactorChallenge(parsed.data.challengeToken);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive || !user.twoFactorEnabledAt) {
+        return res.status(401).json({ message: "Sign-in expired. Sign in again." });
+      }
+      const actor = { id: null, username: user.username };
+      const target = { type: "user" as const, id: user.id, label: user.username };
+
+      const block = getLoginBlock(user, req.ip);
+      if (block) {
+        return sendLoginBlock(res, block);
+      }
+
+      const factor = await verifySecondFactor(user.id, parsed.data.code);
+      if (!factor) {
+        await recordAuditEvent(req, { action: "auth.two_factor_failed", actor, target });
+        const lock = await recordLoginFailure(user, req.ip);
+        if (lock) {
+          await recordAuditEvent(req, { action: "auth.locked", actor, target });
+          return sendLoginBlock(res, lock);
+        }
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      if (factor === "recovery_code") {
+        await recordAuditEvent(req, { action: "auth.recovery_code_used", actor: user });
+      }
+      res.json(await completeSignIn(req, user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Own two-factor settings. setup and enable also take a challengeToken, for
+  // users whose role requires 2FA and who set it up while signing in.
+  app.get("/api/auth/2fa", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", authenticateTokenOrChallenge, async (req: AuthenticatedRequest, res, next) => {
+    if (req.user!.twoFactorEnabledAt) {
+      return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    try {
+      res.json(await startTwoFactorSetup(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", authenticateTokenOrChallenge, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    if (req.user!.twoFactorEnabledAt) {
+      return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    try {
+      const recoveryCodes = await enableTwoFactor(req.user!.id, parsed.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "That code does not match. Check the time on your phone and try again." });
+      }
+      await recordAuditEvent(req, { action: "auth.two_factor_enable" });
+
+      const response: TwoFactorEnableResponse = { recoveryCodes };
+      if (req.signingIn) {
+        const user = await storage.getUser(req.user!.id);
+        response.auth = await completeSignIn(req, user!);
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (!req.user!.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequired(req.user!.role)) {
+        return res.status(400).json({ message: "Two-factor authentication is required for your role" });
+      }
+      if (!(await verifyAuthenticatorCode(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.resetTwoFactor(req.user!.id);
+      await recordAuditEvent(req, { action: "auth.two_factor_disable" });
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (!req.user!.twoFactorEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifyAuthenticatorCode(req.user!.id, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const response: TwoFactorEnableResponse = { recoveryCodes: await regenerateRecoveryCodes(req.user!.id) };
+      await recordAuditEvent(req, { action: "auth.recovery_codes" });
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/refresh", async (req, res, next) => {
+    const parsed = refreshTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const rotated = await rotateRefreshToken(parsed.data.refreshToken);
+      if (!rotated) {
+        return res.status(401).json({ message: "Invalid or expired refresh token" });
+      }
+
+      const response: AuthResponse = {
+        user: rotated.user,
+        token: generateToken(rotated.user),
+        refreshToken: rotated.refreshToken,
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/auth/validate", authenticateToken, (req: AuthenticatedRequest, res) => {
+    res.json({ valid: true, user: req.user });
+  });
+
+  // Access tokens simply expire; revoking the refresh token ends the session.
+  app.post("/api/auth/logout", async (req, res, next) => {
+    try {
+      const parsed = refreshTokenSchema.safeParse(req.body ?? {});
+      if (parsed.success) {
+        await revokeRefreshToken(parsed.data.refreshToken);
+      }
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Password policy and self-service reset, used before signing in
+  app.get("/api/auth/password-policy", (_req, res) => {
+    const response: PasswordPolicyResponse = {
+      policy: getPasswordPolicy(),
+      resetAvailable: isPasswordResetAvailable(),
+    };
+    res.json(response);
+  });
+
+  app.post("/api/auth/password-reset/request", (req, res) => {
+    const parsed = requestPasswordResetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    if (!isPasswordResetAvailable()) {
+      return res.status(503).json({ message: "Password reset by email is not available. Contact an administrator." });
+    }
+
+    // Answered before the account is even looked up, so neither the reply nor
+    // how long it takes tells whether one matched
+    res.json({ message: "If an active account matches, a reset link has been emailed to it" });
+    requestPasswordReset(parsed.data.identifier)
+      .then(async (user) => {
+        if (user) {
+          await recordAuditEvent(req, {
+            action: "auth.password_reset_request",
+            actor: { id: null, username: parsed.data.identifier },
+            target: { type: "user", id: user.id, label: user.username },
+          });
+        }
+      })
+      .catch((error) => console.error("Password reset request failed:", error));
+  });
+
+  app.post("/api/auth/password-reset/confirm", async (req, res, next) => {
+    const parsed = confirmPasswordResetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const result = await confirmPasswordReset(parsed.data.token, parsed.data.password);
+      if (!result.ok) {
+        return res.status(400).json({ message: result.message });
+      }
+      await recordAuditEvent(req, {
+        action: "auth.password_reset",
+        actor: result.user,
+        target: { type: "user", id: result.user.id, label: result.user.username },
+      });
+      res.json({ message: "Password changed. You can now sign in with it." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Dashboard
+  app.get("/api/dashboard", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = dashboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    // Only admins may see live sensor data; everyone else gets closing readings.
+    if (parsed.data.mode === "realtime" && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Real-time data is only available to administrators" });
+    }
+
+    try {
+      const mode: ViewMode = parsed.data.mode ?? (await getSavedViewMode(req.user!)).viewMode;
+      const data = await getDashboardData(req.user!, mode);
+      res.json({ ...data, viewMode: mode });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Dashboard view mode, saved per admin so every tab and device opens the
+  // dashboard the same way. Others can only ever have "closing".
+  app.get("/api/admin/view-mode", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    try {
+      res.json(await getSavedViewMode(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/view-mode", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = updateViewModeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    if (parsed.data.viewMode === "realtime" && req.user!.role !== "admin") {
+      return res.status(403).json({ message: "Real-time data is only available to administrators" });
+    }
+
+    try {
+      // Nothing is saved for other roles; "closing" is their only mode
+      if (req.user!.role !== "admin") {
+        return res.json(await getSavedViewMode(req.user!));
+      }
+
+      const before = await getSavedViewMode(req.user!);
+      const saved = await storage.setViewMode(req.user!.id, parsed.data.viewMode);
+      const changes = diffChanges({ viewMode: before.viewMode }, { viewMode: saved.viewMode });
+      if (changes) {
+        await recordAuditEvent(req, { action: "view_mode.switch", changes });
+      }
+
+      const response: ViewModeResponse = { viewMode: parsed.data.viewMode, updatedAt: saved.updatedAt };
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Users (admin only)
+  app.get("/api/users", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toSafeUser));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/users", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = createUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const passwordError = await newPasswordError(parsed.data.password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      await rememberPassword(user.id, user.password);
+      await recordAuditEvent(req, {
+        action: "user.create",
+        target: { type: "user", id: user.id, label: user.username },
+        changes: diffChanges(null, user),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/users/:id", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    // The edit dialog always sends a password field; blank means "keep current".
+    const body = { ...req.body };
+    if (body.password === "") {
+      delete body.password;
+    }
+
+    const parsed = updateUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password, ...updates } = parsed.data;
+      const passwordError = password ? await newPasswordError(password, existing) : null;
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await storage.updateUser(id, {
+        ...updates,
+        ...(password ? { password: await hashPassword(password) } : {}),
+      });
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // A new password ends every session signed in with the old one
+      if (password) {
+        await rememberPassword(user.id, user.password);
+        await storage.revokeUserRefreshTokens(user.id);
+      }
+      await recordAuditEvent(req, {
+        action: "user.update",
+        target: { type: "user", id: user.id, label: user.username },
+        changes: diffChanges(existing, user),
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/users/:id", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    if (id === req.user!.id) {
+      return res.status(400).json({ message: "You cannot delete your own account" });
+    }
+
+    try {
+      const existing = await storage.getUser(id);
+      if (!existing || !(await storage.deleteUser(id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "user.delete",
+        target: { type: "user", id, label: existing.username },
+        changes: diffChanges(existing, null),
+      });
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Clears a lockout and the failed attempts leading up to it
+  app.post("/api/users/:id/unlock", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    try {
+      const existing = await storage.getUser(id);
+      const user = existing && (await storage.unlockUser(id));
+      if (!existing || !user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "user.unlock",
+        target: { type: "user", id, label: user.username },
+        changes: diffChanges({ lockedUntil: existing.lockedUntil }, { lockedUntil: user.lockedUntil }),
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // For a user who lost their authenticator and recovery codes. They enrol
+  // again at their next sign-in if their role requires 2FA.
+  app.post("/api/users/:id/2fa/reset", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    if (id === req.user!.id) {
+      return res.status(400).json({ message: "Use your own two-factor settings to turn it off" });
+    }
+
+    try {
+      const existing = await storage.getUser(id);
+      const user = existing && (await storage.resetTwoFactor(id));
+      if (!existing || !user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "user.two_factor_reset",
+        target: { type: "user", id, label: user.username },
+        changes: diffChanges(
+          { twoFactorEnabledAt: existing.twoFactorEnabledAt },
+          { twoFactorEnabledAt: user.twoFactorEnabledAt },
+        ),
+      });
+      res.json(toSafeUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/users/:id/sites", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    try {
+      res.json(await storage.getUserSites(id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/users/:id/sites", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    const parsed = assignSitesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { siteIds } = parsed.data;
+      if (user.role === "manager" && siteIds.length > 1) {
+        return res.status(400).json({ message: "Managers can only be assigned to one site" });
+      }
+
+      const before = await storage.getUserSites(id);
+      // Admins see every site, so any stale assignments are simply cleared.
+      await storage.setUserSites(id, user.role === "admin" ? [] : siteIds);
+      const after = await storage.getUserSites(id);
+      const changes = diffChanges(
+        { sites: before.map((site) => site.siteName).sort() },
+        { sites: after.map((site) => site.siteName).sort() },
+      );
+      if (changes) {
+        await recordAuditEvent(req, {
+          action: "user.sites",
+          target: { type: "user", id, label: user.username },
+          changes,
+        });
+      }
+      res.json(after);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sites
+  app.get("/api/sites", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    try {
+      // The Sites admin page also lists deactivated sites
+      if (req.user!.role === "admin" && req.query.includeInactive === "true") {
+        return res.json(await storage.getSites());
+      }
+      res.json(await storage.getSitesForUser(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/sites", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = createSiteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (await storage.getSiteByDeviceId(parsed.data.deviceId)) {
+        return res.status(409).json({ message: "Another site already uses this device ID" });
+      }
+      const site = await storage.createSite(parsed.data);
+      await recordAuditEvent(req, {
+        action: "site.create",
+        target: { type: "site", id: site.id, label: site.name },
+        changes: diffChanges(null, site),
+      });
+      res.status(201).json(site);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/sites/:id", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    const parsed = updateSiteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (parsed.data.deviceId) {
+        const existing = await storage.getSiteByDeviceId(parsed.data.deviceId);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "Another site already uses this device ID" });
+        }
+      }
+
+      const existing = await storage.getSite(id);
+      const site = existing && await storage.updateSite(id, parsed.data);
+      if (!existing || !site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "site.update",
+        target: { type: "site", id, label: site.name },
+        changes: diffChanges(existing, site),
+      });
+      res.json(site);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sites are deactivated rather than deleted so their reading history stays.
+  app.delete("/api/sites/:id", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    try {
+      const existing = await storage.getSite(id);
+      const site = existing && await storage.updateSite(id, { isActive: false });
+      if (!existing || !site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      await recordAuditEvent(req, {
+        action: "site.deactivate",
+        target: { type: "site", id, label: site.name },
+        changes: diffChanges(existing, site),
+      });
+      res.json({ message: "Site deactivated successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/site-assignments", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await storage.getSiteAssignments());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Tank geometry (admin only)
+  app.get("/api/sites/:id/tank", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    try {
+      const site = await storage.getSite(id);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      res.json(await describeTankProfile(site));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/sites/:id/tank", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    const parsed = updateTankProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const existing = await storage.getSite(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      const before = await describeTankProfile(existing);
+
+      const site = await storage.updateTankProfile(id, parsed.data);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      const profile = await describeTankProfile(site);
+      await recordAuditEvent(req, {
+        action: "site.tank",
+        target: { type: "site", id, label: site.name },
+        changes: diffChanges(tankAuditFields(before), tankAuditFields(profile)),
+      });
+      res.json(profile);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Site detail charts
+  app.get("/api/sites/:id/history", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    const parsed = cumulativeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const range = historyRange(parsed.data);
+    if (range.startDate > range.endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+    if (range.to.getTime() - range.from.getTime() > SITE_HISTORY_MAX_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: `Range must not be longer than ${SITE_HISTORY_MAX_DAYS} days` });
+    }
+
+    try {
+      const history = await getSiteHistory(req.user!, id, range);
+      if (!history) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Downsampled sensor history
+  app.get("/api/readings/history/:siteId", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const siteId = parseId(req.params.siteId);
+    if (!siteId) {
+      return res.status(400).json({ message: "Invalid site id" });
+    }
+
+    const parsed = readingHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const range = historyRange(parsed.data);
+    if (range.startDate > range.endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+    if (range.to.getTime() - range.from.getTime() > READING_HISTORY_MAX_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: `Range must not be longer than ${READING_HISTORY_MAX_DAYS} days` });
+    }
+
+    try {
+      const sensors = Array.from(new Set(parsed.data.sensors));
+      const history = await getReadingHistory(req.user!, siteId, sensors, range, parsed.data.points);
+      if (!history) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Cumulative readings
+  app.get("/api/cumulative-readings", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = cumulativeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const startDate = parsed.data.startDate ?? todayDateString();
+    const endDate = parsed.data.endDate ?? startDate;
+    if (startDate > endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+
+    try {
+      res.json(await getCumulativeSummary(req.user!, startDate, endDate));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/cumulative-readings", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = processCumulativeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const date = parsed.data.date ?? todayDateString();
+      const result = await processCumulativeReadings(date);
+      await recordAuditEvent(req, {
+        action: "cumulative.process",
+        target: { type: "cumulative", label: date },
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Refuel events
+  app.get("/api/refuel-events", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = siteHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { startDate, endDate, from, to } = historyRange(parsed.data);
+    if (startDate > endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+
+    try {
+      const events = await getRefuelLog(req.user!, from, to, parsed.data.siteId);
+      if (!events) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(events);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Fuel incidents (unexplained drops)
+  app.get("/api/fuel-incidents", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = siteHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { startDate, endDate, from, to } = historyRange(parsed.data);
+    if (startDate > endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+
+    try {
+      const incidents = await getFuelIncidents(req.user!, from, to, parsed.data.siteId);
+      if (!incidents) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(incidents);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Alerts
+  app.get("/api/alerts", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = alertQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { status, siteId } = parsed.data;
+    const { startDate, endDate, from, to } = historyRange(parsed.data);
+    if (startDate > endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+
+    try {
+      const alerts = status === "active"
+        ? await getAlertLog(req.user!, { statuses: ["open", "acknowledged"], siteId })
+        : await getAlertLog(req.user!, { statuses: ALERT_LOG_STATUSES[status], from, to, siteId });
+      if (!alerts) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      res.json(alerts);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/alerts/:id/acknowledge", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid alert id" });
+    }
+
+    try {
+      const result = await acknowledgeAlert(req.user!, id);
+      if (!result) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      if (!result.acknowledged) {
+        return res.status(409).json({ message: `Alert is already ${result.alert.status}` });
+      }
+
+      publishSites([result.alert.siteId]).catch((error) => console.error("Failed to publish live updates:", error));
+      res.json(result.alert);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Alert rules. Rule changes take effect straight away rather than at the
+  // next periodic evaluation.
+  const applyAlertRules = () => {
+    reevaluateAlerts().catch((error) => console.error("Alert evaluation failed:", error));
+  };
+
+  app.get("/api/alert-rules", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await storage.getAlertRules());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/alert-rules", authenticateToken, requireAdmin, async (req, res, next) => {
+    const parsed = createAlertRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { siteId, type, threshold, severity, isEnabled } = parsed.data;
+      if (!(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      const rules = await storage.getAlertRules();
+      if (rules.some((rule) => rule.siteId === siteId && rule.type === type)) {
+        return res.status(409).json({ message: "This site already has a rule of this type" });
+      }
+
+      const rule = await storage.createAlertRule({
+        siteId,
+        type,
+        threshold: threshold?.toFixed(2) ?? null,
+        severity,
+        isEnabled,
+      });
+      applyAlertRules();
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/alert-rules/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid rule id" });
+    }
+
+    const parsed = updateAlertRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const existing = await storage.getAlertRule(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      const thresholdError = alertThresholdError(existing.type as AlertType, parsed.data.threshold);
+      if (thresholdError) {
+        return res.status(400).json({ message: thresholdError });
+      }
+
+      const rule = await storage.updateAlertRule(id, {
+        threshold: parsed.data.threshold?.toFixed(2) ?? null,
+        severity: parsed.data.severity,
+        isEnabled: parsed.data.isEnabled,
+      });
+      applyAlertRules();
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Removing a site's rule puts the site back on the global rule.
+  app.delete("/api/alert-rules/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid rule id" });
+    }
+
+    try {
+      const existing = await storage.getAlertRule(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Alert rule not found" });
+      }
+      if (existing.siteId === null) {
+        return res.status(400).json({ message: "Global rules cannot be deleted; disable them instead" });
+      }
+
+      await storage.deleteAlertRule(id);
+      applyAlertRules();
+      res.json({ message: "Alert rule deleted successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Escalation policies (admin only). Like alert rules there is one global
+  // policy and sites may have their own.
+  app.get("/api/escalation-policies", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await storage.getEscalationPolicies());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/escalation-policies", authenticateToken, requireAdmin, async (req, res, next) => {
+    const parsed = createEscalationPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { siteId, rotationId, name, steps } = parsed.data;
+      if (!(await storage.getSite(siteId))) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+      if (rotationId !== null && !(await storage.getOnCallRotation(rotationId))) {
+        return res.status(404).json({ message: "On-call rotation not found" });
+      }
+      const policies = await storage.getEscalationPolicies();
+      if (policies.some((policy) => policy.siteId === siteId)) {
+        return res.status(409).json({ message: "This site already has an escalation policy" });
+      }
+
+      res.status(201).json(await storage.createEscalationPolicy({ name, siteId, rotationId }, steps));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/escalation-policies/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid policy id" });
+    }
+
+    const parsed = updateEscalationPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { rotationId, name, steps } = parsed.data;
+      if (rotationId !== null && !(await storage.getOnCallRotation(rotationId))) {
+        return res.status(404).json({ message: "On-call rotation not found" });
+      }
+
+      const policy = await storage.updateEscalationPolicy(id, { name, rotationId }, steps);
+      if (!policy) {
+        return res.status(404).json({ message: "Escalation policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Removing a site's policy puts the site back on the global policy.
+  app.delete("/api/escalation-policies/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid policy id" });
+    }
+
+    try {
+      const existing = await storage.getEscalationPolicy(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Escalation policy not found" });
+      }
+      if (existing.siteId === null) {
+        return res.status(400).json({ message: "The global escalation policy cannot be deleted" });
+      }
+
+      await storage.deleteEscalationPolicy(id);
+      res.json({ message: "Escalation policy deleted successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // On-call rotations (admin only)
+  const unknownMembers = async (memberIds: number[]) => {
+    const users = await storage.getUsers();
+    return memberIds.filter((id) => !users.some((user) => user.id === id && user.isActive));
+  };
+
+  app.get("/api/on-call-rotations", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await getOnCallRotationEntries());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/on-call-rotations", authenticateToken, requireAdmin, async (req, res, next) => {
+    const parsed = onCallRotationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if ((await unknownMembers(parsed.data.memberIds)).length > 0) {
+        return res.status(400).json({ message: "Rotation members must be active users" });
+      }
+
+      const rotation = await storage.createOnCallRotation(parsed.data);
+      const [entry] = (await getOnCallRotationEntries()).filter((candidate) => candidate.id === rotation.id);
+      res.status(201).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/on-call-rotations/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid rotation id" });
+    }
+
+    const parsed = onCallRotationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if ((await unknownMembers(parsed.data.memberIds)).length > 0) {
+        return res.status(400).json({ message: "Rotation members must be active users" });
+      }
+
+      const rotation = await storage.updateOnCallRotation(id, parsed.data);
+      if (!rotation) {
+        return res.status(404).json({ message: "On-call rotation not found" });
+      }
+      const [entry] = (await getOnCallRotationEntries()).filter((candidate) => candidate.id === rotation.id);
+      res.json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/on-call-rotations/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid rotation id" });
+    }
+
+    try {
+      const policies = await storage.getEscalationPolicies();
+      const usedBy = policies.find((policy) => policy.rotationId === id);
+      if (usedBy) {
+        return res.status(409).json({ message: `The rotation is used by the ${usedBy.name} escalation policy` });
+      }
+
+      const deleted = await storage.deleteOnCallRotation(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "On-call rotation not found" });
+      }
+      res.json({ message: "On-call rotation deleted successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Roles that must use two-factor authentication (admin only). Users of a
+  // newly required role are asked to enrol at their next sign-in.
+  app.get("/api/security/two-factor-policy", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      const response = { requiredRoles: await storage.getTwoFactorRequiredRoles() } as TwoFactorPolicyResponse;
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/security/two-factor-policy", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = twoFactorPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const before = await storage.getTwoFactorRequiredRoles();
+      await storage.setTwoFactorRequiredRoles(Array.from(new Set(parsed.data.requiredRoles)));
+      const response = { requiredRoles: await storage.getTwoFactorRequiredRoles() } as TwoFactorPolicyResponse;
+
+      const changes = diffChanges({ requiredRoles: before }, response);
+      if (changes) {
+        await recordAuditEvent(req, { action: "security.two_factor_policy", changes });
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // System Configuration (admin only). Changes apply straight away: token
+  // lifetimes from the next sign-in or refresh, the capture time and timezone
+  // to the next scheduled capture.
+  app.get("/api/admin/settings", authenticateToken, requireAdmin, (_req, res) => {
+    res.json(getSettingsResponse());
+  });
+
+  app.put("/api/admin/settings", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = updateSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const current = getSettings();
+      const sections = Object.keys(parsed.data) as Array<keyof SystemSettings>;
+      const before = Object.fromEntries(sections.map((section) => [section, current[section]]));
+      const response = await saveSettings(parsed.data);
+
+      const changes = diffChanges(flattenSettings(before), flattenSettings(parsed.data));
+      if (changes) {
+        await recordAuditEvent(req, { action: "settings.update", changes });
+      }
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Scheduled jobs (admin only)
+  app.get("/api/admin/jobs", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await getJobSummaries());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/admin/jobs/:name/runs", authenticateToken, requireAdmin, async (req, res, next) => {
+    const { name } = req.params;
+    if (!isJobName(name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    try {
+      res.json(await getJobRuns(name, JOB_RUN_HISTORY_LIMIT));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/admin/jobs/:name", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const { name } = req.params;
+    if (!isJobName(name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const parsed = updateJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    if (parsed.data.schedule && !isValidSchedule(parsed.data.schedule)) {
+      return res.status(400).json({ message: `"${parsed.data.schedule}" is not a valid cron schedule` });
+    }
+
+    try {
+      const before = (await getJobSummaries()).find((job) => job.name === name)!;
+      const updated = await updateJob(name, {
+        schedule: parsed.data.schedule ?? null,
+        paused: parsed.data.paused,
+      });
+
+      const changes = diffChanges(
+        { schedule: before.schedule, paused: before.paused },
+        { schedule: updated.schedule, paused: updated.paused },
+      );
+      if (changes) {
+        await recordAuditEvent(req, {
+          action: "job.update",
+          target: { type: "job", label: JOB_LABELS[name] },
+          changes,
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/admin/jobs/:name/run", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const { name } = req.params;
+    if (!isJobName(name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const parsed = runJobSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const result = await runJob(name, {
+        trigger: "manual",
+        date: parsed.data.date,
+        startedBy: req.user!.username,
+      });
+      if ("error" in result) {
+        return result.error === "running"
+          ? res.status(409).json({ message: `${JOB_LABELS[name]} is already running` })
+          : res.status(400).json({ message: `${JOB_LABELS[name]} cannot run for ${parsed.data.date} yet` });
+      }
+
+      await recordAuditEvent(req, {
+        action: "job.run",
+        target: {
+          type: "job",
+          label: result.run.runDate ? `${JOB_LABELS[name]} for ${result.run.runDate}` : JOB_LABELS[name],
+        },
+      });
+      res.status(202).json(result.run);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Audit log (admin only)
+  app.get("/api/audit-events", authenticateToken, requireAdmin, async (req, res, next) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { startDate, endDate, action, actorId, search, limit, offset } = parsed.data;
+    if (startDate && endDate && startDate > endDate) {
+      return res.status(400).json({ message: "startDate must not be after endDate" });
+    }
+
+    try {
+      res.json(await storage.getAuditEvents({
+        action,
+        actorId,
+        search: search || undefined,
+        from: startDate ? dayBounds(startDate).start : undefined,
+        to: endDate ? dayBounds(endDate).end : undefined,
+      }, limit, offset));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Notifications. Each user decides whether they get alert emails; admins
+  // can see and change everyone's choice.
+  app.get("/api/notifications/preferences", authenticateToken, (req: AuthenticatedRequest, res) => {
+    res.json({ emailAlerts: req.user!.emailAlerts });
+  });
+
+  app.put("/api/notifications/preferences", authenticateToken, async (req: AuthenticatedRequest, res, next) => {
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const user = await storage.updateUser(req.user!.id, { emailAlerts: parsed.data.emailAlerts });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ emailAlerts: user.emailAlerts });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/notifications/email", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await getEmailSettings());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/notifications/subscribers/:userId", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.userId);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const user = await storage.updateUser(id, { emailAlerts: parsed.data.emailAlerts });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ emailAlerts: user.emailAlerts });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/notifications/email/log", authenticateToken, requireAdmin, async (req, res, next) => {
+    const limit = Math.min(parseId(String(req.query.limit ?? "")) ?? 100, 1000);
+
+    try {
+      res.json(await storage.getEmailLog(limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/notifications/email/test", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const email = await sendTestEmail(req.user!);
+      if (!email) {
+        return res.status(409).json({ message: "Email is not configured; set SMTP_HOST on the server" });
+      }
+      res.json(email);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Webhooks (admin only)
+  app.get("/api/webhooks", authenticateToken, requireAdmin, async (_req, res, next) => {
+    try {
+      res.json(await storage.getWebhooks());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/webhooks", authenticateToken, requireAdmin, async (req, res, next) => {
+    const parsed = webhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { secret, ...webhook } = parsed.data;
+      const created = await storage.createWebhook({ ...webhook, secret: secret ?? generateWebhookSecret() });
+      res.status(201).json(created);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A blank secret keeps the current one.
+  app.put("/api/webhooks/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid webhook id" });
+    }
+
+    const parsed = webhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      const { secret, ...updates } = parsed.data;
+      const webhook = await storage.updateWebhook(id, { ...updates, ...(secret ? { secret } : {}) });
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/webhooks/:id", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid webhook id" });
+    }
+
+    try {
+      const deleted = await storage.deleteWebhook(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", authenticateToken, requireAdmin, async (req, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid webhook id" });
+    }
+    const limit = Math.min(parseId(String(req.query.limit ?? "")) ?? 50, 500);
+
+    try {
+      if (!(await storage.getWebhook(id))) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await storage.getWebhookDeliveries(id, limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/webhooks/:id/test", authenticateToken, requireAdmin, async (req: AuthenticatedRequest, res, next) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid webhook id" });
+    }
+
+    try {
+      const webhook = await storage.getWebhook(id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(await sendTestWebhook(webhook, req.user!.fullName));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Device ingestion
+  app.post("/api/ingest", authenticateIngestKey, async (req, res, next) => {
+    const parsed = ingestRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      res.json(await ingestReadings(parsed.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/ingest/quarantine", authenticateToken, requireAdmin, async (req, res, next) => {
+    const limit = Math.min(parseId(String(req.query.limit ?? "")) ?? 100, 1000);
+
+    try {
+      res.json(await storage.getQuarantinedReadings(limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const httpServer = createServer(app);
+  // Realtime dashboard push, see services/live-updates.ts
+  attachLiveUpdates(httpServer);
+  return httpServer;
+}
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import type { EscalationStepRequest, InsertAlertRule } from "@shared/schema";
+
+// Global rules every site starts with; sites can override them one by one.
+const DEFAULT_ALERT_RULES: Array<Pick<InsertAlertRule, "type" | "threshold" | "severity">> = [
+  { type: "tank_empty", threshold: "2", severity: "critical" },
+  { type: "low_fuel", threshold: null, severity: "warning" },
+  { type: "generator_off", threshold: null, severity: "critical" },
+  { type: "temperature_high", threshold: "50", severity: "warning" },
+  { type: "device_offline", threshold: process.env.SITE_OFFLINE_MINUTES || "60", severity: "warning" },
+];
+
+// Site manager straight away, then the supervisors, then every admin.
+const DEFAULT_ESCALATION_STEPS: EscalationStepRequest[] = [
+  { target: "manager", delayMinutes: 0 },
+  { target: "supervisor", delayMinutes: 30 },
+  { target: "admin", delayMinutes: 60 },
+];
+
+// A fresh database has no way to log in, so bootstrap a single admin account
+// the first time the server starts against an empty users table.
+export async function ensureDefaultAdmin(): Promise<void> {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) {
+    return;
+  }
+
+  const username = process.env.DEFAULT_ADMIN_USERNAME || "admin";
+  const password = process.env.DEFAULT_ADMIN_PASSWORD || "secret";
+
+  await storage.createUser({
+    username,
+    email: process.env.DEFAULT_ADMIN_EMAIL || "admin@localhost",
+    password: await hashPassword(password),
+    role: "admin",
+    fullName: "System Administrator",
+    isActive: true,
+  });
+
+  console.log(`Created default admin user '${username}' - change its password after first login`);
+}
+
+// Adds any global alert rule that is missing, leaving edited ones alone.
+export async function ensureDefaultAlertRules(): Promise<void> {
+  const existing = await storage.getAlertRules();
+  const missing = DEFAULT_ALERT_RULES.filter(
+    (rule) => !existing.some((candidate) => candidate.siteId === null && candidate.type === rule.type),
+  );
+
+  for (const rule of missing) {
+    await storage.createAlertRule(rule);
+  }
+  if (missing.length > 0) {
+    console.log(`Created default alert rules: ${missing.map((rule) => rule.type).join(", ")}`);
+  }
+}
+
+// Creates the global escalation policy unless there already is one.
+export async function ensureDefaultEscalationPolicy(): Promise<void> {
+  const existing = await storage.getEscalationPolicies();
+  if (existing.some((policy) => policy.siteId === null)) {
+    return;
+  }
+
+  await storage.createEscalationPolicy({ name: "Default", siteId: null, rotationId: null }, DEFAULT_ESCALATION_STEPS);
+  console.log("Created default escalation policy");
+}
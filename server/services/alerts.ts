@@ -0,0 +1,273 @@
+import { storage } from "../storage";
+import { buildRealtimeReading, latestTime } from "./dashboard";
+import { queueAlertEmails } from "./email";
+import { escalateAlerts } from "./escalation";
+import { publishSites } from "./live-updates";
+import { getTankProfiles } from "./tank-volume";
+import { publishAlertWebhooks } from "./webhooks";
+import {
+  ALERT_TYPES,
+  alertForRole,
+  type Alert,
+  type AlertEntry,
+  type AlertRule,
+  type AlertStatus,
+  type AlertType,
+  type DailyClosingReading,
+  type InsertAlert,
+  type Site,
+  type User,
+} from "@shared/schema";
+
+// Every site is re-checked this often, so conditions no new reading would
+// reveal, such as a device going quiet, still raise an alert.
+const ALERT_EVALUATION_SECONDS = parseInt(process.env.ALERT_EVALUATION_SECONDS || "60", 10);
+
+export type AlertCondition = {
+  value: number | null;
+  threshold: number | null;
+  message: string;
+};
+
+export type AlertEvaluation = {
+  opened: Alert[];
+  resolved: Alert[];
+};
+
+let evaluationTimer: NodeJS.Timeout | null = null;
+// Evaluations run one at a time so a sweep and an ingest-triggered check
+// never open or resolve the same alert twice.
+let evaluationQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = evaluationQueue.then(task);
+  evaluationQueue = run.catch(() => undefined);
+  return run;
+}
+
+function decimal(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes >= 120 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)} minutes`;
+}
+
+// The rule in force for each type at a site: its own rule where it has one,
+// otherwise the global rule.
+export function rulesForSite(rules: AlertRule[], siteId: number): Map<AlertType, AlertRule> {
+  const effective = new Map<AlertType, AlertRule>();
+  for (const type of ALERT_TYPES) {
+    const rule = rules.find((candidate) => candidate.siteId === siteId && candidate.type === type)
+      ?? rules.find((candidate) => candidate.siteId === null && candidate.type === type);
+    if (rule) {
+      effective.set(type, rule);
+    }
+  }
+  return effective;
+}
+
+// Whether a rule's condition holds for a site's latest realtime reading.
+export function checkRule(
+  rule: AlertRule,
+  site: Site,
+  reading: DailyClosingReading | undefined,
+  lastSeen: Date | undefined,
+  now: Date,
+): AlertCondition | null {
+  const threshold = decimal(rule.threshold);
+
+  if (rule.type === "device_offline") {
+    if (threshold === null) {
+      return null;
+    }
+    if (!lastSeen) {
+      return { value: null, threshold, message: `No readings received from device ${site.deviceId}` };
+    }
+    const minutes = (now.getTime() - lastSeen.getTime()) / 60000;
+    return minutes > threshold
+      ? { value: Math.round(minutes), threshold, message: `No readings from device ${site.deviceId} for ${formatMinutes(minutes)}` }
+      : null;
+  }
+
+  if (!reading) {
+    return null;
+  }
+
+  const level = decimal(reading.fuelLevel);
+  const temperature = decimal(reading.temperature);
+  switch (rule.type) {
+    case "tank_empty":
+      return level !== null && threshold !== null && level <= threshold
+        ? { value: level, threshold, message: `Tank is empty: fuel level at ${level.toFixed(1)}%` }
+        : null;
+    case "low_fuel": {
+      const lowFuelThreshold = parseFloat(site.lowFuelThreshold);
+      return level !== null && level < lowFuelThreshold
+        ? { value: level, threshold: lowFuelThreshold, message: `Fuel level at ${level.toFixed(1)}%, below the ${lowFuelThreshold}% threshold` }
+        : null;
+    }
+    case "generator_off":
+      // Only when both states are known; a site without a ZESA sensor is
+      // not in an outage just because nothing was reported
+      return reading.zesaState === "off" && reading.generatorState === "off"
+        ? { value: null, threshold: null, message: "Generator is off during a ZESA outage" }
+        : null;
+    case "temperature_high":
+      return temperature !== null && threshold !== null && temperature > threshold
+        ? { value: temperature, threshold, message: `Fuel temperature at ${temperature.toFixed(1)}°C, above ${threshold}°C` }
+        : null;
+    default:
+      return null;
+  }
+}
+
+async function runEvaluation(deviceIds?: string[]): Promise<AlertEvaluation> {
+  const allSites = await storage.getSites();
+  const activeSites = allSites.filter((site) => site.isActive);
+  const sites = deviceIds ? activeSites.filter((site) => deviceIds.includes(site.deviceId)) : activeSites;
+
+  const toResolve: number[] = [];
+  // A full sweep also closes whatever was left open on deactivated sites
+  if (!deviceIds) {
+    const inactive = await storage.getUnresolvedAlerts(allSites.filter((site) => !site.isActive).map((site) => site.id));
+    toResolve.push(...inactive.map((alert) => alert.id));
+  }
+
+  const latestValues = await storage.getLatestSensorValues(sites.map((site) => site.deviceId));
+  const profiles = await getTankProfiles(sites);
+  const rules = await storage.getAlertRules();
+  const unresolved = await storage.getUnresolvedAlerts(sites.map((site) => site.id));
+
+  const now = new Date();
+  const toOpen: InsertAlert[] = [];
+  for (const site of sites) {
+    const values = latestValues.get(site.deviceId);
+    const reading = buildRealtimeReading(site, values, profiles.get(site.id)!);
+    const siteRules = rulesForSite(rules, site.id);
+
+    for (const type of ALERT_TYPES) {
+      const rule = siteRules.get(type);
+      const condition = rule?.isEnabled ? checkRule(rule, site, reading, latestTime(values), now) : null;
+      const existing = unresolved.find((alert) => alert.siteId === site.id && alert.type === type);
+
+      if (condition && !existing) {
+        toOpen.push({
+          siteId: site.id,
+          type,
+          severity: rule!.severity,
+          message: condition.message,
+          value: condition.value?.toFixed(2) ?? null,
+          threshold: condition.threshold?.toFixed(2) ?? null,
+          openedAt: now,
+        });
+      } else if (!condition && existing) {
+        toResolve.push(existing.id);
+      }
+    }
+  }
+
+  const opened: Alert[] = [];
+  for (const alert of toOpen) {
+    const created = await storage.openAlert(alert);
+    if (created) {
+      opened.push(created);
+      const site = sites.find((candidate) => candidate.id === created.siteId)!;
+      console.warn(`Alert opened at site ${site.name}: ${created.message}`);
+    }
+  }
+  const resolved = await storage.resolveAlerts(toResolve, now);
+
+  return { opened, resolved };
+}
+
+// Opens alerts whose condition now holds and resolves those whose condition
+// has cleared. Limited to the sites of the given devices when given. Emails
+// and webhooks about the changes go out in the background.
+export async function evaluateAlerts(deviceIds?: string[]): Promise<AlertEvaluation> {
+  const evaluation = await enqueue(() => runEvaluation(deviceIds));
+  queueAlertEmails(evaluation.opened, evaluation.resolved)
+    .catch((error) => console.error("Failed to queue alert emails:", error));
+  publishAlertWebhooks(evaluation.opened, evaluation.resolved)
+    .catch((error) => console.error("Failed to queue alert webhooks:", error));
+  return evaluation;
+}
+
+// Evaluates every site and pushes the ones whose alerts changed to the live
+// dashboard. Used by the periodic sweep and after the rules are edited.
+export async function reevaluateAlerts(): Promise<AlertEvaluation> {
+  const evaluation = await evaluateAlerts();
+  const changed = new Set([...evaluation.opened, ...evaluation.resolved].map((alert) => alert.siteId));
+  await publishSites(Array.from(changed));
+  return evaluation;
+}
+
+export function startAlertEngine(): void {
+  if (evaluationTimer) {
+    return;
+  }
+
+  const run = () => {
+    reevaluateAlerts()
+      .then(() => escalateAlerts())
+      .catch((error) => console.error("Alert evaluation failed:", error));
+  };
+  evaluationTimer = setInterval(run, ALERT_EVALUATION_SECONDS * 1000);
+  console.log(`Alert engine started - evaluating every ${ALERT_EVALUATION_SECONDS}s`);
+  run();
+}
+
+async function toEntries(alerts: Alert[], sites: Site[], role: string): Promise<AlertEntry[]> {
+  const siteNames = new Map(sites.map((site) => [site.id, site.name]));
+  const escalations = await storage.getAlertEscalations(
+    alerts.filter((alert) => alert.escalationLevel > 0).map((alert) => alert.id),
+  );
+  const needsNames = escalations.length > 0 || alerts.some((alert) => alert.acknowledgedBy !== null);
+  const userNames = new Map((needsNames ? await storage.getUsers() : []).map((user) => [user.id, user.fullName]));
+
+  return alerts.map((alert) => ({
+    ...alertForRole(alert, role),
+    siteName: siteNames.get(alert.siteId) ?? "",
+    acknowledgedByName: alert.acknowledgedBy === null ? null : userNames.get(alert.acknowledgedBy) ?? null,
+    escalatedTo: Array.from(new Set(escalations
+      .filter((escalation) => escalation.alertId === alert.id && escalation.userId !== null)
+      .map((escalation) => userNames.get(escalation.userId!) ?? ""))),
+  }));
+}
+
+// Unresolved alerts when no range is given, otherwise the alerts with the
+// given statuses opened in the range. Returns null when a specific site was
+// asked for that the user cannot see.
+export async function getAlertLog(
+  user: Pick<User, "id" | "role">,
+  filter: { statuses: AlertStatus[]; from?: Date; to?: Date; siteId?: number },
+): Promise<AlertEntry[] | null> {
+  const sites = await storage.getSitesForUser(user);
+  const visible = filter.siteId ? sites.filter((site) => site.id === filter.siteId) : sites;
+  if (filter.siteId && visible.length === 0) {
+    return null;
+  }
+
+  const siteIds = visible.map((site) => site.id);
+  const alerts = filter.from && filter.to
+    ? await storage.getAlerts(siteIds, filter.statuses, filter.from, filter.to)
+    : await storage.getUnresolvedAlerts(siteIds);
+  return toEntries(alerts, visible, user.role);
+}
+
+// Returns null when the alert does not exist or is on a site the user cannot
+// see, and the alert unchanged when it was not open.
+export async function acknowledgeAlert(
+  user: Pick<User, "id" | "role">,
+  id: number,
+): Promise<{ alert: AlertEntry; acknowledged: boolean } | null> {
+  const existing = await storage.getAlert(id);
+  const sites = existing ? await storage.getSitesForUser(user) : [];
+  if (!existing || !sites.some((site) => site.id === existing.siteId)) {
+    return null;
+  }
+
+  const updated = await storage.acknowledgeAlert(id, user.id);
+  const [alert] = await toEntries([updated ?? existing], sites, user.role);
+  return { alert, acknowledged: !!updated };
+}
@@ -0,0 +1,73 @@
+import { storage } from "../storage";
+import type { AuthenticatedRequest } from "../auth";
+import type { AuditAction, AuditChanges, User } from "@shared/schema";
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt", "lastLogin", "failedLoginAttempts", "lastFailedLogin"]);
+// Recorded as changed, never with their values
+const MASKED_FIELDS = new Set(["password"]);
+const MASK = "********";
+
+export type AuditTarget = {
+  type: "user" | "site" | "cumulative" | "job";
+  id?: number;
+  label: string;
+};
+
+type AuditEventDetails = {
+  action: AuditAction;
+  // Defaults to the signed-in user; failed sign-ins only have a username
+  actor?: Pick<User, "id" | "username"> | { id: null; username: string };
+  target?: AuditTarget;
+  changes?: AuditChanges | null;
+};
+
+function comparable(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+}
+
+// The fields that differ between two versions of a record. Pass null for
+// the side that does not exist when a record is created or deleted.
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (comparable(previous) === comparable(next)) continue;
+
+    changes[field] = MASKED_FIELDS.has(field)
+      ? { before: previous === null ? null : MASK, after: next === null ? null : MASK }
+      : { before: previous, after: next };
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Behind the nginx proxy this relies on TRUST_PROXY (see index.ts)
+function clientIp(req: AuthenticatedRequest): string | null {
+  return req.ip ?? req.socket.remoteAddress ?? null;
+}
+
+// Never fails the request it belongs to; a lost entry is only logged.
+export async function recordAuditEvent(req: AuthenticatedRequest, details: AuditEventDetails): Promise<void> {
+  const actor = details.actor ?? req.user;
+  try {
+    await storage.createAuditEvent({
+      actorId: actor?.id ?? null,
+      actorName: actor?.username ?? "unknown",
+      action: details.action,
+      targetType: details.target?.type ?? null,
+      targetId: details.target?.id ?? null,
+      targetLabel: details.target?.label ?? null,
+      changes: details.changes ?? null,
+      ipAddress: clientIp(req),
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${details.action}:`, error);
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeDailyTotals,
+  computeFuelMovement,
+  computeOnHours,
+  detectRefuels,
+  findOfflineGaps,
+  type Sample,
+  type TimeWindow,
+} from "./cumulative-engine";
+
+const MINUTE_MS = 60 * 1000;
+
+const DAY: TimeWindow = {
+  start: new Date("2026-01-01T00:00:00Z"),
+  end: new Date("2026-01-02T00:00:00Z"),
+};
+
+// Minutes from the start of DAY; negative is the evening before
+function at(minutes: number): Date {
+  return new Date(DAY.start.getTime() + minutes * MINUTE_MS);
+}
+
+function series(points: Array<[number, number]>): Sample[] {
+  return points.map(([minutes, value]) => ({ time: at(minutes), value }));
+}
+
+const REFUEL_OPTIONS = { noiseLiters: 5, minLiters: 20, settleMs: 30 * MINUTE_MS };
+
+describe("computeFuelMovement", () => {
+  it("splits a drain with a refill in the middle", () => {
+    const volumes = series([[0, 1000], [60, 900], [120, 800], [180, 1200], [240, 1100]]);
+    expect(computeFuelMovement(volumes, 5)).toEqual({ consumed: 300, toppedUp: 400 });
+  });
+
+  it("ignores jitter within the noise tolerance", () => {
+    const volumes = series([[0, 1000], [10, 1003], [20, 998], [30, 1002], [40, 997]]);
+    expect(computeFuelMovement(volumes, 5)).toEqual({ consumed: 0, toppedUp: 0 });
+  });
+
+  it("counts slow consumption in full once it clears the tolerance", () => {
+    const volumes = series([[0, 1000], [10, 998], [20, 996], [30, 994], [40, 992]]);
+    expect(computeFuelMovement(volumes, 5)).toEqual({ consumed: 6, toppedUp: 0 });
+  });
+
+  it("returns nothing for an empty series", () => {
+    expect(computeFuelMovement([], 5)).toEqual({ consumed: 0, toppedUp: 0 });
+  });
+});
+
+describe("detectRefuels", () => {
+  it("finds a refill in the middle of a drain", () => {
+    const volumes = series([[0, 1000], [60, 900], [120, 800], [130, 1000], [140, 1200], [240, 1100]]);
+    const refuels = detectRefuels(volumes, REFUEL_OPTIONS);
+
+    expect(refuels).toHaveLength(1);
+    expect(refuels[0].start).toEqual({ time: at(120), value: 800 });
+    expect(refuels[0].end).toEqual({ time: at(140), value: 1200 });
+    expect(refuels[0].litersAdded).toBe(400);
+  });
+
+  it("keeps a delivery that pauses within the settle time as one fill", () => {
+    const volumes = series([[0, 500], [10, 700], [30, 700], [45, 900], [120, 900]]);
+    const refuels = detectRefuels(volumes, REFUEL_OPTIONS);
+
+    expect(refuels).toHaveLength(1);
+    expect(refuels[0].litersAdded).toBe(400);
+  });
+
+  it("splits rises further apart than the settle time", () => {
+    const volumes = series([[0, 500], [10, 700], [60, 700], [70, 900]]);
+    expect(detectRefuels(volumes, REFUEL_OPTIONS).map((refuel) => refuel.litersAdded)).toEqual([200, 200]);
+  });
+
+  it("ignores noise and rises below the minimum", () => {
+    const volumes = series([[0, 500], [10, 504], [20, 499], [30, 515], [90, 515]]);
+    expect(detectRefuels(volumes, REFUEL_OPTIONS)).toEqual([]);
+  });
+
+  it("closes a fill still rising at the end of the series", () => {
+    const volumes = series([[0, 500], [10, 600], [20, 700]]);
+    expect(detectRefuels(volumes, REFUEL_OPTIONS)).toEqual([
+      { start: { time: at(0), value: 500 }, end: { time: at(20), value: 700 }, litersAdded: 200 },
+    ]);
+  });
+});
+
+describe("findOfflineGaps", () => {
+  const gapMs = 30 * MINUTE_MS;
+  const everyHalfHour = Array.from({ length: 48 }, (_, index) => at(index * 30));
+
+  it("does not count a gap of exactly the threshold", () => {
+    expect(findOfflineGaps(everyHalfHour, DAY, gapMs)).toEqual([]);
+  });
+
+  it("counts a gap one minute over the threshold", () => {
+    const reports = everyHalfHour.map((time) => (time.getTime() === at(600).getTime() ? at(601) : time));
+
+    expect(findOfflineGaps(reports, DAY, gapMs)).toEqual([{ start: at(570), end: at(601) }]);
+  });
+
+  it("starts the day offline for a device that only reports later", () => {
+    const gaps = findOfflineGaps([at(360), at(1430)], DAY, gapMs);
+    expect(gaps).toEqual([
+      { start: at(0), end: at(360) },
+      { start: at(360), end: at(1430) },
+    ]);
+  });
+
+  it("measures the first gap from a report before the window", () => {
+    const reports = [at(-40), ...everyHalfHour.map((time) => new Date(time.getTime() + 20 * MINUTE_MS))];
+    expect(findOfflineGaps(reports, DAY, gapMs)).toEqual([{ start: at(0), end: at(20) }]);
+  });
+
+  it("treats a silent device as offline all day", () => {
+    expect(findOfflineGaps([], DAY, gapMs)).toEqual([{ start: DAY.start, end: DAY.end }]);
+  });
+});
+
+describe("computeOnHours", () => {
+  it("carries the state from before the window into the day", () => {
+    const states = series([[-120, 1], [120, 0]]);
+    expect(computeOnHours(states, DAY, [])).toBe(2);
+  });
+
+  it("runs the last state to the end of the window", () => {
+    const states = series([[0, 0], [1200, 1]]);
+    expect(computeOnHours(states, DAY, [])).toBe(4);
+  });
+
+  it("counts offline time as neither on nor off", () => {
+    const states = series([[0, 1], [600, 0]]);
+    expect(computeOnHours(states, DAY, [{ start: at(120), end: at(240) }])).toBe(8);
+  });
+});
+
+describe("computeDailyTotals", () => {
+  it("combines fuel, runtime and offline time for a day", () => {
+    const reportTimes = Array.from({ length: 48 }, (_, index) => at(index * 30))
+      .filter((time) => time < at(720) || time >= at(840));
+
+    const totals = computeDailyTotals(
+      {
+        fuelVolume: series([[-5, 1000], [300, 900], [600, 1300], [900, 1250]]),
+        generatorState: series([[-60, 1], [180, 0], [1080, 1]]),
+        zesaState: series([[-60, 0], [180, 1], [1080, 0]]),
+        reportTimes: [at(-5), ...reportTimes],
+      },
+      DAY,
+      { offlineGapMs: 30 * MINUTE_MS, fuelNoiseLiters: 5 },
+    );
+
+    expect(totals.fuelConsumed).toBe(150);
+    expect(totals.fuelToppedUp).toBe(400);
+    expect(totals.generatorHours).toBe(3 + 6);
+    // 15 hours on, less the offline stretch from 11:30 to 14:00 inside them
+    expect(totals.zesaHours).toBe(15 - 2.5);
+    expect(totals.offlineHours).toBe(2.5);
+  });
+});
@@ -0,0 +1,277 @@
+// Pure calculations behind the daily cumulative readings. Nothing here touches
+// the database: callers pass in already-sorted samples and a time window, so
+// each function can be exercised directly with synthetic series.
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export type Sample = {
+  time: Date;
+  value: number;
+};
+
+export type TimeWindow = {
+  start: Date;
+  end: Date;
+};
+
+export type EngineOptions = {
+  // A silence longer than this between two device reports is offline time.
+  offlineGapMs: number;
+  // Volume changes up to this size are treated as sensor jitter.
+  fuelNoiseLiters: number;
+};
+
+export type DeviceSeries = {
+  // Each series may start with the last sample from before the window, which
+  // supplies the fuel reference and the state the day opened with.
+  fuelVolume: Sample[];
+  generatorState: Sample[];
+  zesaState: Sample[];
+  // Every report time from the device, whatever the sensor, in order.
+  reportTimes: Date[];
+};
+
+export type DailyTotals = {
+  fuelConsumed: number;
+  fuelToppedUp: number;
+  generatorHours: number;
+  zesaHours: number;
+  offlineHours: number;
+};
+
+function overlapMs(from: number, to: number, window: TimeWindow): number {
+  return Math.max(0, Math.min(to, window.end.getTime()) - Math.max(from, window.start.getTime()));
+}
+
+// Splits volume movement into consumption and refills. The running reference
+// only moves once the volume has shifted by more than the noise tolerance, so
+// jitter around a level never counts, while slow consumption still adds up in
+// full once it clears the tolerance.
+export function computeFuelMovement(
+  volumes: Sample[],
+  noiseLiters: number,
+): { consumed: number; toppedUp: number } {
+  let consumed = 0;
+  let toppedUp = 0;
+  if (volumes.length === 0) {
+    return { consumed, toppedUp };
+  }
+
+  let reference = volumes[0].value;
+  for (let i = 1; i < volumes.length; i++) {
+    const delta = volumes[i].value - reference;
+    if (Math.abs(delta) <= noiseLiters) continue;
+
+    if (delta < 0) {
+      consumed -= delta;
+    } else {
+      toppedUp += delta;
+    }
+    reference = volumes[i].value;
+  }
+
+  return { consumed, toppedUp };
+}
+
+export type RefuelOptions = {
+  noiseLiters: number;
+  // Rises smaller than this in total are not reported as refuels.
+  minLiters: number;
+  // A fill that has not risen for this long is considered finished.
+  settleMs: number;
+};
+
+export type DetectedRefuel = {
+  start: Sample; // last sample before the rise
+  end: Sample; // sample at the peak
+  litersAdded: number;
+};
+
+// Finds tank fills in a volume series. A fill starts with a rise above the
+// noise tolerance and keeps going while further rises arrive within settleMs,
+// so a delivery that pauses between compartments is still one event. It ends
+// at the peak once the volume stops rising or starts falling again.
+export function detectRefuels(volumes: Sample[], options: RefuelOptions): DetectedRefuel[] {
+  const refuels: DetectedRefuel[] = [];
+  if (volumes.length === 0) {
+    return refuels;
+  }
+
+  let base = volumes[0];
+  let peak: Sample | null = null;
+
+  const closeRefuel = (fill: Sample) => {
+    const litersAdded = fill.value - base.value;
+    if (litersAdded >= options.minLiters) {
+      refuels.push({ start: base, end: fill, litersAdded });
+    }
+    peak = null;
+  };
+
+  for (let i = 1; i < volumes.length; i++) {
+    const sample = volumes[i];
+
+    if (peak) {
+      if (sample.value - peak.value > options.noiseLiters) {
+        peak = sample;
+        continue;
+      }
+      const settled = sample.time.getTime() - peak.time.getTime() > options.settleMs;
+      const falling = peak.value - sample.value > options.noiseLiters;
+      if (!settled && !falling) {
+        continue;
+      }
+      closeRefuel(peak);
+      base = sample;
+      continue;
+    }
+
+    if (sample.value - base.value > options.noiseLiters) {
+      peak = sample;
+    } else {
+      base = sample;
+    }
+  }
+
+  if (peak) {
+    closeRefuel(peak);
+  }
+  return refuels;
+}
+
+export type DetectedDrop = {
+  start: Sample; // highest reading before the drop
+  end: Sample; // lowest reading of the drop
+  litersLost: number;
+};
+
+// Periods in which the last generator_state sample said "off". The final
+// period runs to `until`.
+function generatorOffPeriods(generatorStates: Sample[], until: Date): TimeWindow[] {
+  const periods: TimeWindow[] = [];
+  for (let i = 0; i < generatorStates.length; i++) {
+    if (generatorStates[i].value > 0) continue;
+
+    const end = i + 1 < generatorStates.length ? generatorStates[i + 1].time : until;
+    const previous = periods[periods.length - 1];
+    if (previous && previous.end.getTime() === generatorStates[i].time.getTime()) {
+      previous.end = end;
+    } else {
+      periods.push({ start: generatorStates[i].time, end });
+    }
+  }
+  return periods;
+}
+
+// With the generator off nothing should be burning fuel, so any fall in
+// volume beyond the tolerance is unexplained. Reports the largest fall (peak
+// to trough, so a refill in between starts a new peak) of each off period.
+// Sites without a generator_state sensor are never flagged.
+export function detectUnexplainedDrops(
+  volumes: Sample[],
+  generatorStates: Sample[],
+  toleranceLiters: number,
+): DetectedDrop[] {
+  const drops: DetectedDrop[] = [];
+  if (volumes.length === 0) {
+    return drops;
+  }
+
+  const until = volumes[volumes.length - 1].time;
+  for (const period of generatorOffPeriods(generatorStates, until)) {
+    // Start from the last reading taken before the generator went off
+    const firstIndex = volumes.findIndex((sample) => sample.time >= period.start);
+    if (firstIndex === -1) continue;
+    const samples = volumes
+      .slice(Math.max(0, firstIndex - 1))
+      .filter((sample, index) => index === 0 || sample.time <= period.end);
+
+    let peak = samples[0];
+    let largest: DetectedDrop | null = null;
+    for (const sample of samples) {
+      if (sample.value > peak.value) {
+        peak = sample;
+        continue;
+      }
+      const litersLost = peak.value - sample.value;
+      if (litersLost > toleranceLiters && (!largest || litersLost > largest.litersLost)) {
+        largest = { start: peak, end: sample, litersLost };
+      }
+    }
+
+    if (largest) {
+      drops.push(largest);
+    }
+  }
+  return drops;
+}
+
+// Stretches within the window covered by gaps longer than gapMs between
+// consecutive reports. The window start counts as a report time when the
+// device has nothing earlier, so a device that only wakes up at 06:00 was
+// offline from midnight.
+export function findOfflineGaps(
+  reportTimes: Date[],
+  window: TimeWindow,
+  gapMs: number,
+): TimeWindow[] {
+  const points = reportTimes.map((time) => time.getTime());
+  if (points.length === 0 || points[0] > window.start.getTime()) {
+    points.unshift(window.start.getTime());
+  }
+  points.push(window.end.getTime());
+
+  const gaps: TimeWindow[] = [];
+  for (let i = 0; i + 1 < points.length; i++) {
+    if (points[i + 1] - points[i] > gapMs && overlapMs(points[i], points[i + 1], window) > 0) {
+      gaps.push({
+        start: new Date(Math.max(points[i], window.start.getTime())),
+        end: new Date(Math.min(points[i + 1], window.end.getTime())),
+      });
+    }
+  }
+  return gaps;
+}
+
+export function computeOfflineHours(gaps: TimeWindow[]): number {
+  return gaps.reduce((sum, gap) => sum + (gap.end.getTime() - gap.start.getTime()), 0) / MS_PER_HOUR;
+}
+
+// Hours within the window during which a state sensor reported "on". Each
+// sample holds until the next one, except while the device was offline: its
+// state is unknown then, so that time counts as neither on nor off.
+export function computeOnHours(
+  states: Sample[],
+  window: TimeWindow,
+  offlineGaps: TimeWindow[],
+): number {
+  let onMs = 0;
+  for (let i = 0; i < states.length; i++) {
+    if (states[i].value <= 0) continue;
+
+    const from = states[i].time.getTime();
+    const to = i + 1 < states.length ? states[i + 1].time.getTime() : window.end.getTime();
+    onMs += overlapMs(from, to, window);
+    for (const gap of offlineGaps) {
+      onMs -= overlapMs(Math.max(from, gap.start.getTime()), Math.min(to, gap.end.getTime()), window);
+    }
+  }
+  return onMs / MS_PER_HOUR;
+}
+
+export function computeDailyTotals(
+  series: DeviceSeries,
+  window: TimeWindow,
+  options: EngineOptions,
+): DailyTotals {
+  const { consumed, toppedUp } = computeFuelMovement(series.fuelVolume, options.fuelNoiseLiters);
+  const offlineGaps = findOfflineGaps(series.reportTimes, window, options.offlineGapMs);
+
+  return {
+    fuelConsumed: consumed,
+    fuelToppedUp: toppedUp,
+    generatorHours: computeOnHours(series.generatorState, window, offlineGaps),
+    zesaHours: computeOnHours(series.zesaState, window, offlineGaps),
+    offlineHours: computeOfflineHours(offlineGaps),
+  };
+}
@@ -0,0 +1,245 @@
+import { storage, type LatestSensorValue } from "../storage";
+import { isStateOn, latestTime } from "./dashboard";
+import { computeDailyTotals, type DeviceSeries, type Sample, type TimeWindow } from "./cumulative-engine";
+import { recordRefuelEvents } from "./refuels";
+import { recordFuelIncidents } from "./incidents";
+import { getTankProfiles, levelToVolume, usesLevelForVolume, type TankProfile } from "./tank-volume";
+import { getSettings } from "./settings";
+import {
+  SENSOR_NAMES,
+  type CumulativeReading,
+  type CumulativeResponse,
+  type CumulativeSiteSummary,
+  type InsertCumulativeReading,
+  type ProcessCumulativeResponse,
+  type SensorReading,
+  type Site,
+  type User,
+} from "@shared/schema";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// Gaps between device reports longer than this count as offline time.
+const OFFLINE_GAP_MINUTES = parseInt(process.env.CUMULATIVE_OFFLINE_GAP_MINUTES || "30", 10);
+// Volume changes at or below this are treated as sensor noise.
+const FUEL_NOISE_LITERS = parseFloat(process.env.FUEL_NOISE_LITERS || "5");
+// How far before midnight to look for the values a day opens with.
+const CARRY_OVER_MS = MS_PER_DAY;
+
+// Days run from midnight to midnight in the timezone from the general
+// settings, which also decides what "today" is.
+export function wallClock(time: Date): { date: string; utcMs: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: getSettings().general.timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }).formatToParts(time).map((part) => [part.type, part.value]),
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return { date, utcMs: Date.parse(`${date}T${parts.hour}:${parts.minute}:${parts.second}.000Z`) };
+}
+
+// The instant the clock in the configured timezone shows minutesAfterMidnight on date
+export function zonedTime(date: string, minutesAfterMidnight = 0): Date {
+  const wall = Date.parse(`${date}T00:00:00.000Z`) + minutesAfterMidnight * 60 * 1000;
+  const offsetAt = (time: number) => wallClock(new Date(time)).utcMs - Math.floor(time / 1000) * 1000;
+  // A second pass settles times next to a daylight saving change
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+export function todayDateString(): string {
+  return wallClock(new Date()).date;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings
+export function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+export function dayBounds(date: string): { start: Date; end: Date } {
+  return { start: zonedTime(date), end: zonedTime(shiftDate(date, 1)) };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toSamples(
+  readings: SensorReading[],
+  previous: LatestSensorValue | undefined,
+  toValue: (raw: string) => number,
+): Sample[] {
+  const samples = readings.map((reading) => ({ time: reading.time, value: toValue(reading.value) }));
+  if (previous) {
+    samples.unshift({ time: previous.time, value: toValue(previous.value) });
+  }
+  return samples.filter((sample) => !isNaN(sample.value));
+}
+
+function buildDeviceSeries(
+  site: Site,
+  readings: SensorReading[],
+  previous: Map<string, LatestSensorValue> | undefined,
+  profile: TankProfile,
+): DeviceSeries {
+  const bySensor = (name: string) => readings.filter((reading) => reading.sensorName === name);
+  const stateValue = (raw: string) => (isStateOn(raw) ? 1 : 0);
+  const levelSamples = (toLiters: (level: number) => number) =>
+    toSamples(bySensor(SENSOR_NAMES.fuelLevel), previous?.get(SENSOR_NAMES.fuelLevel), (raw) => toLiters(parseFloat(raw)));
+
+  // Tanks with a geometry get liters from the level; otherwise the device's
+  // volume sensor is used, and older devices that only report a level
+  // percentage are scaled by capacity.
+  const capacity = parseFloat(site.fuelCapacity) || 0;
+  const hasLevel = bySensor(SENSOR_NAMES.fuelLevel).length > 0;
+  const hasVolume = bySensor(SENSOR_NAMES.fuelVolume).length > 0;
+  let fuelVolume: Sample[];
+  if (hasLevel && usesLevelForVolume(profile)) {
+    fuelVolume = levelSamples((level) => levelToVolume(profile, level) ?? NaN);
+  } else if (hasVolume) {
+    fuelVolume = toSamples(bySensor(SENSOR_NAMES.fuelVolume), previous?.get(SENSOR_NAMES.fuelVolume), parseFloat);
+  } else {
+    fuelVolume = levelSamples((level) => (level / 100) * capacity);
+  }
+
+  const reportTimes = readings.map((reading) => reading.time);
+  const lastBefore = latestTime(previous);
+  if (lastBefore) {
+    reportTimes.unshift(lastBefore);
+  }
+
+  return {
+    fuelVolume,
+    generatorState: toSamples(bySensor(SENSOR_NAMES.generatorState), previous?.get(SENSOR_NAMES.generatorState), stateValue),
+    zesaState: toSamples(bySensor(SENSOR_NAMES.zesaState), previous?.get(SENSOR_NAMES.zesaState), stateValue),
+    reportTimes,
+  };
+}
+
+// Today's row only covers the part of the day that has happened so far.
+function dayWindow(date: string): TimeWindow {
+  const { start, end } = dayBounds(date);
+  return { start, end: end.getTime() < Date.now() ? end : new Date() };
+}
+
+function calculateDay(
+  site: Site,
+  series: DeviceSeries,
+  window: TimeWindow,
+  date: string,
+): InsertCumulativeReading {
+  const totals = computeDailyTotals(series, window, {
+    offlineGapMs: OFFLINE_GAP_MINUTES * 60 * 1000,
+    fuelNoiseLiters: FUEL_NOISE_LITERS,
+  });
+  const capacity = parseFloat(site.fuelCapacity) || 0;
+
+  return {
+    siteId: site.id,
+    deviceId: site.deviceId,
+    date,
+    totalFuelConsumed: round2(totals.fuelConsumed).toFixed(2),
+    totalFuelToppedup: round2(totals.fuelToppedUp).toFixed(2),
+    fuelConsumedPercent: capacity > 0 ? round2((totals.fuelConsumed / capacity) * 100).toFixed(2) : "0",
+    fuelToppedupPercent: capacity > 0 ? round2((totals.fuelToppedUp / capacity) * 100).toFixed(2) : "0",
+    totalGeneratorRuntime: round2(totals.generatorHours).toFixed(2),
+    totalZesaRuntime: round2(totals.zesaHours).toFixed(2),
+    totalOfflineTime: round2(totals.offlineHours).toFixed(2),
+  };
+}
+
+export async function processCumulativeReadings(date: string): Promise<ProcessCumulativeResponse> {
+  const { start, end } = dayBounds(date);
+  const window = dayWindow(date);
+  const sites = await storage.getActiveSites();
+  const previousValues = await storage.getLatestSensorValues(
+    sites.map((site) => site.deviceId),
+    { from: new Date(start.getTime() - CARRY_OVER_MS), to: start },
+  );
+  const profiles = await getTankProfiles(sites);
+
+  const readings: CumulativeReading[] = [];
+  let skippedSites = 0;
+
+  for (const site of sites) {
+    const sensorData = await storage.getSensorReadings(site.deviceId, start, end);
+    if (sensorData.length === 0) {
+      skippedSites++;
+      continue;
+    }
+    const series = buildDeviceSeries(site, sensorData, previousValues.get(site.deviceId), profiles.get(site.id)!);
+    readings.push(await storage.saveCumulativeReading(calculateDay(site, series, window, date)));
+    await recordRefuelEvents(site, series.fuelVolume, window, FUEL_NOISE_LITERS);
+    await recordFuelIncidents(site, series.fuelVolume, series.generatorState, window);
+  }
+
+  return {
+    date,
+    readings,
+    summary: {
+      processedSites: readings.length,
+      skippedSites,
+    },
+  };
+}
+
+function countDays(startDate: string, endDate: string): number {
+  const diff = dayBounds(endDate).start.getTime() - dayBounds(startDate).start.getTime();
+  return Math.max(1, Math.round(diff / MS_PER_DAY) + 1);
+}
+
+export async function getCumulativeSummary(
+  user: Pick<User, "id" | "role">,
+  startDate: string,
+  endDate: string,
+): Promise<CumulativeResponse> {
+  const sites = await storage.getSitesForUser(user);
+  const readings = await storage.getCumulativeReadings(sites.map((site) => site.id), startDate, endDate);
+
+  const summaries: CumulativeSiteSummary[] = [];
+  for (const site of sites) {
+    const siteReadings = readings.filter((reading) => reading.siteId === site.id);
+    if (siteReadings.length === 0) continue;
+
+    summaries.push({
+      siteId: site.id,
+      siteName: site.name,
+      deviceId: site.deviceId,
+      totalFuelConsumed: round2(siteReadings.reduce((sum, r) => sum + parseFloat(r.totalFuelConsumed ?? "0"), 0)),
+      totalGeneratorHours: round2(siteReadings.reduce((sum, r) => sum + parseFloat(r.totalGeneratorRuntime ?? "0"), 0)),
+      totalZesaHours: round2(siteReadings.reduce((sum, r) => sum + parseFloat(r.totalZesaRuntime ?? "0"), 0)),
+      readingDays: siteReadings.length,
+      dateRange: {
+        first: siteReadings[0].date,
+        last: siteReadings[siteReadings.length - 1].date,
+      },
+    });
+  }
+
+  const totalFuelConsumed = round2(summaries.reduce((sum, s) => sum + s.totalFuelConsumed, 0));
+
+  return {
+    sites: summaries,
+    summary: {
+      dateRange: {
+        start: startDate,
+        end: endDate,
+        isRange: startDate !== endDate,
+      },
+      totalSites: summaries.length,
+      totalFuelConsumed,
+      totalGeneratorHours: round2(summaries.reduce((sum, s) => sum + s.totalGeneratorHours, 0)),
+      totalZesaHours: round2(summaries.reduce((sum, s) => sum + s.totalZesaHours, 0)),
+      averageFuelPerSite: summaries.length > 0 ? round2(totalFuelConsumed / summaries.length) : 0,
+      daysIncluded: countDays(startDate, endDate),
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { storage, type LatestSensorValue } from "../storage";
+import { getActiveIncidents } from "./incidents";
+import { getTankProfiles, levelToVolume, type TankProfile } from "./tank-volume";
+import {
+  ALERT_TYPES,
+  ALERT_TYPE_LABELS,
+  SENSOR_NAMES,
+  alertForRole,
+  isLowOnFuel,
+  type Alert,
+  type DailyClosingReading,
+  type DashboardData,
+  type FuelIncident,
+  type Site,
+  type SiteWithReadings,
+  type User,
+  type ViewModeResponse,
+} from "@shared/schema";
+
+export type ViewMode = "closing" | "realtime";
+
+// A device that has not reported anything for this long is shown as offline.
+const SITE_OFFLINE_MINUTES = parseInt(process.env.SITE_OFFLINE_MINUTES || "60", 10);
+const RECENT_ACTIVITY_LIMIT = 10;
+
+// generator_state / zesa_state arrive as numeric sensor values (1 = on).
+export function isStateOn(value: string | null | undefined): boolean {
+  if (value === null || value === undefined) return false;
+  if (value === "on") return true;
+  const numeric = parseFloat(value);
+  return !isNaN(numeric) && numeric > 0;
+}
+
+export function toStateLabel(value: string | null | undefined): "on" | "off" | null {
+  if (value === null || value === undefined) return null;
+  return isStateOn(value) ? "on" : "off";
+}
+
+// Shapes the latest raw sensor values of a device like a closing reading so
+// both view modes render through the same SiteCard fields. Where the tank has
+// a geometry the volume comes from the level; the sensor's own volume is kept
+// alongside for comparison.
+export function buildRealtimeReading(
+  site: Site,
+  values: Map<string, LatestSensorValue> | undefined,
+  profile: TankProfile,
+): DailyClosingReading | undefined {
+  const capturedAtFallback = latestTime(values);
+  if (!values || !capturedAtFallback) {
+    return undefined;
+  }
+
+  const level = values.get(SENSOR_NAMES.fuelLevel);
+  const volume = values.get(SENSOR_NAMES.fuelVolume);
+  const temperature = values.get(SENSOR_NAMES.fuelTemperature) ?? values.get(SENSOR_NAMES.fuelTemp);
+  const generator = values.get(SENSOR_NAMES.generatorState);
+  const zesa = values.get(SENSOR_NAMES.zesaState);
+
+  const fuelReading = level ?? volume;
+  const capturedAt = fuelReading?.time ?? capturedAtFallback;
+  const calculatedVolume = level ? levelToVolume(profile, parseFloat(level.value)) : null;
+
+  return {
+    id: 0,
+    siteId: site.id,
+    deviceId: site.deviceId,
+    fuelLevel: level?.value ?? null,
+    fuelVolume: calculatedVolume !== null ? calculatedVolume.toFixed(2) : volume?.value ?? null,
+    temperature: temperature?.value ?? null,
+    generatorState: toStateLabel(generator?.value),
+    zesaState: toStateLabel(zesa?.value),
+    sensorFuelVolume: volume?.value ?? null,
+    capturedAt,
+    date: null,
+    createdAt: capturedAt,
+  };
+}
+
+export function latestTime(values: Map<string, LatestSensorValue> | undefined): Date | undefined {
+  if (!values) return undefined;
+  let latest: Date | undefined;
+  values.forEach((entry) => {
+    if (!latest || entry.time > latest) {
+      latest = entry.time;
+    }
+  });
+  return latest;
+}
+
+// Open and acknowledged alerts per site.
+export async function getActiveAlerts(siteIds: number[]): Promise<Map<number, Alert[]>> {
+  const bySite = new Map<number, Alert[]>();
+  for (const alert of await storage.getUnresolvedAlerts(siteIds)) {
+    bySite.set(alert.siteId, [...(bySite.get(alert.siteId) ?? []), alert]);
+  }
+  return bySite;
+}
+
+export function buildSiteWithReadings(
+  site: Site,
+  reading: DailyClosingReading | undefined,
+  lastSeen: Date | undefined,
+  incident: FuelIncident | undefined,
+  activeAlerts: Alert[],
+  now: Date,
+): SiteWithReadings {
+  const fuelLevelPercentage = reading?.fuelLevel ? parseFloat(reading.fuelLevel) : 0;
+  const generatorOnline = isStateOn(reading?.generatorState);
+  const zesaOnline = isStateOn(reading?.zesaState);
+  const icingaOnline = !!lastSeen && now.getTime() - lastSeen.getTime() <= SITE_OFFLINE_MINUTES * 60 * 1000;
+
+  // A suspected theft outranks the alerts: it needs someone on site.
+  // Otherwise the site shows its most pressing unresolved alert.
+  let alertStatus: SiteWithReadings["alertStatus"] = "normal";
+  if (incident) {
+    alertStatus = "suspected_theft";
+  } else {
+    alertStatus = ALERT_TYPES.find((type) => activeAlerts.some((alert) => alert.type === type)) ?? "normal";
+  }
+
+  return {
+    ...site,
+    latestReading: reading,
+    generatorOnline,
+    zesaOnline,
+    fuelLevelPercentage,
+    alertStatus,
+    icingaOnline,
+    activeIncident: incident,
+    activeAlerts,
+  };
+}
+
+function describeStatus(site: SiteWithReadings): string {
+  switch (site.alertStatus) {
+    case "normal":
+      return "Normal";
+    case "suspected_theft":
+      return "Suspected Theft";
+    default:
+      return ALERT_TYPE_LABELS[site.alertStatus];
+  }
+}
+
+// The view an admin last saved; everyone else only gets closing readings
+export async function getSavedViewMode(user: Pick<User, "id" | "role">): Promise<ViewModeResponse> {
+  const preference = user.role === "admin" ? await storage.getAdminPreference(user.id) : undefined;
+  return {
+    viewMode: preference?.viewMode === "realtime" ? "realtime" : "closing",
+    updatedAt: preference?.updatedAt ?? null,
+  };
+}
+
+export async function getDashboardData(
+  user: Pick<User, "id" | "role">,
+  mode: ViewMode,
+): Promise<DashboardData> {
+  const sites = await storage.getSitesForUser(user);
+  const deviceIds = sites.map((site) => site.deviceId);
+
+  const latestValues = await storage.getLatestSensorValues(deviceIds);
+  const incidents = await getActiveIncidents(sites.map((site) => site.id));
+  const activeAlerts = await getActiveAlerts(sites.map((site) => site.id));
+  const closingReadings = mode === "closing"
+    ? await storage.getLatestClosingReadings(sites.map((site) => site.id))
+    : undefined;
+  const profiles = closingReadings ? undefined : await getTankProfiles(sites);
+
+  const now = new Date();
+  const sitesWithReadings = sites.map((site) => {
+    const deviceValues = latestValues.get(site.deviceId);
+    const reading = profiles
+      ? buildRealtimeReading(site, deviceValues, profiles.get(site.id)!)
+      : closingReadings?.get(site.id);
+    return buildSiteWithReadings(
+      site,
+      reading,
+      latestTime(deviceValues),
+      incidents.get(site.id),
+      (activeAlerts.get(site.id) ?? []).map((alert) => alertForRole(alert, user.role)),
+      now,
+    );
+  });
+
+  const sitesOnline = sitesWithReadings.filter((site) => site.icingaOnline).length;
+
+  const recentActivity = sitesWithReadings
+    .filter((site) => site.latestReading)
+    .sort((a, b) => b.latestReading!.capturedAt.getTime() - a.latestReading!.capturedAt.getTime())
+    .slice(0, RECENT_ACTIVITY_LIMIT)
+    .map((site) => ({
+      id: site.id,
+      siteId: site.id,
+      siteName: site.name,
+      event: mode === "realtime" ? "Live reading" : "Daily closing reading",
+      value: `${site.fuelLevelPercentage.toFixed(1)}%`,
+      timestamp: site.latestReading!.capturedAt,
+      status: describeStatus(site),
+    }));
+
+  return {
+    sites: sitesWithReadings,
+    systemStatus: {
+      sitesOnline,
+      totalSites: sitesWithReadings.length,
+      lowFuelAlerts: sitesWithReadings.filter(isLowOnFuel).length,
+      generatorsRunning: sitesWithReadings.filter((site) => site.generatorOnline).length,
+      zesaRunning: sitesWithReadings.filter((site) => site.zesaOnline).length,
+      offlineSites: sitesWithReadings.length - sitesOnline,
+    },
+    recentActivity,
+  };
+}
@@ -0,0 +1,73 @@
+// Thins long time series down to something a browser can draw. Pure functions
+// over already-sorted samples, like the cumulative engine.
+import type { Sample } from "./cumulative-engine";
+
+function triangleArea(a: Sample, b: Sample, c: Sample): number {
+  const ax = a.time.getTime();
+  const bx = b.time.getTime();
+  const cx = c.time.getTime();
+  return Math.abs((ax - cx) * (b.value - a.value) - (ax - bx) * (c.value - a.value)) / 2;
+}
+
+// Largest-Triangle-Three-Buckets: keeps the first and last sample and, from
+// each bucket in between, the one that forms the largest triangle with the
+// previous pick and the average of the next bucket. Peaks and troughs such as
+// refills and drops survive, unlike with plain averaging.
+export function lttb(samples: Sample[], threshold: number): Sample[] {
+  if (threshold < 3 || samples.length <= threshold) {
+    return samples;
+  }
+
+  const picked: Sample[] = [samples[0]];
+  const bucketSize = (samples.length - 2) / (threshold - 2);
+  let previous = samples[0];
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Average of the following bucket (the last sample for the final one)
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, samples.length);
+    let avgTime = 0;
+    let avgValue = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgTime += samples[i].time.getTime();
+      avgValue += samples[i].value;
+    }
+    const nextCount = Math.max(1, nextEnd - nextStart);
+    const average: Sample = { time: new Date(avgTime / nextCount), value: avgValue / nextCount };
+
+    let best = samples[start];
+    let bestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = triangleArea(previous, samples[i], average);
+      if (area > bestArea) {
+        bestArea = area;
+        best = samples[i];
+      }
+    }
+
+    picked.push(best);
+    previous = best;
+  }
+
+  picked.push(samples[samples.length - 1]);
+  return picked;
+}
+
+// On/off series only need the samples where the state changes, plus the last
+// one so the final state reaches the end of the data.
+export function compressStates(samples: Sample[]): Sample[] {
+  const changes = samples.filter((sample, index) => index === 0 || sample.value !== samples[index - 1].value);
+  const last = samples[samples.length - 1];
+  if (last && changes[changes.length - 1] !== last) {
+    changes.push(last);
+  }
+  return changes;
+}
+
+// State series drop repeats first; what is left goes through LTTB either way.
+export function downsample(samples: Sample[], threshold: number, isState: boolean): Sample[] {
+  return lttb(isState ? compressStates(samples) : samples, threshold);
+}
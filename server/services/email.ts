@@ -0,0 +1,342 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "../storage";
+import type { EscalationRecipient } from "./escalation";
+import { getSettings } from "./settings";
+import {
+  ALERT_TYPE_LABELS,
+  ESCALATION_TARGET_LABELS,
+  alertForRole,
+  type Alert,
+  type AlertType,
+  type EmailEvent,
+  type EmailLogEntry,
+  type EmailSettingsResponse,
+  type EscalationTarget,
+  type InsertEmailLogEntry,
+  type Site,
+  type User,
+} from "@shared/schema";
+
+// Email is off unless SMTP_HOST is set. For local testing point it at a mail
+// catcher such as Mailpit (see docker-compose.dev.yml).
+const SMTP_HOST = process.env.SMTP_HOST || "";
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || "587", 10);
+const SMTP_SECURE = process.env.SMTP_SECURE === "true";
+const SMTP_USERNAME = process.env.SMTP_USERNAME || "";
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD || "";
+const EMAIL_FROM = process.env.EMAIL_FROM || "Fuel Monitor <alerts@localhost>";
+// The portal's address (notification settings) adds a link to the Alerts page
+// to each message. Password reset links need it too, so resets are off without it.
+
+// A failed send is retried after 1, 2, 4, ... minutes until it has been tried
+// emailMaxAttempts times (notification settings), then left in the log as failed.
+const RETRY_BASE_MS = 60 * 1000;
+const QUEUE_INTERVAL_MS = 30 * 1000;
+const QUEUE_BATCH_SIZE = 50;
+// How long an instance has to send the emails it claimed before another
+// instance may take them over
+const CLAIM_MS = 15 * 60 * 1000;
+
+type TemplateValues = Record<string, string>;
+
+// {{name}} placeholders are filled from TemplateValues.
+const TEMPLATES: Record<EmailEvent, { subject: string; body: string }> = {
+  alert_opened: {
+    subject: "[{{severity}}] {{alertType}} at {{siteName}}",
+    body: [
+      "An alert was raised at {{siteName}} ({{siteLocation}}).",
+      "",
+      "{{message}}",
+      "",
+      "Severity: {{severity}}",
+      "Opened: {{openedAt}}",
+      "{{alertsLink}}",
+      "You receive this email because alert emails are turned on for your account.",
+    ].join("\n"),
+  },
+  alert_resolved: {
+    subject: "Resolved: {{alertType}} at {{siteName}}",
+    body: [
+      "The {{alertType}} alert at {{siteName}} ({{siteLocation}}) has cleared.",
+      "",
+      "Raised for: {{message}}",
+      "",
+      "Opened: {{openedAt}}",
+      "Resolved: {{resolvedAt}}",
+      "{{alertsLink}}",
+      "You receive this email because alert emails are turned on for your account.",
+    ].join("\n"),
+  },
+  alert_escalated: {
+    subject: "[Escalation {{level}}] {{alertType}} at {{siteName}} not acknowledged",
+    body: [
+      "The {{alertType}} alert at {{siteName}} ({{siteLocation}}) has not been acknowledged for {{waiting}}.",
+      "",
+      "{{message}}",
+      "",
+      "Severity: {{severity}}",
+      "Opened: {{openedAt}}",
+      "{{alertsLink}}",
+      "You are notified as {{role}} at escalation step {{level}}. Acknowledging the alert stops further escalation.",
+    ].join("\n"),
+  },
+  password_reset: {
+    subject: "Reset your Fuel Monitor password",
+    body: [
+      "Hello {{fullName}},",
+      "",
+      "A password reset was requested for the {{username}} account. Open this link within {{expiresIn}} to choose a new password:",
+      "",
+      "{{resetLink}}",
+      "",
+      "The link works once. If you did not ask for a reset you can ignore this email; your password stays as it is.",
+    ].join("\n"),
+  },
+  test: {
+    subject: "Fuel Monitor test email",
+    body: [
+      "This is a test email sent by {{requestedBy}} from the System Configuration page.",
+      "",
+      "If you can read this, alert emails will reach {{recipient}}.",
+    ].join("\n"),
+  },
+};
+
+let transporter: Transporter | null = null;
+let queueTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+function render(template: string, values: TemplateValues): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => values[key] ?? "");
+}
+
+// YYYY-MM-DD HH:MM in the timezone from the general settings
+function formatTime(value: Date | null): string {
+  if (!value) {
+    return "";
+  }
+  const { timezone } = getSettings().general;
+  const formatted = new Intl.DateTimeFormat("sv-SE", { timeZone: timezone, dateStyle: "short", timeStyle: "short" }).format(value);
+  return `${formatted} ${timezone}`;
+}
+
+function portalUrl(): string {
+  return getSettings().notifications.portalUrl;
+}
+
+function buildEmail(event: EmailEvent, values: TemplateValues): Pick<InsertEmailLogEntry, "event" | "subject" | "body"> {
+  const template = TEMPLATES[event];
+  return { event, subject: render(template.subject, values), body: render(template.body, values) };
+}
+
+function alertValues(alert: Alert, site: Site): TemplateValues {
+  return {
+    alertType: ALERT_TYPE_LABELS[alert.type as AlertType] ?? alert.type,
+    severity: alert.severity.charAt(0).toUpperCase() + alert.severity.slice(1),
+    siteName: site.name,
+    siteLocation: site.location,
+    message: alert.message,
+    openedAt: formatTime(alert.openedAt),
+    resolvedAt: formatTime(alert.resolvedAt),
+    alertsLink: portalUrl() ? `\nView alerts: ${portalUrl()}/alerts?siteId=${site.id}\n` : "",
+  };
+}
+
+export function isEmailEnabled(): boolean {
+  return transporter !== null;
+}
+
+export async function getEmailSettings(): Promise<EmailSettingsResponse> {
+  const users = await storage.getUsers();
+  return {
+    enabled: isEmailEnabled(),
+    host: SMTP_HOST || null,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    from: EMAIL_FROM,
+    maxAttempts: getSettings().notifications.emailMaxAttempts,
+    subscribers: users
+      .filter((user) => user.isActive)
+      .map(({ id, fullName, email, role, emailAlerts }) => ({ id, fullName, email, role, emailAlerts })),
+  };
+}
+
+// One attempt at sending a logged email, recording the outcome on its row.
+// `unloggedBody` is sent in place of a log copy that had secrets left out;
+// such an email cannot be retried from the log.
+async function deliver(email: EmailLogEntry, unloggedBody?: string): Promise<EmailLogEntry> {
+  const attempts = email.attempts + 1;
+  try {
+    await transporter!.sendMail({
+      from: EMAIL_FROM,
+      to: email.recipient,
+      subject: email.subject,
+      text: unloggedBody ?? email.body,
+    });
+    return (await storage.updateEmail(email.id, { status: "sent", attempts, sentAt: new Date(), lastError: null }))!;
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const exhausted = unloggedBody !== undefined || attempts >= getSettings().notifications.emailMaxAttempts;
+    if (exhausted) {
+      console.error(`Giving up on email ${email.id} to ${email.recipient} after ${attempts} attempts: ${lastError}`);
+    }
+    return (await storage.updateEmail(email.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+    }))!;
+  }
+}
+
+// Sends whatever is due, oldest first. Runs on a timer and straight after
+// new emails are queued; overlapping runs are skipped, and other instances
+// skip the emails this one has claimed.
+export async function processEmailQueue(): Promise<void> {
+  if (!transporter || processing) {
+    return;
+  }
+
+  processing = true;
+  try {
+    const now = new Date();
+    const due = await storage.claimDueEmails(now, QUEUE_BATCH_SIZE, new Date(now.getTime() + CLAIM_MS));
+    for (const email of due) {
+      await deliver(email);
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+// Queues an opened or resolved email for every opted-in user who can see the
+// alert's site.
+export async function queueAlertEmails(opened: Alert[], resolved: Alert[]): Promise<void> {
+  if (!transporter || opened.length + resolved.length === 0) {
+    return;
+  }
+
+  const changes: Array<{ event: EmailEvent; alert: Alert }> = [
+    ...opened.map((alert) => ({ event: "alert_opened" as const, alert })),
+    ...resolved.map((alert) => ({ event: "alert_resolved" as const, alert })),
+  ];
+  const emails: InsertEmailLogEntry[] = [];
+  for (const { event, alert } of changes) {
+    const site = await storage.getSite(alert.siteId);
+    if (!site) continue;
+
+    const recipients = await storage.getAlertRecipients(site.id);
+    emails.push(...recipients.map((user) => ({
+      ...buildEmail(event, alertValues(alertForRole(alert, user.role), site)),
+      alertId: alert.id,
+      userId: user.id,
+      recipient: user.email,
+    })));
+  }
+
+  await storage.queueEmails(emails);
+  await processEmailQueue();
+}
+
+// Escalation emails go to the people the step names whether or not they
+// opted in to alert emails.
+export async function queueEscalationEmails(
+  alert: Alert,
+  site: Site,
+  level: number,
+  recipients: EscalationRecipient[],
+): Promise<void> {
+  if (!transporter || recipients.length === 0) {
+    return;
+  }
+
+  const minutes = Math.round((Date.now() - alert.openedAt.getTime()) / 60000);
+  const values = {
+    level: String(level),
+    waiting: minutes >= 120 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} minutes`,
+  };
+  await storage.queueEmails(recipients.map(({ user, target }) => ({
+    ...buildEmail("alert_escalated", {
+      ...alertValues(alertForRole(alert, user.role), site),
+      ...values,
+      role: (ESCALATION_TARGET_LABELS[target as EscalationTarget | "on_call"] ?? target).toLowerCase(),
+    }),
+    alertId: alert.id,
+    userId: user.id,
+    recipient: user.email,
+  })));
+  await processEmailQueue();
+}
+
+// Sends a test email to the requesting admin straight away. Returns null when
+// email is not configured.
+export async function sendTestEmail(user: Pick<User, "id" | "fullName" | "email">): Promise<EmailLogEntry | null> {
+  if (!transporter) {
+    return null;
+  }
+
+  const [email] = await storage.queueEmails([{
+    ...buildEmail("test", { requestedBy: user.fullName, recipient: user.email }),
+    userId: user.id,
+    recipient: user.email,
+    // Claimed by this instance from the start, as the queue would
+    status: "sending",
+    nextAttemptAt: new Date(Date.now() + CLAIM_MS),
+  }]);
+  return deliver(email);
+}
+
+export function isPasswordResetAvailable(): boolean {
+  return transporter !== null && portalUrl() !== "";
+}
+
+// Sends a reset link straight away. The log keeps the email without the link
+// so the token never sits in the database; a failed send is not retried and
+// the user simply asks again.
+export async function sendPasswordResetEmail(
+  user: Pick<User, "id" | "username" | "fullName" | "email">,
+  token: string,
+  expiresMinutes: number,
+): Promise<EmailLogEntry | null> {
+  if (!isPasswordResetAvailable()) {
+    return null;
+  }
+
+  const values = {
+    fullName: user.fullName,
+    username: user.username,
+    expiresIn: expiresMinutes % 60 === 0 ? `${expiresMinutes / 60} hour(s)` : `${expiresMinutes} minutes`,
+  };
+  const resetLink = `${portalUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  const [email] = await storage.queueEmails([{
+    ...buildEmail("password_reset", { ...values, resetLink: "[reset link not stored]" }),
+    userId: user.id,
+    recipient: user.email,
+    status: "sending", // so the queue never sends the copy without the link
+  }]);
+  return deliver(email, buildEmail("password_reset", { ...values, resetLink }).body);
+}
+
+export function startEmailNotifier(): void {
+  if (!SMTP_HOST) {
+    console.log("Email notifications off - SMTP_HOST is not set");
+    return;
+  }
+  if (queueTimer) {
+    return;
+  }
+
+  transporter = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: SMTP_USERNAME ? { user: SMTP_USERNAME, pass: SMTP_PASSWORD } : undefined,
+  });
+  queueTimer = setInterval(() => {
+    processEmailQueue().catch((error) => console.error("Email queue failed:", error));
+  }, QUEUE_INTERVAL_MS);
+  console.log(`Email notifier started - sending through ${SMTP_HOST}:${SMTP_PORT}`);
+
+  // Pick up anything left pending by the last run
+  processEmailQueue().catch((error) => console.error("Email queue failed:", error));
+}
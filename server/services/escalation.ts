@@ -0,0 +1,158 @@
+import { storage } from "../storage";
+import { wallClock } from "./cumulative";
+import { queueEscalationEmails } from "./email";
+import { publishEscalationWebhook } from "./webhooks";
+import type {
+  Alert,
+  EscalationPolicyWithSteps,
+  EscalationStep,
+  OnCallRotation,
+  OnCallRotationEntry,
+  Site,
+  SiteAssignee,
+  User,
+} from "@shared/schema";
+
+// Outside business hours the on-call member of a policy's rotation is told
+// along with the first step. In the configured timezone; Monday is day 1, Sunday 7.
+const BUSINESS_HOURS = process.env.BUSINESS_HOURS || "07:00-18:00";
+const BUSINESS_DAYS = process.env.BUSINESS_DAYS || "1-5";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type EscalationRecipient = {
+  user: User;
+  target: string; // ESCALATION_TARGETS or 'on_call'
+};
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.trim().split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+const [OPENS_AT, CLOSES_AT] = BUSINESS_HOURS.split("-").map(parseClock);
+const [FIRST_DAY, LAST_DAY] = BUSINESS_DAYS.split("-").map((day) => parseInt(day, 10));
+
+export function isBusinessHours(now: Date): boolean {
+  // The wall clock time as if it were UTC
+  const wall = new Date(wallClock(now).utcMs);
+  const day = wall.getUTCDay() || 7;
+  const minutes = wall.getUTCHours() * 60 + wall.getUTCMinutes();
+  return day >= FIRST_DAY && day <= (LAST_DAY || FIRST_DAY) && minutes >= OPENS_AT && minutes < CLOSES_AT;
+}
+
+// Whose week it is. Nobody is on call before the rotation starts.
+export function onCallUserId(rotation: OnCallRotation, now: Date): number | null {
+  const elapsed = now.getTime() - rotation.startsAt.getTime();
+  if (elapsed < 0 || rotation.memberIds.length === 0) {
+    return null;
+  }
+  return rotation.memberIds[Math.floor(elapsed / WEEK_MS) % rotation.memberIds.length];
+}
+
+export function nextHandoff(rotation: OnCallRotation, now: Date): Date {
+  const elapsed = now.getTime() - rotation.startsAt.getTime();
+  if (elapsed < 0) {
+    return rotation.startsAt;
+  }
+  return new Date(rotation.startsAt.getTime() + (Math.floor(elapsed / WEEK_MS) + 1) * WEEK_MS);
+}
+
+// A site's own policy where it has one, otherwise the global policy.
+export function policyForSite(
+  policies: EscalationPolicyWithSteps[],
+  siteId: number,
+): EscalationPolicyWithSteps | undefined {
+  return policies.find((policy) => policy.siteId === siteId) ?? policies.find((policy) => policy.siteId === null);
+}
+
+function stepRecipients(
+  step: EscalationStep,
+  site: Site,
+  users: User[],
+  assignments: SiteAssignee[],
+): EscalationRecipient[] {
+  const active = users.filter((user) => user.isActive);
+  if (step.target === "admin") {
+    return active.filter((user) => user.role === "admin").map((user) => ({ user, target: step.target }));
+  }
+
+  const assignedIds = new Set(
+    assignments
+      .filter((assignment) => assignment.siteId === site.id && assignment.role === step.target)
+      .map((assignment) => assignment.userId),
+  );
+  return active.filter((user) => assignedIds.has(user.id)).map((user) => ({ user, target: step.target }));
+}
+
+// Notifies every escalation step that has come due for an alert nobody has
+// acknowledged yet. Run with each periodic alert sweep.
+export async function escalateAlerts(now = new Date()): Promise<void> {
+  const pending = await storage.getUnacknowledgedAlerts();
+  if (pending.length === 0) {
+    return;
+  }
+
+  const policies = await storage.getEscalationPolicies();
+  const rotations = await storage.getOnCallRotations();
+  const users = await storage.getUsers();
+  const assignments = await storage.getSiteAssignments();
+  const sites = new Map((await storage.getSites()).map((site) => [site.id, site]));
+
+  for (const alert of pending) {
+    const site = sites.get(alert.siteId);
+    const policy = policyForSite(policies, alert.siteId);
+    if (!site?.isActive || !policy) continue;
+
+    const due = policy.steps.filter((step) =>
+      step.position > alert.escalationLevel &&
+      alert.openedAt.getTime() + step.delayMinutes * 60 * 1000 <= now.getTime());
+
+    for (const step of due) {
+      const recipients = stepRecipients(step, site, users, assignments);
+
+      const rotation = step.position === 1 && policy.rotationId !== null && !isBusinessHours(now)
+        ? rotations.find((candidate) => candidate.id === policy.rotationId)
+        : undefined;
+      const onCallId = rotation ? onCallUserId(rotation, now) : null;
+      const onCall = users.find((user) => user.id === onCallId && user.isActive);
+      if (onCall && !recipients.some((recipient) => recipient.user.id === onCall.id)) {
+        recipients.push({ user: onCall, target: "on_call" });
+      }
+
+      const escalated = await storage.recordEscalation(alert.id, step.position, recipients.map(({ user, target }) => ({
+        alertId: alert.id,
+        level: step.position,
+        target,
+        userId: user.id,
+        notifiedAt: now,
+      })));
+      // Acknowledged or resolved since it was loaded
+      if (!escalated) break;
+
+      if (recipients.length === 0) {
+        console.warn(`Escalation step ${step.position} for alert ${alert.id} at site ${site.name} has nobody to notify (${step.target})`);
+        continue;
+      }
+      console.log(`Alert ${alert.id} at site ${site.name} escalated to step ${step.position}: ` +
+        recipients.map(({ user }) => user.fullName).join(", "));
+      notify(escalated, site, step.position, recipients);
+    }
+  }
+}
+
+function notify(alert: Alert, site: Site, level: number, recipients: EscalationRecipient[]): void {
+  queueEscalationEmails(alert, site, level, recipients)
+    .catch((error) => console.error("Failed to queue escalation emails:", error));
+  publishEscalationWebhook(alert, site, level, recipients)
+    .catch((error) => console.error("Failed to queue escalation webhook:", error));
+}
+
+export async function getOnCallRotationEntries(now = new Date()): Promise<OnCallRotationEntry[]> {
+  const rotations = await storage.getOnCallRotations();
+  return rotations.map((rotation) => ({
+    ...rotation,
+    onCallUserId: onCallUserId(rotation, now),
+    nextHandoffAt: nextHandoff(rotation, now),
+  }));
+}
@@ -0,0 +1,107 @@
+import { storage } from "../storage";
+import { detectUnexplainedDrops, type Sample, type TimeWindow } from "./cumulative-engine";
+import {
+  SENSOR_NAMES,
+  type FuelIncident,
+  type FuelIncidentEntry,
+  type Site,
+  type User,
+} from "@shared/schema";
+
+// How long an incident keeps a site flagged on the dashboard.
+const INCIDENT_ALERT_HOURS = parseInt(process.env.INCIDENT_ALERT_HOURS || "24", 10);
+// Readings either side of an incident included as evidence.
+const EVIDENCE_PADDING_MS = 30 * 60 * 1000;
+
+const EVIDENCE_SENSORS: string[] = [
+  SENSOR_NAMES.fuelVolume,
+  SENSOR_NAMES.fuelLevel,
+  SENSOR_NAMES.generatorState,
+];
+
+export function theftToleranceLiters(site: Site): number {
+  const capacity = parseFloat(site.fuelCapacity) || 0;
+  const liters = parseFloat(site.theftToleranceLiters) || 0;
+  const percent = parseFloat(site.theftTolerancePercent) || 0;
+  return Math.max(liters, (capacity * percent) / 100);
+}
+
+// Flags the unexplained drops that finished inside the window, replacing any
+// incidents recorded for the same site and window earlier.
+export async function recordFuelIncidents(
+  site: Site,
+  volumes: Sample[],
+  generatorStates: Sample[],
+  window: TimeWindow,
+): Promise<FuelIncident[]> {
+  const drops = detectUnexplainedDrops(volumes, generatorStates, theftToleranceLiters(site))
+    .filter((drop) => drop.end.time >= window.start && drop.end.time < window.end);
+
+  if (drops.length > 0) {
+    console.warn(`Unexplained fuel drop at site ${site.name}: ${drops.map((drop) => `${drop.litersLost.toFixed(1)}L`).join(", ")}`);
+  }
+
+  return storage.replaceFuelIncidents(
+    site.id,
+    window.start,
+    window.end,
+    drops.map((drop) => ({
+      siteId: site.id,
+      deviceId: site.deviceId,
+      type: "suspected_theft",
+      startedAt: drop.start.time,
+      endedAt: drop.end.time,
+      litersLost: drop.litersLost.toFixed(2),
+      volumeBefore: drop.start.value.toFixed(2),
+      volumeAfter: drop.end.value.toFixed(2),
+    })),
+  );
+}
+
+export function getActiveIncidents(siteIds: number[]): Promise<Map<number, FuelIncident>> {
+  return storage.getLatestFuelIncidents(siteIds, new Date(Date.now() - INCIDENT_ALERT_HOURS * 60 * 60 * 1000));
+}
+
+// Returns null when a specific site was asked for that the user cannot see.
+// Only admins get raw sensor data, so only they get the evidence readings.
+export async function getFuelIncidents(
+  user: Pick<User, "id" | "role">,
+  from: Date,
+  to: Date,
+  siteId?: number,
+): Promise<FuelIncidentEntry[] | null> {
+  const sites = await storage.getSitesForUser(user);
+  const visible = siteId ? sites.filter((site) => site.id === siteId) : sites;
+  if (siteId && visible.length === 0) {
+    return null;
+  }
+
+  const siteNames = new Map(visible.map((site) => [site.id, site.name]));
+  const incidents = await storage.getFuelIncidents(visible.map((site) => site.id), from, to);
+
+  if (user.role !== "admin") {
+    return incidents.map((incident) => ({
+      ...incident,
+      siteName: siteNames.get(incident.siteId) ?? "",
+      evidence: null,
+    }));
+  }
+
+  const entries: FuelIncidentEntry[] = [];
+  for (const incident of incidents) {
+    const evidenceFrom = new Date(incident.startedAt.getTime() - EVIDENCE_PADDING_MS);
+    const evidenceTo = new Date(incident.endedAt.getTime() + EVIDENCE_PADDING_MS);
+    const readings = await storage.getSensorReadings(incident.deviceId, evidenceFrom, evidenceTo);
+
+    entries.push({
+      ...incident,
+      siteName: siteNames.get(incident.siteId) ?? "",
+      evidence: {
+        from: evidenceFrom,
+        to: evidenceTo,
+        readings: readings.filter((reading) => EVIDENCE_SENSORS.includes(reading.sensorName)),
+      },
+    });
+  }
+  return entries;
+}
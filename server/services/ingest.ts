@@ -0,0 +1,69 @@
+import { storage } from "../storage";
+import { evaluateAlerts } from "./alerts";
+import { publishReadings } from "./live-updates";
+import type { IngestReading, IngestResponse, InsertSensorReading } from "@shared/schema";
+
+// What to do with readings from a device no active site is registered for:
+// "quarantine" keeps them aside for review, "reject" drops them.
+const UNKNOWN_DEVICE_POLICY = process.env.INGEST_UNKNOWN_DEVICES === "reject" ? "reject" : "quarantine";
+// Device clocks drift; anything further ahead than this is refused.
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function toRow(reading: IngestReading): InsertSensorReading {
+  return {
+    time: reading.time,
+    deviceId: reading.deviceId,
+    sensorName: reading.sensorName,
+    value: reading.value.toFixed(2),
+    unit: reading.unit,
+  };
+}
+
+export async function ingestReadings(readings: IngestReading[]): Promise<IngestResponse> {
+  const registered = await storage.getRegisteredDeviceIds(
+    Array.from(new Set(readings.map((reading) => reading.deviceId))),
+  );
+  const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+
+  const known: InsertSensorReading[] = [];
+  const unknown: InsertSensorReading[] = [];
+  const rejected: IngestResponse["rejected"] = [];
+
+  readings.forEach((reading, index) => {
+    if (reading.time.getTime() > latestAllowed) {
+      rejected.push({ index, deviceId: reading.deviceId, reason: "Reading time is in the future" });
+    } else if (registered.has(reading.deviceId)) {
+      known.push(toRow(reading));
+    } else if (UNKNOWN_DEVICE_POLICY === "quarantine") {
+      unknown.push(toRow(reading));
+    } else {
+      rejected.push({ index, deviceId: reading.deviceId, reason: "Unknown device" });
+    }
+  });
+
+  const accepted = await storage.insertSensorReadings(known);
+  await storage.quarantineReadings(unknown);
+
+  // Alerts and realtime dashboards are updated in the background; a failure
+  // there must not fail the ingestion that triggered it.
+  if (accepted > 0) {
+    const deviceIds = Array.from(new Set(known.map((reading) => reading.deviceId)));
+    evaluateAlerts(deviceIds)
+      .catch((error) => console.error("Alert evaluation failed:", error))
+      .then(() => publishReadings(deviceIds))
+      .catch((error) => console.error("Failed to publish live updates:", error));
+  }
+
+  if (unknown.length > 0) {
+    const devices = Array.from(new Set(unknown.map((reading) => reading.deviceId)));
+    console.warn(`Quarantined ${unknown.length} readings from unregistered devices: ${devices.join(", ")}`);
+  }
+
+  return {
+    received: readings.length,
+    accepted,
+    duplicates: known.length - accepted,
+    quarantined: unknown.length,
+    rejected,
+  };
+}
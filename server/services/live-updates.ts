@@ -0,0 +1,183 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { storage } from "../storage";
+import { verifyToken } from "../auth";
+import { buildRealtimeReading, buildSiteWithReadings, getActiveAlerts, latestTime } from "./dashboard";
+import { getActiveIncidents } from "./incidents";
+import { getTankProfiles } from "./tank-volume";
+import type { LiveMessage, LiveSiteUpdate, Site } from "@shared/schema";
+
+export const LIVE_PATH = "/api/live";
+// Sites that stop reporting never trigger a publish, so their offline status
+// is picked up by a periodic sweep while anyone is connected.
+const OFFLINE_SWEEP_MS = 60 * 1000;
+// Connections that do not answer a ping within this long are dropped.
+const HEARTBEAT_MS = 30 * 1000;
+// Tells the client its access token ran out: refresh it and reconnect.
+const TOKEN_EXPIRED_CLOSE_CODE = 4001;
+
+const wss = new WebSocketServer({ noServer: true });
+const alive = new WeakSet<WebSocket>();
+// Online status last pushed per site, so the sweep only sends changes
+const lastOnline = new Map<number, boolean>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// The same realtime figures the dashboard shows, trimmed to what changes.
+async function buildUpdates(sites: Site[]): Promise<LiveSiteUpdate[]> {
+  if (sites.length === 0) {
+    return [];
+  }
+
+  const latestValues = await storage.getLatestSensorValues(sites.map((site) => site.deviceId));
+  const incidents = await getActiveIncidents(sites.map((site) => site.id));
+  const activeAlerts = await getActiveAlerts(sites.map((site) => site.id));
+  const profiles = await getTankProfiles(sites);
+
+  const now = new Date();
+  return sites.map((site) => {
+    const values = latestValues.get(site.deviceId);
+    const reading = buildRealtimeReading(site, values, profiles.get(site.id)!);
+    const full = buildSiteWithReadings(
+      site,
+      reading,
+      latestTime(values),
+      incidents.get(site.id),
+      activeAlerts.get(site.id) ?? [],
+      now,
+    );
+    return {
+      id: full.id,
+      latestReading: full.latestReading,
+      generatorOnline: full.generatorOnline,
+      zesaOnline: full.zesaOnline,
+      fuelLevelPercentage: full.fuelLevelPercentage,
+      alertStatus: full.alertStatus,
+      icingaOnline: full.icingaOnline,
+      activeIncident: full.activeIncident,
+      activeAlerts: full.activeAlerts,
+    };
+  });
+}
+
+function broadcast(updates: LiveSiteUpdate[]) {
+  if (updates.length === 0) {
+    return;
+  }
+
+  updates.forEach((update) => lastOnline.set(update.id, update.icingaOnline));
+  const message: LiveMessage = { type: "site-updates", updates };
+  const data = JSON.stringify(message);
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data);
+    }
+  });
+}
+
+async function sweepOfflineSites() {
+  const updates = await buildUpdates(await storage.getActiveSites());
+  broadcast(updates.filter((update) => lastOnline.get(update.id) !== update.icingaOnline));
+}
+
+function startSweep() {
+  if (sweepTimer) {
+    return;
+  }
+
+  sweepTimer = setInterval(() => {
+    if (wss.clients.size === 0) {
+      clearInterval(sweepTimer!);
+      sweepTimer = null;
+      lastOnline.clear();
+      return;
+    }
+    sweepOfflineSites().catch((error) => console.error("Live update sweep failed:", error));
+  }, OFFLINE_SWEEP_MS);
+}
+
+// Browsers cannot set headers on a WebSocket, so the access token comes in
+// the query string. Only admins may subscribe, as only they see live data.
+async function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, token: string | null) {
+  const payload = token ? verifyToken(token) : null;
+  if (!payload) {
+    return rejectUpgrade(socket, 401, "Unauthorized");
+  }
+
+  const user = await storage.getUser(payload.userId);
+  if (!user || !user.isActive) {
+    return rejectUpgrade(socket, 401, "Unauthorized");
+  }
+  if (user.role !== "admin") {
+    return rejectUpgrade(socket, 403, "Forbidden");
+  }
+
+  wss.handleUpgrade(req, socket, head, (client) => {
+    alive.add(client);
+    client.on("pong", () => alive.add(client));
+
+    if (payload.exp) {
+      const expiry = setTimeout(
+        () => client.close(TOKEN_EXPIRED_CLOSE_CODE, "Token expired"),
+        Math.max(0, payload.exp * 1000 - Date.now()),
+      );
+      client.on("close", () => clearTimeout(expiry));
+    }
+
+    startSweep();
+  });
+}
+
+export function attachLiveUpdates(server: Server): void {
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    // Anything else, such as the Vite HMR socket in development, is left alone
+    if (url.pathname !== LIVE_PATH) {
+      return;
+    }
+
+    handleUpgrade(req, socket, head, url.searchParams.get("token")).catch((error) => {
+      console.error("Live update connection failed:", error);
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      if (!alive.has(client)) {
+        client.terminate();
+        return;
+      }
+      alive.delete(client);
+      client.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+}
+
+// Pushes fresh figures for the sites behind the given devices once their
+// readings are stored. Skipped entirely while no admin is connected.
+export async function publishReadings(deviceIds: string[]): Promise<void> {
+  if (wss.clients.size === 0 || deviceIds.length === 0) {
+    return;
+  }
+
+  const sites = (await storage.getActiveSites()).filter((site) => deviceIds.includes(site.deviceId));
+  broadcast(await buildUpdates(sites));
+}
+
+// Pushes fresh figures for sites that changed without a new reading, such as
+// an alert being raised by the periodic evaluation or acknowledged.
+export async function publishSites(siteIds: number[]): Promise<void> {
+  if (wss.clients.size === 0 || siteIds.length === 0) {
+    return;
+  }
+
+  const sites = (await storage.getActiveSites()).filter((site) => siteIds.includes(site.id));
+  broadcast(await buildUpdates(sites));
+}
@@ -0,0 +1,109 @@
+import { storage } from "../storage";
+import { getSettings } from "./settings";
+import type { User } from "@shared/schema";
+
+// Consecutive failed sign-ins before an account is locked come from the
+// security settings (maxLoginAttempts).
+// Higher than the per-account limit since a whole office may share one address
+const MAX_LOGIN_ATTEMPTS_PER_IP = parseInt(process.env.MAX_LOGIN_ATTEMPTS_PER_IP || "20", 10);
+// How long a lock lasts, and how long failures are remembered
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10);
+const MAX_DELAY_SECONDS = 30;
+// Stale addresses are swept once this many are tracked
+const IP_SWEEP_THRESHOLD = 1000;
+
+export type LoginBlock =
+  | { reason: "locked"; scope: "account" | "address"; lockedUntil: Date }
+  | { reason: "throttled"; retryAfterSeconds: number };
+
+type AddressAttempts = {
+  failures: number;
+  lastFailure: number;
+  lockedUntil: number | null;
+};
+
+// Per-address counts only guard against guessing across many usernames, so
+// they live in memory and start over when the server restarts.
+const addressAttempts = new Map<string, AddressAttempts>();
+
+function lockoutMs() {
+  return LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+}
+
+// Nothing for the first failure, then 1s doubling up to MAX_DELAY_SECONDS
+function delaySeconds(failures: number): number {
+  return failures < 2 ? 0 : Math.min(2 ** (failures - 2), MAX_DELAY_SECONDS);
+}
+
+function isStale(attempts: AddressAttempts, now: number): boolean {
+  return now - attempts.lastFailure > lockoutMs() && (attempts.lockedUntil ?? 0) <= now;
+}
+
+function attemptsFrom(ip: string | undefined, now: number): AddressAttempts | undefined {
+  const attempts = ip ? addressAttempts.get(ip) : undefined;
+  if (attempts && isStale(attempts, now)) {
+    addressAttempts.delete(ip!);
+    return undefined;
+  }
+  return attempts;
+}
+
+function throttled(failures: number, lastFailure: number, now: number): LoginBlock | null {
+  const waitMs = delaySeconds(failures) * 1000 - (now - lastFailure);
+  return waitMs > 0 ? { reason: "throttled", retryAfterSeconds: Math.ceil(waitMs / 1000) } : null;
+}
+
+// Whether a sign-in may be attempted at all. Blocked attempts are turned away
+// before the password is checked and do not count as failures.
+export function getLoginBlock(user: User | undefined, ip: string | undefined): LoginBlock | null {
+  const now = Date.now();
+  if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+    return { reason: "locked", scope: "account", lockedUntil: user.lockedUntil };
+  }
+
+  const attempts = attemptsFrom(ip, now);
+  if (attempts?.lockedUntil && attempts.lockedUntil > now) {
+    return { reason: "locked", scope: "address", lockedUntil: new Date(attempts.lockedUntil) };
+  }
+
+  if (user?.lastFailedLogin && now - user.lastFailedLogin.getTime() <= lockoutMs()) {
+    const block = throttled(user.failedLoginAttempts, user.lastFailedLogin.getTime(), now);
+    if (block) return block;
+  }
+  // Delays per address only start once it has used up an account's worth of attempts
+  return attempts ? throttled(attempts.failures - getSettings().security.maxLoginAttempts + 1, attempts.lastFailure, now) : null;
+}
+
+// Counts a wrong password against the account, when there is one, and the
+// address. Returns the lock when this failure caused one.
+export async function recordLoginFailure(user: User | undefined, ip: string | undefined): Promise<LoginBlock | null> {
+  const now = Date.now();
+
+  if (ip) {
+    const attempts = attemptsFrom(ip, now) ?? { failures: 0, lastFailure: now, lockedUntil: null };
+    attempts.failures += 1;
+    attempts.lastFailure = now;
+    if (attempts.failures >= MAX_LOGIN_ATTEMPTS_PER_IP) {
+      attempts.lockedUntil = now + lockoutMs();
+    }
+    addressAttempts.set(ip, attempts);
+
+    if (addressAttempts.size > IP_SWEEP_THRESHOLD) {
+      addressAttempts.forEach((entry, key) => {
+        if (isStale(entry, now)) addressAttempts.delete(key);
+      });
+    }
+  }
+
+  if (user) {
+    const updated = await storage.recordFailedLogin(user.id, new Date(now - lockoutMs()));
+    if (updated && updated.failedLoginAttempts >= getSettings().security.maxLoginAttempts) {
+      const lockedUntil = new Date(now + lockoutMs());
+      await storage.lockUser(user.id, lockedUntil);
+      return { reason: "locked", scope: "account", lockedUntil };
+    }
+  }
+
+  const lockedUntil = ip ? addressAttempts.get(ip)?.lockedUntil : null;
+  return lockedUntil ? { reason: "locked", scope: "address", lockedUntil: new Date(lockedUntil) } : null;
+}
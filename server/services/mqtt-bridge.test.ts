@@ -0,0 +1,125 @@
+import { createServer, type Server } from "net";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createBroker, type Aedes } from "aedes";
+import { connectAsync, type MqttClient } from "mqtt";
+import { SENSOR_NAMES, type IngestReading, type IngestResponse } from "@shared/schema";
+import { createMqttBridge, type MqttBridge } from "./mqtt-bridge";
+
+// The default write path needs a database; every test passes its own
+vi.mock("./ingest", () => ({ ingestReadings: vi.fn() }));
+
+function accepted(readings: IngestReading[]): IngestResponse {
+  return { received: readings.length, accepted: readings.length, duplicates: 0, quarantined: 0, rejected: [] };
+}
+
+// Resolves once some client has subscribed to the topic filter
+function subscribed(broker: Aedes, filter: string): Promise<void> {
+  return new Promise((resolve) => {
+    broker.on("subscribe", (subscriptions) => {
+      if (subscriptions.some((subscription) => subscription.topic === filter)) resolve();
+    });
+  });
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the bridge");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("MQTT bridge against an in-process broker", () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let publisher: MqttClient;
+  let bridge: MqttBridge | null = null;
+
+  beforeEach(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    publisher = await connectAsync(url);
+  });
+
+  afterEach(async () => {
+    await bridge?.stop();
+    bridge = null;
+    await publisher.endAsync();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function startBridge(
+    options: { batchSize: number; flushMs: number },
+    write = vi.fn(async (readings: IngestReading[]) => accepted(readings)),
+  ) {
+    const ready = subscribed(broker, "sites/+/+");
+    bridge = createMqttBridge({ url, write, retryMs: 10, ...options });
+    await bridge.start();
+    await ready;
+    return write;
+  }
+
+  it("writes a full batch as soon as it fills", async () => {
+    const write = await startBridge({ batchSize: 3, flushMs: 60000 });
+
+    await publisher.publishAsync("sites/GEN-001/fuel_level", "42.5", { qos: 1 });
+    await publisher.publishAsync("sites/GEN-001/generator", "ON", { qos: 1 });
+    await publisher.publishAsync(
+      "sites/GEN-002/temp",
+      JSON.stringify({ value: 24.1, unit: "C", time: "2026-01-01T10:00:00Z" }),
+      { qos: 1 },
+    );
+    await waitFor(() => write.mock.calls.length === 1);
+
+    const [batch] = write.mock.calls[0];
+    expect(batch).toHaveLength(3);
+    expect(batch[0]).toMatchObject({ deviceId: "GEN-001", sensorName: SENSOR_NAMES.fuelLevel, value: 42.5 });
+    expect(batch[1]).toMatchObject({ deviceId: "GEN-001", sensorName: SENSOR_NAMES.generatorState, value: 1 });
+    expect(batch[2]).toEqual({
+      deviceId: "GEN-002",
+      sensorName: SENSOR_NAMES.fuelTemp,
+      value: 24.1,
+      unit: "C",
+      time: new Date("2026-01-01T10:00:00Z"),
+    });
+  });
+
+  it("writes a partial batch once the flush interval passes", async () => {
+    const write = await startBridge({ batchSize: 100, flushMs: 50 });
+
+    await publisher.publishAsync("sites/GEN-001/fuel_volume", "900", { qos: 1 });
+    await publisher.publishAsync("sites/GEN-001/fuel_volume", "890", { qos: 1 });
+    await waitFor(() => write.mock.calls.length === 1);
+
+    expect(write.mock.calls[0][0].map((reading) => reading.value)).toEqual([900, 890]);
+  });
+
+  it("ignores messages it cannot read", async () => {
+    const write = await startBridge({ batchSize: 100, flushMs: 50 });
+
+    await publisher.publishAsync("sites/GEN-001/humidity", "55", { qos: 1 });
+    await publisher.publishAsync("sites/GEN-001/fuel_level", "not a number", { qos: 1 });
+    await publisher.publishAsync("sites/GEN-001/fuel_level", "40", { qos: 1 });
+    await waitFor(() => write.mock.calls.length === 1);
+
+    expect(write.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ sensorName: SENSOR_NAMES.fuelLevel, value: 40 }),
+    ]);
+  });
+
+  it("retries a batch whose write fails", async () => {
+    const write = vi.fn(async (readings: IngestReading[]) => accepted(readings))
+      .mockRejectedValueOnce(new Error("connection refused"));
+    await startBridge({ batchSize: 1, flushMs: 60000 }, write);
+
+    await publisher.publishAsync("sites/GEN-001/fuel_level", "40", { qos: 1 });
+    await waitFor(() => write.mock.calls.length === 2);
+
+    expect(write.mock.calls[1][0]).toEqual(write.mock.calls[0][0]);
+  });
+});
@@ -0,0 +1,301 @@
+import { connect, type IClientOptions, type MqttClient } from "mqtt";
+import { ingestReadings } from "./ingest";
+import {
+  ingestReadingSchema,
+  MAX_INGEST_BATCH,
+  SENSOR_NAMES,
+  type IngestReading,
+  type IngestResponse,
+} from "@shared/schema";
+
+// Topic patterns use {deviceId} and {sensorName} placeholders, one per level.
+const DEFAULT_TOPICS = "sites/{deviceId}/{sensorName}";
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_FLUSH_MS = 5000;
+// A batch whose write fails is retried this many times in all, with the delay
+// doubling from retryMs, before it is dropped.
+const WRITE_ATTEMPTS = 5;
+const DEFAULT_RETRY_MS = 1000;
+
+// Short names some gateways publish under, mapped to the names the
+// dashboard and cumulative calculations read.
+const SENSOR_ALIASES: Record<string, string> = {
+  level: SENSOR_NAMES.fuelLevel,
+  fuel_level: SENSOR_NAMES.fuelLevel,
+  volume: SENSOR_NAMES.fuelVolume,
+  fuel_volume: SENSOR_NAMES.fuelVolume,
+  temp: SENSOR_NAMES.fuelTemp,
+  temperature: SENSOR_NAMES.fuelTemp,
+  generator: SENSOR_NAMES.generatorState,
+  zesa: SENSOR_NAMES.zesaState,
+};
+
+const KNOWN_SENSORS = new Set<string>(Object.values(SENSOR_NAMES));
+
+const STATE_VALUES = new Map<string, number>([
+  ["on", 1],
+  ["off", 0],
+  ["true", 1],
+  ["false", 0],
+]);
+
+export type TopicPattern = {
+  pattern: string;
+  subscription: string;
+  matcher: RegExp;
+};
+
+export type MqttBridgeOptions = {
+  url: string;
+  topics?: string[];
+  username?: string;
+  password?: string;
+  clientId?: string;
+  batchSize?: number;
+  flushMs?: number;
+  retryMs?: number;
+  // Where buffered readings go; defaults to the same path as POST /api/ingest.
+  write?: (readings: IngestReading[]) => Promise<IngestResponse>;
+};
+
+export type MqttBridge = {
+  start(): Promise<void>;
+  flush(): Promise<void>;
+  stop(): Promise<void>;
+};
+
+export function compileTopicPattern(pattern: string): TopicPattern {
+  const levels = pattern.split("/");
+  if (!levels.includes("{deviceId}") || !levels.includes("{sensorName}")) {
+    throw new Error(`MQTT topic pattern "${pattern}" needs {deviceId} and {sensorName} levels`);
+  }
+
+  const subscription = levels
+    .map((level) => (level === "{deviceId}" || level === "{sensorName}" ? "+" : level))
+    .join("/");
+  const matcher = new RegExp(
+    "^" +
+      levels
+        .map((level) => {
+          if (level === "{deviceId}") return "(?<deviceId>[^/]+)";
+          if (level === "{sensorName}") return "(?<sensorName>[^/]+)";
+          if (level === "+") return "[^/]+";
+          return level.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        })
+        .join("/") +
+      "$",
+  );
+
+  return { pattern, subscription, matcher };
+}
+
+export function normalizeSensorName(name: string): string | null {
+  const lower = name.trim().toLowerCase();
+  const sensorName = SENSOR_ALIASES[lower] ?? lower;
+  return KNOWN_SENSORS.has(sensorName) ? sensorName : null;
+}
+
+// Payloads are either a bare value ("42.5", "ON") or JSON such as
+// {"value": 42.5, "unit": "%", "time": "2025-01-01T10:00:00Z"}.
+export function parsePayload(payload: string): { value: unknown; unit?: unknown; time?: unknown } {
+  const text = payload.trim();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON, treat it as a bare value
+  }
+
+  const fields = body !== null && typeof body === "object" && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : { value: body };
+
+  let value = fields.value;
+  if (typeof value === "boolean") {
+    value = Number(value);
+  } else if (typeof value === "string" && STATE_VALUES.has(value.trim().toLowerCase())) {
+    value = STATE_VALUES.get(value.trim().toLowerCase());
+  }
+
+  return { value, unit: fields.unit, time: fields.time ?? fields.timestamp };
+}
+
+// Turns one MQTT message into a reading, or null when the topic or payload
+// is not something the portal understands.
+export function toIngestReading(
+  topics: TopicPattern[],
+  topic: string,
+  payload: string,
+  receivedAt: Date = new Date(),
+): IngestReading | null {
+  for (const { matcher } of topics) {
+    const match = matcher.exec(topic);
+    if (!match?.groups) {
+      continue;
+    }
+
+    const sensorName = normalizeSensorName(match.groups.sensorName);
+    if (!sensorName) {
+      return null;
+    }
+
+    const { value, unit, time } = parsePayload(payload);
+    const parsed = ingestReadingSchema.safeParse({
+      deviceId: match.groups.deviceId,
+      sensorName,
+      value,
+      unit: typeof unit === "string" ? unit : undefined,
+      time: time ?? receivedAt,
+    });
+    return parsed.success ? parsed.data : null;
+  }
+  return null;
+}
+
+export function createMqttBridge(options: MqttBridgeOptions): MqttBridge {
+  const topics = (options.topics ?? [DEFAULT_TOPICS]).map(compileTopicPattern);
+  const batchSize = Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, MAX_INGEST_BATCH);
+  const flushMs = options.flushMs ?? DEFAULT_FLUSH_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const write = options.write ?? ingestReadings;
+
+  let client: MqttClient | null = null;
+  let buffer: IngestReading[] = [];
+  let flushTimer: NodeJS.Timeout | null = null;
+  let dropped = 0;
+  // Writes go out one batch at a time, in arrival order. Later batches wait
+  // while a failed one is retried.
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  async function writeBatch(batch: IngestReading[]): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await write(batch);
+        if (result.rejected.length > 0) {
+          console.warn(`MQTT bridge: ${result.rejected.length} of ${batch.length} readings rejected`);
+        }
+        return;
+      } catch (error) {
+        if (attempt >= WRITE_ATTEMPTS) {
+          console.error(`MQTT bridge: dropping ${batch.length} readings after ${attempt} failed writes:`, error);
+          return;
+        }
+        const delay = retryMs * 2 ** (attempt - 1);
+        console.warn(
+          `MQTT bridge: failed to write ${batch.length} readings, retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  function flush(): Promise<void> {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (buffer.length === 0) {
+      return writeQueue;
+    }
+
+    const batch = buffer;
+    buffer = [];
+    writeQueue = writeQueue.then(() => writeBatch(batch));
+    return writeQueue;
+  }
+
+  function handleMessage(topic: string, payload: Buffer): void {
+    const reading = toIngestReading(topics, topic, payload.toString("utf8"));
+    if (!reading) {
+      if (dropped++ % 100 === 0) {
+        console.warn(`MQTT bridge: ignoring unrecognised message on ${topic}`);
+      }
+      return;
+    }
+
+    buffer.push(reading);
+    if (buffer.length >= batchSize) {
+      flush();
+    } else if (!flushTimer) {
+      flushTimer = setTimeout(flush, flushMs);
+    }
+  }
+
+  return {
+    async start() {
+      if (client) {
+        return;
+      }
+
+      const clientOptions: IClientOptions = {
+        clientId: options.clientId,
+        username: options.username,
+        password: options.password,
+        // Keep the broker-side session so QoS 1 messages published while
+        // the portal is disconnected are delivered on reconnect. Messages are
+        // acknowledged when they arrive, not when written: readings still
+        // buffered or being retried are lost if the process stops.
+        clean: !options.clientId,
+        reconnectPeriod: 5000,
+      };
+      client = connect(options.url, clientOptions);
+      client.on("message", handleMessage);
+      client.on("error", (error) => {
+        console.error("MQTT bridge error:", error.message);
+      });
+      client.on("connect", () => {
+        client?.subscribe(topics.map((topic) => topic.subscription), { qos: 1 }, (error) => {
+          if (error) {
+            console.error("MQTT bridge subscription failed:", error.message);
+          } else {
+            console.log(`MQTT bridge subscribed to ${topics.map((topic) => topic.pattern).join(", ")}`);
+          }
+        });
+      });
+    },
+
+    flush,
+
+    async stop() {
+      if (!client) {
+        return;
+      }
+      const current = client;
+      client = null;
+      await current.endAsync();
+      await flush();
+    },
+  };
+}
+
+let bridge: MqttBridge | null = null;
+
+export function startMqttBridge(): void {
+  const url = process.env.MQTT_URL;
+  if (!url || bridge) {
+    return;
+  }
+
+  try {
+    bridge = createMqttBridge({
+      url,
+      topics: (process.env.MQTT_TOPICS || DEFAULT_TOPICS)
+        .split(",")
+        .map((topic) => topic.trim())
+        .filter(Boolean),
+      username: process.env.MQTT_USERNAME || undefined,
+      password: process.env.MQTT_PASSWORD || undefined,
+      clientId: process.env.MQTT_CLIENT_ID || undefined,
+      batchSize: parseInt(process.env.MQTT_BATCH_SIZE || String(DEFAULT_BATCH_SIZE), 10),
+      flushMs: parseInt(process.env.MQTT_FLUSH_MS || String(DEFAULT_FLUSH_MS), 10),
+    });
+  } catch (error) {
+    console.error("MQTT bridge not started:", error);
+    return;
+  }
+
+  bridge.start().catch((error) => {
+    console.error("MQTT bridge failed to start:", error);
+  });
+}
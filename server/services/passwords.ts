@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { hashPassword, verifyPassword } from "../auth";
+import { sendPasswordResetEmail } from "./email";
+import { getSettings } from "./settings";
+import { passwordPolicyError, passwordPolicyOf, type PasswordPolicy, type User } from "@shared/schema";
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "60", 10);
+// A new link is sent at most this often, so the form cannot flood a mailbox
+const RESET_REQUEST_COOLDOWN_MS = 60 * 1000;
+
+const INVALID_RESET_LINK = "This reset link is invalid or has expired. Request a new one.";
+
+export type PasswordResetResult = { ok: true; user: User } | { ok: false; message: string };
+
+// Rules for every password set from now on; existing passwords keep working.
+export function getPasswordPolicy(): PasswordPolicy {
+  return passwordPolicyOf(getSettings().security);
+}
+
+// Why a new password cannot be used, or null when it can. Leave out `user`
+// for an account that does not exist yet.
+export async function newPasswordError(password: string, user?: User): Promise<string | null> {
+  const policy = getPasswordPolicy();
+  const policyError = passwordPolicyError(password, policy);
+  if (policyError || !user || policy.historyCount === 0) {
+    return policyError;
+  }
+
+  const previous = new Set([user.password, ...(await storage.getPasswordHistory(user.id, policy.historyCount))]);
+  for (const hash of Array.from(previous)) {
+    if (await verifyPassword(password, hash)) {
+      return policy.historyCount === 1
+        ? "Password must differ from the current one"
+        : `Password must differ from the last ${policy.historyCount} passwords`;
+    }
+  }
+  return null;
+}
+
+// Call whenever a user's password hash is stored, so it counts as history
+export async function rememberPassword(userId: number, passwordHash: string): Promise<void> {
+  const { historyCount } = getPasswordPolicy();
+  if (historyCount > 0) {
+    await storage.addPasswordHistory(userId, passwordHash, historyCount);
+  }
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Emails a reset link to the matching active account. Returns the user when a
+// link was sent. Runs after the request has been answered, the same way
+// whether or not an account matched, so accounts cannot be discovered
+// through this form.
+export async function requestPasswordReset(identifier: string): Promise<User | null> {
+  const user = identifier.includes("@")
+    ? await storage.getUserByEmail(identifier)
+    : await storage.getUserByUsername(identifier);
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  const latest = await storage.getLatestPasswordResetToken(user.id);
+  if (latest && !latest.usedAt && Date.now() - latest.createdAt.getTime() < RESET_REQUEST_COOLDOWN_MS) {
+    return null;
+  }
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashResetToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+  await sendPasswordResetEmail(user, token, PASSWORD_RESET_TTL_MINUTES);
+  return user;
+}
+
+// Sets the new password for a valid link. A password the policy rejects
+// leaves the link usable so the user can try again. On success every session
+// of the user ends and any sign-in lockout is lifted.
+export async function confirmPasswordReset(token: string, password: string): Promise<PasswordResetResult> {
+  const stored = await storage.getPasswordResetTokenByHash(hashResetToken(token));
+  if (!stored || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+    return { ok: false, message: INVALID_RESET_LINK };
+  }
+
+  const user = await storage.getUser(stored.userId);
+  if (!user || !user.isActive) {
+    return { ok: false, message: INVALID_RESET_LINK };
+  }
+
+  const error = await newPasswordError(password, user);
+  if (error) {
+    return { ok: false, message: error };
+  }
+  if (!(await storage.usePasswordResetToken(stored.id))) {
+    return { ok: false, message: INVALID_RESET_LINK };
+  }
+
+  const passwordHash = await hashPassword(password);
+  await storage.updateUser(user.id, { password: passwordHash });
+  await rememberPassword(user.id, passwordHash);
+  await storage.unlockUser(user.id);
+  await storage.revokeUserRefreshTokens(user.id);
+  return { ok: true, user };
+}
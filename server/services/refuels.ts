@@ -0,0 +1,71 @@
+import { storage } from "../storage";
+import { detectRefuels, type Sample, type TimeWindow } from "./cumulative-engine";
+import { publishRefuelWebhooks } from "./webhooks";
+import type { RefuelEvent, RefuelLogEntry, Site, User } from "@shared/schema";
+
+// Rises smaller than this are left to the daily top-up total only.
+const REFUEL_MIN_LITERS = parseFloat(process.env.REFUEL_MIN_LITERS || "20");
+const REFUEL_SETTLE_MINUTES = 15;
+
+function toPercent(liters: number, capacity: number): string | null {
+  return capacity > 0 ? ((liters / capacity) * 100).toFixed(2) : null;
+}
+
+// Detects the fills that finished inside the window and stores them in place
+// of anything recorded for the same site and window earlier. Only fills not
+// seen before are sent to webhooks, so reprocessing a day sends nothing new.
+export async function recordRefuelEvents(
+  site: Site,
+  volumes: Sample[],
+  window: TimeWindow,
+  noiseLiters: number,
+): Promise<RefuelEvent[]> {
+  const capacity = parseFloat(site.fuelCapacity) || 0;
+  const refuels = detectRefuels(volumes, {
+    noiseLiters,
+    minLiters: REFUEL_MIN_LITERS,
+    settleMs: REFUEL_SETTLE_MINUTES * 60 * 1000,
+  }).filter((refuel) => refuel.end.time >= window.start && refuel.end.time < window.end);
+
+  const previous = await storage.getRefuelEvents([site.id], window.start, window.end);
+  const saved = await storage.replaceRefuelEvents(
+    site.id,
+    window.start,
+    window.end,
+    refuels.map((refuel) => ({
+      siteId: site.id,
+      deviceId: site.deviceId,
+      startedAt: refuel.start.time,
+      endedAt: refuel.end.time,
+      litersAdded: refuel.litersAdded.toFixed(2),
+      levelBefore: toPercent(refuel.start.value, capacity),
+      levelAfter: toPercent(refuel.end.value, capacity),
+    })),
+  );
+
+  // A fill still under way when the day was last processed ends later now,
+  // so an earlier event is the same fill when their times overlap.
+  const found = saved.filter(
+    (event) => !previous.some((seen) => seen.startedAt <= event.endedAt && event.startedAt <= seen.endedAt),
+  );
+  publishRefuelWebhooks(site, found).catch((error) => console.error("Failed to queue refuel webhooks:", error));
+  return saved;
+}
+
+// Returns null when a specific site was asked for that the user cannot see.
+export async function getRefuelLog(
+  user: Pick<User, "id" | "role">,
+  from: Date,
+  to: Date,
+  siteId?: number,
+): Promise<RefuelLogEntry[] | null> {
+  const sites = await storage.getSitesForUser(user);
+  const visible = siteId ? sites.filter((site) => site.id === siteId) : sites;
+  if (siteId && visible.length === 0) {
+    return null;
+  }
+
+  const siteNames = new Map(visible.map((site) => [site.id, site.name]));
+  const events = await storage.getRefuelEvents(visible.map((site) => site.id), from, to);
+  return events.map((event) => ({ ...event, siteName: siteNames.get(event.siteId) ?? "" }));
+}
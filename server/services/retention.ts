@@ -0,0 +1,18 @@
+import { storage, type PruneCounts } from "../storage";
+
+// Delivery logs, quarantined readings and job history older than this are
+// deleted by the data-retention job. Sensor readings and the audit log are
+// never pruned.
+const RETENTION_DAYS = parseInt(process.env.RETENTION_DAYS || "90", 10);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type RetentionResult = PruneCounts & {
+  total: number;
+};
+
+export async function pruneHistory(now = new Date()): Promise<RetentionResult> {
+  const counts = await storage.pruneHistory(new Date(now.getTime() - RETENTION_DAYS * MS_PER_DAY), now);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return { ...counts, total };
+}
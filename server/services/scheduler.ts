@@ -0,0 +1,347 @@
+import cron, { type ScheduledTask } from "node-cron";
+import { storage } from "../storage";
+import { buildRealtimeReading } from "./dashboard";
+import { getTankProfiles } from "./tank-volume";
+import { dayBounds, processCumulativeReadings, shiftDate, todayDateString, zonedTime } from "./cumulative";
+import { pruneHistory } from "./retention";
+import { getSettings, onSettingsChange } from "./settings";
+import {
+  JOB_DESCRIPTIONS,
+  JOB_LABELS,
+  JOB_NAMES,
+  type JobName,
+  type JobRun,
+  type JobSummary,
+  type ScheduledJob,
+  type UpdateJobRequest,
+} from "@shared/schema";
+
+// The scheduled jobs (see JOB_NAMES). Every run is recorded in job_runs.
+// Schedules are cron expressions in the timezone from the general settings;
+// admins can override them or pause a job, which is kept in scheduled_jobs.
+//
+// Closing readings are taken at the capture time from the scheduler settings.
+// A closing capture run takes every day in the backfill window that is past
+// its capture time and has no readings yet, so a missed run is caught up by
+// the next one and by the run on startup.
+
+// A sensor value older than this at closing time is too stale to record.
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type ClosingCaptureResult = {
+  date: string;
+  captured: number;
+  existing: number;
+  skipped: number;
+};
+
+// Other instances pick up schedule changes within this long
+const JOB_SYNC_SECONDS = 60;
+
+type JobDefinition = {
+  defaultSchedule: () => string;
+  // The day a run without a date works on; absent for jobs that do not
+  // work on a single day
+  scheduledDate?: () => string;
+  // The latest day a manual run can be for; absent for jobs without dates
+  lastDueDate?: (now: Date) => string;
+  // Returns the number of rows written (or, for retention, deleted)
+  run: (date: string | null) => Promise<number>;
+};
+
+type RunTrigger = "schedule" | "manual" | "startup";
+
+export type RunJobResult =
+  | { run: JobRun }
+  | { error: "running" | "not_due" };
+
+const tasks = new Map<JobName, ScheduledTask>();
+// One run of each job at a time on this instance
+const running = new Set<JobName>();
+let jobConfig = new Map<string, ScheduledJob>();
+let syncTimer: NodeJS.Timeout | null = null;
+
+function captureHourMinute(): [number, number] {
+  const [hour, minute] = getSettings().scheduler.captureTime.split(":").map((part) => parseInt(part, 10));
+  return [hour, minute];
+}
+
+export function closingTime(date: string): Date {
+  const [hour, minute] = captureHourMinute();
+  return zonedTime(date, hour * 60 + minute);
+}
+
+// Writes one closing row per active site from the last value of each sensor
+// before the cutoff. Sites that already have a row for the day are left
+// untouched, so running the same day twice is harmless.
+export async function captureClosingReadings(date: string): Promise<ClosingCaptureResult> {
+  const cutoff = closingTime(date);
+  const sites = await storage.getActiveSites();
+  const { start, end } = dayBounds(date);
+  const alreadyCaptured = await storage.getCapturedSiteIds(date, { from: start, to: end });
+  const pending = sites.filter((site) => !alreadyCaptured.has(site.id));
+
+  const result: ClosingCaptureResult = {
+    date,
+    captured: 0,
+    existing: sites.length - pending.length,
+    skipped: 0,
+  };
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const values = await storage.getLatestSensorValues(
+    pending.map((site) => site.deviceId),
+    { from: new Date(cutoff.getTime() - LOOKBACK_MS), to: cutoff },
+  );
+  const profiles = await getTankProfiles(pending);
+
+  for (const site of pending) {
+    const reading = buildRealtimeReading(site, values.get(site.deviceId), profiles.get(site.id)!);
+    if (!reading) {
+      result.skipped++;
+      continue;
+    }
+
+    const { id: _id, createdAt: _createdAt, ...closing } = reading;
+    if (await storage.createClosingReading({ ...closing, capturedAt: cutoff, date })) {
+      result.captured++;
+    } else {
+      // Another instance got there first
+      result.existing++;
+    }
+  }
+
+  return result;
+}
+
+// The latest day whose closing time has passed
+function lastClosingDate(now: Date): string {
+  const today = todayDateString();
+  return now >= closingTime(today) ? today : shiftDate(today, -1);
+}
+
+// Days in the backfill window whose closing time has already passed, oldest
+// first. The latest of them is always included, even with no backfill.
+function dueDates(now: Date): string[] {
+  const lastDue = lastClosingDate(now);
+
+  const dates: string[] = [];
+  for (let offset = Math.max(1, getSettings().scheduler.backfillDays) - 1; offset >= 0; offset--) {
+    dates.push(shiftDate(lastDue, -offset));
+  }
+  return dates;
+}
+
+export async function backfillMissedDays(): Promise<ClosingCaptureResult[]> {
+  const results: ClosingCaptureResult[] = [];
+  for (const date of dueDates(new Date())) {
+    const result = await captureClosingReadings(date);
+    if (result.captured > 0) {
+      console.log(`Captured ${result.captured} closing readings for ${date}`);
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+const JOBS: Record<JobName, JobDefinition> = {
+  "closing-capture": {
+    defaultSchedule: () => {
+      const [hour, minute] = captureHourMinute();
+      return `${minute} ${hour} * * *`;
+    },
+    lastDueDate: lastClosingDate,
+    run: async (date) => {
+      const results = date ? [await captureClosingReadings(date)] : await backfillMissedDays();
+      return results.reduce((sum, result) => sum + result.captured, 0);
+    },
+  },
+  "cumulative-processing": {
+    defaultSchedule: () => "15 0 * * *",
+    scheduledDate: () => shiftDate(todayDateString(), -1),
+    lastDueDate: () => todayDateString(),
+    run: async (date) => (await processCumulativeReadings(date!)).readings.length,
+  },
+  "data-retention": {
+    defaultSchedule: () => "30 3 * * *",
+    run: async () => (await pruneHistory()).total,
+  },
+};
+
+export function isJobName(name: string): name is JobName {
+  return (JOB_NAMES as readonly string[]).includes(name);
+}
+
+// Five or six fields, each within range
+export function isValidSchedule(schedule: string): boolean {
+  return cron.validate(schedule);
+}
+
+function jobSchedule(name: JobName): string {
+  return jobConfig.get(name)?.schedule ?? JOBS[name].defaultSchedule();
+}
+
+function scheduleJob(name: JobName): void {
+  tasks.get(name)?.destroy();
+  tasks.delete(name);
+  if (jobConfig.get(name)?.paused) {
+    return;
+  }
+
+  const schedule = jobSchedule(name);
+  try {
+    tasks.set(name, cron.schedule(schedule, () => {
+      runJob(name, { trigger: "schedule" })
+        .then((result) => {
+          if ("error" in result) {
+            console.warn(`${JOB_LABELS[name]} skipped: the previous run is still going`);
+          }
+        })
+        .catch((error) => console.error(`${JOB_LABELS[name]} could not start:`, error));
+    }, { name, timezone: getSettings().general.timezone }));
+  } catch (error) {
+    console.error(`${JOB_LABELS[name]} has an invalid schedule "${schedule}":`, error);
+  }
+}
+
+function scheduleAll(): void {
+  for (const name of JOB_NAMES) {
+    scheduleJob(name);
+  }
+}
+
+async function readJobConfig(): Promise<Map<string, ScheduledJob>> {
+  const rows = await storage.getScheduledJobs();
+  return new Map(rows.map((row) => [row.job, row]));
+}
+
+// Reschedules the jobs another instance has changed
+async function reloadJobConfig(): Promise<void> {
+  const previous = jobConfig;
+  jobConfig = await readJobConfig();
+
+  for (const name of JOB_NAMES) {
+    const before = previous.get(name);
+    const after = jobConfig.get(name);
+    if (before?.schedule !== after?.schedule || !!before?.paused !== !!after?.paused) {
+      scheduleJob(name);
+    }
+  }
+}
+
+async function execute(name: JobName, run: JobRun): Promise<JobRun> {
+  const label = JOB_LABELS[name];
+  let finished: JobRun | undefined;
+  try {
+    const rowsWritten = await JOBS[name].run(run.runDate);
+    finished = await storage.finishJobRun(run.id, { status: "succeeded", rowsWritten, error: null });
+    console.log(`${label}${run.runDate ? ` for ${run.runDate}` : ""} finished: ${rowsWritten} rows`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    finished = await storage.finishJobRun(run.id, { status: "failed", rowsWritten: null, error: message });
+    console.error(`${label}${run.runDate ? ` for ${run.runDate}` : ""} failed:`, error);
+  } finally {
+    running.delete(name);
+  }
+  return finished ?? run;
+}
+
+// Records the run and starts it without waiting for it to finish. A date is
+// only used by jobs that work on single days; after the latest due day it is
+// refused.
+export async function runJob(
+  name: JobName,
+  options: { trigger: RunTrigger; date?: string; startedBy?: string },
+): Promise<RunJobResult> {
+  const job = JOBS[name];
+  if (running.has(name)) {
+    return { error: "running" };
+  }
+  const date = job.lastDueDate ? options.date ?? job.scheduledDate?.() ?? null : null;
+  if (date && date > job.lastDueDate!(new Date())) {
+    return { error: "not_due" };
+  }
+
+  running.add(name);
+  let run: JobRun;
+  try {
+    run = await storage.createJobRun({
+      job: name,
+      trigger: options.trigger,
+      runDate: date,
+      startedBy: options.startedBy ?? null,
+    });
+  } catch (error) {
+    running.delete(name);
+    throw error;
+  }
+
+  void execute(name, run);
+  return { run };
+}
+
+export async function getJobSummaries(): Promise<JobSummary[]> {
+  const latest = await storage.getLatestJobRuns();
+  return JOB_NAMES.map((name) => {
+    const lastRun = latest.find((run) => run.job === name) ?? null;
+    return {
+      name,
+      label: JOB_LABELS[name],
+      description: JOB_DESCRIPTIONS[name],
+      schedule: jobSchedule(name),
+      defaultSchedule: JOBS[name].defaultSchedule(),
+      paused: jobConfig.get(name)?.paused ?? false,
+      takesDate: !!JOBS[name].lastDueDate,
+      // Another instance's run shows through the recorded status
+      running: running.has(name) || lastRun?.status === "running",
+      lastRun,
+      nextRun: tasks.get(name)?.getNextRun() ?? null,
+    };
+  });
+}
+
+export function getJobRuns(name: JobName, limit: number): Promise<JobRun[]> {
+  return storage.getJobRuns(name, limit);
+}
+
+// The caller has checked the schedule with isValidSchedule
+export async function updateJob(name: JobName, update: UpdateJobRequest): Promise<JobSummary> {
+  const schedule = update.schedule === JOBS[name].defaultSchedule() ? null : update.schedule;
+  const saved = await storage.saveScheduledJob(name, schedule, update.paused);
+  jobConfig.set(name, saved);
+  scheduleJob(name);
+  return (await getJobSummaries()).find((summary) => summary.name === name)!;
+}
+
+export async function startScheduler(): Promise<void> {
+  if (syncTimer) {
+    return;
+  }
+  syncTimer = setInterval(() => {
+    reloadJobConfig().catch((error) => console.error("Scheduled job reload failed:", error));
+  }, JOB_SYNC_SECONDS * 1000);
+
+  // Runs cut off by a restart. With several instances, one restarting also
+  // marks the runs still going on the others as failed.
+  const interrupted = await storage.failUnfinishedJobRuns("Interrupted by a server restart");
+  if (interrupted > 0) {
+    console.warn(`Marked ${interrupted} interrupted job runs as failed`);
+  }
+
+  jobConfig = await readJobConfig();
+  scheduleAll();
+  onSettingsChange((settings, previous) => {
+    // The timezone applies to every schedule; the capture time to the
+    // closing capture's default
+    if (
+      settings.scheduler.captureTime !== previous.scheduler.captureTime
+      || settings.general.timezone !== previous.general.timezone
+    ) {
+      scheduleAll();
+    }
+  });
+
+  await runJob("closing-capture", { trigger: "startup" });
+}
@@ -0,0 +1,124 @@
+import { storage } from "../storage";
+import {
+  SETTINGS_SECTIONS,
+  systemSettingsSchema,
+  type SettingsResponse,
+  type SettingsSection,
+  type SystemSettings,
+  type UpdateSettingsRequest,
+} from "@shared/schema";
+
+// Other instances pick up saved settings within this long
+const SETTINGS_SYNC_SECONDS = 60;
+
+// "15m", "2h", "1d" or plain seconds, as JWT_EXPIRES_IN has always accepted
+function envMinutes(value: string | undefined, fallback: number): number {
+  const match = value?.trim().match(/^(\d+)\s*([smhd]?)$/);
+  if (!match) {
+    return fallback;
+  }
+  const seconds = parseInt(match[1], 10) * { "": 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2]]!;
+  return Math.max(1, Math.round(seconds / 60));
+}
+
+// Sections nobody has saved yet keep the values the environment gave them
+const DEFAULT_SETTINGS: SystemSettings = {
+  general: {
+    timezone: "UTC",
+  },
+  scheduler: {
+    captureTime: "23:55",
+    backfillDays: parseInt(process.env.CLOSING_BACKFILL_DAYS || "7", 10),
+  },
+  security: {
+    jwtExpiryMinutes: envMinutes(process.env.JWT_EXPIRES_IN, 15),
+    sessionTimeoutMinutes: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "7", 10) * 24 * 60,
+    maxLoginAttempts: parseInt(process.env.MAX_LOGIN_ATTEMPTS || "5", 10),
+    passwordMinLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8", 10),
+    passwordRequireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+    passwordRequireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== "false",
+    passwordRequireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== "false",
+    passwordRequireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+    passwordHistory: parseInt(process.env.PASSWORD_HISTORY || "5", 10),
+  },
+  notifications: {
+    portalUrl: (process.env.PORTAL_URL || "").replace(/\/+$/, ""),
+    emailMaxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || "5", 10),
+    webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+  },
+};
+
+type SettingsListener = (settings: SystemSettings, previous: SystemSettings) => void;
+
+let current: SystemSettings = DEFAULT_SETTINGS;
+let updatedAt = Object.fromEntries(SETTINGS_SECTIONS.map((section) => [section, null])) as SettingsResponse["updatedAt"];
+const listeners: SettingsListener[] = [];
+let syncTimer: NodeJS.Timeout | null = null;
+
+// The settings in effect. Synchronous so hot paths such as signing a token
+// need no query; the copy is refreshed by loadSettings.
+export function getSettings(): SystemSettings {
+  return current;
+}
+
+export function getSettingsResponse(): SettingsResponse {
+  return { settings: current, updatedAt };
+}
+
+// Called after settings change, whether saved here or by another instance
+export function onSettingsChange(listener: SettingsListener): void {
+  listeners.push(listener);
+}
+
+// Reads every saved section over the defaults. A section that no longer
+// passes its schema, e.g. after a field was added, falls back to them.
+export async function loadSettings(): Promise<SystemSettings> {
+  const rows = await storage.getSystemSettings();
+  const next = { ...DEFAULT_SETTINGS } as Record<SettingsSection, unknown>;
+  const nextUpdatedAt = { ...updatedAt };
+
+  for (const section of SETTINGS_SECTIONS) {
+    const row = rows.find((candidate) => candidate.section === section);
+    nextUpdatedAt[section] = row?.updatedAt ?? null;
+    if (!row) {
+      continue;
+    }
+    const parsed = systemSettingsSchema.shape[section].safeParse({ ...DEFAULT_SETTINGS[section], ...(row.values as object) });
+    if (parsed.success) {
+      next[section] = parsed.data;
+    } else {
+      console.warn(`Saved ${section} settings are invalid - using the defaults:`, parsed.error.errors[0]?.message);
+    }
+  }
+
+  const previous = current;
+  current = next as SystemSettings;
+  updatedAt = nextUpdatedAt;
+  if (JSON.stringify(previous) !== JSON.stringify(current)) {
+    for (const listener of listeners) {
+      try {
+        listener(current, previous);
+      } catch (error) {
+        console.error("Settings listener failed:", error);
+      }
+    }
+  }
+  return current;
+}
+
+// Saves whole sections; the caller has validated them with updateSettingsSchema
+export async function saveSettings(updates: UpdateSettingsRequest): Promise<SettingsResponse> {
+  await storage.saveSystemSettings(updates);
+  await loadSettings();
+  return getSettingsResponse();
+}
+
+export function startSettingsSync(): void {
+  if (syncTimer) {
+    return;
+  }
+
+  syncTimer = setInterval(() => {
+    loadSettings().catch((error) => console.error("Settings reload failed:", error));
+  }, SETTINGS_SYNC_SECONDS * 1000);
+}
@@ -0,0 +1,247 @@
+import { storage, type LatestSensorValue } from "../storage";
+import { isStateOn } from "./dashboard";
+import { downsample } from "./downsample";
+import { getTankProfiles, levelToVolume, usesLevelForVolume, type TankProfile } from "./tank-volume";
+import {
+  SENSOR_NAMES,
+  type DailyClosingReading,
+  type ReadingHistoryResponse,
+  type SensorName,
+  type SensorReading,
+  type Site,
+  type SiteHistoryPoint,
+  type SiteHistoryResponse,
+  type User,
+} from "@shared/schema";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Points per series on the site detail page; plenty for a chart a few
+// thousand pixels wide.
+const SITE_HISTORY_POINTS = 1000;
+
+const STATE_SENSORS: string[] = [SENSOR_NAMES.generatorState, SENSOR_NAMES.zesaState];
+
+export type HistoryRange = {
+  startDate: string;
+  endDate: string;
+  from: Date;
+  to: Date;
+};
+
+type HistorySeries = Pick<
+  SiteHistoryResponse,
+  "fuelLevel" | "fuelVolume" | "temperature" | "generatorState" | "zesaState"
+>;
+
+function decimal(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function stateValue(raw: string): number {
+  return isStateOn(raw) ? 1 : 0;
+}
+
+function state(value: string | null): number | null {
+  return value === null ? null : stateValue(value);
+}
+
+// Where each sensor's value is kept in a daily closing reading.
+const CLOSING_FIELDS: Record<SensorName, { unit: string; value: (reading: DailyClosingReading) => number | null }> = {
+  [SENSOR_NAMES.fuelLevel]: { unit: "%", value: (reading) => decimal(reading.fuelLevel) },
+  [SENSOR_NAMES.fuelVolume]: { unit: "L", value: (reading) => decimal(reading.fuelVolume) },
+  [SENSOR_NAMES.fuelTemp]: { unit: "°C", value: (reading) => decimal(reading.temperature) },
+  [SENSOR_NAMES.fuelTemperature]: { unit: "°C", value: (reading) => decimal(reading.temperature) },
+  [SENSOR_NAMES.generatorState]: { unit: "", value: (reading) => state(reading.generatorState) },
+  [SENSOR_NAMES.zesaState]: { unit: "", value: (reading) => state(reading.zesaState) },
+};
+
+async function findVisibleSite(user: Pick<User, "id" | "role">, siteId: number): Promise<Site | undefined> {
+  const sites = await storage.getSitesForUser(user);
+  return sites.find((candidate) => candidate.id === siteId);
+}
+
+// Samples of one or more sensors, led by the value that was in effect when
+// the range opened so state timelines start in the right place.
+function toPoints(
+  readings: SensorReading[],
+  names: string[],
+  previous: Map<string, LatestSensorValue> | undefined,
+  from: Date,
+  toValue: (raw: string) => number,
+): SiteHistoryPoint[] {
+  const points: SiteHistoryPoint[] = [];
+
+  const carried = names.map((name) => previous?.get(name)).find((value) => value !== undefined);
+  if (carried) {
+    points.push({ time: from, value: toValue(carried.value) });
+  }
+
+  for (const reading of readings) {
+    if (names.includes(reading.sensorName)) {
+      points.push({ time: reading.time, value: toValue(reading.value) });
+    }
+  }
+  return points.filter((point) => !isNaN(point.value));
+}
+
+function closingPoints(
+  readings: DailyClosingReading[],
+  toValue: (reading: DailyClosingReading) => number | null,
+): SiteHistoryPoint[] {
+  return readings
+    .map((reading) => ({ time: reading.capturedAt, value: toValue(reading) }))
+    .filter((point): point is SiteHistoryPoint => point.value !== null && !isNaN(point.value));
+}
+
+function buildRawSeries(
+  site: Site,
+  readings: SensorReading[],
+  previous: Map<string, LatestSensorValue> | undefined,
+  profile: TankProfile,
+  from: Date,
+): HistorySeries {
+  const points = (names: string[], toValue: (raw: string) => number) =>
+    toPoints(readings, names, previous, from, toValue);
+
+  // Same volume source as the daily totals: the tank geometry where there is
+  // one, then the device's volume sensor, then level x capacity.
+  const capacity = parseFloat(site.fuelCapacity) || 0;
+  const fuelLevel = points([SENSOR_NAMES.fuelLevel], parseFloat);
+  const sensorVolume = points([SENSOR_NAMES.fuelVolume], parseFloat);
+  let fuelVolume: SiteHistoryPoint[];
+  if (fuelLevel.length > 0 && usesLevelForVolume(profile)) {
+    fuelVolume = fuelLevel.map((point) => ({ time: point.time, value: levelToVolume(profile, point.value) ?? NaN }));
+  } else if (sensorVolume.length > 0) {
+    fuelVolume = sensorVolume;
+  } else {
+    fuelVolume = fuelLevel.map((point) => ({ time: point.time, value: (point.value / 100) * capacity }));
+  }
+
+  return {
+    fuelLevel,
+    fuelVolume: fuelVolume.filter((point) => !isNaN(point.value)),
+    temperature: points([SENSOR_NAMES.fuelTemperature, SENSOR_NAMES.fuelTemp], parseFloat),
+    generatorState: points([SENSOR_NAMES.generatorState], stateValue),
+    zesaState: points([SENSOR_NAMES.zesaState], stateValue),
+  };
+}
+
+function buildClosingSeries(readings: DailyClosingReading[]): HistorySeries {
+  return {
+    fuelLevel: closingPoints(readings, CLOSING_FIELDS[SENSOR_NAMES.fuelLevel].value),
+    fuelVolume: closingPoints(readings, CLOSING_FIELDS[SENSOR_NAMES.fuelVolume].value),
+    temperature: closingPoints(readings, CLOSING_FIELDS[SENSOR_NAMES.fuelTemperature].value),
+    generatorState: closingPoints(readings, CLOSING_FIELDS[SENSOR_NAMES.generatorState].value),
+    zesaState: closingPoints(readings, CLOSING_FIELDS[SENSOR_NAMES.zesaState].value),
+  };
+}
+
+function downsampleSeries(series: HistorySeries, threshold: number): HistorySeries {
+  return {
+    fuelLevel: downsample(series.fuelLevel, threshold, false),
+    fuelVolume: downsample(series.fuelVolume, threshold, false),
+    temperature: downsample(series.temperature, threshold, false),
+    generatorState: downsample(series.generatorState, threshold, true),
+    zesaState: downsample(series.zesaState, threshold, true),
+  };
+}
+
+// Returns null when the user cannot see the site. Only admins get raw sensor
+// data; everyone else sees the same closing readings as on the dashboard.
+export async function getSiteHistory(
+  user: Pick<User, "id" | "role">,
+  siteId: number,
+  range: HistoryRange,
+): Promise<SiteHistoryResponse | null> {
+  const site = await findVisibleSite(user, siteId);
+  if (!site) {
+    return null;
+  }
+
+  const { startDate, endDate, from, to } = range;
+  let source: SiteHistoryResponse["source"];
+  let series: HistorySeries;
+  if (user.role === "admin") {
+    const readings = await storage.getSensorReadings(site.deviceId, from, to);
+    const previous = await storage.getLatestSensorValues([site.deviceId], {
+      from: new Date(from.getTime() - MS_PER_DAY),
+      to: from,
+    });
+    const profiles = await getTankProfiles([site]);
+    source = "raw";
+    series = buildRawSeries(site, readings, previous.get(site.deviceId), profiles.get(site.id)!, from);
+  } else {
+    source = "closing";
+    series = buildClosingSeries(await storage.getClosingReadings(site.id, from, to));
+  }
+
+  return {
+    site,
+    source,
+    from,
+    to,
+    ...downsampleSeries(series, SITE_HISTORY_POINTS),
+    refuels: await storage.getRefuelEvents([site.id], from, to),
+    incidents: await storage.getFuelIncidents([site.id], from, to),
+    dailyTotals: await storage.getCumulativeReadings([site.id], startDate, endDate),
+  };
+}
+
+// Selected sensors of a site, each thinned to at most `points` samples.
+// Returns null when the user cannot see the site; as above, only admins get
+// raw sensor samples.
+export async function getReadingHistory(
+  user: Pick<User, "id" | "role">,
+  siteId: number,
+  sensorNames: SensorName[],
+  range: HistoryRange,
+  points: number,
+): Promise<ReadingHistoryResponse | null> {
+  const site = await findVisibleSite(user, siteId);
+  if (!site) {
+    return null;
+  }
+
+  const { from, to } = range;
+  let source: ReadingHistoryResponse["source"];
+  let series: ReadingHistoryResponse["series"];
+  if (user.role === "admin") {
+    // One bucket per point asked for keeps at most four readings a point to
+    // downsample, however long the range.
+    const bucketMs = Math.ceil((to.getTime() - from.getTime()) / points);
+    const { readings, sampleCounts } = await storage.getSensorReadingExtremes(
+      site.deviceId,
+      from,
+      to,
+      sensorNames,
+      bucketMs,
+    );
+    source = "raw";
+    series = sensorNames.map((sensorName) => {
+      const samples = readings.filter((reading) => reading.sensorName === sensorName);
+      const isState = STATE_SENSORS.includes(sensorName);
+      const values = toPoints(samples, [sensorName], undefined, from, isState ? stateValue : parseFloat);
+      return {
+        sensorName,
+        unit: samples[0]?.unit ?? "",
+        sampleCount: sampleCounts.get(sensorName) ?? 0,
+        points: downsample(values, points, isState),
+      };
+    });
+  } else {
+    const readings = await storage.getClosingReadings(site.id, from, to);
+    source = "closing";
+    series = sensorNames.map((sensorName) => {
+      const field = CLOSING_FIELDS[sensorName];
+      const values = closingPoints(readings, field.value);
+      return {
+        sensorName,
+        unit: field.unit,
+        sampleCount: values.length,
+        points: downsample(values, points, STATE_SENSORS.includes(sensorName)),
+      };
+    });
+  }
+
+  return { siteId: site.id, source, from, to, series };
+}
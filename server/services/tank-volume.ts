@@ -0,0 +1,97 @@
+import { storage } from "../storage";
+import type { Site, TankProfileResponse, TankShape, TankStrappingPoint } from "@shared/schema";
+
+export type StrappingPoint = { level: number; volume: number };
+
+export type TankProfile = {
+  shape: TankShape;
+  fullVolume: number; // liters at 100%
+  points: StrappingPoint[]; // sorted by level, only used by 'table'
+};
+
+// Volume of a cylinder in liters from millimetre dimensions.
+function cylinderLiters(diameterMm: number, lengthMm: number): number {
+  return (Math.PI * (diameterMm / 2) ** 2 * lengthMm) / 1_000_000;
+}
+
+// Share of a horizontal cylinder that is full when filled to the given share
+// of its diameter: the area of the circular segment over the whole circle.
+function horizontalCylinderFraction(heightFraction: number): number {
+  const theta = 2 * Math.acos(1 - 2 * heightFraction);
+  return (theta - Math.sin(theta)) / (2 * Math.PI);
+}
+
+function interpolate(points: StrappingPoint[], level: number): number {
+  if (level <= points[0].level) return points[0].volume;
+  const last = points[points.length - 1];
+  if (level >= last.level) return last.volume;
+
+  let upper = 1;
+  while (points[upper].level < level) upper++;
+  const a = points[upper - 1];
+  const b = points[upper];
+  return a.volume + ((level - a.level) / (b.level - a.level)) * (b.volume - a.volume);
+}
+
+export function buildTankProfile(site: Site, strapping: TankStrappingPoint[] = []): TankProfile {
+  const shape = site.tankShape as TankShape;
+  const diameter = parseFloat(site.tankDiameterMm ?? "");
+  const length = parseFloat(site.tankLengthMm ?? "");
+  const points = strapping
+    .map((point) => ({ level: parseFloat(point.levelPercent), volume: parseFloat(point.volumeLiters) }))
+    .sort((a, b) => a.level - b.level);
+
+  let fullVolume = parseFloat(site.fuelCapacity) || 0;
+  if (shape === "horizontal_cylinder" && diameter > 0 && length > 0) {
+    fullVolume = cylinderLiters(diameter, length);
+  } else if (shape === "table" && points.length > 0) {
+    fullVolume = points[points.length - 1].volume;
+  }
+
+  return { shape, fullVolume, points };
+}
+
+// Whether volumes for this tank are derived from the level reading rather
+// than taken from the device's own volume sensor.
+export function usesLevelForVolume(profile: TankProfile): boolean {
+  if (profile.shape === "table") return profile.points.length >= 2;
+  return profile.shape === "linear" || profile.shape === "horizontal_cylinder";
+}
+
+// Liters in the tank at the given level percentage, or null when the tank
+// relies on the sensor's own volume reading.
+export function levelToVolume(profile: TankProfile, levelPercent: number): number | null {
+  if (!usesLevelForVolume(profile) || isNaN(levelPercent)) {
+    return null;
+  }
+
+  const level = Math.max(0, Math.min(100, levelPercent));
+  switch (profile.shape) {
+    case "horizontal_cylinder":
+      return profile.fullVolume * horizontalCylinderFraction(level / 100);
+    case "table":
+      return interpolate(profile.points, level);
+    default:
+      return (level / 100) * profile.fullVolume;
+  }
+}
+
+// Profiles for the given sites; strapping tables are only loaded for the
+// sites that use one.
+export async function getTankProfiles(sites: Site[]): Promise<Map<number, TankProfile>> {
+  const tableSites = sites.filter((site) => site.tankShape === "table").map((site) => site.id);
+  const strapping = await storage.getStrappingPoints(tableSites);
+  return new Map(sites.map((site) => [site.id, buildTankProfile(site, strapping.get(site.id))]));
+}
+
+// The stored geometry of a tank as shown in the calibration dialog.
+export async function describeTankProfile(site: Site): Promise<TankProfileResponse> {
+  const strapping = await storage.getStrappingPoints([site.id]);
+  return {
+    tankShape: site.tankShape,
+    tankDiameterMm: site.tankDiameterMm,
+    tankLengthMm: site.tankLengthMm,
+    fuelCapacity: site.fuelCapacity,
+    points: strapping.get(site.id) ?? [],
+  };
+}
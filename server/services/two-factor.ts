@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { storage } from "../storage";
+import type { TwoFactorSetupResponse, TwoFactorStatusResponse, User } from "@shared/schema";
+
+// Shown as the account's name in the authenticator app
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Fuel Monitor";
+// RFC 6238 defaults, which every authenticator app understands
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side still count, to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type SecondFactor = "totp" | "recovery_code";
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) for one counter value, which for TOTP is the time step
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+function codesMatch(expected: string, given: string): boolean {
+  return expected.length === given.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(given));
+}
+
+// The time step a code was generated for, or null when it matches none in the window
+function matchingStep(secret: string, code: string): number | null {
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (codesMatch(hotp(key, step), code)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+// Ten random characters each, shown as xxxxx-xxxxx
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Accepts the code for the user's secret once per time step
+async function verifyTotp(userId: number, code: string): Promise<boolean> {
+  const stored = await storage.getTwoFactorSecret(userId);
+  const step = stored && /^\d+$/.test(code) ? matchingStep(stored.secret, code) : null;
+  return step !== null && (await storage.useTotpStep(userId, step));
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  return (await storage.getTwoFactorRequiredRoles()).includes(role);
+}
+
+export async function getTwoFactorStatus(user: Pick<User, "id" | "role" | "twoFactorEnabledAt">): Promise<TwoFactorStatusResponse> {
+  return {
+    enabled: !!user.twoFactorEnabledAt,
+    required: await isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: user.twoFactorEnabledAt ? await storage.countRecoveryCodes(user.id) : 0,
+  };
+}
+
+// Starts enrolment with a fresh secret. It only takes effect once the user
+// confirms a code from the app with enableTwoFactor.
+export async function startTwoFactorSetup(user: Pick<User, "id" | "username">): Promise<TwoFactorSetupResponse> {
+  const secret = base32Encode(crypto.randomBytes(20));
+  await storage.saveTwoFactorSecret(user.id, secret);
+
+  // encodeURIComponent rather than URLSearchParams: some apps show a "+" literally
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}`
+    + `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Turns 2FA on when the code matches the secret from startTwoFactorSetup.
+// Returns the new recovery codes, or null for a wrong code.
+export async function enableTwoFactor(userId: number, code: string): Promise<string[] | null> {
+  if (!(await verifyTotp(userId, code))) {
+    return null;
+  }
+  const codes = generateRecoveryCodes();
+  await storage.enableTwoFactor(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// The second sign-in step: a code from the app, or else a recovery code,
+// which is used up. Returns which one matched, or null.
+export async function verifySecondFactor(userId: number, code: string): Promise<SecondFactor | null> {
+  if (await verifyTotp(userId, code.replace(/\s/g, ""))) {
+    return "totp";
+  }
+  return (await storage.useRecoveryCode(userId, hashRecoveryCode(code))) ? "recovery_code" : null;
+}
+
+// Only a code from the app proves it is still at hand; changing 2FA settings
+// does not accept recovery codes.
+export function verifyAuthenticatorCode(userId: number, code: string): Promise<boolean> {
+  return verifyTotp(userId, code);
+}
+
+// Invalidates every earlier recovery code
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
@@ -0,0 +1,266 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { storage } from "../storage";
+import type { EscalationRecipient } from "./escalation";
+import { getSettings } from "./settings";
+import type {
+  Alert,
+  RefuelEvent,
+  Site,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "@shared/schema";
+
+// A failed delivery is retried after 30s, 1m, 2m, ... until it has been tried
+// webhookMaxAttempts times (notification settings), then left in the history as failed.
+const WEBHOOK_TIMEOUT_SECONDS = parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || "10", 10);
+const RETRY_BASE_MS = 30 * 1000;
+const QUEUE_INTERVAL_MS = 30 * 1000;
+const QUEUE_BATCH_SIZE = 50;
+// How long an instance has to send the deliveries it claimed before another
+// instance may take them over; a full batch of timeouts fits well inside it.
+const CLAIM_MS = 15 * 60 * 1000;
+// Response bodies are only kept to explain a failure
+const ERROR_BODY_LENGTH = 200;
+
+const TEST_EVENT = "webhook.test";
+
+let queueTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// Receivers check X-Webhook-Signature against an HMAC-SHA256 of
+// "<X-Webhook-Timestamp>.<raw body>" keyed with the webhook's secret.
+export function signPayload(secret: string, timestamp: number, payload: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex")}`;
+}
+
+function siteData(site: Site) {
+  return { id: site.id, name: site.name, location: site.location, deviceId: site.deviceId };
+}
+
+function decimal(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function alertData(alert: Alert, site: Site) {
+  return {
+    alert: {
+      id: alert.id,
+      type: alert.type,
+      severity: alert.severity,
+      status: alert.status,
+      message: alert.message,
+      value: decimal(alert.value),
+      threshold: decimal(alert.threshold),
+      openedAt: alert.openedAt,
+      resolvedAt: alert.resolvedAt,
+    },
+    site: siteData(site),
+  };
+}
+
+function buildPayload(eventId: string, event: string, data: object): string {
+  return JSON.stringify({ id: eventId, event, createdAt: new Date().toISOString(), data });
+}
+
+async function failureReason(response: Response): Promise<string> {
+  const body = await response.text().catch(() => "");
+  const reason = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`;
+  return body ? `${reason}: ${body.slice(0, ERROR_BODY_LENGTH)}` : reason;
+}
+
+// One attempt at a delivery, recording the outcome on its row. Any 2xx
+// response counts as delivered.
+async function deliver(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let lastError: string;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "FuelMonitor-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_SECONDS * 1000),
+    });
+    responseStatus = response.status;
+    if (response.ok) {
+      return (await storage.updateWebhookDelivery(delivery.id, {
+        status: "delivered",
+        attempts,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      }))!;
+    }
+    lastError = await failureReason(response);
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  const exhausted = attempts >= getSettings().notifications.webhookMaxAttempts;
+  if (exhausted) {
+    console.error(`Giving up on webhook delivery ${delivery.id} to ${webhook.name} after ${attempts} attempts: ${lastError}`);
+  }
+  return (await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    responseStatus,
+    lastError,
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+  }))!;
+}
+
+// Sends whatever is due, oldest first, claiming it so no other instance sends
+// it too. Deliveries for webhooks that were disabled in the meantime are dropped.
+export async function processWebhookQueue(): Promise<void> {
+  if (processing) {
+    return;
+  }
+
+  processing = true;
+  try {
+    const now = new Date();
+    const due = await storage.claimDueWebhookDeliveries(now, QUEUE_BATCH_SIZE, new Date(now.getTime() + CLAIM_MS));
+    if (due.length === 0) {
+      return;
+    }
+
+    const webhooks = new Map((await storage.getWebhooks()).map((webhook) => [webhook.id, webhook]));
+    for (const delivery of due) {
+      const webhook = webhooks.get(delivery.webhookId);
+      if (!webhook?.isActive) {
+        await storage.updateWebhookDelivery(delivery.id, { status: "failed", lastError: "Webhook is disabled" });
+        continue;
+      }
+      await deliver(delivery, webhook);
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+// Queues the events for every active webhook subscribed to them and sends
+// them straight away.
+async function publishEvents(events: Array<{ event: WebhookEvent; data: object }>): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  const webhooks = (await storage.getWebhooks()).filter((webhook) => webhook.isActive);
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const deliveries = events.flatMap(({ event, data }) => {
+    const subscribers = webhooks.filter((webhook) => webhook.events.includes(event));
+    const eventId = randomUUID();
+    const payload = buildPayload(eventId, event, data);
+    return subscribers.map((webhook) => ({ webhookId: webhook.id, eventId, event, payload }));
+  });
+
+  if (deliveries.length > 0) {
+    await storage.queueWebhookDeliveries(deliveries);
+    await processWebhookQueue();
+  }
+}
+
+export async function publishAlertWebhooks(opened: Alert[], resolved: Alert[]): Promise<void> {
+  if (opened.length + resolved.length === 0) {
+    return;
+  }
+
+  const sites = new Map((await storage.getSites()).map((site) => [site.id, site]));
+  const events: Array<{ event: WebhookEvent; data: object }> = [];
+  for (const [alerts, event, deviceEvent] of [
+    [opened, "alert.opened", "device.offline"],
+    [resolved, "alert.resolved", "device.online"],
+  ] as const) {
+    for (const alert of alerts) {
+      const site = sites.get(alert.siteId);
+      if (!site) continue;
+
+      const data = alertData(alert, site);
+      events.push({ event, data });
+      if (alert.type === "device_offline") {
+        events.push({ event: deviceEvent, data });
+      }
+    }
+  }
+  await publishEvents(events);
+}
+
+export async function publishEscalationWebhook(
+  alert: Alert,
+  site: Site,
+  level: number,
+  recipients: EscalationRecipient[],
+): Promise<void> {
+  await publishEvents([{
+    event: "alert.escalated",
+    data: {
+      ...alertData(alert, site),
+      escalation: {
+        level,
+        recipients: recipients.map(({ user, target }) => ({ id: user.id, fullName: user.fullName, role: user.role, target })),
+      },
+    },
+  }]);
+}
+
+export async function publishRefuelWebhooks(site: Site, refuels: RefuelEvent[]): Promise<void> {
+  await publishEvents(refuels.map((refuel) => ({
+    event: "refuel.detected" as const,
+    data: {
+      refuel: {
+        id: refuel.id,
+        startedAt: refuel.startedAt,
+        endedAt: refuel.endedAt,
+        litersAdded: parseFloat(refuel.litersAdded),
+        levelBefore: decimal(refuel.levelBefore),
+        levelAfter: decimal(refuel.levelAfter),
+      },
+      site: siteData(site),
+    },
+  })));
+}
+
+// Sends a test event to one webhook straight away, whatever it subscribes to.
+export async function sendTestWebhook(webhook: Webhook, requestedBy: string): Promise<WebhookDelivery> {
+  const eventId = randomUUID();
+  const [delivery] = await storage.queueWebhookDeliveries([{
+    webhookId: webhook.id,
+    eventId,
+    event: TEST_EVENT,
+    payload: buildPayload(eventId, TEST_EVENT, { message: `Test event sent by ${requestedBy}` }),
+    // Claimed by this instance from the start, as the queue would
+    status: "sending",
+    nextAttemptAt: new Date(Date.now() + CLAIM_MS),
+  }]);
+  return deliver(delivery, webhook);
+}
+
+export function startWebhookDispatcher(): void {
+  if (queueTimer) {
+    return;
+  }
+
+  const run = () => {
+    processWebhookQueue().catch((error) => console.error("Webhook queue failed:", error));
+  };
+  queueTimer = setInterval(run, QUEUE_INTERVAL_MS);
+  console.log(`Webhook dispatcher started - retrying failed deliveries up to ${getSettings().notifications.webhookMaxAttempts} times`);
+  // Pick up anything left pending by the last run
+  run();
+}
@@ -0,0 +1,1619 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lte,
+  lt,
+  ne,
+  notInArray,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "./db";
+import {
+  users,
+  sites,
+  userSiteAssignments,
+  dailyClosingReadings,
+  adminPreferences,
+  cumulativeReadings,
+  sensorReadings,
+  refreshTokens,
+  refuelEvents,
+  fuelIncidents,
+  quarantinedReadings,
+  tankStrappingPoints,
+  alertRules,
+  alerts,
+  emailLog,
+  webhooks,
+  webhookDeliveries,
+  onCallRotations,
+  escalationPolicies,
+  escalationSteps,
+  alertEscalations,
+  auditEvents,
+  passwordResetTokens,
+  passwordHistory,
+  twoFactorSecrets,
+  recoveryCodes,
+  twoFactorPolicy,
+  systemSettings,
+  scheduledJobs,
+  jobRuns,
+  type User,
+  type InsertUser,
+  type Site,
+  type InsertSite,
+  type SiteAssignee,
+  type DailyClosingReading,
+  type InsertDailyClosingReading,
+  type CumulativeReading,
+  type InsertCumulativeReading,
+  type SensorReading,
+  type InsertSensorReading,
+  type QuarantinedReading,
+  type TankStrappingPoint,
+  type UpdateTankProfileRequest,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type AdminPreference,
+  type TwoFactorSecret,
+  type SystemSettingsRow,
+  type ScheduledJob,
+  type JobRun,
+  type InsertJobRun,
+  type RefuelEvent,
+  type InsertRefuelEvent,
+  type FuelIncident,
+  type InsertFuelIncident,
+  type AlertRule,
+  type InsertAlertRule,
+  type Alert,
+  type InsertAlert,
+  type AlertStatus,
+  type EmailLogEntry,
+  type InsertEmailLogEntry,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type OnCallRotation,
+  type InsertOnCallRotation,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type EscalationPolicyWithSteps,
+  type EscalationStepRequest,
+  type AlertEscalation,
+  type InsertAlertEscalation,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditLogResponse,
+} from "@shared/schema";
+
+export type UserSiteSummary = {
+  siteId: number;
+  siteName: string;
+  siteLocation: string;
+};
+
+export type LatestSensorValue = {
+  value: string;
+  unit: string;
+  time: Date;
+};
+
+// deviceId -> sensorName -> latest value
+export type LatestSensorValues = Map<string, Map<string, LatestSensorValue>>;
+
+export type SensorReadingExtremes = {
+  readings: SensorReading[];
+  // sensorName -> number of readings in the range
+  sampleCounts: Map<string, number>;
+};
+
+export type AuditEventFilter = {
+  action?: string;
+  actorId?: number;
+  from?: Date;
+  to?: Date; // exclusive
+  search?: string; // actor name, target or IP address
+};
+
+// Rows removed by one retention run, by what they were
+export type PruneCounts = {
+  emailLog: number;
+  webhookDeliveries: number;
+  quarantinedReadings: number;
+  jobRuns: number;
+  expiredTokens: number;
+};
+
+export interface IStorage {
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+  updateLastLogin(id: number): Promise<void>;
+  recordFailedLogin(id: number, countSince: Date): Promise<User | undefined>;
+  lockUser(id: number, until: Date): Promise<void>;
+  unlockUser(id: number): Promise<User | undefined>;
+
+  // Refresh tokens
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  revokeRefreshToken(id: number): Promise<boolean>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+  revokeUserRefreshTokens(userId: number): Promise<void>;
+
+  // Password resets and history
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined>;
+  usePasswordResetToken(id: number): Promise<boolean>;
+  getPasswordHistory(userId: number, limit: number): Promise<string[]>;
+  addPasswordHistory(userId: number, passwordHash: string, keep: number): Promise<void>;
+
+  // Admin preferences
+  getAdminPreference(userId: number): Promise<AdminPreference | undefined>;
+  setViewMode(userId: number, viewMode: string): Promise<AdminPreference>;
+
+  // Two-factor authentication
+  getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined>;
+  saveTwoFactorSecret(userId: number, secret: string): Promise<void>;
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  enableTwoFactor(userId: number, codeHashes: string[]): Promise<void>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  resetTwoFactor(userId: number): Promise<User | undefined>;
+  getTwoFactorRequiredRoles(): Promise<string[]>;
+  setTwoFactorRequiredRoles(roles: string[]): Promise<void>;
+
+  // System settings
+  getSystemSettings(): Promise<SystemSettingsRow[]>;
+  saveSystemSettings(sections: Record<string, unknown>): Promise<void>;
+
+  // Sites
+  getSites(): Promise<Site[]>;
+  getActiveSites(): Promise<Site[]>;
+  getSite(id: number): Promise<Site | undefined>;
+  getSiteByDeviceId(deviceId: string): Promise<Site | undefined>;
+  createSite(site: InsertSite): Promise<Site>;
+  updateSite(id: number, updates: Partial<InsertSite>): Promise<Site | undefined>;
+  getSitesForUser(user: Pick<User, "id" | "role">): Promise<Site[]>;
+
+  // Tank geometry
+  getStrappingPoints(siteIds: number[]): Promise<Map<number, TankStrappingPoint[]>>;
+  updateTankProfile(siteId: number, profile: UpdateTankProfileRequest): Promise<Site | undefined>;
+
+  // Site assignments
+  getUserSites(userId: number): Promise<UserSiteSummary[]>;
+  setUserSites(userId: number, siteIds: number[]): Promise<void>;
+  getSiteAssignments(): Promise<SiteAssignee[]>;
+
+  // Readings
+  getLatestClosingReadings(siteIds: number[]): Promise<Map<number, DailyClosingReading>>;
+  getClosingReadings(siteId: number, from: Date, to: Date): Promise<DailyClosingReading[]>;
+  getLatestSensorValues(deviceIds: string[], window?: { from: Date; to: Date }): Promise<LatestSensorValues>;
+  getSensorReadings(deviceId: string, from: Date, to: Date, sensorNames?: string[]): Promise<SensorReading[]>;
+  getSensorReadingExtremes(
+    deviceId: string,
+    from: Date,
+    to: Date,
+    sensorNames: string[],
+    bucketMs: number,
+  ): Promise<SensorReadingExtremes>;
+
+  // Daily closing capture
+  getCapturedSiteIds(date: string, bounds: { from: Date; to: Date }): Promise<Set<number>>;
+  createClosingReading(reading: InsertDailyClosingReading): Promise<boolean>;
+
+  // Cumulative readings
+  getCumulativeReadings(siteIds: number[], startDate: string, endDate: string): Promise<CumulativeReading[]>;
+  saveCumulativeReading(reading: InsertCumulativeReading): Promise<CumulativeReading>;
+
+  // Refuel events
+  getRefuelEvents(siteIds: number[], from: Date, to: Date): Promise<RefuelEvent[]>;
+  replaceRefuelEvents(siteId: number, from: Date, to: Date, events: InsertRefuelEvent[]): Promise<RefuelEvent[]>;
+
+  // Fuel incidents
+  getFuelIncidents(siteIds: number[], from: Date, to: Date): Promise<FuelIncident[]>;
+  getLatestFuelIncidents(siteIds: number[], since: Date): Promise<Map<number, FuelIncident>>;
+  replaceFuelIncidents(siteId: number, from: Date, to: Date, incidents: InsertFuelIncident[]): Promise<FuelIncident[]>;
+
+  // Alert rules
+  getAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: number, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: number): Promise<boolean>;
+
+  // Alerts
+  getAlert(id: number): Promise<Alert | undefined>;
+  getUnresolvedAlerts(siteIds: number[]): Promise<Alert[]>;
+  getAlerts(siteIds: number[], statuses: AlertStatus[], from: Date, to: Date): Promise<Alert[]>;
+  openAlert(alert: InsertAlert): Promise<Alert | undefined>;
+  acknowledgeAlert(id: number, userId: number): Promise<Alert | undefined>;
+  resolveAlerts(ids: number[], resolvedAt: Date): Promise<Alert[]>;
+
+  // Escalation
+  getOnCallRotations(): Promise<OnCallRotation[]>;
+  getOnCallRotation(id: number): Promise<OnCallRotation | undefined>;
+  createOnCallRotation(rotation: InsertOnCallRotation): Promise<OnCallRotation>;
+  updateOnCallRotation(id: number, updates: Partial<InsertOnCallRotation>): Promise<OnCallRotation | undefined>;
+  deleteOnCallRotation(id: number): Promise<boolean>;
+  getEscalationPolicies(): Promise<EscalationPolicyWithSteps[]>;
+  getEscalationPolicy(id: number): Promise<EscalationPolicyWithSteps | undefined>;
+  createEscalationPolicy(policy: InsertEscalationPolicy, steps: EscalationStepRequest[]): Promise<EscalationPolicyWithSteps>;
+  updateEscalationPolicy(
+    id: number,
+    updates: Partial<InsertEscalationPolicy>,
+    steps: EscalationStepRequest[],
+  ): Promise<EscalationPolicyWithSteps | undefined>;
+  deleteEscalationPolicy(id: number): Promise<boolean>;
+  getUnacknowledgedAlerts(): Promise<Alert[]>;
+  recordEscalation(alertId: number, level: number, notifications: InsertAlertEscalation[]): Promise<Alert | undefined>;
+  getAlertEscalations(alertIds: number[]): Promise<AlertEscalation[]>;
+
+  // Email notifications
+  getAlertRecipients(siteId: number): Promise<User[]>;
+  queueEmails(emails: InsertEmailLogEntry[]): Promise<EmailLogEntry[]>;
+  claimDueEmails(now: Date, limit: number, claimUntil: Date): Promise<EmailLogEntry[]>;
+  updateEmail(id: number, updates: Partial<InsertEmailLogEntry>): Promise<EmailLogEntry | undefined>;
+  getEmailLog(limit: number): Promise<EmailLogEntry[]>;
+
+  // Webhooks
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, updates: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  queueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(now: Date, limit: number, claimUntil: Date): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+
+  // Audit log
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filter: AuditEventFilter, limit: number, offset: number): Promise<AuditLogResponse>;
+
+  // Scheduled jobs
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  saveScheduledJob(job: string, schedule: string | null, paused: boolean): Promise<ScheduledJob>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  finishJobRun(id: number, result: Pick<InsertJobRun, "status" | "rowsWritten" | "error">): Promise<JobRun | undefined>;
+  failUnfinishedJobRuns(error: string): Promise<number>;
+  getJobRuns(job: string, limit: number): Promise<JobRun[]>;
+  getLatestJobRuns(): Promise<JobRun[]>;
+  pruneHistory(before: Date, now: Date): Promise<PruneCounts>;
+
+  // Device ingestion
+  getRegisteredDeviceIds(deviceIds: string[]): Promise<Set<string>>;
+  insertSensorReadings(readings: InsertSensorReading[]): Promise<number>;
+  quarantineReadings(readings: InsertSensorReading[]): Promise<void>;
+  getQuarantinedReadings(limit: number): Promise<QuarantinedReading[]>;
+}
+
+export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  // Emails are compared case-insensitively, as people type them
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.fullName));
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(userSiteAssignments).where(eq(userSiteAssignments.userId, id));
+      await tx.delete(adminPreferences).where(eq(adminPreferences.userId, id));
+      await tx.delete(refreshTokens).where(eq(refreshTokens.userId, id));
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, id));
+      await tx.delete(passwordHistory).where(eq(passwordHistory.userId, id));
+      await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, id));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, id));
+      // Alerts they acknowledged and emails sent to them stay in the history
+      await tx.update(alerts).set({ acknowledgedBy: null }).where(eq(alerts.acknowledgedBy, id));
+      await tx.update(emailLog).set({ userId: null }).where(eq(emailLog.userId, id));
+      await tx.update(alertEscalations).set({ userId: null }).where(eq(alertEscalations.userId, id));
+      await tx.update(auditEvents).set({ actorId: null }).where(eq(auditEvents.actorId, id));
+      await tx
+        .update(onCallRotations)
+        .set({ memberIds: sql`array_remove(${onCallRotations.memberIds}, ${id})` })
+        .where(sql`${id} = any(${onCallRotations.memberIds})`);
+      const deleted = await tx.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // A successful sign-in also clears any failed attempts
+  async updateLastLogin(id: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ lastLogin: new Date(), failedLoginAttempts: 0, lastFailedLogin: null, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  // Failures before countSince are forgotten and counting starts again at one
+  async recordFailedLogin(id: number, countSince: Date): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`case
+          when ${users.lastFailedLogin} is null or ${users.lastFailedLogin} < ${countSince} then 1
+          else ${users.failedLoginAttempts} + 1
+        end`,
+        lastFailedLogin: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
+  async lockUser(id: number, until: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil: until }).where(eq(users.id, id));
+  }
+
+  async unlockUser(id: number): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLogin: null, lockedUntil: null })
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken> {
+    const [created] = await db.insert(refreshTokens).values(token).returning();
+    return created;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // Returns false when the token was already revoked, which lets two
+  // concurrent refreshes with the same token race safely: only one wins.
+  async revokeRefreshToken(id: number): Promise<boolean> {
+    const revoked = await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+    return revoked.length > 0;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
+  async revokeUserRefreshTokens(userId: number): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  // Only the newest link works: any unused earlier one is dropped.
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+      const [created] = await tx.insert(passwordResetTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  // Returns false when the token was already used, so a link works only once
+  // even when submitted twice at the same time.
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    const used = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return used.length > 0;
+  }
+
+  async getPasswordHistory(userId: number, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+    return rows.map((row) => row.passwordHash);
+  }
+
+  // Keeps only the newest `keep` hashes of the user
+  async addPasswordHistory(userId: number, passwordHash: string, keep: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.insert(passwordHistory).values({ userId, passwordHash });
+      const kept = tx
+        .select({ id: passwordHistory.id })
+        .from(passwordHistory)
+        .where(eq(passwordHistory.userId, userId))
+        .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+        .limit(keep);
+      await tx
+        .delete(passwordHistory)
+        .where(and(eq(passwordHistory.userId, userId), notInArray(passwordHistory.id, kept)));
+    });
+  }
+
+  async getAdminPreference(userId: number): Promise<AdminPreference | undefined> {
+    const [preference] = await db.select().from(adminPreferences).where(eq(adminPreferences.userId, userId));
+    return preference;
+  }
+
+  async setViewMode(userId: number, viewMode: string): Promise<AdminPreference> {
+    const [preference] = await db
+      .insert(adminPreferences)
+      .values({ userId, viewMode })
+      .onConflictDoUpdate({
+        target: adminPreferences.userId,
+        set: { viewMode, updatedAt: new Date() },
+      })
+      .returning();
+    return preference;
+  }
+
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    const [secret] = await db.select().from(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    return secret;
+  }
+
+  // Replaces any earlier secret, e.g. from an enrolment that was never confirmed
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<void> {
+    await db
+      .insert(twoFactorSecrets)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorSecrets.userId,
+        set: { secret, lastUsedStep: null, createdAt: new Date() },
+      });
+  }
+
+  // Returns false when this or a later time step was already used, so one
+  // code cannot sign in twice, not even in two concurrent requests.
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const used = await db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(twoFactorSecrets.userId, userId),
+          or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step)),
+        ),
+      )
+      .returning({ userId: twoFactorSecrets.userId });
+    return used.length > 0;
+  }
+
+  async enableTwoFactor(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      await tx.update(users).set({ twoFactorEnabledAt: new Date() }).where(eq(users.id, userId));
+    });
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  // Returns false for an unknown or already used code
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)),
+      )
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ total: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row?.total ?? 0;
+  }
+
+  // Back to password only: the secret and recovery codes are dropped
+  async resetTwoFactor(userId: number): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      const [updated] = await tx
+        .update(users)
+        .set({ twoFactorEnabledAt: null })
+        .where(eq(users.id, userId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getTwoFactorRequiredRoles(): Promise<string[]> {
+    const rows = await db
+      .select({ role: twoFactorPolicy.role })
+      .from(twoFactorPolicy)
+      .where(eq(twoFactorPolicy.required, true))
+      .orderBy(asc(twoFactorPolicy.role));
+    return rows.map((row) => row.role);
+  }
+
+  // One row per role; roles left out are no longer required
+  async setTwoFactorRequiredRoles(roles: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(twoFactorPolicy).set({ required: false, updatedAt: new Date() });
+      for (const role of roles) {
+        await tx
+          .insert(twoFactorPolicy)
+          .values({ role, required: true })
+          .onConflictDoUpdate({ target: twoFactorPolicy.role, set: { required: true, updatedAt: new Date() } });
+      }
+    });
+  }
+
+  async getSystemSettings(): Promise<SystemSettingsRow[]> {
+    return db.select().from(systemSettings);
+  }
+
+  // section -> its complete values; sections left out are not touched
+  async saveSystemSettings(sections: Record<string, unknown>): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [section, values] of Object.entries(sections)) {
+        await tx
+          .insert(systemSettings)
+          .values({ section, values })
+          .onConflictDoUpdate({ target: systemSettings.section, set: { values, updatedAt: new Date() } });
+      }
+    });
+  }
+
+  async getSites(): Promise<Site[]> {
+    return db.select().from(sites).orderBy(asc(sites.name));
+  }
+
+  async getActiveSites(): Promise<Site[]> {
+    return db.select().from(sites).where(eq(sites.isActive, true)).orderBy(asc(sites.name));
+  }
+
+  async getSite(id: number): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.id, id));
+    return site;
+  }
+
+  async getSiteByDeviceId(deviceId: string): Promise<Site | undefined> {
+    const [site] = await db.select().from(sites).where(eq(sites.deviceId, deviceId));
+    return site;
+  }
+
+  async createSite(site: InsertSite): Promise<Site> {
+    const [created] = await db.insert(sites).values(site).returning();
+    return created;
+  }
+
+  async updateSite(id: number, updates: Partial<InsertSite>): Promise<Site | undefined> {
+    const [updated] = await db.update(sites).set(updates).where(eq(sites.id, id)).returning();
+    return updated;
+  }
+
+  // Admins see every active site; managers and supervisors only the sites
+  // they have been assigned to.
+  async getSitesForUser(user: Pick<User, "id" | "role">): Promise<Site[]> {
+    if (user.role === "admin") {
+      return this.getActiveSites();
+    }
+
+    const rows = await db
+      .select({ site: sites })
+      .from(userSiteAssignments)
+      .innerJoin(sites, eq(userSiteAssignments.siteId, sites.id))
+      .where(and(eq(userSiteAssignments.userId, user.id), eq(sites.isActive, true)))
+      .orderBy(asc(sites.name));
+
+    return rows.map((row) => row.site);
+  }
+
+  async getStrappingPoints(siteIds: number[]): Promise<Map<number, TankStrappingPoint[]>> {
+    const bySite = new Map<number, TankStrappingPoint[]>();
+    if (siteIds.length === 0) {
+      return bySite;
+    }
+
+    const rows = await db
+      .select()
+      .from(tankStrappingPoints)
+      .where(inArray(tankStrappingPoints.siteId, siteIds))
+      .orderBy(asc(tankStrappingPoints.siteId), asc(tankStrappingPoints.levelPercent));
+
+    for (const row of rows) {
+      const points = bySite.get(row.siteId) ?? [];
+      points.push(row);
+      bySite.set(row.siteId, points);
+    }
+    return bySite;
+  }
+
+  // Saves the shape and replaces the strapping table in one go; a table is
+  // only kept for sites whose shape uses it.
+  async updateTankProfile(siteId: number, profile: UpdateTankProfileRequest): Promise<Site | undefined> {
+    return db.transaction(async (tx) => {
+      const [site] = await tx
+        .update(sites)
+        .set({
+          tankShape: profile.tankShape,
+          tankDiameterMm: profile.tankDiameterMm?.toFixed(2) ?? null,
+          tankLengthMm: profile.tankLengthMm?.toFixed(2) ?? null,
+        })
+        .where(eq(sites.id, siteId))
+        .returning();
+      if (!site) {
+        return undefined;
+      }
+
+      await tx.delete(tankStrappingPoints).where(eq(tankStrappingPoints.siteId, siteId));
+      if (profile.tankShape === "table" && profile.points.length > 0) {
+        await tx.insert(tankStrappingPoints).values(
+          profile.points.map((point) => ({
+            siteId,
+            levelPercent: point.levelPercent.toFixed(2),
+            volumeLiters: point.volumeLiters.toFixed(2),
+          })),
+        );
+      }
+      return site;
+    });
+  }
+
+  async getUserSites(userId: number): Promise<UserSiteSummary[]> {
+    return db
+      .select({
+        siteId: sites.id,
+        siteName: sites.name,
+        siteLocation: sites.location,
+      })
+      .from(userSiteAssignments)
+      .innerJoin(sites, eq(userSiteAssignments.siteId, sites.id))
+      .where(eq(userSiteAssignments.userId, userId))
+      .orderBy(asc(sites.name));
+  }
+
+  async setUserSites(userId: number, siteIds: number[]): Promise<void> {
+    const uniqueSiteIds = Array.from(new Set(siteIds));
+
+    await db.transaction(async (tx) => {
+      await tx.delete(userSiteAssignments).where(eq(userSiteAssignments.userId, userId));
+      if (uniqueSiteIds.length > 0) {
+        await tx
+          .insert(userSiteAssignments)
+          .values(uniqueSiteIds.map((siteId) => ({ userId, siteId })));
+      }
+    });
+  }
+
+  async getSiteAssignments(): Promise<SiteAssignee[]> {
+    return db
+      .select({
+        siteId: userSiteAssignments.siteId,
+        userId: users.id,
+        username: users.username,
+        fullName: users.fullName,
+        role: users.role,
+      })
+      .from(userSiteAssignments)
+      .innerJoin(users, eq(userSiteAssignments.userId, users.id))
+      .orderBy(asc(users.fullName));
+  }
+
+  async getLatestClosingReadings(siteIds: number[]): Promise<Map<number, DailyClosingReading>> {
+    const latest = new Map<number, DailyClosingReading>();
+    if (siteIds.length === 0) {
+      return latest;
+    }
+
+    const rows = await db
+      .selectDistinctOn([dailyClosingReadings.siteId])
+      .from(dailyClosingReadings)
+      .where(inArray(dailyClosingReadings.siteId, siteIds))
+      .orderBy(dailyClosingReadings.siteId, desc(dailyClosingReadings.capturedAt));
+
+    for (const row of rows) {
+      latest.set(row.siteId, row);
+    }
+    return latest;
+  }
+
+  async getClosingReadings(siteId: number, from: Date, to: Date): Promise<DailyClosingReading[]> {
+    return db
+      .select()
+      .from(dailyClosingReadings)
+      .where(
+        and(
+          eq(dailyClosingReadings.siteId, siteId),
+          gte(dailyClosingReadings.capturedAt, from),
+          lt(dailyClosingReadings.capturedAt, to),
+        ),
+      )
+      .orderBy(asc(dailyClosingReadings.capturedAt));
+  }
+
+  // Without a window this is the newest value overall; with one it is the
+  // newest value at or after `from` and strictly before `to`.
+  async getLatestSensorValues(deviceIds: string[], window?: { from: Date; to: Date }): Promise<LatestSensorValues> {
+    const latest: LatestSensorValues = new Map();
+    if (deviceIds.length === 0) {
+      return latest;
+    }
+
+    const rows = await db
+      .selectDistinctOn([sensorReadings.deviceId, sensorReadings.sensorName])
+      .from(sensorReadings)
+      .where(
+        and(
+          inArray(sensorReadings.deviceId, deviceIds),
+          window ? gte(sensorReadings.time, window.from) : undefined,
+          window ? lt(sensorReadings.time, window.to) : undefined,
+        ),
+      )
+      .orderBy(sensorReadings.deviceId, sensorReadings.sensorName, desc(sensorReadings.time));
+
+    for (const row of rows) {
+      let deviceValues = latest.get(row.deviceId);
+      if (!deviceValues) {
+        deviceValues = new Map();
+        latest.set(row.deviceId, deviceValues);
+      }
+      deviceValues.set(row.sensorName, { value: row.value, unit: row.unit, time: row.time });
+    }
+    return latest;
+  }
+
+  async getSensorReadings(deviceId: string, from: Date, to: Date, sensorNames?: string[]): Promise<SensorReading[]> {
+    return db
+      .select()
+      .from(sensorReadings)
+      .where(
+        and(
+          eq(sensorReadings.deviceId, deviceId),
+          gte(sensorReadings.time, from),
+          lt(sensorReadings.time, to),
+          sensorNames ? inArray(sensorReadings.sensorName, sensorNames) : undefined,
+        ),
+      )
+      .orderBy(asc(sensorReadings.time));
+  }
+
+  // The first, last, lowest and highest reading of each sensor in every
+  // bucketMs-wide bucket, so long ranges are thinned in the database rather
+  // than loaded row by row.
+  async getSensorReadingExtremes(
+    deviceId: string,
+    from: Date,
+    to: Date,
+    sensorNames: string[],
+    bucketMs: number,
+  ): Promise<SensorReadingExtremes> {
+    const sampleCounts = new Map<string, number>();
+    if (sensorNames.length === 0) {
+      return { readings: [], sampleCounts };
+    }
+
+    const bucket = sql`date_bin(${bucketMs}::bigint * interval '1 millisecond', ${sensorReadings.time}, timestamp '2000-01-01')`;
+    const rank = (order: SQL) => sql`row_number() over (partition by ${sensorReadings.sensorName}, ${bucket} order by ${order})`;
+    const ranked = db
+      .select({
+        time: sensorReadings.time,
+        deviceId: sensorReadings.deviceId,
+        sensorName: sensorReadings.sensorName,
+        value: sensorReadings.value,
+        unit: sensorReadings.unit,
+        firstRank: rank(sql`${sensorReadings.time}`).as("first_rank"),
+        lastRank: rank(sql`${sensorReadings.time} desc`).as("last_rank"),
+        lowRank: rank(sql`${sensorReadings.value}, ${sensorReadings.time}`).as("low_rank"),
+        highRank: rank(sql`${sensorReadings.value} desc, ${sensorReadings.time}`).as("high_rank"),
+        sampleCount: sql<number>`count(*) over (partition by ${sensorReadings.sensorName})`.mapWith(Number).as("sample_count"),
+      })
+      .from(sensorReadings)
+      .where(
+        and(
+          eq(sensorReadings.deviceId, deviceId),
+          gte(sensorReadings.time, from),
+          lt(sensorReadings.time, to),
+          inArray(sensorReadings.sensorName, sensorNames),
+        ),
+      )
+      .as("ranked");
+
+    const rows = await db
+      .select()
+      .from(ranked)
+      .where(or(eq(ranked.firstRank, 1), eq(ranked.lastRank, 1), eq(ranked.lowRank, 1), eq(ranked.highRank, 1)))
+      .orderBy(asc(ranked.time));
+
+    const readings = rows.map(({ time, deviceId, sensorName, value, unit, sampleCount }) => {
+      sampleCounts.set(sensorName, sampleCount);
+      return { time, deviceId, sensorName, value, unit };
+    });
+    return { readings, sampleCounts };
+  }
+
+  // Sites with a closing reading for date. Rows from before the day was
+  // recorded count when they were captured within the day's bounds.
+  async getCapturedSiteIds(date: string, bounds: { from: Date; to: Date }): Promise<Set<number>> {
+    const rows = await db
+      .select({ siteId: dailyClosingReadings.siteId })
+      .from(dailyClosingReadings)
+      .where(
+        or(
+          eq(dailyClosingReadings.date, date),
+          and(
+            isNull(dailyClosingReadings.date),
+            gte(dailyClosingReadings.capturedAt, bounds.from),
+            lt(dailyClosingReadings.capturedAt, bounds.to),
+          ),
+        ),
+      );
+    return new Set(rows.map((row) => row.siteId));
+  }
+
+  // Returns false when the site already has a reading for that day.
+  async createClosingReading(reading: InsertDailyClosingReading): Promise<boolean> {
+    const inserted = await db
+      .insert(dailyClosingReadings)
+      .values(reading)
+      .onConflictDoNothing({ target: [dailyClosingReadings.siteId, dailyClosingReadings.date] })
+      .returning({ id: dailyClosingReadings.id });
+    return inserted.length > 0;
+  }
+
+  async getCumulativeReadings(siteIds: number[], startDate: string, endDate: string): Promise<CumulativeReading[]> {
+    if (siteIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(cumulativeReadings)
+      .where(
+        and(
+          inArray(cumulativeReadings.siteId, siteIds),
+          gte(cumulativeReadings.date, startDate),
+          lte(cumulativeReadings.date, endDate),
+        ),
+      )
+      .orderBy(asc(cumulativeReadings.date));
+  }
+
+  // One row per site and day: reprocessing a day replaces the earlier result.
+  async saveCumulativeReading(reading: InsertCumulativeReading): Promise<CumulativeReading> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(cumulativeReadings)
+        .where(
+          and(
+            eq(cumulativeReadings.siteId, reading.siteId),
+            eq(cumulativeReadings.date, reading.date),
+          ),
+        );
+      const [saved] = await tx
+        .insert(cumulativeReadings)
+        .values({ ...reading, calculatedAt: new Date() })
+        .returning();
+      return saved;
+    });
+  }
+
+  // Newest first; an event belongs to the period in which it finished.
+  async getRefuelEvents(siteIds: number[], from: Date, to: Date): Promise<RefuelEvent[]> {
+    if (siteIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(refuelEvents)
+      .where(
+        and(
+          inArray(refuelEvents.siteId, siteIds),
+          gte(refuelEvents.endedAt, from),
+          lt(refuelEvents.endedAt, to),
+        ),
+      )
+      .orderBy(desc(refuelEvents.endedAt));
+  }
+
+  // Re-detecting a period replaces whatever was found for it before.
+  async replaceRefuelEvents(
+    siteId: number,
+    from: Date,
+    to: Date,
+    events: InsertRefuelEvent[],
+  ): Promise<RefuelEvent[]> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(refuelEvents)
+        .where(
+          and(
+            eq(refuelEvents.siteId, siteId),
+            gte(refuelEvents.endedAt, from),
+            lt(refuelEvents.endedAt, to),
+          ),
+        );
+      if (events.length === 0) {
+        return [];
+      }
+      return tx.insert(refuelEvents).values(events).returning();
+    });
+  }
+
+  async getFuelIncidents(siteIds: number[], from: Date, to: Date): Promise<FuelIncident[]> {
+    if (siteIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(fuelIncidents)
+      .where(
+        and(
+          inArray(fuelIncidents.siteId, siteIds),
+          gte(fuelIncidents.endedAt, from),
+          lt(fuelIncidents.endedAt, to),
+        ),
+      )
+      .orderBy(desc(fuelIncidents.endedAt));
+  }
+
+  async getLatestFuelIncidents(siteIds: number[], since: Date): Promise<Map<number, FuelIncident>> {
+    const latest = new Map<number, FuelIncident>();
+    if (siteIds.length === 0) {
+      return latest;
+    }
+
+    const rows = await db
+      .selectDistinctOn([fuelIncidents.siteId])
+      .from(fuelIncidents)
+      .where(and(inArray(fuelIncidents.siteId, siteIds), gte(fuelIncidents.endedAt, since)))
+      .orderBy(fuelIncidents.siteId, desc(fuelIncidents.endedAt));
+
+    for (const row of rows) {
+      latest.set(row.siteId, row);
+    }
+    return latest;
+  }
+
+  async replaceFuelIncidents(
+    siteId: number,
+    from: Date,
+    to: Date,
+    incidents: InsertFuelIncident[],
+  ): Promise<FuelIncident[]> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(fuelIncidents)
+        .where(
+          and(
+            eq(fuelIncidents.siteId, siteId),
+            gte(fuelIncidents.endedAt, from),
+            lt(fuelIncidents.endedAt, to),
+          ),
+        );
+      if (incidents.length === 0) {
+        return [];
+      }
+      return tx.insert(fuelIncidents).values(incidents).returning();
+    });
+  }
+
+  async getAlertRules(): Promise<AlertRule[]> {
+    return db.select().from(alertRules).orderBy(asc(alertRules.siteId), asc(alertRules.type));
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  async createAlertRule(rule: InsertAlertRule): Promise<AlertRule> {
+    const [created] = await db.insert(alertRules).values(rule).returning();
+    return created;
+  }
+
+  async updateAlertRule(id: number, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    const deleted = await db.delete(alertRules).where(eq(alertRules.id, id)).returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  async getAlert(id: number): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return alert;
+  }
+
+  async getUnresolvedAlerts(siteIds: number[]): Promise<Alert[]> {
+    if (siteIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(alerts)
+      .where(and(inArray(alerts.siteId, siteIds), ne(alerts.status, "resolved")))
+      .orderBy(desc(alerts.openedAt));
+  }
+
+  async getAlerts(siteIds: number[], statuses: AlertStatus[], from: Date, to: Date): Promise<Alert[]> {
+    if (siteIds.length === 0 || statuses.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(alerts)
+      .where(
+        and(
+          inArray(alerts.siteId, siteIds),
+          inArray(alerts.status, statuses),
+          gte(alerts.openedAt, from),
+          lt(alerts.openedAt, to),
+        ),
+      )
+      .orderBy(desc(alerts.openedAt));
+  }
+
+  // Returns undefined when the site already has an unresolved alert of the
+  // same type, which happens when two evaluations race.
+  async openAlert(alert: InsertAlert): Promise<Alert | undefined> {
+    const [created] = await db.insert(alerts).values(alert).onConflictDoNothing().returning();
+    return created;
+  }
+
+  async acknowledgeAlert(id: number, userId: number): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set({ status: "acknowledged", acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(and(eq(alerts.id, id), eq(alerts.status, "open")))
+      .returning();
+    return updated;
+  }
+
+  async resolveAlerts(ids: number[], resolvedAt: Date): Promise<Alert[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return db
+      .update(alerts)
+      .set({ status: "resolved", resolvedAt })
+      .where(and(inArray(alerts.id, ids), ne(alerts.status, "resolved")))
+      .returning();
+  }
+
+  async getOnCallRotations(): Promise<OnCallRotation[]> {
+    return db.select().from(onCallRotations).orderBy(asc(onCallRotations.name));
+  }
+
+  async getOnCallRotation(id: number): Promise<OnCallRotation | undefined> {
+    const [rotation] = await db.select().from(onCallRotations).where(eq(onCallRotations.id, id));
+    return rotation;
+  }
+
+  async createOnCallRotation(rotation: InsertOnCallRotation): Promise<OnCallRotation> {
+    const [created] = await db.insert(onCallRotations).values(rotation).returning();
+    return created;
+  }
+
+  async updateOnCallRotation(id: number, updates: Partial<InsertOnCallRotation>): Promise<OnCallRotation | undefined> {
+    const [updated] = await db
+      .update(onCallRotations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(onCallRotations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOnCallRotation(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(onCallRotations)
+      .where(eq(onCallRotations.id, id))
+      .returning({ id: onCallRotations.id });
+    return deleted.length > 0;
+  }
+
+  // Global policy first, then site policies; steps in order.
+  async getEscalationPolicies(): Promise<EscalationPolicyWithSteps[]> {
+    const policies = await db
+      .select()
+      .from(escalationPolicies)
+      .orderBy(sql`${escalationPolicies.siteId} is not null`, asc(escalationPolicies.name));
+    const steps = await db.select().from(escalationSteps).orderBy(asc(escalationSteps.position));
+    return policies.map((policy) => ({ ...policy, steps: steps.filter((step) => step.policyId === policy.id) }));
+  }
+
+  async getEscalationPolicy(id: number): Promise<EscalationPolicyWithSteps | undefined> {
+    const [policy] = await db.select().from(escalationPolicies).where(eq(escalationPolicies.id, id));
+    if (!policy) {
+      return undefined;
+    }
+    const steps = await db
+      .select()
+      .from(escalationSteps)
+      .where(eq(escalationSteps.policyId, id))
+      .orderBy(asc(escalationSteps.position));
+    return { ...policy, steps };
+  }
+
+  async createEscalationPolicy(
+    policy: InsertEscalationPolicy,
+    steps: EscalationStepRequest[],
+  ): Promise<EscalationPolicyWithSteps> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(escalationPolicies).values(policy).returning();
+      const savedSteps = await tx
+        .insert(escalationSteps)
+        .values(steps.map((step, index) => ({ ...step, policyId: created.id, position: index + 1 })))
+        .returning();
+      return { ...created, steps: savedSteps };
+    });
+  }
+
+  // The steps are replaced as a whole
+  async updateEscalationPolicy(
+    id: number,
+    updates: Partial<InsertEscalationPolicy>,
+    steps: EscalationStepRequest[],
+  ): Promise<EscalationPolicyWithSteps | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(escalationPolicies)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(escalationPolicies.id, id))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.delete(escalationSteps).where(eq(escalationSteps.policyId, id));
+      const savedSteps = await tx
+        .insert(escalationSteps)
+        .values(steps.map((step, index) => ({ ...step, policyId: id, position: index + 1 })))
+        .returning();
+      return { ...updated, steps: savedSteps };
+    });
+  }
+
+  async deleteEscalationPolicy(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(escalationPolicies)
+      .where(eq(escalationPolicies.id, id))
+      .returning({ id: escalationPolicies.id });
+    return deleted.length > 0;
+  }
+
+  // Acknowledging an alert is what stops its escalation
+  async getUnacknowledgedAlerts(): Promise<Alert[]> {
+    return db.select().from(alerts).where(eq(alerts.status, "open")).orderBy(asc(alerts.openedAt));
+  }
+
+  // Moves the alert up to the given level and logs who was told, unless it
+  // was acknowledged, resolved or already escalated that far in the meantime.
+  async recordEscalation(
+    alertId: number,
+    level: number,
+    notifications: InsertAlertEscalation[],
+  ): Promise<Alert | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(alerts)
+        .set({ escalationLevel: level })
+        .where(and(eq(alerts.id, alertId), eq(alerts.status, "open"), lt(alerts.escalationLevel, level)))
+        .returning();
+      if (updated && notifications.length > 0) {
+        await tx.insert(alertEscalations).values(notifications);
+      }
+      return updated;
+    });
+  }
+
+  async getAlertEscalations(alertIds: number[]): Promise<AlertEscalation[]> {
+    if (alertIds.length === 0) {
+      return [];
+    }
+
+    return db
+      .select()
+      .from(alertEscalations)
+      .where(inArray(alertEscalations.alertId, alertIds))
+      .orderBy(asc(alertEscalations.level), asc(alertEscalations.id));
+  }
+
+  // Active users who opted in to alert emails and can see the site: admins
+  // see every site, everyone else only the sites assigned to them.
+  async getAlertRecipients(siteId: number): Promise<User[]> {
+    const subscribers = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.isActive, true), eq(users.emailAlerts, true)));
+    if (subscribers.length === 0) {
+      return [];
+    }
+
+    const assigned = await db
+      .select({ userId: userSiteAssignments.userId })
+      .from(userSiteAssignments)
+      .where(eq(userSiteAssignments.siteId, siteId));
+    const assignedIds = new Set(assigned.map((row) => row.userId));
+    return subscribers.filter((user) => user.role === "admin" || assignedIds.has(user.id));
+  }
+
+  async queueEmails(emails: InsertEmailLogEntry[]): Promise<EmailLogEntry[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+    return db.insert(emailLog).values(emails).returning();
+  }
+
+  // Marks due emails as sending until claimUntil and returns them, so several
+  // instances never pick up the same email. Emails still sending once their
+  // claim runs out were left by an instance that stopped mid-send and are due
+  // again; password reset copies lack the link and are never sent from here.
+  async claimDueEmails(now: Date, limit: number, claimUntil: Date): Promise<EmailLogEntry[]> {
+    const due = db
+      .select({ id: emailLog.id })
+      .from(emailLog)
+      .where(
+        and(
+          lte(emailLog.nextAttemptAt, now),
+          or(
+            eq(emailLog.status, "pending"),
+            and(eq(emailLog.status, "sending"), ne(emailLog.event, "password_reset")),
+          ),
+        ),
+      )
+      .orderBy(asc(emailLog.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const claimed = await db
+      .update(emailLog)
+      .set({ status: "sending", nextAttemptAt: claimUntil })
+      .where(inArray(emailLog.id, due))
+      .returning();
+    return claimed.sort((a, b) => a.id - b.id);
+  }
+
+  async updateEmail(id: number, updates: Partial<InsertEmailLogEntry>): Promise<EmailLogEntry | undefined> {
+    const [updated] = await db.update(emailLog).set(updates).where(eq(emailLog.id, id)).returning();
+    return updated;
+  }
+
+  async getEmailLog(limit: number): Promise<EmailLogEntry[]> {
+    return db.select().from(emailLog).orderBy(desc(emailLog.createdAt), desc(emailLog.id)).limit(limit);
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    return db.select().from(webhooks).orderBy(asc(webhooks.name));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async updateWebhook(id: number, updates: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [updated] = await db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Its delivery history goes with it
+  async deleteWebhook(id: number): Promise<boolean> {
+    const deleted = await db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  async queueWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  // As claimDueEmails: due deliveries are marked as sending until claimUntil,
+  // and ones still sending after that are due again.
+  async claimDueWebhookDeliveries(now: Date, limit: number, claimUntil: Date): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(
+        and(
+          inArray(webhookDeliveries.status, ["pending", "sending"]),
+          lte(webhookDeliveries.nextAttemptAt, now),
+        ),
+      )
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    const claimed = await db
+      .update(webhookDeliveries)
+      .set({ status: "sending", nextAttemptAt: claimUntil })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+    return claimed.sort((a, b) => a.id - b.id);
+  }
+
+  async updateWebhookDelivery(
+    id: number,
+    updates: Partial<InsertWebhookDelivery>,
+  ): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  // Newest first
+  async getAuditEvents(filter: AuditEventFilter, limit: number, offset: number): Promise<AuditLogResponse> {
+    const conditions: SQL[] = [];
+    if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+    if (filter.actorId) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(auditEvents.createdAt, filter.to));
+    if (filter.search) {
+      const pattern = `%${filter.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(or(
+        ilike(auditEvents.actorName, pattern),
+        ilike(auditEvents.targetLabel, pattern),
+        ilike(auditEvents.ipAddress, pattern),
+      )!);
+    }
+    const where = and(...conditions);
+
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await db.select({ total: count() }).from(auditEvents).where(where);
+    return { events, total };
+  }
+
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs);
+  }
+
+  async saveScheduledJob(job: string, schedule: string | null, paused: boolean): Promise<ScheduledJob> {
+    const [saved] = await db
+      .insert(scheduledJobs)
+      .values({ job, schedule, paused })
+      .onConflictDoUpdate({ target: scheduledJobs.job, set: { schedule, paused, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
+
+  async finishJobRun(
+    id: number,
+    result: Pick<InsertJobRun, "status" | "rowsWritten" | "error">,
+  ): Promise<JobRun | undefined> {
+    const [finished] = await db
+      .update(jobRuns)
+      .set({ ...result, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return finished;
+  }
+
+  // Runs cut off by a restart would otherwise show as running for good
+  async failUnfinishedJobRuns(error: string): Promise<number> {
+    const failed = await db
+      .update(jobRuns)
+      .set({ status: "failed", error, finishedAt: new Date() })
+      .where(eq(jobRuns.status, "running"))
+      .returning({ id: jobRuns.id });
+    return failed.length;
+  }
+
+  // Newest first
+  async getJobRuns(job: string, limit: number): Promise<JobRun[]> {
+    return db
+      .select()
+      .from(jobRuns)
+      .where(eq(jobRuns.job, job))
+      .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+      .limit(limit);
+  }
+
+  // The newest run of each job
+  async getLatestJobRuns(): Promise<JobRun[]> {
+    return db
+      .selectDistinctOn([jobRuns.job])
+      .from(jobRuns)
+      .orderBy(jobRuns.job, desc(jobRuns.startedAt), desc(jobRuns.id));
+  }
+
+  // Finished emails, webhook deliveries and job runs and quarantined readings
+  // from before the cutoff, and tokens that can no longer be used
+  async pruneHistory(before: Date, now: Date): Promise<PruneCounts> {
+    return db.transaction(async (tx) => {
+      const emails = await tx
+        .delete(emailLog)
+        .where(and(lt(emailLog.createdAt, before), inArray(emailLog.status, ["sent", "failed"])))
+        .returning({ id: emailLog.id });
+      const deliveries = await tx
+        .delete(webhookDeliveries)
+        .where(and(lt(webhookDeliveries.createdAt, before), inArray(webhookDeliveries.status, ["delivered", "failed"])))
+        .returning({ id: webhookDeliveries.id });
+      const quarantined = await tx
+        .delete(quarantinedReadings)
+        .where(lt(quarantinedReadings.receivedAt, before))
+        .returning({ id: quarantinedReadings.id });
+      const runs = await tx
+        .delete(jobRuns)
+        .where(and(lt(jobRuns.startedAt, before), ne(jobRuns.status, "running")))
+        .returning({ id: jobRuns.id });
+      const tokens = await tx
+        .delete(refreshTokens)
+        .where(lt(refreshTokens.expiresAt, now))
+        .returning({ id: refreshTokens.id });
+      const resets = await tx
+        .delete(passwordResetTokens)
+        .where(lt(passwordResetTokens.expiresAt, now))
+        .returning({ id: passwordResetTokens.id });
+      return {
+        emailLog: emails.length,
+        webhookDeliveries: deliveries.length,
+        quarantinedReadings: quarantined.length,
+        jobRuns: runs.length,
+        expiredTokens: tokens.length + resets.length,
+      };
+    });
+  }
+
+  // Devices of active sites only; readings for anything else are not stored.
+  async getRegisteredDeviceIds(deviceIds: string[]): Promise<Set<string>> {
+    if (deviceIds.length === 0) {
+      return new Set();
+    }
+
+    const rows = await db
+      .select({ deviceId: sites.deviceId })
+      .from(sites)
+      .where(and(inArray(sites.deviceId, deviceIds), eq(sites.isActive, true)));
+    return new Set(rows.map((row) => row.deviceId));
+  }
+
+  // Readings already stored for the same device, sensor and time are skipped.
+  // Returns the number of rows actually written.
+  async insertSensorReadings(readings: InsertSensorReading[]): Promise<number> {
+    if (readings.length === 0) {
+      return 0;
+    }
+
+    const written = await db
+      .insert(sensorReadings)
+      .values(readings)
+      .onConflictDoNothing({ target: [sensorReadings.deviceId, sensorReadings.sensorName, sensorReadings.time] })
+      .returning({ time: sensorReadings.time });
+    return written.length;
+  }
+
+  async quarantineReadings(readings: InsertSensorReading[]): Promise<void> {
+    if (readings.length > 0) {
+      await db.insert(quarantinedReadings).values(readings);
+    }
+  }
+
+  async getQuarantinedReadings(limit: number): Promise<QuarantinedReading[]> {
+    return db
+      .select()
+      .from(quarantinedReadings)
+      .orderBy(desc(quarantinedReadings.receivedAt))
+      .limit(limit);
+  }
+}
+
+export const storage = new DatabaseStorage();
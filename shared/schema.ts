@@ -1,4 +1,17 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, uuid } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  text,
+  serial,
+  integer,
+  boolean,
+  timestamp,
+  decimal,
+  uuid,
+  jsonb,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,7 +24,14 @@ export const users = pgTable("users", {
   role: text("role").notNull(), // 'admin', 'manager', 'supervisor'
   fullName: text("full_name").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  emailAlerts: boolean("email_alerts").notNull().default(false), // opted in to alert emails
   lastLogin: timestamp("last_login"),
+  // Consecutive failed sign-ins, reset by a successful one or an unlock
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lastFailedLogin: timestamp("last_failed_login"),
+  lockedUntil: timestamp("locked_until"),
+  // Set once the user has confirmed an authenticator app; null means password only
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -23,6 +43,15 @@ export const sites = pgTable("sites", {
   deviceId: text("device_id").notNull().unique(),
   fuelCapacity: decimal("fuel_capacity", { precision: 10, scale: 2 }).notNull(), // in liters
   lowFuelThreshold: decimal("low_fuel_threshold", { precision: 5, scale: 2 }).notNull().default("25"), // percentage
+  // A drop while the generator is off is only flagged above the larger of these
+  theftToleranceLiters: decimal("theft_tolerance_liters", { precision: 10, scale: 2 }).notNull().default("20"),
+  theftTolerancePercent: decimal("theft_tolerance_percent", { precision: 5, scale: 2 }).notNull().default("2"),
+  // How a level percentage becomes liters: 'sensor' trusts the device's own
+  // volume reading, 'linear' is level x capacity, 'horizontal_cylinder' uses
+  // the circular cross-section and 'table' interpolates the strapping table
+  tankShape: text("tank_shape").notNull().default("sensor"),
+  tankDiameterMm: decimal("tank_diameter_mm", { precision: 10, scale: 2 }),
+  tankLengthMm: decimal("tank_length_mm", { precision: 10, scale: 2 }),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -45,9 +74,18 @@ export const dailyClosingReadings = pgTable("daily_closing_readings", {
   temperature: decimal("temperature", { precision: 5, scale: 2 }), // celsius
   generatorState: text("generator_state"), // 'on', 'off'
   zesaState: text("zesa_state"), // 'on', 'off'
-  capturedAt: timestamp("captured_at").notNull(),
+  sensorFuelVolume: decimal("sensor_fuel_volume", { precision: 10, scale: 2 }), // the device's own volume reading, kept for comparison
+  capturedAt: timestamp("captured_at").notNull(), // the day's closing time, not the sensor sample time
+  // YYYY-MM-DD the closing is for. Null on realtime readings and on rows
+  // captured before the day was recorded.
+  date: text("date"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // One closing reading per site and day, whatever the capture time was when
+  // it was taken; re-running a capture is a no-op
+  uniqueIndex("daily_closing_readings_site_date_idx").on(table.siteId, table.date),
+  index("daily_closing_readings_site_captured_idx").on(table.siteId, table.capturedAt),
+]);
 
 // Admin preferences
 export const adminPreferences = pgTable("admin_preferences", {
@@ -55,8 +93,84 @@ export const adminPreferences = pgTable("admin_preferences", {
   userId: integer("user_id").notNull().references(() => users.id),
   viewMode: text("view_mode").notNull().default("closing"), // 'closing', 'realtime'
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("admin_preferences_user_idx").on(table.userId),
+]);
+
+// Refresh tokens - only a hash is stored; each use rotates the token and
+// tokens issued from the same login share a familyId for reuse detection
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  familyId: text("family_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use links for resetting a forgotten password; only the hash is kept
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Recent password hashes of each user, so old passwords are not reused
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// TOTP secret of a user's authenticator app. Saved when enrolment starts and
+// only in effect once users.twoFactorEnabledAt is set. lastUsedStep keeps a
+// code from being accepted twice.
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(), // base32
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use codes for signing in without the authenticator; hashes only
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Roles whose accounts cannot sign in without two-factor authentication
+export const twoFactorPolicy = pgTable("two_factor_policy", {
+  role: text("role").primaryKey(), // 'admin', 'manager', 'supervisor'
+  required: boolean("required").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// System Configuration, one row per section (see SETTINGS_SECTIONS). Values
+// are checked against the section's schema when saved and when loaded.
+export const systemSettings = pgTable("system_settings", {
+  section: text("section").primaryKey(),
+  values: jsonb("values").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Strapping (calibration) table of a tank: the volume held at each level
+export const tankStrappingPoints = pgTable("tank_strapping_points", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id),
+  levelPercent: decimal("level_percent", { precision: 5, scale: 2 }).notNull(),
+  volumeLiters: decimal("volume_liters", { precision: 10, scale: 2 }).notNull(),
+}, (table) => [
+  uniqueIndex("tank_strapping_points_site_level_idx").on(table.siteId, table.levelPercent),
+]);
+
 // Cumulative daily readings table
 export const cumulativeReadings = pgTable("cumulative_readings", {
   id: serial("id").primaryKey(),
@@ -80,6 +194,34 @@ export const cumulativeReadings = pgTable("cumulative_readings", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Refuel events detected from jumps in the fuel volume/level series
+export const refuelEvents = pgTable("refuel_events", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id),
+  deviceId: text("device_id").notNull(),
+  startedAt: timestamp("started_at").notNull(), // last reading before the rise
+  endedAt: timestamp("ended_at").notNull(), // reading at the peak
+  litersAdded: decimal("liters_added", { precision: 10, scale: 2 }).notNull(),
+  levelBefore: decimal("level_before", { precision: 5, scale: 2 }), // percentage
+  levelAfter: decimal("level_after", { precision: 5, scale: 2 }), // percentage
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Fuel drops with no generator running to explain them: siphoning, a leak
+// or a faulty sensor
+export const fuelIncidents = pgTable("fuel_incidents", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id),
+  deviceId: text("device_id").notNull(),
+  type: text("type").notNull().default("suspected_theft"),
+  startedAt: timestamp("started_at").notNull(), // reading before the drop
+  endedAt: timestamp("ended_at").notNull(), // lowest reading of the drop
+  litersLost: decimal("liters_lost", { precision: 10, scale: 2 }).notNull(),
+  volumeBefore: decimal("volume_before", { precision: 10, scale: 2 }).notNull(),
+  volumeAfter: decimal("volume_after", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Sensor readings (reference to existing external table structure)
 export const sensorReadings = pgTable("sensor_readings", {
   time: timestamp("time").notNull(),
@@ -87,13 +229,201 @@ export const sensorReadings = pgTable("sensor_readings", {
   sensorName: text("sensor_name").notNull(),
   value: decimal("value", { precision: 10, scale: 2 }).notNull(),
   unit: text("unit").notNull(),
+}, (table) => [
+  // A device reports each sensor once per timestamp; resent readings are dropped against this
+  uniqueIndex("sensor_readings_device_sensor_time_idx").on(table.deviceId, table.sensorName, table.time),
+]);
+
+// Readings posted to /api/ingest for a device no site is registered for. Kept
+// so they can be replayed once the site is set up.
+export const quarantinedReadings = pgTable("quarantined_readings", {
+  id: serial("id").primaryKey(),
+  time: timestamp("time").notNull(),
+  deviceId: text("device_id").notNull(),
+  sensorName: text("sensor_name").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+  unit: text("unit").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
 });
 
+// Alert rules - a rule without a siteId is the global default for its type;
+// a site's own rule of the same type replaces it for that site
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").references(() => sites.id),
+  type: text("type").notNull(), // see ALERT_TYPES
+  threshold: decimal("threshold", { precision: 10, scale: 2 }), // unit depends on the type, see ALERT_THRESHOLD_UNITS
+  severity: text("severity").notNull().default("warning"), // 'warning', 'critical'
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("alert_rules_site_type_idx").on(table.siteId, table.type),
+  uniqueIndex("alert_rules_global_type_idx").on(table.type).where(sql`${table.siteId} is null`),
+]);
+
+// Alerts raised by the rules. An alert stays open (or acknowledged) while its
+// condition holds and is resolved once it clears.
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull().references(() => sites.id),
+  type: text("type").notNull(),
+  severity: text("severity").notNull(),
+  status: text("status").notNull().default("open"), // 'open', 'acknowledged', 'resolved'
+  message: text("message").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }), // reading that raised the alert
+  threshold: decimal("threshold", { precision: 10, scale: 2 }), // threshold in force at the time
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  escalationLevel: integer("escalation_level").notNull().default(0), // escalation steps already notified
+}, (table) => [
+  // At most one unresolved alert per site and type
+  uniqueIndex("alerts_site_type_active_idx").on(table.siteId, table.type).where(sql`${table.status} <> 'resolved'`),
+]);
+
+// Weekly on-call rotations for after-hours cover. Members take turns a week
+// at a time in list order, starting with the first at startsAt.
+export const onCallRotations = pgTable("on_call_rotations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  memberIds: integer("member_ids").array().notNull(), // user ids in rotation order
+  startsAt: timestamp("starts_at").notNull(), // first handoff; later ones fall a week apart
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Who hears about an alert nobody has acknowledged, and when. A site's own
+// policy replaces the global one (siteId null).
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  siteId: integer("site_id").references(() => sites.id), // null for the global policy
+  // Outside business hours its on-call member is notified with the first step
+  rotationId: integer("rotation_id").references(() => onCallRotations.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  // The single global policy comes from the seed and cannot be added or removed
+  uniqueIndex("escalation_policies_site_idx").on(table.siteId),
+]);
+
+export const escalationSteps = pgTable("escalation_steps", {
+  id: serial("id").primaryKey(),
+  policyId: integer("policy_id").notNull().references(() => escalationPolicies.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // 1 for the first step
+  target: text("target").notNull(), // see ESCALATION_TARGETS
+  delayMinutes: integer("delay_minutes").notNull(), // counted from when the alert opened
+});
+
+// Who was notified at each escalation step of an alert
+export const alertEscalations = pgTable("alert_escalations", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => alerts.id),
+  level: integer("level").notNull(), // step position
+  target: text("target").notNull(), // ESCALATION_TARGETS or 'on_call'
+  userId: integer("user_id").references(() => users.id),
+  notifiedAt: timestamp("notified_at").notNull().defaultNow(),
+});
+
+// Outgoing email. Doubles as the send queue: pending rows are retried with a
+// growing delay until they are sent or run out of attempts.
+export const emailLog = pgTable("email_log", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").references(() => alerts.id),
+  userId: integer("user_id").references(() => users.id),
+  recipient: text("recipient").notNull(),
+  event: text("event").notNull(), // see EMAIL_EVENTS
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'sending', 'sent', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(), // while sending, when the claim runs out
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Outbound webhook subscriptions, managed by admins
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key for the signature header
+  events: text("events").array().notNull(), // see WEBHOOK_EVENTS
+  isActive: boolean("is_active").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per event and webhook. Like email_log it is also the retry queue.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventId: uuid("event_id").notNull(), // shared by every delivery of the same event
+  event: text("event").notNull(),
+  payload: text("payload").notNull(), // the exact body that is signed and sent
+  status: text("status").notNull().default("pending"), // 'pending', 'sending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(), // while sending, when the claim runs out
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Sign-ins and admin changes, for the audit log. The actor's username is
+// copied so entries stay readable after the account is deleted.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id),
+  actorName: text("actor_name").notNull(), // the username tried, for failed sign-ins
+  action: text("action").notNull(), // see AUDIT_ACTIONS
+  targetType: text("target_type"), // 'user', 'site', 'cumulative' or 'job'
+  targetId: integer("target_id"),
+  targetLabel: text("target_label"), // username, site name, date or job
+  changes: jsonb("changes").$type<AuditChanges>(), // changed fields only
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+]);
+
+// Changes made to the scheduled jobs (see JOB_NAMES) under System
+// Configuration. Jobs without a row run on their default schedule.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  job: text("job").primaryKey(),
+  schedule: text("schedule"), // cron expression; null for the default
+  paused: boolean("paused").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Every run of a scheduled job, whether on schedule or started by an admin
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: text("job").notNull(),
+  trigger: text("trigger").notNull(), // 'schedule', 'manual' or 'startup'
+  runDate: text("run_date"), // YYYY-MM-DD, for runs of a single day
+  status: text("status").notNull().default("running"), // 'running', 'succeeded', 'failed'
+  rowsWritten: integer("rows_written"),
+  error: text("error"),
+  startedBy: text("started_by"), // username, for manual runs
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("job_runs_job_started_at_idx").on(table.job, table.startedAt),
+]);
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   lastLogin: true,
+  failedLoginAttempts: true,
+  lastFailedLogin: true,
+  lockedUntil: true,
+  twoFactorEnabledAt: true,
 });
 
 export const insertSiteSchema = createInsertSchema(sites).omit({
@@ -101,6 +431,33 @@ export const insertSiteSchema = createInsertSchema(sites).omit({
   createdAt: true,
 });
 
+// Fields an admin edits on the Sites page. Decimal columns accept numbers
+// or numeric strings and are stored with two decimals.
+export const createSiteSchema = insertSiteSchema.pick({
+  name: true,
+  location: true,
+  deviceId: true,
+  fuelCapacity: true,
+  lowFuelThreshold: true,
+  isActive: true,
+}).extend({
+  name: z.string().trim().min(2, "Site name must be at least 2 characters"),
+  location: z.string().trim().min(2, "Location must be at least 2 characters"),
+  deviceId: z.string().trim().min(1, "Device ID is required"),
+  fuelCapacity: z.coerce.number().positive("Fuel capacity must be greater than zero").transform((value) => value.toFixed(2)),
+  lowFuelThreshold: z.coerce.number()
+    .min(0, "Low fuel threshold must be between 0 and 100")
+    .max(100, "Low fuel threshold must be between 0 and 100")
+    .transform((value) => value.toFixed(2))
+    .optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateSiteSchema = createSiteSchema.partial().refine(
+  (updates) => Object.values(updates).some((value) => value !== undefined),
+  "No site fields to update",
+);
+
 export const insertUserSiteAssignmentSchema = createInsertSchema(userSiteAssignments).omit({
   id: true,
   createdAt: true,
@@ -122,15 +479,472 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const requestPasswordResetSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter your username or email address"),
+});
+
+// The new password is checked against the password policy by the server
+export const confirmPasswordResetSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Second sign-in step: a code from the authenticator app or a recovery code
+export const verifyTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().trim().min(1, "Enter a verification code"),
+});
+
+// Confirms enrolment, or proves the app is at hand before changing 2FA. The
+// challenge token stands in for the access token while signing in.
+export const twoFactorCodeSchema = z.object({
+  challengeToken: z.string().optional(),
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.enum(["admin", "supervisor", "manager"])),
+});
+
+// From the security settings; GET /api/auth/password-policy
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number; // earlier passwords that may not be used again
+};
+
+// The policy's requirements, each with a test a password has to pass
+function passwordRules(policy: PasswordPolicy): Array<{ label: string; test: (password: string) => boolean }> {
+  return [
+    { label: `at least ${policy.minLength} characters`, test: (password) => password.length >= policy.minLength },
+    { label: "an uppercase letter", test: (password) => !policy.requireUppercase || /[A-Z]/.test(password) },
+    { label: "a lowercase letter", test: (password) => !policy.requireLowercase || /[a-z]/.test(password) },
+    { label: "a number", test: (password) => !policy.requireNumber || /[0-9]/.test(password) },
+    { label: "a symbol", test: (password) => !policy.requireSymbol || /[^A-Za-z0-9]/.test(password) },
+  ];
+}
+
+function listRules(labels: string[]): string {
+  return labels.length > 1 ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}` : labels[0];
+}
+
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  // Rules the policy turns off pass for any password, even an empty one
+  const required = passwordRules(policy).filter((rule) => !rule.test(""));
+  return `Use ${listRules(required.map((rule) => rule.label))}`;
+}
+
+export function passwordPolicyOf(security: SystemSettings["security"]): PasswordPolicy {
+  return {
+    minLength: security.passwordMinLength,
+    requireUppercase: security.passwordRequireUppercase,
+    requireLowercase: security.passwordRequireLowercase,
+    requireNumber: security.passwordRequireNumber,
+    requireSymbol: security.passwordRequireSymbol,
+    historyCount: security.passwordHistory,
+  };
+}
+
+// What a password is missing under the policy, as one sentence, or null when
+// it complies. Reuse can only be checked by the server.
+export function passwordPolicyError(password: string, policy: PasswordPolicy): string | null {
+  const missing = passwordRules(policy).filter((rule) => !rule.test(password));
+  return missing.length > 0 ? `Password must have ${listRules(missing.map((rule) => rule.label))}` : null;
+}
+
 export const updateViewModeSchema = z.object({
   viewMode: z.enum(["closing", "realtime"]),
 });
 
+export const TANK_SHAPES = ["sensor", "linear", "horizontal_cylinder", "table"] as const;
+export type TankShape = typeof TANK_SHAPES[number];
+
+export const MAX_STRAPPING_POINTS = 500;
+
+export const strappingPointSchema = z.object({
+  // Stored to two decimals, so duplicates are checked at that precision
+  levelPercent: z.coerce.number().min(0).max(100).transform((level) => Math.round(level * 100) / 100),
+  volumeLiters: z.coerce.number().min(0),
+});
+
+export const updateTankProfileSchema = z.object({
+  tankShape: z.enum(TANK_SHAPES),
+  tankDiameterMm: z.coerce.number().positive().nullable().default(null),
+  tankLengthMm: z.coerce.number().positive().nullable().default(null),
+  points: z.array(strappingPointSchema).max(MAX_STRAPPING_POINTS).default([]),
+}).superRefine((profile, ctx) => {
+  if ((profile.tankDiameterMm === null) !== (profile.tankLengthMm === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Give both tank diameter and length, or neither", path: ["tankLengthMm"] });
+  }
+  if (profile.tankShape !== "table") {
+    return;
+  }
+
+  const sorted = [...profile.points].sort((a, b) => a.levelPercent - b.levelPercent);
+  if (sorted.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A strapping table needs at least two points", path: ["points"] });
+  }
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].levelPercent === sorted[i - 1].levelPercent) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Level ${sorted[i].levelPercent}% appears more than once`, path: ["points"] });
+    } else if (sorted[i].volumeLiters < sorted[i - 1].volumeLiters) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Volume must not fall as the level rises (at ${sorted[i].levelPercent}%)`, path: ["points"] });
+    }
+  }
+});
+
+// In order of precedence when a site has more than one alert open.
+export const ALERT_TYPES = ["tank_empty", "low_fuel", "generator_off", "temperature_high", "device_offline"] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+export const ALERT_SEVERITIES = ["warning", "critical"] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  tank_empty: "Tank Empty",
+  low_fuel: "Low Fuel",
+  generator_off: "Generator Off",
+  temperature_high: "High Temperature",
+  device_offline: "Device Offline",
+};
+
+// What a rule's threshold means per type. Low fuel uses the site's own
+// lowFuelThreshold and a generator off during an outage needs no threshold.
+export const ALERT_THRESHOLD_UNITS: Record<AlertType, "%" | "min" | "°C" | null> = {
+  tank_empty: "%",
+  low_fuel: null,
+  generator_off: null,
+  temperature_high: "°C",
+  device_offline: "min",
+};
+
+export function alertThresholdError(type: AlertType, threshold: number | null): string | null {
+  const unit = ALERT_THRESHOLD_UNITS[type];
+  if (unit === null) {
+    return threshold === null ? null : `${ALERT_TYPE_LABELS[type]} rules have no threshold`;
+  }
+  if (threshold === null) {
+    return `${ALERT_TYPE_LABELS[type]} rules need a threshold`;
+  }
+  if (unit === "%" && (threshold < 0 || threshold > 100)) {
+    return "Threshold must be between 0 and 100";
+  }
+  if (unit === "min" && threshold < 1) {
+    return "Threshold must be at least 1 minute";
+  }
+  return null;
+}
+
+// Live readings are for admins only, so everyone else gets the alerts that
+// quote one without it: no value, and a message naming only the threshold.
+export function alertForRole<T extends Alert>(alert: T, role: string): T {
+  if (role === "admin") {
+    return alert;
+  }
+
+  // These types only open with a threshold, so it is always recorded
+  const threshold = parseFloat(alert.threshold ?? "0");
+  switch (alert.type as AlertType) {
+    case "tank_empty":
+      return { ...alert, value: null, message: `Tank is empty: fuel level at or below ${threshold}%` };
+    case "low_fuel":
+      return { ...alert, value: null, message: `Fuel level below the ${threshold}% threshold` };
+    case "temperature_high":
+      return { ...alert, value: null, message: `Fuel temperature above ${threshold}°C` };
+    default:
+      return alert;
+  }
+}
+
+export const updateAlertRuleSchema = z.object({
+  threshold: z.number().nullable().default(null),
+  severity: z.enum(ALERT_SEVERITIES),
+  isEnabled: z.boolean().default(true),
+});
+
+// Site rules only; the global rules always exist and are edited in place.
+export const createAlertRuleSchema = updateAlertRuleSchema.extend({
+  siteId: z.number().int().positive(),
+  type: z.enum(ALERT_TYPES),
+}).superRefine((rule, ctx) => {
+  const error = alertThresholdError(rule.type, rule.threshold);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["threshold"] });
+  }
+});
+
+export const EMAIL_EVENTS = ["alert_opened", "alert_resolved", "alert_escalated", "password_reset", "test"] as const;
+export type EmailEvent = typeof EMAIL_EVENTS[number];
+
+export const notificationPreferencesSchema = z.object({
+  emailAlerts: z.boolean(),
+});
+
+// device.offline and device.online follow the device offline alert opening
+// and resolving; that alert is also sent as alert.opened and alert.resolved.
+export const WEBHOOK_EVENTS = [
+  "alert.opened",
+  "alert.resolved",
+  "alert.escalated",
+  "device.offline",
+  "device.online",
+  "refuel.detected",
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "alert.opened": "Alert opened",
+  "alert.resolved": "Alert resolved",
+  "alert.escalated": "Alert escalated",
+  "device.offline": "Device offline",
+  "device.online": "Device back online",
+  "refuel.detected": "Refuel detected",
+};
+
+// A blank secret keeps the current one, or has one generated for a new webhook.
+export const webhookSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  url: z.string().trim().url("Please enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Select at least one event"),
+  secret: z.string().trim().min(16, "Secret must be at least 16 characters").optional()
+    .or(z.literal("").transform(() => undefined)),
+  isActive: z.boolean().default(true),
+});
+
+export const SETTINGS_SECTIONS = ["general", "scheduler", "security", "notifications"] as const;
+export type SettingsSection = typeof SETTINGS_SECTIONS[number];
+
+// IANA names such as "Africa/Harare", as far as this runtime knows them
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Dates, day boundaries and the closing capture time are in this timezone
+export const generalSettingsSchema = z.object({
+  timezone: z.string().trim().min(1, "Timezone is required").refine(isTimeZone, "Unknown timezone"),
+});
+
+export const schedulerSettingsSchema = z.object({
+  captureTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Capture time must be HH:MM"),
+  backfillDays: z.coerce.number().int("Whole days only").min(0, "Cannot be negative").max(31, "At most 31 days"),
+});
+
+// A session ends once it has not been used for sessionTimeoutMinutes. The
+// password fields are the policy for every password set from now on.
+export const securitySettingsSchema = z.object({
+  jwtExpiryMinutes: z.coerce.number().int("Whole minutes only")
+    .min(1, "At least 1 minute").max(24 * 60, "At most 24 hours"),
+  sessionTimeoutMinutes: z.coerce.number().int("Whole minutes only")
+    .min(5, "At least 5 minutes").max(90 * 24 * 60, "At most 90 days"),
+  maxLoginAttempts: z.coerce.number().int("Whole attempts only").min(3, "At least 3 attempts").max(50, "At most 50 attempts"),
+  passwordMinLength: z.coerce.number().int("Whole characters only")
+    .min(6, "At least 6 characters").max(128, "At most 128 characters"),
+  passwordRequireUppercase: z.boolean(),
+  passwordRequireLowercase: z.boolean(),
+  passwordRequireNumber: z.boolean(),
+  passwordRequireSymbol: z.boolean(),
+  passwordHistory: z.coerce.number().int("Whole passwords only").min(0, "Cannot be negative").max(24, "At most 24 passwords"),
+}).refine((settings) => settings.sessionTimeoutMinutes >= settings.jwtExpiryMinutes, {
+  message: "Session timeout cannot be shorter than the token expiry",
+  path: ["sessionTimeoutMinutes"],
+});
+
+// portalUrl is blank when the portal's address is not known
+export const notificationSettingsSchema = z.object({
+  portalUrl: z.union([
+    z.literal(""),
+    z.string().trim().url("Please enter a valid URL")
+      .refine((url) => /^https?:\/\//i.test(url), "URL must start with http:// or https://")
+      .transform((url) => url.replace(/\/+$/, "")),
+  ]),
+  emailMaxAttempts: z.coerce.number().int("Whole attempts only").min(1, "At least 1 attempt").max(20, "At most 20 attempts"),
+  webhookMaxAttempts: z.coerce.number().int("Whole attempts only").min(1, "At least 1 attempt").max(20, "At most 20 attempts"),
+});
+
+export const systemSettingsSchema = z.object({
+  general: generalSettingsSchema,
+  scheduler: schedulerSettingsSchema,
+  security: securitySettingsSchema,
+  notifications: notificationSettingsSchema,
+});
+
+// Sections left out keep their current values
+export const updateSettingsSchema = systemSettingsSchema.partial()
+  .refine((settings) => Object.keys(settings).length > 0, "No settings to save");
+
+// Closing capture takes every due day that has no closing readings yet, so
+// any schedule works; the capture time setting decides the cutoff.
+export const JOB_NAMES = ["closing-capture", "cumulative-processing", "data-retention"] as const;
+export type JobName = typeof JOB_NAMES[number];
+
+export const JOB_LABELS: Record<JobName, string> = {
+  "closing-capture": "Daily closing capture",
+  "cumulative-processing": "Cumulative processing",
+  "data-retention": "Data retention",
+};
+
+export const JOB_DESCRIPTIONS: Record<JobName, string> = {
+  "closing-capture": "Takes each site's closing reading at the capture time and fills in missed days",
+  "cumulative-processing": "Works out each site's fuel and runtime totals for the previous day",
+  "data-retention": "Deletes old delivery logs, quarantined readings, job history and expired tokens",
+};
+
+export const JOB_RUN_STATUSES = ["running", "succeeded", "failed"] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+// Five fields, or six with seconds first. The server checks the values.
+export const updateJobSchema = z.object({
+  schedule: z.string().trim()
+    .regex(/^\S+(\s+\S+){4,5}$/, "Schedule must be a cron expression such as 55 23 * * *")
+    .nullable(), // null goes back to the default
+  paused: z.boolean(),
+});
+
+// Jobs that work on days can be run for one date; without it a run does what
+// a scheduled one would. The other jobs ignore it.
+export const runJobSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+});
+
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.login_failed",
+  "auth.locked",
+  "auth.password_reset_request",
+  "auth.password_reset",
+  "auth.two_factor_failed",
+  "auth.recovery_code_used",
+  "auth.two_factor_enable",
+  "auth.two_factor_disable",
+  "auth.recovery_codes",
+  "user.create",
+  "user.update",
+  "user.delete",
+  "user.sites",
+  "user.unlock",
+  "user.two_factor_reset",
+  "security.two_factor_policy",
+  "settings.update",
+  "job.update",
+  "job.run",
+  "site.create",
+  "site.update",
+  "site.deactivate",
+  "site.tank",
+  "view_mode.switch",
+  "cumulative.process",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "auth.login": "Signed in",
+  "auth.login_failed": "Sign-in failed",
+  "auth.locked": "Account locked",
+  "auth.password_reset_request": "Password reset requested",
+  "auth.password_reset": "Password reset",
+  "auth.two_factor_failed": "Verification code rejected",
+  "auth.recovery_code_used": "Signed in with a recovery code",
+  "auth.two_factor_enable": "Two-factor enabled",
+  "auth.two_factor_disable": "Two-factor disabled",
+  "auth.recovery_codes": "Recovery codes replaced",
+  "user.create": "User created",
+  "user.update": "User updated",
+  "user.delete": "User deleted",
+  "user.sites": "Site assignments changed",
+  "user.unlock": "Account unlocked",
+  "user.two_factor_reset": "Two-factor reset",
+  "security.two_factor_policy": "Two-factor policy changed",
+  "settings.update": "System settings changed",
+  "job.update": "Scheduled job changed",
+  "job.run": "Scheduled job started",
+  "site.create": "Site created",
+  "site.update": "Site updated",
+  "site.deactivate": "Site deactivated",
+  "site.tank": "Tank profile changed",
+  "view_mode.switch": "View mode switched",
+  "cumulative.process": "Cumulative readings processed",
+};
+
+// field -> values before and after; secrets such as passwords are masked
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Escalation steps name a role rather than people: the managers or
+// supervisors assigned to the alert's site, or every admin.
+export const ESCALATION_TARGETS = ["manager", "supervisor", "admin"] as const;
+export type EscalationTarget = typeof ESCALATION_TARGETS[number];
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget | "on_call", string> = {
+  manager: "Site manager",
+  supervisor: "Site supervisors",
+  admin: "Admins",
+  on_call: "On-call",
+};
+
+export const MAX_ESCALATION_STEPS = 10;
+const MAX_ESCALATION_DELAY_MINUTES = 7 * 24 * 60;
+
+export const escalationStepSchema = z.object({
+  target: z.enum(ESCALATION_TARGETS),
+  delayMinutes: z.number().int().min(0, "Delay cannot be negative")
+    .max(MAX_ESCALATION_DELAY_MINUTES, "Delay cannot be more than a week"),
+});
+
+const escalationPolicyFields = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  rotationId: z.number().int().positive().nullable(),
+  steps: z.array(escalationStepSchema)
+    .min(1, "Add at least one step")
+    .max(MAX_ESCALATION_STEPS, `A policy can have at most ${MAX_ESCALATION_STEPS} steps`),
+});
+
+function checkStepOrder(policy: z.infer<typeof escalationPolicyFields>, ctx: z.RefinementCtx) {
+  policy.steps.forEach((step, index) => {
+    if (index > 0 && step.delayMinutes < policy.steps[index - 1].delayMinutes) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Each step must come no earlier than the one before it",
+        path: ["steps", index, "delayMinutes"],
+      });
+    }
+  });
+}
+
+export const updateEscalationPolicySchema = escalationPolicyFields.superRefine(checkStepOrder);
+
+// Only site policies are created through the API; the global one is seeded.
+export const createEscalationPolicySchema = escalationPolicyFields.extend({
+  siteId: z.number().int().positive(),
+}).superRefine(checkStepOrder);
+
+export const onCallRotationSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  memberIds: z.array(z.number().int().positive()).min(1, "Add at least one member"),
+  startsAt: z.coerce.date({ invalid_type_error: "Please enter a valid start date" }),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Site = typeof sites.$inferSelect;
 export type InsertSite = z.infer<typeof insertSiteSchema>;
+export type CreateSiteRequest = z.infer<typeof createSiteSchema>;
+export type UpdateSiteRequest = z.infer<typeof updateSiteSchema>;
 export type UserSiteAssignment = typeof userSiteAssignments.$inferSelect;
 export type InsertUserSiteAssignment = z.infer<typeof insertUserSiteAssignmentSchema>;
 export type DailyClosingReading = typeof dailyClosingReadings.$inferSelect;
@@ -138,13 +952,134 @@ export type InsertDailyClosingReading = z.infer<typeof insertDailyClosingReading
 export type AdminPreference = typeof adminPreferences.$inferSelect;
 export type InsertAdminPreference = z.infer<typeof insertAdminPreferenceSchema>;
 export type SensorReading = typeof sensorReadings.$inferSelect;
+export type InsertSensorReading = typeof sensorReadings.$inferInsert;
+export type QuarantinedReading = typeof quarantinedReadings.$inferSelect;
+export type TankStrappingPoint = typeof tankStrappingPoints.$inferSelect;
+export type InsertTankStrappingPoint = typeof tankStrappingPoints.$inferInsert;
+export type UpdateTankProfileRequest = z.infer<typeof updateTankProfileSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = typeof alertRules.$inferInsert;
+export type CreateAlertRuleRequest = z.infer<typeof createAlertRuleSchema>;
+export type UpdateAlertRuleRequest = z.infer<typeof updateAlertRuleSchema>;
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = typeof alerts.$inferInsert;
+export type EmailLogEntry = typeof emailLog.$inferSelect;
+export type InsertEmailLogEntry = typeof emailLog.$inferInsert;
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+export type OnCallRotation = typeof onCallRotations.$inferSelect;
+export type InsertOnCallRotation = typeof onCallRotations.$inferInsert;
+export type OnCallRotationRequest = z.infer<typeof onCallRotationSchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+export type InsertEscalationPolicy = typeof escalationPolicies.$inferInsert;
+export type EscalationStep = typeof escalationSteps.$inferSelect;
+export type EscalationStepRequest = z.infer<typeof escalationStepSchema>;
+export type CreateEscalationPolicyRequest = z.infer<typeof createEscalationPolicySchema>;
+export type UpdateEscalationPolicyRequest = z.infer<typeof updateEscalationPolicySchema>;
+export type AlertEscalation = typeof alertEscalations.$inferSelect;
+export type InsertAlertEscalation = typeof alertEscalations.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = typeof webhooks.$inferInsert;
+export type WebhookRequest = z.infer<typeof webhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type UpdateViewModeRequest = z.infer<typeof updateViewModeSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = typeof refreshTokens.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type RequestPasswordResetRequest = z.infer<typeof requestPasswordResetSchema>;
+export type ConfirmPasswordResetRequest = z.infer<typeof confirmPasswordResetSchema>;
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type VerifyTwoFactorRequest = z.infer<typeof verifyTwoFactorSchema>;
+export type TwoFactorCodeRequest = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorPolicyRequest = z.infer<typeof twoFactorPolicySchema>;
+export type SystemSettingsRow = typeof systemSettings.$inferSelect;
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+export type UpdateSettingsRequest = z.infer<typeof updateSettingsSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+export type UpdateJobRequest = z.infer<typeof updateJobSchema>;
+export type RunJobRequest = z.infer<typeof runJobSchema>;
 
 // Response types
 export type AuthResponse = {
   user: Omit<User, 'password'>;
-  token: string;
+  token: string;        // short-lived access token
+  refreshToken: string; // single-use, exchanged at /api/auth/refresh
+};
+
+// Returned by /api/auth/login instead of an AuthResponse when a second step
+// is needed: "verify" asks for a code, "enroll" means the user's role requires
+// 2FA and an authenticator has to be set up first.
+export type TwoFactorChallengeResponse = {
+  twoFactor: "verify" | "enroll";
+  challengeToken: string; // short-lived, sent back with the second step
+};
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export type TwoFactorSetupResponse = {
+  secret: string;     // base32, for typing into the app by hand
+  otpauthUrl: string;
+  qrCode: string;     // data: URL of the otpauth URL as a QR code
+};
+
+// Shown once; only hashes are kept. `auth` completes a sign-in that needed enrolment.
+export type TwoFactorEnableResponse = {
+  recoveryCodes: string[];
+  auth?: AuthResponse;
+};
+
+export type TwoFactorStatusResponse = {
+  enabled: boolean;
+  required: boolean; // the user's role requires it, so it cannot be turned off
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorPolicyResponse = {
+  requiredRoles: Array<"admin" | "supervisor" | "manager">;
+};
+
+// The dashboard view saved for the user. Only admins can save "realtime";
+// everyone else always gets "closing".
+export type ViewModeResponse = {
+  viewMode: UpdateViewModeRequest["viewMode"];
+  updatedAt: Date | null; // null until a mode was saved
+};
+
+// Every section, with defaults from the server's environment for sections
+// nobody has saved yet
+export type SettingsResponse = {
+  settings: SystemSettings;
+  updatedAt: Record<SettingsSection, Date | null>; // null while a section is on its defaults
+};
+
+// A scheduled job as the Scheduler tab shows it
+export type JobSummary = {
+  name: JobName;
+  label: string;
+  description: string;
+  schedule: string; // in the general settings' timezone
+  defaultSchedule: string;
+  paused: boolean;
+  takesDate: boolean; // a manual run can be for a chosen day
+  running: boolean;
+  lastRun: JobRun | null;
+  nextRun: Date | null; // null while paused
+};
+
+export type PasswordPolicyResponse = {
+  policy: PasswordPolicy;
+  resetAvailable: boolean; // false until email and PORTAL_URL are configured
+};
+
+export type TankProfileResponse = Pick<Site, "tankShape" | "tankDiameterMm" | "tankLengthMm" | "fuelCapacity"> & {
+  points: TankStrappingPoint[];
 };
 
 export type SiteWithReadings = Site & {
@@ -152,10 +1087,17 @@ export type SiteWithReadings = Site & {
   generatorOnline: boolean;
   zesaOnline: boolean;
   fuelLevelPercentage: number;
-  alertStatus: 'normal' | 'low_fuel' | 'generator_off';
+  alertStatus: 'normal' | AlertType | 'suspected_theft'; // the incident or highest-precedence unresolved alert
   icingaOnline: boolean; 
+  activeIncident?: FuelIncident; // most recent unexplained drop, while it is still recent
+  activeAlerts: Alert[]; // open and acknowledged alerts
 };
 
+// Sites counted under "Low Fuel Alerts" on the dashboard
+export function isLowOnFuel(site: Pick<SiteWithReadings, "activeAlerts">): boolean {
+  return site.activeAlerts.some((alert) => alert.type === "low_fuel" || alert.type === "tank_empty");
+}
+
 export type DashboardData = {
   sites: SiteWithReadings[];
   systemStatus: {
@@ -177,13 +1119,33 @@ export type DashboardData = {
   }>;
 };
 
+// Pushed to admins over the /api/live WebSocket as readings arrive; each
+// update replaces the matching fields of a site in the realtime dashboard.
+export type LiveSiteUpdate = Pick<
+  SiteWithReadings,
+  | "id"
+  | "latestReading"
+  | "generatorOnline"
+  | "zesaOnline"
+  | "fuelLevelPercentage"
+  | "alertStatus"
+  | "icingaOnline"
+  | "activeIncident"
+  | "activeAlerts"
+>;
+
+export type LiveMessage = {
+  type: "site-updates";
+  updates: LiveSiteUpdate[];
+};
+
 // Enhanced user schemas for better validation
 export const createUserSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
   role: z.enum(["admin", "supervisor", "manager"]),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: z.string().min(1, "Password is required"), // checked against the password policy
   isActive: z.boolean().default(true),
 });
 
@@ -191,7 +1153,7 @@ export const updateUserSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
   role: z.enum(["admin", "supervisor", "manager"]),
-  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  password: z.string().min(1, "Password is required").optional(),
   isActive: z.boolean(),
 });
 
@@ -200,4 +1162,198 @@ export type CreateUserRequest = z.infer<typeof createUserSchema>;
 export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
 
 export type CumulativeReading = typeof cumulativeReadings.$inferSelect;
-export type InsertCumulativeReading = typeof cumulativeReadings.$inferInsert;
\ No newline at end of file
+export type InsertCumulativeReading = typeof cumulativeReadings.$inferInsert;
+
+export type FuelIncident = typeof fuelIncidents.$inferSelect;
+export type InsertFuelIncident = typeof fuelIncidents.$inferInsert;
+export type RefuelEvent = typeof refuelEvents.$inferSelect;
+export type InsertRefuelEvent = typeof refuelEvents.$inferInsert;
+
+// Sensor names as reported into sensor_readings by the field devices
+export const SENSOR_NAMES = {
+  fuelLevel: "fuel_sensor_level",
+  fuelVolume: "fuel_sensor_volume",
+  fuelTemp: "fuel_sensor_temp",
+  fuelTemperature: "fuel_sensor_temperature",
+  generatorState: "generator_state",
+  zesaState: "zesa_state",
+} as const;
+
+export type SensorName = typeof SENSOR_NAMES[keyof typeof SENSOR_NAMES];
+
+// Analytics response types
+export type CumulativeSiteSummary = {
+  siteId: number;
+  siteName: string;
+  deviceId: string;
+  totalFuelConsumed: number;
+  totalGeneratorHours: number;
+  totalZesaHours: number;
+  readingDays: number;
+  dateRange: {
+    first: string;
+    last: string;
+  };
+};
+
+export type CumulativeResponse = {
+  sites: CumulativeSiteSummary[];
+  summary: {
+    dateRange: {
+      start: string;
+      end: string;
+      isRange: boolean;
+    };
+    totalSites: number;
+    totalFuelConsumed: number;
+    totalGeneratorHours: number;
+    totalZesaHours: number;
+    averageFuelPerSite: number;
+    daysIncluded: number;
+  };
+};
+
+export type ProcessCumulativeResponse = {
+  date: string;
+  readings: CumulativeReading[];
+  summary: {
+    processedSites: number;
+    skippedSites: number;
+  };
+};
+
+export const processCumulativeSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+});
+
+export const assignSitesSchema = z.object({
+  siteIds: z.array(z.number().int().positive()),
+});
+
+// A manager or supervisor assigned to a site, for the Sites page
+export type SiteAssignee = {
+  siteId: number;
+  userId: number;
+  username: string;
+  fullName: string;
+  role: string;
+};
+
+export type AlertEntry = Alert & {
+  siteName: string;
+  acknowledgedByName: string | null;
+  escalatedTo: string[]; // names of everyone notified by escalation, in order
+};
+
+export type EscalationPolicyWithSteps = EscalationPolicy & {
+  steps: EscalationStep[];
+};
+
+// A rotation with whoever holds it right now, for the Escalation tab
+export type OnCallRotationEntry = OnCallRotation & {
+  onCallUserId: number | null;
+  nextHandoffAt: Date;
+};
+
+// Email channel as configured through the environment, for the
+// Notifications tab
+export type EmailSettingsResponse = {
+  enabled: boolean;
+  host: string | null;
+  port: number;
+  secure: boolean;
+  from: string;
+  maxAttempts: number;
+  subscribers: Array<Pick<User, "id" | "fullName" | "email" | "role" | "emailAlerts">>;
+};
+
+// One page of the audit log and how many entries match the filter in all
+export type AuditLogResponse = {
+  events: AuditEvent[];
+  total: number;
+};
+
+export type RefuelLogEntry = RefuelEvent & {
+  siteName: string;
+};
+
+export type FuelIncidentEntry = FuelIncident & {
+  siteName: string;
+  // Fuel and generator readings around the drop, for review. Raw sensor
+  // data, so admins only; null for everyone else.
+  evidence: {
+    from: Date;
+    to: Date;
+    readings: SensorReading[];
+  } | null;
+};
+
+// Time series of one site for the site detail page. Admins get every sensor
+// sample; managers and supervisors get the daily closing readings.
+export type SiteHistoryPoint = {
+  time: Date;
+  value: number;
+};
+
+export type SiteHistoryResponse = {
+  site: Site;
+  source: "raw" | "closing";
+  from: Date;
+  to: Date;
+  fuelLevel: SiteHistoryPoint[];
+  fuelVolume: SiteHistoryPoint[];
+  temperature: SiteHistoryPoint[];
+  generatorState: SiteHistoryPoint[]; // 1 = on, 0 = off
+  zesaState: SiteHistoryPoint[];
+  refuels: RefuelEvent[];
+  incidents: FuelIncident[];
+  dailyTotals: CumulativeReading[];
+};
+
+// Downsampled history of selected sensors, from /api/readings/history/:siteId.
+// Closing-only users get one point per captured day.
+export type ReadingHistorySeries = {
+  sensorName: SensorName;
+  unit: string;
+  sampleCount: number; // samples in the range before downsampling
+  points: SiteHistoryPoint[];
+};
+
+export type ReadingHistoryResponse = {
+  siteId: number;
+  source: "raw" | "closing";
+  from: Date;
+  to: Date;
+  series: ReadingHistorySeries[];
+};
+
+// Device ingestion
+export const ingestReadingSchema = z.object({
+  deviceId: z.string().trim().min(1, "deviceId is required"),
+  sensorName: z.string().trim().min(1, "sensorName is required"),
+  value: z.coerce.number().finite(),
+  unit: z.string().default(""),
+  time: z.coerce.date(),
+});
+
+export const MAX_INGEST_BATCH = 1000;
+
+// Accepts a single reading, an array of readings or { readings: [...] }
+export const ingestRequestSchema = z.preprocess(
+  (body) => {
+    if (Array.isArray(body)) return body;
+    if (body && typeof body === "object" && "readings" in body) return body.readings;
+    return [body];
+  },
+  z.array(ingestReadingSchema).min(1).max(MAX_INGEST_BATCH),
+);
+
+export type IngestReading = z.infer<typeof ingestReadingSchema>;
+
+export type IngestResponse = {
+  received: number;
+  accepted: number;
+  duplicates: number;
+  quarantined: number;
+  rejected: Array<{ index: number; deviceId: string; reason: string }>;
+};